@@ -26,11 +26,21 @@ export const IGNORE_FRONTMATTER_KEY = 'dataview_serializer_ignore'
  */
 export const DEVICE_DISABLED_STORAGE_KEY = 'dataview-serializer:disabled-on-device'
 
+/**
+ * Key used to persist the hashes of the DataviewJS code approved on this device.
+ *
+ * Like the "disable on this device" flag, approvals live in device-local storage:
+ * a note synced from another device never runs code that was not reviewed here.
+ */
+export const DATAVIEWJS_APPROVALS_STORAGE_KEY = 'dataview-serializer:approved-dataviewjs'
+
 // Legacy syntax (original)
 export const QUERY_FLAG_OPEN = `<!-- QueryToSerialize: `
 export const QUERY_FLAG_MANUAL_OPEN = `<!-- QueryToSerializeManual: `
 export const QUERY_FLAG_ONCE_OPEN = `<!-- QueryToSerializeOnce: `
 export const QUERY_FLAG_ONCE_AND_EJECT_OPEN = `<!-- QueryToSerializeOnceAndEject: `
+// Scheduled queries: the refresh interval and a colon follow, e.g. `<!-- QueryToSerializeEvery 1h: `
+export const QUERY_FLAG_EVERY_OPEN = `<!-- QueryToSerializeEvery `
 export const QUERY_FLAG_CLOSE = ` -->`
 
 // Alternative syntax (more descriptive)
@@ -38,6 +48,8 @@ export const QUERY_FLAG_OPEN_ALT = `<!-- dataview-serializer-query: `
 export const QUERY_FLAG_MANUAL_OPEN_ALT = `<!-- dataview-serializer-query-manual: `
 export const QUERY_FLAG_ONCE_OPEN_ALT = `<!-- dataview-serializer-query-once: `
 export const QUERY_FLAG_ONCE_AND_EJECT_OPEN_ALT = `<!-- dataview-serializer-query-once-and-eject: `
+// Scheduled queries: the refresh interval and a colon follow, e.g. `<!-- dataview-serializer-query-every 1h: `
+export const QUERY_FLAG_EVERY_OPEN_ALT = `<!-- dataview-serializer-query-every `
 // Closing flag is the same for both syntaxes: ` -->`
 
 // Query and serialized query structure: <!-- SerializedQuery: QUERY -->\n<markdown>\n<!-- SerializedQuery END -->
@@ -64,6 +76,64 @@ export const MINIMUM_SECONDS_BETWEEN_UPDATES = 5
 
 export const MINIMUM_MS_BETWEEN_EVENTS = 500
 
+/**
+ * Events triggered by Dataview on the metadata cache.
+ * - metadata-change: a note was (re)indexed, renamed or deleted; args: (type, file, oldPath?)
+ * - index-ready: the initial index of the vault is complete
+ */
+export const DATAVIEW_METADATA_CHANGE_EVENT = 'dataview:metadata-change'
+export const DATAVIEW_INDEX_READY_EVENT = 'dataview:index-ready'
+
+/**
+ * How often the plugin checks for scheduled queries that are due
+ */
+export const SCHEDULED_QUERIES_CHECK_INTERVAL_MS = 60 * 1000
+
+/**
+ * Key used to persist when each scheduled query last ran.
+ *
+ * Stored in device-local storage, like `DEVICE_DISABLED_STORAGE_KEY`: it only
+ * changes on timer ticks and must not cause sync churn in the plugin's `data.json`.
+ */
+export const QUERY_SCHEDULE_STORAGE_KEY = 'dataview-serializer:query-schedule'
+
+/**
+ * View type of the tab previewing the changes of a vault-wide serialization
+ */
+export const SERIALIZATION_PREVIEW_VIEW_TYPE = 'dataview-serializer-preview'
+
+/**
+ * View type of the tab listing every query of the vault
+ */
+export const QUERY_DASHBOARD_VIEW_TYPE = 'dataview-serializer-query-dashboard'
+
+/**
+ * View type of the side panel listing the failing queries
+ */
+export const ERROR_LOG_VIEW_TYPE = 'dataview-serializer-error-log'
+
+/**
+ * View type of the tab listing the execution times of the queries
+ */
+export const PERFORMANCE_VIEW_TYPE = 'dataview-serializer-performance'
+
+/**
+ * Name of the file holding the failing queries, in the plugin's folder
+ */
+export const ERROR_LOG_FILE_NAME = 'error-log.json'
+
+/**
+ * Name of the file holding the result history, in the plugin's folder.
+ * Kept out of the plugin's `data.json`, which it would otherwise bloat.
+ */
+export const RESULT_HISTORY_FILE_NAME = 'result-history.json'
+
+/**
+ * Bounds of the number of results kept per query in the result history
+ */
+export const MIN_RESULT_HISTORY_SIZE = 1
+export const MAX_RESULT_HISTORY_SIZE = 50
+
 // Legacy inline query markers (for expressions like =this.field)
 export const INLINE_QUERY_FLAG_OPEN = `<!-- IQ: `
 export const INLINE_QUERY_FLAG_MANUAL_OPEN = `<!-- IQManual: `
@@ -80,11 +150,31 @@ export const INLINE_QUERY_FLAG_ONCE_AND_EJECT_OPEN_ALT = `<!-- dataview-serializ
 // Closing flag is the same for both syntaxes: ` -->`
 export const INLINE_QUERY_END_ALT = `<!-- /dataview-serializer-iq -->`
 
+// Legacy property query markers (the result goes into a frontmatter property):
+// `<!-- PropertyQuery backlink_count: =length(this.file.inlinks) -->`
+export const PROPERTY_QUERY_FLAG_OPEN = `<!-- PropertyQuery `
+export const PROPERTY_QUERY_FLAG_MANUAL_OPEN = `<!-- PropertyQueryManual `
+export const PROPERTY_QUERY_FLAG_ONCE_OPEN = `<!-- PropertyQueryOnce `
+export const PROPERTY_QUERY_FLAG_ONCE_AND_EJECT_OPEN = `<!-- PropertyQueryOnceAndEject `
+
+// Alternative property query markers
+export const PROPERTY_QUERY_FLAG_OPEN_ALT = `<!-- dataview-serializer-property `
+export const PROPERTY_QUERY_FLAG_MANUAL_OPEN_ALT = `<!-- dataview-serializer-property-manual `
+export const PROPERTY_QUERY_FLAG_ONCE_OPEN_ALT = `<!-- dataview-serializer-property-once `
+export const PROPERTY_QUERY_FLAG_ONCE_AND_EJECT_OPEN_ALT = `<!-- dataview-serializer-property-once-and-eject `
+// Closing flag is the same as regular queries: ` -->`
+
 export const QUERY_TYPE_LIST = 'list'
 export const QUERY_TYPE_TABLE = 'table'
 export const QUERY_TYPE_TASK = 'task'
+export const QUERY_TYPE_CALENDAR = 'calendar'
 
-export const SUPPORTED_QUERY_TYPES = [QUERY_TYPE_LIST, QUERY_TYPE_TABLE, QUERY_TYPE_TASK]
+export const SUPPORTED_QUERY_TYPES = [
+    QUERY_TYPE_LIST,
+    QUERY_TYPE_TABLE,
+    QUERY_TYPE_TASK,
+    QUERY_TYPE_CALENDAR
+]
 
 // DataviewJS query markers - Legacy syntax
 export const DATAVIEWJS_FLAG_OPEN = `<!-- DataviewJSToSerialize:`
@@ -107,5 +197,22 @@ export const SERIALIZED_DATAVIEWJS_END = '<!-- SerializedDataviewJS END -->'
 export const SERIALIZED_DATAVIEWJS_START_ALT = `<!-- dataview-serializer-js-result`
 export const SERIALIZED_DATAVIEWJS_END_ALT = '<!-- dataview-serializer-js-result-end -->'
 
+// Fenced definitions: the query is the content of a code block, whose language names
+// the update mode, e.g. ```dataview-serialize-manual. Results use the alternative markers.
+export const QUERY_FENCE_LANGUAGE = 'dataview-serialize'
+export const DATAVIEWJS_FENCE_LANGUAGE = 'dataviewjs-serialize'
+
 // DataviewJS execution timeout (5 seconds)
 export const DATAVIEWJS_TIMEOUT_MS = 5000
+
+/**
+ * Version of the public API of the plugin (see `DataviewSerializerApi`).
+ * Incremented on breaking changes only.
+ */
+export const PLUGIN_API_VERSION = 1
+
+// Workspace events triggered along the serialization of a note (see `SerializerEventMap`)
+export const SERIALIZER_EVENT_BEFORE_FILE = 'dataview-serializer:before-file'
+export const SERIALIZER_EVENT_QUERY_SERIALIZED = 'dataview-serializer:query-serialized'
+export const SERIALIZER_EVENT_FILE_WRITTEN = 'dataview-serializer:file-written'
+export const SERIALIZER_EVENT_ERROR = 'dataview-serializer:error'
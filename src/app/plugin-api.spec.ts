@@ -0,0 +1,157 @@
+import { describe, expect, it, mock } from 'bun:test'
+import { App, TFile } from 'obsidian'
+import { PluginApi, type PluginApiHost } from './plugin-api'
+import { DEFAULT_SETTINGS } from './types/plugin-settings.intf'
+import type { FileProcessingResult } from './types/file-processing-result.intf'
+import type { SerializedCallback } from './types/plugin-api.intf'
+import { PLUGIN_API_VERSION } from './constants'
+
+const NOTE_TEXT = [
+    '<!-- QueryToSerialize: LIST FROM #project -->',
+    'Updated: <!-- IQManual: =this.file.mtime --><!-- /IQ -->'
+].join('\n')
+
+const buildFile = (path: string, extension = 'md'): TFile =>
+    Object.assign(new TFile(), { path, extension })
+
+const buildHost = (
+    processFile: PluginApiHost['processFile'] = async (file) => ({
+        filePath: file.path,
+        errors: []
+    })
+): PluginApiHost => {
+    const files = new Map<string, TFile>([
+        ['Dashboard.md', buildFile('Dashboard.md')],
+        ['Drawing.canvas', buildFile('Drawing.canvas', 'canvas')]
+    ])
+    const app = Object.assign(new App(), {
+        vault: {
+            getAbstractFileByPath: (path: string) => files.get(path) ?? null,
+            cachedRead: async () => NOTE_TEXT
+        }
+    })
+
+    return { app, settings: DEFAULT_SETTINGS, dataviewApi: undefined, processFile }
+}
+
+describe('PluginApi', () => {
+    it('should expose its version', () => {
+        expect(new PluginApi(buildHost()).version).toBe(PLUGIN_API_VERSION)
+    })
+
+    describe('serializeFile', () => {
+        it('should serialize the note like a command by default', async () => {
+            const processFile = mock<PluginApiHost['processFile']>(
+                async (): Promise<FileProcessingResult> => ({
+                    filePath: 'Dashboard.md',
+                    errors: [],
+                    written: true
+                })
+            )
+            const api = new PluginApi(buildHost(processFile))
+
+            const result = await api.serializeFile('Dashboard.md')
+
+            expect(result).toEqual({
+                path: 'Dashboard.md',
+                changed: true,
+                errors: [],
+                updatedText: undefined
+            })
+            expect(processFile.mock.calls[0]?.slice(1)).toEqual([true, undefined, true, false])
+        })
+
+        it('should pass the options through', async () => {
+            const processFile = mock<PluginApiHost['processFile']>(
+                async (): Promise<FileProcessingResult> => ({
+                    filePath: 'Dashboard.md',
+                    errors: [],
+                    originalText: 'before',
+                    updatedText: 'after'
+                })
+            )
+            const api = new PluginApi(buildHost(processFile))
+
+            const result = await api.serializeFile('Dashboard.md', {
+                force: false,
+                query: 'LIST FROM #project',
+                includeManualQueries: false,
+                dryRun: true
+            })
+
+            expect(result.changed).toBe(true)
+            expect(result.updatedText).toBe('after')
+            expect(processFile.mock.calls[0]?.slice(1)).toEqual([
+                false,
+                'LIST FROM #project',
+                false,
+                true
+            ])
+        })
+
+        it('should reject paths that are not notes', async () => {
+            const api = new PluginApi(buildHost())
+
+            await expect(api.serializeFile('Missing.md')).rejects.toThrow('Missing.md')
+            await expect(api.serializeFile('Drawing.canvas')).rejects.toThrow('Drawing.canvas')
+        })
+    })
+
+    describe('serializeQuery', () => {
+        it('should fail without Dataview', async () => {
+            const api = new PluginApi(buildHost())
+
+            await expect(api.serializeQuery('LIST', 'Dashboard.md')).rejects.toThrow('Dataview')
+        })
+    })
+
+    describe('listQueries', () => {
+        it('should list the block and inline queries of a note', async () => {
+            const api = new PluginApi(buildHost())
+
+            expect(await api.listQueries('Dashboard.md')).toEqual([
+                {
+                    type: 'block',
+                    query: 'LIST FROM #project',
+                    updateMode: 'auto',
+                    syntaxVariant: 'legacy'
+                },
+                {
+                    type: 'inline',
+                    query: '=this.file.mtime',
+                    updateMode: 'manual',
+                    syntaxVariant: 'legacy'
+                }
+            ])
+        })
+    })
+
+    describe('onSerialized', () => {
+        it('should notify the registered callbacks until they unregister', () => {
+            const api = new PluginApi(buildHost())
+            const callback = mock<SerializedCallback>(() => {})
+            const unregister = api.onSerialized(callback)
+
+            api.notifySerialized({ filePath: 'Dashboard.md', errors: [] })
+            unregister()
+            api.notifySerialized({ filePath: 'Dashboard.md', errors: [] })
+
+            expect(callback.mock.calls).toEqual([
+                [{ path: 'Dashboard.md', changed: true, errors: [] }]
+            ])
+        })
+
+        it('should keep notifying when a callback fails', () => {
+            const api = new PluginApi(buildHost())
+            const callback = mock<SerializedCallback>(() => {})
+            api.onSerialized(() => {
+                throw new Error('boom')
+            })
+            api.onSerialized(callback)
+
+            api.notifySerialized({ filePath: 'Dashboard.md', errors: [] })
+
+            expect(callback).toHaveBeenCalledTimes(1)
+        })
+    })
+})
@@ -0,0 +1,172 @@
+import { App, TFile } from 'obsidian'
+import type { TAbstractFile } from 'obsidian'
+import type { DataviewApi } from 'obsidian-dataview/lib/api/plugin-api'
+
+import { MARKDOWN_FILE_EXTENSION, PLUGIN_API_VERSION } from './constants'
+import type { FileProcessingResult } from './types/file-processing-result.intf'
+import type {
+    DataviewSerializerApi,
+    ListedQuery,
+    SerializedCallback,
+    SerializeFileOptions,
+    SerializeFileResult
+} from './types/plugin-api.intf'
+import type { PluginSettings } from './types/plugin-settings.intf'
+import { findDataviewJSQueries } from './utils/find-dataviewjs-queries.fn'
+import { findInlineQueries } from './utils/find-inline-queries.fn'
+import { buildPropertyQueryKey, findPropertyQueries } from './utils/find-property-queries.fn'
+import { findQueries } from './utils/find-queries.fn'
+import { isSupportedQueryType } from './utils/is-supported-query-type.fn'
+import { serializeQuery } from './utils/serialize-query.fn'
+import { log } from '../utils/log'
+
+/**
+ * What the public API needs from the plugin
+ */
+export interface PluginApiHost {
+    readonly app: App
+    readonly settings: PluginSettings
+    readonly dataviewApi: DataviewApi | undefined
+    processFile(
+        file: TAbstractFile,
+        force?: boolean,
+        targetQuery?: string,
+        isManualTrigger?: boolean,
+        dryRun?: boolean
+    ): Promise<FileProcessingResult>
+}
+
+/**
+ * The public API of the plugin (see `DataviewSerializerApi`).
+ *
+ * Its functions are bound, so that scripts can destructure them.
+ */
+export class PluginApi implements DataviewSerializerApi {
+    readonly version = PLUGIN_API_VERSION
+
+    private readonly serializedCallbacks = new Set<SerializedCallback>()
+
+    constructor(private readonly host: PluginApiHost) {}
+
+    serializeFile = async (
+        path: string,
+        options: SerializeFileOptions = {}
+    ): Promise<SerializeFileResult> => {
+        const file = this.getMarkdownFile(path)
+        const dryRun = options.dryRun ?? false
+        const result = await this.host.processFile(
+            file,
+            options.force ?? true,
+            options.query,
+            options.includeManualQueries ?? true,
+            dryRun
+        )
+
+        return {
+            path: file.path,
+            changed: dryRun ? result.updatedText !== undefined : (result.written ?? false),
+            errors: result.errors,
+            updatedText: result.updatedText
+        }
+    }
+
+    serializeQuery = async (query: string, originFile: string): Promise<string> => {
+        const dataviewApi = this.host.dataviewApi
+        if (!dataviewApi) {
+            throw new Error('The Dataview plugin is not available')
+        }
+        if (!isSupportedQueryType(query.trim())) {
+            throw new Error(
+                `Unsupported query type, expected LIST, TABLE, TASK or CALENDAR: ${query}`
+            )
+        }
+
+        const result = await serializeQuery({
+            query: query.trim(),
+            originFile,
+            dataviewApi,
+            app: this.host.app,
+            linkFormat: this.host.settings.linkFormat,
+            rowTemplatePresets: this.host.settings.rowTemplatePresets
+        })
+        if (!result.success) {
+            throw new Error(result.error?.message ?? `Failed to serialize the query: ${query}`)
+        }
+
+        return result.serializedContent
+    }
+
+    listQueries = async (path: string): Promise<ListedQuery[]> => {
+        const text = await this.host.app.vault.cachedRead(this.getMarkdownFile(path))
+
+        return [
+            ...findQueries(text).map(
+                (query): ListedQuery => ({
+                    type: 'block',
+                    query: query.query,
+                    updateMode: query.updateMode,
+                    syntaxVariant: query.syntaxVariant
+                })
+            ),
+            ...findInlineQueries(text).map(
+                (query): ListedQuery => ({
+                    type: 'inline',
+                    query: query.expression,
+                    updateMode: query.updateMode,
+                    syntaxVariant: query.syntaxVariant
+                })
+            ),
+            ...findDataviewJSQueries(text).map(
+                (query): ListedQuery => ({
+                    type: 'dataviewjs',
+                    query: query.jsCode,
+                    updateMode: query.updateMode,
+                    syntaxVariant: query.syntaxVariant
+                })
+            ),
+            ...findPropertyQueries(text).map(
+                (query): ListedQuery => ({
+                    type: 'property',
+                    query: buildPropertyQueryKey(query),
+                    updateMode: query.updateMode,
+                    syntaxVariant: query.syntaxVariant
+                })
+            )
+        ]
+    }
+
+    onSerialized = (callback: SerializedCallback): (() => void) => {
+        this.serializedCallbacks.add(callback)
+        return () => {
+            this.serializedCallbacks.delete(callback)
+        }
+    }
+
+    /**
+     * Call the callbacks registered with `onSerialized`.
+     * Not part of `DataviewSerializerApi`: only the plugin notifies.
+     */
+    notifySerialized(result: FileProcessingResult): void {
+        const serialized: SerializeFileResult = {
+            path: result.filePath,
+            changed: true,
+            errors: result.errors
+        }
+
+        for (const callback of this.serializedCallbacks) {
+            try {
+                callback(serialized)
+            } catch (e: unknown) {
+                log('A callback registered with onSerialized failed', 'warn', e)
+            }
+        }
+    }
+
+    private getMarkdownFile(path: string): TFile {
+        const file = this.host.app.vault.getAbstractFileByPath(path)
+        if (!(file instanceof TFile) || file.extension !== MARKDOWN_FILE_EXTENSION) {
+            throw new Error(`No note found at ${path}`)
+        }
+        return file
+    }
+}
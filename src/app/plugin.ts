@@ -1,19 +1,37 @@
 import { registerWhatsNewView } from './whats-new'
-import { App, debounce, Notice, Plugin, TAbstractFile, TFile } from 'obsidian'
-import type { EventRef } from 'obsidian'
-import { DEFAULT_SETTINGS, type PluginSettings } from './types/plugin-settings.intf'
+import {
+    App,
+    debounce,
+    getAllTags,
+    getFrontMatterInfo,
+    normalizePath,
+    Notice,
+    parseYaml,
+    Plugin,
+    stringifyYaml,
+    TAbstractFile,
+    TFile
+} from 'obsidian'
+import type { Editor, EventRef, Events } from 'obsidian'
+import {
+    DEFAULT_SETTINGS,
+    type PluginSettings,
+    type RowTemplatePreset
+} from './types/plugin-settings.intf'
 import { SettingsTab } from './settings/settings-tab'
 import { log, setDebugMode } from '../utils/log'
 import { produce } from 'immer'
 import type { Draft } from 'immer'
 import { isExcalidrawFile } from './utils/is-excalidraw-file.fn'
 import { isIgnoredByFrontmatter } from './utils/is-ignored-by-frontmatter.fn'
-import { resolvePathPlaceholders } from './utils/resolve-path-placeholders.fn'
 import {
+    DATAVIEW_INDEX_READY_EVENT,
+    DATAVIEW_METADATA_CHANGE_EVENT,
     DEFAULT_CANVAS_FILE_NAME,
     IGNORE_FRONTMATTER_KEY,
     MARKDOWN_FILE_EXTENSION,
     MINIMUM_MS_BETWEEN_EVENTS,
+    SCHEDULED_QUERIES_CHECK_INTERVAL_MS,
     MINIMUM_SECONDS_BETWEEN_UPDATES,
     NOTICE_TIMEOUT,
     QUERY_FLAG_CLOSE,
@@ -25,7 +43,21 @@ import {
     SERIALIZED_DATAVIEWJS_START,
     SERIALIZED_DATAVIEWJS_END,
     SERIALIZED_DATAVIEWJS_START_ALT,
-    SERIALIZED_DATAVIEWJS_END_ALT
+    SERIALIZED_DATAVIEWJS_END_ALT,
+    QUERY_FENCE_LANGUAGE,
+    DATAVIEWJS_FENCE_LANGUAGE,
+    SERIALIZATION_PREVIEW_VIEW_TYPE,
+    QUERY_DASHBOARD_VIEW_TYPE,
+    ERROR_LOG_VIEW_TYPE,
+    PERFORMANCE_VIEW_TYPE,
+    ERROR_LOG_FILE_NAME,
+    SERIALIZER_EVENT_BEFORE_FILE,
+    SERIALIZER_EVENT_ERROR,
+    SERIALIZER_EVENT_FILE_WRITTEN,
+    SERIALIZER_EVENT_QUERY_SERIALIZED,
+    RESULT_HISTORY_FILE_NAME,
+    MIN_RESULT_HISTORY_SIZE,
+    MAX_RESULT_HISTORY_SIZE
 } from './constants'
 import type { DataviewApi } from 'obsidian-dataview/lib/api/plugin-api'
 import type { QuerySerializationResult } from './types/query-result.intf'
@@ -52,17 +84,25 @@ interface AppWithPluginsRegistry {
 function getDataviewApi(app: App): DataviewApi | undefined {
     return (app as App & AppWithPluginsRegistry).plugins?.plugins?.dataview?.api
 }
-import { add, isAfter } from 'date-fns'
+import { add, format, isAfter } from 'date-fns'
 import { serializeQuery } from './utils/serialize-query.fn'
 import { findQueries, type QueryWithContext } from './utils/find-queries.fn'
-import { getBlockquotePrefix, stripLinePrefix } from './utils/blockquote.fn'
-import { buildSerializedBlock } from './utils/build-serialized-block.fn'
+import { applyIndentation, getBlockquotePrefix, stripLinePrefix } from './utils/blockquote.fn'
+import {
+    buildErrorCallout,
+    splitErrorCallout,
+    withoutErrorTimestamps,
+    type SplitErrorCallout
+} from './utils/error-callout.fn'
+import { buildSerializedBlock, buildSerializedContent } from './utils/build-serialized-block.fn'
 import {
     buildAlreadySerializedRegex,
     buildBlockQueryReplacementRegex,
     buildDataviewJSReplacementRegex,
     matchExistingDataviewJSBlock,
-    matchExistingSerializedBlock
+    matchExistingSerializedBlock,
+    replaceSerializedBlockContent,
+    type BlockQueryRegexParams
 } from './utils/serialized-block-regexes.fn'
 import { isTableQuery } from './utils/is-table-query.fn'
 import { shouldSkipQuery } from './utils/should-skip-query.fn'
@@ -80,30 +120,95 @@ import {
 import { serializeInlineQuery, isInsideTable } from './utils/serialize-inline-query.fn'
 import { processInBatches } from './utils/batch-processor'
 import { removeAllQueries } from './utils/remove-all-queries.fn'
+import {
+    convertCodeBlockQueriesToComments,
+    convertCommentQueriesToCodeBlocks
+} from './utils/convert-query-definition.fn'
 import {
     findDataviewJSQueries,
     type DataviewJSQueryWithContext
 } from './utils/find-dataviewjs-queries.fn'
 import { serializeDataviewJSQuery } from './utils/serialize-dataviewjs-query.fn'
+import { buildPropertyQueryKey, findPropertyQueries } from './utils/find-property-queries.fn'
+import { serializePropertyQuery } from './utils/serialize-property-query.fn'
 import { isDisabledOnDevice, setDisabledOnDevice } from './utils/device-disabled'
+import {
+    DataviewJSApprovals,
+    hashDataviewJSCode,
+    type DataviewJSApprovalRequest
+} from './utils/dataviewjs-approvals'
+import { DataviewJSApprovalModal } from './ui/dataviewjs-approval-modal'
+import { DATAVIEWJS_CAPABILITIES } from './utils/dataviewjs-capabilities.fn'
+import { collectFileDependencies, type FileChangeSnapshot } from './utils/query-dependencies.fn'
+import { QueryDependencyIndex } from './utils/query-dependency-index'
+import { QuerySchedule } from './utils/query-schedule'
+import { createPathRulesMatcher, createScopeMatcher } from './utils/path-rules.fn'
+import { buildDiffHunks } from './utils/diff-lines.fn'
+import type { PreviewedFileChange } from './types/serialization-preview.intf'
+import type {
+    FileProcessingResult,
+    OtherNoteUpdate,
+    WrittenQueryResult
+} from './types/file-processing-result.intf'
+import type { DataviewSerializerApi } from './types/plugin-api.intf'
+import type {
+    QueryKind,
+    QuerySerializedEvent,
+    SerializerEventMap
+} from './types/serializer-events.intf'
+import { PluginApi, type PluginApiHost } from './plugin-api'
+import { QueryStatusRegistry } from './utils/query-status'
+import { QueryErrorLog, type QueryErrorEntry } from './utils/query-error-log'
+import { ErrorLogView, type ErrorLogHost } from './ui/error-log-view'
+import {
+    QueryProfiler,
+    type FileProfile,
+    type QueryOutcome,
+    type QueryProfile
+} from './utils/query-profiler'
+import {
+    formatProfilesAsCsv,
+    formatProfilesAsJson,
+    type ProfileExportFormat
+} from './utils/profile-export.fn'
+import { PerformanceView, type PerformanceHost } from './ui/performance-view'
+import { indexNoteQueries } from './utils/index-note-queries.fn'
+import {
+    convertQueryUpdateMode,
+    type ConvertibleUpdateMode
+} from './utils/convert-query-update-mode.fn'
+import type { DashboardQuery } from './types/query-dashboard.intf'
+import { QueryDashboardView, type QueryDashboardHost } from './ui/query-dashboard-view'
+import type { ResultData } from './utils/result-data.fn'
+import { ResultHistory, type ResultSnapshot } from './utils/result-history'
+import { QueryHistorySuggestModal, ResultHistoryModal } from './ui/result-history-modal'
+import { appendToSection, diffResultItems, formatChangeLogEntry } from './utils/result-changes.fn'
+import { replaceSectionContent } from './utils/markdown-sections.fn'
+import { findSyncedTasks, updateTaskStatus } from './utils/synced-tasks.fn'
+import { TaskCheckboxTracker } from './utils/task-checkbox-tracker'
+import { ViewDependencyIndex } from './utils/view-dependency-index'
+import { buildTargetRegionId, replaceTargetRegion, type QueryTarget } from './utils/query-target.fn'
+import {
+    SerializationPreviewView,
+    type SerializationPreviewHost
+} from './ui/serialization-preview-view'
 
 /**
- * Maximum number of error notifications to show during batch operations
- */
-const MAX_ERROR_NOTIFICATIONS = 3
-
-/**
- * Result of processing a file
+ * The result of a query to write into its target note during a run of `processFile`
  */
-interface FileProcessingResult {
-    filePath: string
-    errors: Array<{
-        message: string
-        query: string
-    }>
+interface TargetNoteUpdate extends OtherNoteUpdate {
+    query: string
 }
 
-export class DataviewSerializerPlugin extends Plugin {
+export class DataviewSerializerPlugin
+    extends Plugin
+    implements
+        SerializationPreviewHost,
+        PluginApiHost,
+        QueryDashboardHost,
+        ErrorLogHost,
+        PerformanceHost
+{
     /**
      * The plugin settings are immutable
      */
@@ -122,12 +227,87 @@ export class DataviewSerializerPlugin extends Plugin {
      */
     recentlyUpdatedFiles: Set<TAbstractFile> = new Set<TAbstractFile>()
     /**
-     * Event handler references for create, modify, rename events
+     * Notes holding queries affected by changes made elsewhere in the vault
+     * Those will be processed by the next scheduled dependent update
+     */
+    dependentFilesToUpdate: Set<string> = new Set<string>()
+    /**
+     * Notes holding queries, with the sources each query depends on
+     */
+    queryDependencyIndex: QueryDependencyIndex = new QueryDependencyIndex()
+    /**
+     * View scripts loaded by the DataviewJS queries of each note, through `dv.view()`
+     */
+    viewDependencyIndex: ViewDependencyIndex = new ViewDependencyIndex()
+    /**
+     * Hashes of the DataviewJS code approved on this device
+     */
+    dataviewJSApprovals: DataviewJSApprovals = new DataviewJSApprovals(this.app)
+    /**
+     * DataviewJS code that was found but not approved yet, by hash
+     */
+    private readonly pendingDataviewJSApprovals = new Map<string, DataviewJSApprovalRequest>()
+    /**
+     * Notes for which a notice already announced code awaiting approval, so that
+     * automatic updates do not repeat it on every edit
+     */
+    private readonly announcedApprovalNotes = new Set<string>()
+    /**
+     * Whether an approval modal is open, so that a single review runs at a time
+     */
+    private isReviewingDataviewJS = false
+    /**
+     * Scheduled queries of each note, and when they last ran
+     */
+    querySchedule: QuerySchedule = new QuerySchedule()
+    /**
+     * Whether scheduled queries are being processed, so that slow runs never overlap
+     */
+    private isProcessingScheduledQueries = false
+    /**
+     * Last known tags and links of each note, used to detect which queries
+     * selected a note before it changed
+     */
+    private fileSnapshots: Map<string, FileChangeSnapshot> = new Map<string, FileChangeSnapshot>()
+    /**
+     * Changes computed by the last serialization preview, waiting to be accepted or discarded
+     */
+    private previewedChanges: PreviewedFileChange[] = []
+    /**
+     * Previous results of the block queries (see `enableResultHistory`)
+     */
+    resultHistory: ResultHistory = new ResultHistory()
+    private readonly pluginApi = new PluginApi(this)
+    /**
+     * Last serialization of the queries, shown in the query dashboard
+     */
+    private readonly queryStatus = new QueryStatusRegistry()
+    /**
+     * The queries that currently fail, persisted so that they survive restarts
+     */
+    private readonly queryErrorLog = new QueryErrorLog()
+    /**
+     * Execution times of the queries and notes, shown in the performance tab
+     */
+    private readonly queryProfiler = new QueryProfiler()
+    /**
+     * Statuses of the synced tasks (`syncTasks` option), to write the ticked ones back
+     */
+    private readonly taskCheckboxTracker = new TaskCheckboxTracker()
+    /**
+     * Status bar item counting the failing queries
+     */
+    private errorStatusBarEl: HTMLElement | null = null
+    /**
+     * Event handler references for Dataview's metadata-change and index-ready events
      * Stored to allow unregistering when automatic updates are disabled
      */
-    private createEventRef: EventRef | null = null
-    private modifyEventRef: EventRef | null = null
-    private renameEventRef: EventRef | null = null
+    private metadataChangeEventRef: EventRef | null = null
+    private indexReadyEventRef: EventRef | null = null
+    /**
+     * Event handler reference for the modifications of the view scripts
+     */
+    private viewScriptModifyEventRef: EventRef | null = null
 
     /**
      * Set of files to ignore during the next file event.
@@ -144,6 +324,42 @@ export class DataviewSerializerPlugin extends Plugin {
         true
     )
 
+    /**
+     * Debounce updates of the notes whose queries depend on changed notes.
+     * Slightly delayed so that a burst of changes is handled in one pass.
+     */
+    scheduleDependentUpdate = debounce(
+        this.processDependentFiles.bind(this),
+        MINIMUM_MS_BETWEEN_EVENTS * 4,
+        true
+    )
+
+    /**
+     * The public API of the plugin, for other plugins and scripts
+     * (`app.plugins.plugins['dataview-serializer'].api`)
+     */
+    get api(): DataviewSerializerApi {
+        return this.pluginApi
+    }
+
+    /**
+     * Debounce saving the result history, as several queries are usually serialized at once
+     */
+    scheduleResultHistorySave = debounce(
+        this.saveResultHistory.bind(this),
+        MINIMUM_MS_BETWEEN_EVENTS * 4,
+        true
+    )
+
+    /**
+     * Debounce saving and showing the error log, as several queries usually fail at once
+     */
+    scheduleErrorLogUpdate = debounce(
+        this.updateErrorLog.bind(this),
+        MINIMUM_MS_BETWEEN_EVENTS * 4,
+        true
+    )
+
     /**
      * Debounce forced updates for configured folders.
      * Uses a longer delay to avoid overwhelming the system with updates.
@@ -168,11 +384,49 @@ export class DataviewSerializerPlugin extends Plugin {
         new Notice(message, NOTICE_TIMEOUT * 2)
     }
 
+    /**
+     * Show notices for the queries of a batch of processed files that started failing.
+     * Queries that keep failing with the same error are not notified again, and several
+     * new errors are summed up in a single notice pointing to the error log.
+     */
+    private notifyQueryErrors(results: FileProcessingResult[]): void {
+        const newErrors = this.queryErrorLog.takePending(results.map((result) => result.filePath))
+
+        if (!this.settings.showErrorNotifications || newErrors.length === 0) {
+            return
+        }
+
+        if (newErrors.length === 1) {
+            this.createQueryErrorNotice(newErrors[0]!, newErrors[0]!.path)
+            return
+        }
+
+        new Notice(
+            `Dataview Serializer: ${newErrors.length} queries started failing. Run "Open the query error log" for details.`,
+            NOTICE_TIMEOUT * 2
+        )
+    }
+
+    /**
+     * Show the outcome of a serialization the user asked for: every error of the note,
+     * whether or not it was already notified, or a confirmation
+     */
+    private notifyManualRun(result: FileProcessingResult, fileName: string): void {
+        this.queryErrorLog.takePending([result.filePath])
+
+        if (this.settings.showErrorNotifications && result.errors.length > 0) {
+            for (const error of result.errors) {
+                this.createQueryErrorNotice(error, result.filePath)
+            }
+        } else {
+            new Notice(`Dataview queries serialized in: ${fileName}`)
+        }
+    }
+
     /**
      * Process all the identified recently updated files
      */
     async processRecentlyUpdatedFiles(): Promise<void> {
-        const allErrors: Array<{ filePath: string; error: { message: string; query: string } }> = []
         const filesToProcess = [...this.recentlyUpdatedFiles]
         this.recentlyUpdatedFiles.clear()
 
@@ -182,37 +436,39 @@ export class DataviewSerializerPlugin extends Plugin {
             5 // Process 5 files concurrently
         )
 
-        for (const result of results) {
-            for (const error of result.errors) {
-                allErrors.push({ filePath: result.filePath, error })
-            }
-        }
+        this.notifyQueryErrors(results)
+    }
 
-        // Show error notifications if enabled for automatic updates
-        if (this.settings.showErrorNotifications && allErrors.length > 0) {
-            const errorsToShow = allErrors.slice(0, MAX_ERROR_NOTIFICATIONS)
-            for (const { filePath, error } of errorsToShow) {
-                this.createQueryErrorNotice(error, filePath)
-            }
+    /**
+     * Process the notes holding queries affected by changes made elsewhere.
+     * See `scheduleDependentsOf` for how those notes are identified.
+     */
+    async processDependentFiles(): Promise<void> {
+        const filesToProcess = [...this.dependentFilesToUpdate]
+            .map((path) => this.app.vault.getFileByPath(path))
+            .filter((file): file is TFile => file !== null)
+        this.dependentFilesToUpdate.clear()
 
-            if (allErrors.length > MAX_ERROR_NOTIFICATIONS) {
-                new Notice(
-                    `${allErrors.length - MAX_ERROR_NOTIFICATIONS} more query error(s) occurred. Check console for details.`,
-                    NOTICE_TIMEOUT
-                )
-            }
-        }
+        const results = await processInBatches(
+            filesToProcess,
+            (file) => this.processFile(file),
+            5 // Process 5 files concurrently
+        )
+
+        this.notifyQueryErrors(results)
     }
 
     /**
      * Process updates for folders which are marked as forced updates.
-     * These files are updated on any modification, useful for scenarios
-     * where there's an index file that holds queries that could be impacted
-     * by file updates elsewhere.
+     * These files are updated on any modification, regardless of what their
+     * queries depend on. Dependent queries are normally handled by
+     * `processDependentFiles`; forced updates remain useful for queries whose
+     * sources cannot be analyzed, such as WHERE clauses reading other notes.
      *
-     * Configured folders may contain date placeholders (e.g. `Daily/{{year}}/{{month}}`).
-     * These are resolved on every run, against the current date, so that the set of
-     * force-updated folders follows the calendar without any manual maintenance.
+     * Configured folders are path rules (see `createPathRulesMatcher`) and may contain
+     * date placeholders (e.g. `Daily/{{year}}/{{month}}`). These are resolved on every
+     * run, against the current date, so that the set of force-updated folders follows
+     * the calendar without any manual maintenance.
      */
     async processForceUpdateFiles(): Promise<void> {
         // Skip if no folders are configured for forced updates
@@ -223,46 +479,20 @@ export class DataviewSerializerPlugin extends Plugin {
             return
         }
 
-        const resolvedFolders = this.settings.foldersToForceUpdate
-            .map((folder) => resolvePathPlaceholders(folder))
-            .filter((folder) => folder.length > 0)
-
-        if (resolvedFolders.length === 0) {
-            return
-        }
+        const isForceUpdated = createPathRulesMatcher(this.settings.foldersToForceUpdate)
+        const isInScope = createScopeMatcher(this.settings.foldersToScan)
 
         const filesToUpdate = this.app.vault.getMarkdownFiles().filter((file) => {
-            return resolvedFolders.some((folder) => file.path.startsWith(folder))
+            return isInScope(file.path) && isForceUpdated(file.path)
         })
 
-        const allErrors: Array<{ filePath: string; error: { message: string; query: string } }> = []
-
         const results = await processInBatches(
             filesToUpdate,
             (file) => this.processFile(file),
             5 // Process 5 files concurrently
         )
 
-        for (const result of results) {
-            for (const error of result.errors) {
-                allErrors.push({ filePath: result.filePath, error })
-            }
-        }
-
-        // Show error notifications if enabled for automatic updates
-        if (this.settings.showErrorNotifications && allErrors.length > 0) {
-            const errorsToShow = allErrors.slice(0, MAX_ERROR_NOTIFICATIONS)
-            for (const { filePath, error } of errorsToShow) {
-                this.createQueryErrorNotice(error, filePath)
-            }
-
-            if (allErrors.length > MAX_ERROR_NOTIFICATIONS) {
-                new Notice(
-                    `${allErrors.length - MAX_ERROR_NOTIFICATIONS} more query error(s) occurred. Check console for details.`,
-                    NOTICE_TIMEOUT
-                )
-            }
-        }
+        this.notifyQueryErrors(results)
     }
 
     /**
@@ -271,6 +501,13 @@ export class DataviewSerializerPlugin extends Plugin {
     override async onload() {
         // Must run before anything can call saveData (fresh-install detection)
         registerWhatsNewView(this)
+        this.registerView(
+            SERIALIZATION_PREVIEW_VIEW_TYPE,
+            (leaf) => new SerializationPreviewView(leaf, this)
+        )
+        this.registerView(QUERY_DASHBOARD_VIEW_TYPE, (leaf) => new QueryDashboardView(leaf, this))
+        this.registerView(ERROR_LOG_VIEW_TYPE, (leaf) => new ErrorLogView(leaf, this))
+        this.registerView(PERFORMANCE_VIEW_TYPE, (leaf) => new PerformanceView(leaf, this))
         log('Initializing', 'debug')
 
         // Wait for layout to be ready before checking for Dataview
@@ -297,6 +534,73 @@ export class DataviewSerializerPlugin extends Plugin {
         }
 
         await this.loadSettings()
+        await this.loadResultHistory()
+        await this.loadQueryErrorLog()
+
+        this.errorStatusBarEl = this.addStatusBarItem()
+        this.errorStatusBarEl.addClass('dvs-error-status', 'mod-clickable')
+        this.errorStatusBarEl.setAttr('aria-label', 'Open the query error log')
+        this.registerDomEvent(this.errorStatusBarEl, 'click', async () => {
+            await this.openQueryErrorLog()
+        })
+        this.updateErrorStatusBar()
+
+        // The result history, the query statuses, the error log and the profiles follow
+        // their notes, whether or not automatic updates are enabled
+        this.registerEvent(
+            this.app.vault.on('rename', (file, oldPath) => {
+                this.queryStatus.rename(oldPath, file.path)
+                this.queryProfiler.rename(oldPath, file.path)
+                this.taskCheckboxTracker.rename(oldPath, file.path)
+                this.viewDependencyIndex.rename(oldPath, file.path)
+                if (this.queryErrorLog.rename(oldPath, file.path)) {
+                    this.scheduleErrorLogUpdate()
+                }
+                if (this.resultHistory.getQueries(oldPath).length > 0) {
+                    this.resultHistory.rename(oldPath, file.path)
+                    this.scheduleResultHistorySave()
+                }
+            })
+        )
+        this.registerEvent(
+            this.app.vault.on('delete', (file) => {
+                this.queryStatus.delete(file.path)
+                this.queryProfiler.delete(file.path)
+                this.taskCheckboxTracker.delete(file.path)
+                this.viewDependencyIndex.delete(file.path)
+                if (this.queryErrorLog.delete(file.path)) {
+                    this.scheduleErrorLogUpdate()
+                }
+                if (this.resultHistory.getQueries(file.path).length > 0) {
+                    this.resultHistory.delete(file.path)
+                    this.scheduleResultHistorySave()
+                }
+            })
+        )
+
+        // Ticking a synced task completes the original one. Like the other automatic
+        // updates, this never happens when disabled on this device or by the settings.
+        this.registerEvent(
+            this.app.vault.on('modify', (file) => {
+                if (
+                    file instanceof TFile &&
+                    file.extension === 'md' &&
+                    !this.isDisabledOnDevice() &&
+                    !this.settings.disableAutomaticUpdates
+                ) {
+                    void this.syncTaskCheckboxes(file)
+                }
+            })
+        )
+
+        // When the scheduled queries last ran, so that those that became due while
+        // Obsidian was closed are caught up once the query index is built
+        this.querySchedule.restore(this.app)
+        this.registerInterval(
+            window.setInterval(() => {
+                void this.processScheduledQueries()
+            }, SCHEDULED_QUERIES_CHECK_INTERVAL_MS)
+        )
 
         // Only set up automatic event handlers if the user hasn't disabled them,
         // and the plugin isn't disabled on this device.
@@ -316,40 +620,56 @@ export class DataviewSerializerPlugin extends Plugin {
                     return
                 }
                 log('Scanning and serializing all Dataview queries', 'debug')
-                const allVaultFiles = this.app.vault.getMarkdownFiles()
-                const allErrors: Array<{
-                    filePath: string
-                    error: { message: string; query: string }
-                }> = []
-
                 const results = await processInBatches(
-                    allVaultFiles,
+                    this.getFilesInScanScope(),
                     (vaultFile) => this.processFile(vaultFile, false, undefined, true),
                     5 // Process 5 files concurrently
                 )
 
-                for (const result of results) {
-                    for (const error of result.errors) {
-                        allErrors.push({ filePath: result.filePath, error })
-                    }
-                }
+                this.notifyQueryErrors(results)
+            }
+        })
 
-                // Show error notifications if enabled
-                if (this.settings.showErrorNotifications && allErrors.length > 0) {
-                    // Show up to MAX_ERROR_NOTIFICATIONS individual errors
-                    const errorsToShow = allErrors.slice(0, MAX_ERROR_NOTIFICATIONS)
-                    for (const { filePath, error } of errorsToShow) {
-                        this.createQueryErrorNotice(error, filePath)
-                    }
+        this.addCommand({
+            id: 'open-query-dashboard',
+            name: 'Open the query dashboard',
+            callback: async () => {
+                await this.openQueryDashboard()
+            }
+        })
 
-                    // Show summary if there are more errors
-                    if (allErrors.length > MAX_ERROR_NOTIFICATIONS) {
-                        new Notice(
-                            `${allErrors.length - MAX_ERROR_NOTIFICATIONS} more query error(s) occurred. Check console for details.`,
-                            NOTICE_TIMEOUT
-                        )
-                    }
+        this.addCommand({
+            id: 'open-query-error-log',
+            name: 'Open the query error log',
+            callback: async () => {
+                await this.openQueryErrorLog()
+            }
+        })
+
+        this.addCommand({
+            id: 'open-performance-view',
+            name: 'Open the serializer performance view',
+            callback: async () => {
+                await this.openPerformanceView()
+            }
+        })
+
+        this.addCommand({
+            id: 'browse-query-result-history',
+            name: 'Browse the result history of a query in current file',
+            callback: async () => {
+                await this.browseResultHistory()
+            }
+        })
+
+        this.addCommand({
+            id: 'preview-serialize-all-dataview-queries',
+            name: 'Preview serialization of all Dataview queries',
+            callback: async () => {
+                if (this.blockedByDeviceDisable()) {
+                    return
                 }
+                await this.previewSerialization()
             }
         })
 
@@ -382,15 +702,7 @@ export class DataviewSerializerPlugin extends Plugin {
 
                 log(`Scanning and serializing Dataview queries in: ${activeFile.path}`, 'debug')
                 const result = await this.processFile(activeFile, true, undefined, true)
-
-                // Show error notifications if enabled
-                if (this.settings.showErrorNotifications && result.errors.length > 0) {
-                    for (const error of result.errors) {
-                        this.createQueryErrorNotice(error, result.filePath)
-                    }
-                } else {
-                    new Notice(`Dataview queries serialized in: ${activeFile.name}`)
-                }
+                this.notifyManualRun(result, activeFile.name)
             }
         })
 
@@ -558,6 +870,38 @@ export class DataviewSerializerPlugin extends Plugin {
             }
         })
 
+        // Add commands to switch the queries of the current file between comments and code blocks
+        this.addCommand({
+            id: 'convert-query-comments-to-code-blocks',
+            name: 'Convert query comments in current file to code blocks',
+            editorCallback: (editor) => {
+                this.convertQueryDefinitions(editor, 'code blocks')
+            }
+        })
+
+        this.addCommand({
+            id: 'convert-query-code-blocks-to-comments',
+            name: 'Convert query code blocks in current file to comments',
+            editorCallback: (editor) => {
+                this.convertQueryDefinitions(editor, 'comments')
+            }
+        })
+
+        this.addCommand({
+            id: 'review-dataviewjs-queries-awaiting-approval',
+            name: 'Review DataviewJS queries awaiting approval',
+            callback: () => {
+                if (this.blockedByDeviceDisable()) {
+                    return
+                }
+                if (this.pendingDataviewJSApprovals.size === 0) {
+                    new Notice('No DataviewJS query awaits approval on this device')
+                    return
+                }
+                this.reviewDataviewJSApprovals()
+            }
+        })
+
         // Add command to remove all Dataview serializer queries from the current file
         this.addCommand({
             id: 'remove-all-queries-in-current-file',
@@ -676,6 +1020,17 @@ export class DataviewSerializerPlugin extends Plugin {
                 needToSaveSettings = true
             }
 
+            if (
+                loadedSettings.updateDependentQueries !== undefined &&
+                loadedSettings.updateDependentQueries !== null &&
+                typeof loadedSettings.updateDependentQueries === 'boolean'
+            ) {
+                draft.updateDependentQueries = loadedSettings.updateDependentQueries
+            } else {
+                log('The loaded settings miss the [updateDependentQueries] property', 'debug')
+                needToSaveSettings = true
+            }
+
             if (
                 loadedSettings.showErrorNotifications !== undefined &&
                 loadedSettings.showErrorNotifications !== null &&
@@ -732,6 +1087,117 @@ export class DataviewSerializerPlugin extends Plugin {
                 log('The loaded settings miss the [enableDataviewJS] property', 'debug')
                 needToSaveSettings = true
             }
+
+            if (
+                loadedSettings.writeErrorCallouts !== undefined &&
+                loadedSettings.writeErrorCallouts !== null &&
+                typeof loadedSettings.writeErrorCallouts === 'boolean'
+            ) {
+                draft.writeErrorCallouts = loadedSettings.writeErrorCallouts
+            } else {
+                log('The loaded settings miss the [writeErrorCallouts] property', 'debug')
+                needToSaveSettings = true
+            }
+
+            if (
+                loadedSettings.keepResultOnError !== undefined &&
+                loadedSettings.keepResultOnError !== null &&
+                typeof loadedSettings.keepResultOnError === 'boolean'
+            ) {
+                draft.keepResultOnError = loadedSettings.keepResultOnError
+            } else {
+                log('The loaded settings miss the [keepResultOnError] property', 'debug')
+                needToSaveSettings = true
+            }
+
+            if (
+                loadedSettings.dataviewJSCapabilities !== undefined &&
+                loadedSettings.dataviewJSCapabilities !== null &&
+                Array.isArray(loadedSettings.dataviewJSCapabilities)
+            ) {
+                draft.dataviewJSCapabilities = DATAVIEWJS_CAPABILITIES.filter((capability) =>
+                    loadedSettings.dataviewJSCapabilities.includes(capability)
+                )
+            } else {
+                log('The loaded settings miss the [dataviewJSCapabilities] property', 'debug')
+                needToSaveSettings = true
+            }
+
+            if (
+                loadedSettings.enableResultHistory !== undefined &&
+                loadedSettings.enableResultHistory !== null &&
+                typeof loadedSettings.enableResultHistory === 'boolean'
+            ) {
+                draft.enableResultHistory = loadedSettings.enableResultHistory
+            } else {
+                log('The loaded settings miss the [enableResultHistory] property', 'debug')
+                needToSaveSettings = true
+            }
+
+            if (
+                loadedSettings.resultHistorySize !== undefined &&
+                loadedSettings.resultHistorySize !== null &&
+                typeof loadedSettings.resultHistorySize === 'number' &&
+                Number.isInteger(loadedSettings.resultHistorySize) &&
+                loadedSettings.resultHistorySize >= MIN_RESULT_HISTORY_SIZE &&
+                loadedSettings.resultHistorySize <= MAX_RESULT_HISTORY_SIZE
+            ) {
+                draft.resultHistorySize = loadedSettings.resultHistorySize
+            } else {
+                log('The loaded settings miss the [resultHistorySize] property', 'debug')
+                needToSaveSettings = true
+            }
+
+            if (
+                loadedSettings.enableChangeLog !== undefined &&
+                loadedSettings.enableChangeLog !== null &&
+                typeof loadedSettings.enableChangeLog === 'boolean'
+            ) {
+                draft.enableChangeLog = loadedSettings.enableChangeLog
+            } else {
+                log('The loaded settings miss the [enableChangeLog] property', 'debug')
+                needToSaveSettings = true
+            }
+
+            if (
+                loadedSettings.changeLogNotePath !== undefined &&
+                loadedSettings.changeLogNotePath !== null &&
+                typeof loadedSettings.changeLogNotePath === 'string'
+            ) {
+                draft.changeLogNotePath = loadedSettings.changeLogNotePath
+            } else {
+                log('The loaded settings miss the [changeLogNotePath] property', 'debug')
+                needToSaveSettings = true
+            }
+
+            if (
+                loadedSettings.changeLogHeading !== undefined &&
+                loadedSettings.changeLogHeading !== null &&
+                typeof loadedSettings.changeLogHeading === 'string' &&
+                loadedSettings.changeLogHeading.trim() !== ''
+            ) {
+                draft.changeLogHeading = loadedSettings.changeLogHeading
+            } else {
+                log('The loaded settings miss the [changeLogHeading] property', 'debug')
+                needToSaveSettings = true
+            }
+
+            if (
+                loadedSettings.rowTemplatePresets !== undefined &&
+                loadedSettings.rowTemplatePresets !== null &&
+                Array.isArray(loadedSettings.rowTemplatePresets)
+            ) {
+                draft.rowTemplatePresets = loadedSettings.rowTemplatePresets.filter(
+                    (preset: unknown) =>
+                        typeof preset === 'object' &&
+                        preset !== null &&
+                        typeof (preset as RowTemplatePreset).name === 'string' &&
+                        typeof (preset as RowTemplatePreset).template === 'string'
+                )
+            } else {
+                log('The loaded settings miss the [rowTemplatePresets] property', 'debug')
+                needToSaveSettings = true
+            }
         })
 
         // Initialize debug mode from settings
@@ -780,9 +1246,132 @@ export class DataviewSerializerPlugin extends Plugin {
     }
 
     /**
-     * Persist the per-device disable flag and apply it immediately.
+     * Keep DataviewJS code that is not approved on this device until it is reviewed.
      *
-     * Disabling unregisters the file-event handlers; enabling re-registers them
+     * Manual runs open the review right away. Automatic updates only announce it once
+     * per note, so that code arriving through sync never pops up a modal on its own.
+     * Dry runs only queue it: approving runs the code and writes the note, which a
+     * preview must not do.
+     *
+     * @param request The code to approve
+     * @param isManualTrigger Whether the user asked for the serialization
+     * @param dryRun Whether the changes are only previewed
+     */
+    private requestDataviewJSApproval(
+        request: DataviewJSApprovalRequest,
+        isManualTrigger: boolean,
+        dryRun: boolean
+    ): void {
+        this.pendingDataviewJSApprovals.set(request.hash, request)
+
+        if (dryRun) {
+            return
+        }
+        if (isManualTrigger) {
+            this.reviewDataviewJSApprovals()
+            return
+        }
+        if (!this.announcedApprovalNotes.has(request.notePath)) {
+            this.announcedApprovalNotes.add(request.notePath)
+            new Notice(
+                `DataviewJS code in ${request.notePath} awaits your approval on this device. Run "Review DataviewJS queries awaiting approval" to review it.`,
+                NOTICE_TIMEOUT
+            )
+        }
+    }
+
+    /**
+     * Show the DataviewJS code awaiting approval one script at a time. Approved code is
+     * remembered on this device and its note serialized again; dismissing a modal ends
+     * the review.
+     */
+    private reviewDataviewJSApprovals(): void {
+        const request = this.pendingDataviewJSApprovals.values().next().value
+        if (this.isReviewingDataviewJS || !request) {
+            return
+        }
+        this.isReviewingDataviewJS = true
+
+        new DataviewJSApprovalModal(
+            this.app,
+            request,
+            this.pendingDataviewJSApprovals.size - 1,
+            async () => {
+                this.dataviewJSApprovals.approve(request.hash)
+                this.pendingDataviewJSApprovals.delete(request.hash)
+                this.announcedApprovalNotes.delete(request.notePath)
+                this.isReviewingDataviewJS = false
+
+                const file = this.app.vault.getFileByPath(request.notePath)
+                if (file) {
+                    const result = await this.processFile(file, true, undefined, true)
+                    this.notifyManualRun(result, file.name)
+                }
+                this.reviewDataviewJSApprovals()
+            },
+            () => {
+                this.isReviewingDataviewJS = false
+            }
+        ).open()
+    }
+
+    /**
+     * Convert the block and DataviewJS queries of the editor's note to code blocks or
+     * to comments, keeping their results
+     *
+     * @param editor The editor of the note
+     * @param form The form the queries are converted to
+     */
+    private convertQueryDefinitions(editor: Editor, form: 'code blocks' | 'comments'): void {
+        if (this.blockedByDeviceDisable()) {
+            return
+        }
+        const activeFile = this.app.workspace.getActiveFile()
+
+        if (!activeFile) {
+            new Notice('No active file')
+            return
+        }
+
+        if (activeFile.extension !== MARKDOWN_FILE_EXTENSION) {
+            new Notice('The active file is not a Markdown file')
+            return
+        }
+
+        const text = editor.getValue()
+        const result =
+            form === 'code blocks'
+                ? convertCommentQueriesToCodeBlocks(text)
+                : convertCodeBlockQueriesToComments(text)
+        // Scheduled queries need their comment, and comments cannot hold `--`
+        const skippedReason = form === 'code blocks' ? 'scheduled' : 'containing "--"'
+
+        if (!result.converted) {
+            if (result.skipped.length > 0) {
+                new Notice(
+                    `No query to convert. Skipped ${result.skipped.length} query(ies) ${skippedReason}`
+                )
+            } else {
+                new Notice('No query to convert in the current file')
+            }
+            return
+        }
+
+        editor.setValue(result.newText)
+
+        if (result.skipped.length > 0) {
+            new Notice(
+                `Converted ${result.count} query(ies) to ${form}. Skipped ${result.skipped.length} query(ies) ${skippedReason}`
+            )
+        } else {
+            new Notice(`Converted ${result.count} query(ies) to ${form}`)
+        }
+    }
+
+    /**
+     * Persist the per-device disable flag and apply it immediately.
+     *
+     * Disabling unregisters the file-event handlers; enabling re-registers them
      * unless the synced "Disable automatic updates" setting is on. No reload is
      * required: commands, `processFile`, and the refresh button all read the
      * flag live.
@@ -798,49 +1387,58 @@ export class DataviewSerializerPlugin extends Plugin {
     }
 
     /**
-     * Add the event handlers
+     * Add the event handlers.
+     *
+     * Changes are observed through Dataview's own events rather than raw vault
+     * events: `dataview:metadata-change` fires once Dataview has re-indexed a
+     * note, so dependent queries always run against up-to-date metadata.
      */
     setupEventHandlers() {
         // Only register if not already registered
-        if (this.createEventRef || this.modifyEventRef || this.renameEventRef) {
+        if (
+            this.metadataChangeEventRef ||
+            this.indexReadyEventRef ||
+            this.viewScriptModifyEventRef
+        ) {
             log('Event handlers already registered, skipping setup', 'debug')
             return
         }
 
         // Register events after layout is built to avoid initial wave of 'create' events
         this.app.workspace.onLayoutReady(async () => {
-            this.createEventRef = this.app.vault.on('create', (file) => {
-                this.recentlyUpdatedFiles.add(file)
-                this.scheduleUpdate()
-                log(`Forced update triggered by create: ${file.path}`, 'debug')
-                this.scheduleForcedUpdate()
-            })
-            this.registerEvent(this.createEventRef)
-
-            this.renameEventRef = this.app.vault.on('rename', (file) => {
-                this.recentlyUpdatedFiles.add(file)
-                this.scheduleUpdate()
-                log(`Forced update triggered by rename: ${file.path}`, 'debug')
-                this.scheduleForcedUpdate()
-            })
-            this.registerEvent(this.renameEventRef)
+            // Dataview's events are not part of the MetadataCache typings
+            const metadataEvents: Events = this.app.metadataCache
 
-            this.modifyEventRef = this.app.vault.on('modify', (file) => {
-                if (file instanceof TFile && this.filesToIgnoreFileEvents.has(file.path)) {
-                    log(
-                        `Ignoring modify event for ${file.path} as it was triggered by the plugin itself`,
-                        'debug'
+            this.metadataChangeEventRef = metadataEvents.on(
+                DATAVIEW_METADATA_CHANGE_EVENT,
+                (type: unknown, file: unknown, oldPath: unknown) => {
+                    if (!(file instanceof TAbstractFile)) {
+                        return
+                    }
+                    this.onMetadataChange(
+                        String(type),
+                        file,
+                        typeof oldPath === 'string' ? oldPath : undefined
                     )
-                    this.filesToIgnoreFileEvents.delete(file.path)
-                    return
                 }
+            )
+            this.registerEvent(this.metadataChangeEventRef)
+
+            this.indexReadyEventRef = metadataEvents.on(DATAVIEW_INDEX_READY_EVENT, () => {
+                void this.buildQueryIndex()
+            })
+            this.registerEvent(this.indexReadyEventRef)
 
-                this.recentlyUpdatedFiles.add(file)
-                this.scheduleUpdate()
-                log(`Forced update triggered by modify: ${file.path}`, 'debug')
-                this.scheduleForcedUpdate()
+            // View scripts are not notes: Dataview does not index them
+            this.viewScriptModifyEventRef = this.app.vault.on('modify', (file) => {
+                this.onViewScriptModify(file)
             })
-            this.registerEvent(this.modifyEventRef)
+            this.registerEvent(this.viewScriptModifyEventRef)
+
+            // Dataview may have finished indexing before we got here
+            if (this.dataviewApi?.index.initialized) {
+                void this.buildQueryIndex()
+            }
 
             log('Event handlers registered for automatic updates', 'debug')
         })
@@ -850,27 +1448,292 @@ export class DataviewSerializerPlugin extends Plugin {
      * Remove the event handlers for automatic updates
      */
     unregisterEventHandlers() {
-        if (this.createEventRef) {
-            this.app.vault.offref(this.createEventRef)
-            this.createEventRef = null
+        if (this.metadataChangeEventRef) {
+            this.app.metadataCache.offref(this.metadataChangeEventRef)
+            this.metadataChangeEventRef = null
         }
-        if (this.modifyEventRef) {
-            this.app.vault.offref(this.modifyEventRef)
-            this.modifyEventRef = null
+        if (this.indexReadyEventRef) {
+            this.app.metadataCache.offref(this.indexReadyEventRef)
+            this.indexReadyEventRef = null
         }
-        if (this.renameEventRef) {
-            this.app.vault.offref(this.renameEventRef)
-            this.renameEventRef = null
+        if (this.viewScriptModifyEventRef) {
+            this.app.vault.offref(this.viewScriptModifyEventRef)
+            this.viewScriptModifyEventRef = null
         }
 
         log('Event handlers unregistered for automatic updates', 'debug')
     }
 
+    /**
+     * Handle a note that Dataview (re)indexed, renamed or deleted.
+     *
+     * The note's own queries are scheduled for an update, then the notes holding
+     * queries whose sources match the note, before or after the change, are
+     * scheduled as well.
+     *
+     * Dataview reports every note while it builds its index at startup. These changes
+     * are dropped: once the index is ready, `buildQueryIndex` takes over.
+     *
+     * @param type 'update', 'rename' or 'delete'
+     * @param file The note
+     * @param oldPath The previous path of a renamed note
+     */
+    private onMetadataChange(type: string, file: TAbstractFile, oldPath?: string): void {
+        if (!this.dataviewApi?.index.initialized) {
+            return
+        }
+
+        const previousSnapshot = this.fileSnapshots.get(oldPath ?? file.path)
+
+        if (type === 'delete') {
+            this.fileSnapshots.delete(file.path)
+            this.queryDependencyIndex.delete(file.path)
+            this.querySchedule.delete(file.path)
+            this.querySchedule.persist(this.app)
+            if (previousSnapshot) {
+                this.scheduleDependentsOf([previousSnapshot])
+            }
+            log(`Forced update triggered by delete: ${file.path}`, 'debug')
+            this.scheduleForcedUpdate()
+            return
+        }
+
+        if (type === 'rename' && oldPath) {
+            this.fileSnapshots.delete(oldPath)
+            this.queryDependencyIndex.rename(oldPath, file.path)
+            this.querySchedule.rename(oldPath, file.path)
+            this.querySchedule.persist(this.app)
+        }
+
+        if (!(file instanceof TFile)) {
+            return
+        }
+
+        const currentSnapshot = this.buildFileSnapshot(file)
+        this.fileSnapshots.set(file.path, currentSnapshot)
+
+        if (this.filesToIgnoreFileEvents.has(file.path)) {
+            log(
+                `Ignoring metadata change for ${file.path} as it was triggered by the plugin itself`,
+                'debug'
+            )
+            this.filesToIgnoreFileEvents.delete(file.path)
+            return
+        }
+
+        if (this.isInScanScope(file.path)) {
+            this.recentlyUpdatedFiles.add(file)
+            this.scheduleUpdate()
+        }
+
+        void this.indexFileQueries(file)
+        this.scheduleDependentsOf(
+            previousSnapshot ? [previousSnapshot, currentSnapshot] : [currentSnapshot]
+        )
+
+        log(`Forced update triggered by ${type}: ${file.path}`, 'debug')
+        this.scheduleForcedUpdate()
+    }
+
+    /**
+     * Schedule an update of the notes holding queries affected by a change.
+     *
+     * @param snapshots The state of the changed note before and/or after the change
+     */
+    private scheduleDependentsOf(snapshots: FileChangeSnapshot[]): void {
+        if (!this.settings.updateDependentQueries) {
+            return
+        }
+
+        const { metadataCache } = this.app
+        const affectedFiles = this.queryDependencyIndex.findAffectedFiles(snapshots, {
+            resolveLink: (linkpath, sourcePath) =>
+                metadataCache.getFirstLinkpathDest(linkpath, sourcePath)?.path ?? null,
+            getOutlinks: (path) => Object.keys(metadataCache.resolvedLinks[path] ?? {})
+        })
+
+        if (affectedFiles.length === 0) {
+            return
+        }
+
+        log(`Dependent update triggered for: ${affectedFiles.join(', ')}`, 'debug')
+        for (const path of affectedFiles) {
+            this.dependentFilesToUpdate.add(path)
+        }
+        this.scheduleDependentUpdate()
+    }
+
+    /**
+     * Schedule an update of the notes whose DataviewJS queries loaded a modified view
+     * script (see `dv.view()`).
+     *
+     * @param file The modified file
+     */
+    private onViewScriptModify(file: TAbstractFile): void {
+        if (
+            !(file instanceof TFile) ||
+            file.extension === MARKDOWN_FILE_EXTENSION ||
+            !this.settings.updateDependentQueries
+        ) {
+            return
+        }
+
+        const callers = this.viewDependencyIndex.findCallers(file.path)
+        if (callers.length === 0) {
+            return
+        }
+
+        log(`View script ${file.path} changed, updating: ${callers.join(', ')}`, 'debug')
+        for (const path of callers) {
+            this.dependentFilesToUpdate.add(path)
+        }
+        this.scheduleDependentUpdate()
+    }
+
+    /**
+     * Capture the tags and resolved outgoing links of a note.
+     */
+    private buildFileSnapshot(file: TFile): FileChangeSnapshot {
+        const cache = this.app.metadataCache.getFileCache(file)
+        return {
+            path: file.path,
+            tags: cache ? (getAllTags(cache) ?? []) : [],
+            outlinks: Object.keys(this.app.metadataCache.resolvedLinks[file.path] ?? {})
+        }
+    }
+
+    /**
+     * (Re)build the query dependency index and the schedule of the scheduled queries
+     * by reading every note of the vault.
+     * Runs once Dataview's index is ready, and when the relevant settings change.
+     */
+    async buildQueryIndex(): Promise<void> {
+        log('Building the query index', 'debug')
+        this.queryDependencyIndex.clear()
+        this.querySchedule.clear()
+
+        const files = this.app.vault.getMarkdownFiles()
+        const isInScope = createScopeMatcher(this.settings.foldersToScan)
+        for (const file of files) {
+            this.fileSnapshots.set(file.path, this.buildFileSnapshot(file))
+        }
+
+        await processInBatches(
+            files.filter((file) => isInScope(file.path)),
+            (file) => this.indexFileQueries(file),
+            5 // Process 5 files concurrently
+        )
+
+        this.querySchedule.prune()
+        this.querySchedule.persist(this.app)
+
+        log(
+            `Query index built: ${this.queryDependencyIndex.size} note(s) hold dependent queries, ${this.querySchedule.size} note(s) hold scheduled queries`,
+            'debug'
+        )
+
+        // Catch up on the scheduled queries that became due while Obsidian was closed
+        await this.processScheduledQueries()
+    }
+
+    /**
+     * Update the dependency index and schedule entries of a note from its current content.
+     */
+    private async indexFileQueries(file: TFile): Promise<void> {
+        if (file.extension !== MARKDOWN_FILE_EXTENSION) {
+            return
+        }
+
+        if (!this.isInScanScope(file.path)) {
+            this.queryDependencyIndex.delete(file.path)
+            this.querySchedule.delete(file.path)
+            return
+        }
+
+        try {
+            const text = await this.app.vault.cachedRead(file)
+
+            if (this.settings.updateDependentQueries) {
+                this.queryDependencyIndex.set(
+                    file.path,
+                    collectFileDependencies(text, this.settings.enableDataviewJS)
+                )
+            }
+
+            this.querySchedule.set(
+                file.path,
+                findQueries(text).flatMap(({ query, refreshIntervalMs }) =>
+                    refreshIntervalMs !== undefined ? [{ query, refreshIntervalMs }] : []
+                )
+            )
+        } catch (e: unknown) {
+            log(`Failed to index the queries of ${file.path}`, 'warn', e)
+        }
+    }
+
+    /**
+     * Refresh the notes holding scheduled queries that are due.
+     * Runs on a timer, so that time-based queries (e.g. overdue tasks) stay current
+     * even when no file changes, and once the query index is built.
+     */
+    async processScheduledQueries(): Promise<void> {
+        if (
+            this.isProcessingScheduledQueries ||
+            this.settings.disableAutomaticUpdates ||
+            this.isDisabledOnDevice()
+        ) {
+            return
+        }
+
+        const now = Date.now()
+        const dueFiles = this.querySchedule
+            .findDueFiles(now)
+            .map((path) => this.app.vault.getFileByPath(path))
+            .filter((file): file is TFile => file !== null)
+
+        if (dueFiles.length === 0) {
+            return
+        }
+
+        log(
+            `Scheduled update triggered for: ${dueFiles.map((file) => file.path).join(', ')}`,
+            'debug'
+        )
+        this.isProcessingScheduledQueries = true
+
+        try {
+            const results = await processInBatches(
+                dueFiles,
+                (file) => this.processFile(file),
+                5 // Process 5 files concurrently
+            )
+
+            for (const file of dueFiles) {
+                this.querySchedule.markRun(file.path, now)
+            }
+            this.querySchedule.persist(this.app)
+
+            this.notifyQueryErrors(results)
+        } finally {
+            this.isProcessingScheduledQueries = false
+        }
+    }
+
+    /**
+     * Serialize the queries of a file.
+     *
+     * @param _file The file to process
+     * @param force Process the file even if it was updated recently or is outside the folders to scan
+     * @param targetQuery Only process this query (block query or inline expression)
+     * @param isManualTrigger Whether the user explicitly asked for the update (see `shouldSkipQuery`)
+     * @param dryRun Compute the updated text without writing it (see `previewSerialization`)
+     */
     async processFile(
         _file: TAbstractFile,
         force = false,
         targetQuery?: string,
-        isManualTrigger = false
+        isManualTrigger = false,
+        dryRun = false
     ): Promise<FileProcessingResult> {
         const emptyResult: FileProcessingResult = { filePath: '', errors: [] }
 
@@ -903,19 +1766,48 @@ export class DataviewSerializerPlugin extends Plugin {
                 .enableDataviewJS
                 ? findDataviewJSQueries(text)
                 : []
+            const foundPropertyQueries = findPropertyQueries(text)
 
             if (
                 foundQueries.length === 0 &&
                 foundInlineQueries.length === 0 &&
-                foundDataviewJSQueries.length === 0
+                foundDataviewJSQueries.length === 0 &&
+                foundPropertyQueries.length === 0
             ) {
                 // No queries to serialize found in the file
                 return result
             }
 
+            // The synced tasks found before any edit are the starting point
+            if (!dryRun && !this.taskCheckboxTracker.has(file.path)) {
+                const syncedTasks = findSyncedTasks(text)
+                if (syncedTasks.length > 0) {
+                    this.taskCheckboxTracker.record(file.path, syncedTasks)
+                }
+            }
+
+            const startTime = performance.now()
+            if (!dryRun) {
+                this.triggerSerializerEvent(SERIALIZER_EVENT_BEFORE_FILE, {
+                    path: file.path,
+                    isManualTrigger
+                })
+            }
+
             // Process the modified file
             let updatedText = `${text}` // To ensure we have access to replaceAll...
 
+            // Results written by this run, recorded in the result history once saved
+            const writtenResults: WrittenQueryResult[] = []
+            // Queries whose result changed, reported once the file is written
+            const serializedQueries: QuerySerializedEvent[] = []
+            // Data written into the frontmatter once the file is written, by property
+            const frontmatterUpdates = new Map<string, ResultData>()
+            // Property queries whose value changed, reported once the frontmatter is written
+            const serializedPropertyQueries: QuerySerializedEvent[] = []
+            // Results written into their target notes once the file is written
+            const targetNoteUpdates: TargetNoteUpdate[] = []
+
             // NOTE: We no longer strip serialized content upfront because:
             // 1. The replacement regex already handles replacing existing serialized blocks
             // 2. Stripping upfront breaks idempotency - if content hasn't changed, we skip
@@ -932,6 +1824,7 @@ export class DataviewSerializerPlugin extends Plugin {
                 const flagClose = queryWithContext.flagClose
                 const syntaxVariant = queryWithContext.syntaxVariant
                 const indentation = queryWithContext.indentation
+                const options = queryWithContext.options ?? {}
                 // Inside a callout/blockquote, the result markers must repeat the
                 // blockquote prefix, otherwise the callout is broken apart.
                 // Reference: https://github.com/dsebastien/obsidian-dataview-serializer/issues/64
@@ -965,9 +1858,13 @@ export class DataviewSerializerPlugin extends Plugin {
                     query: foundQuery,
                     flagOpen,
                     flagClose,
-                    indentation
+                    indentation,
+                    originalQueryDefinition: queryWithContext.originalQueryDefinition
                 }
-                const isAlreadySerialized = !!text.match(buildAlreadySerializedRegex(regexParams))
+                // A block holding an error callout has not been serialized yet
+                const isAlreadySerialized =
+                    !!text.match(buildAlreadySerializedRegex(regexParams)) &&
+                    !this.splitExistingResult(text, regexParams, options.header)?.callout
                 log(`[DEBUG] isAlreadySerialized: ${isAlreadySerialized}`, 'debug')
 
                 // Skip queries based on update mode during automatic updates
@@ -977,212 +1874,1513 @@ export class DataviewSerializerPlugin extends Plugin {
                 }
 
                 log(`Processing query: [${foundQuery}] in file [${file.path}]`, 'debug')
+                const queryStartTime = performance.now()
                 // Reference: https://github.com/IdreesInc/Waypoint/blob/master/main.ts
                 const serializationResult: QuerySerializationResult = await serializeQuery({
                     query: foundQuery,
                     originFile: file.path,
                     dataviewApi: this.dataviewApi!,
                     app: this.app,
-                    indentation,
-                    linkFormat: this.settings.linkFormat
+                    // A result written to another note is not indented like the query
+                    indentation: options.target ? '' : indentation,
+                    linkFormat: this.settings.linkFormat,
+                    options,
+                    rowTemplatePresets: this.settings.rowTemplatePresets
                 })
 
                 // Check for errors
+                let serializedQuery: string
+                let isErrorCallout = false
                 if (!serializationResult.success && serializationResult.error) {
                     log(
                         `[DEBUG] Serialization error: ${serializationResult.error.message}`,
                         'debug'
                     )
                     result.errors.push(serializationResult.error)
-                    continue
+                    this.recordQueryError(
+                        file.path,
+                        'block',
+                        foundQuery,
+                        serializationResult.error.message,
+                        dryRun
+                    )
+                    // Unless errors are written into notes, the previous result is left
+                    // untouched. Ejecting an error would lose the query.
+                    if (!this.settings.writeErrorCallouts || updateMode === 'once-and-eject') {
+                        this.profileQuery(
+                            file.path,
+                            'block',
+                            foundQuery,
+                            queryStartTime,
+                            0,
+                            'error',
+                            dryRun
+                        )
+                        continue
+                    }
+                    serializedQuery = this.buildErrorResult(
+                        text,
+                        regexParams,
+                        options.header,
+                        serializationResult.error.message
+                    )
+                    isErrorCallout = true
+                } else {
+                    serializedQuery = serializationResult.serializedContent
+                    // The result goes to the target note, the query's block keeps a link to it.
+                    // Frontmatter data always goes to the note of the query.
+                    if (options.target && options.format !== 'frontmatter') {
+                        try {
+                            const { update, pointer } = this.prepareTargetNoteUpdate(
+                                file,
+                                options.target,
+                                foundQuery,
+                                buildSerializedContent({
+                                    content: serializedQuery,
+                                    indentation: '',
+                                    header: options.header,
+                                    blankLineBeforeContent: false,
+                                    blankLineBeforeEnd: false
+                                })
+                            )
+                            targetNoteUpdates.push({ ...update, query: foundQuery })
+                            serializedQuery = applyIndentation(pointer, indentation)
+                        } catch (e: unknown) {
+                            const message = e instanceof Error ? e.message : String(e)
+                            log(`Failed to write the result to the target note`, 'warn', e)
+                            result.errors.push({ message, query: foundQuery })
+                            this.recordQueryError(file.path, 'block', foundQuery, message, dryRun)
+                            this.profileQuery(
+                                file.path,
+                                'block',
+                                foundQuery,
+                                queryStartTime,
+                                0,
+                                'error',
+                                dryRun
+                            )
+                            continue
+                        }
+                    }
+                    // The data goes to the frontmatter, the query's block names the property
+                    if (options.format === 'frontmatter' && serializationResult.data) {
+                        frontmatterUpdates.set(options.property!, serializationResult.data)
+                        serializedQuery = applyIndentation(
+                            `Result written to the \`${options.property}\` property`,
+                            indentation
+                        )
+                    }
+                    this.resolveQueryError(file.path, 'block', foundQuery, dryRun)
+                }
+
+                log(
+                    `[DEBUG] Serialized content length: ${serializedQuery.length}, content: "${serializedQuery.substring(0, 100)}..."`,
+                    'debug'
+                )
+
+                // Determine if we need a trailing newline before the END marker.
+                // This is needed for indented content (to maintain structure) or
+                // when enabled (for static site generators like Jekyll), either by the
+                // setting or by the query's own option.
+                // Blockquotes are excluded: the quoted blank line that already ends the
+                // content keeps the structure, so adding another one only inserts empty
+                // space inside the callout.
+                // Reference: https://github.com/dsebastien/obsidian-dataview-serializer/issues/64
+                const needsTrailingNewline =
+                    (indentation.length > 0 && blockquotePrefix === '') ||
+                    (options.trailingNewline ?? this.settings.addTrailingNewline)
+
+                const contentParams = {
+                    content: serializedQuery,
+                    indentation,
+                    // The header of a targeted query belongs to the target note
+                    header: options.target ? undefined : options.header,
+                    // Tables need a blank line after the marker to render, unless reshaped
+                    // or templated
+                    blankLineBeforeContent:
+                        isTableQuery(foundQuery) &&
+                        !options.shape &&
+                        !options.template &&
+                        !options.preset &&
+                        !options.format &&
+                        !options.target,
+                    blankLineBeforeEnd: needsTrailingNewline
                 }
 
-                const serializedQuery = serializationResult.serializedContent
+                // Idempotency check: compare new result with existing serialized content
+                // If they're identical, skip this query to prevent unnecessary file modifications
+                // This prevents infinite update loops for queries that always produce the same output
+                // Look for a serialized block that immediately follows THIS query definition
+                // We match ANY query text in the SerializedQuery marker (not the exact query)
+                // because the user may have modified the query since it was last serialized
+                const existingBlock = matchExistingSerializedBlock(text, regexParams)
+                log(`[DEBUG] Idempotency check - existingMatch found: ${!!existingBlock}`, 'debug')
+                if (existingBlock) {
+                    // Inside a blockquote, the prefix carried by every line (including the
+                    // blank ones) is stripped before comparing, so that structural markers
+                    // never make identical results look different.
+                    // The time of an error callout is left out, so that a query failing
+                    // again with the same error does not rewrite its block.
+                    const existingContent = withoutErrorTimestamps(
+                        stripLinePrefix(existingBlock.content, blockquotePrefix).trim()
+                    )
+                    const newContent = withoutErrorTimestamps(
+                        stripLinePrefix(
+                            buildSerializedContent(contentParams),
+                            blockquotePrefix
+                        ).trim()
+                    )
+
+                    // A block written before the blockquote fix carries unquoted markers,
+                    // which breaks the callout. Its content may well be up to date, so the
+                    // structure has to be checked too, otherwise it is never repaired.
+                    // Reference: https://github.com/dsebastien/obsidian-dataview-serializer/issues/64
+                    const markersAreUpToDate =
+                        existingBlock.startPrefix === blockquotePrefix &&
+                        existingBlock.endPrefix === blockquotePrefix
+
+                    log(
+                        `[DEBUG] Idempotency - existing length: ${existingContent.length}, new length: ${newContent.length}, match: ${existingContent === newContent}, markers up to date: ${markersAreUpToDate}`,
+                        'debug'
+                    )
+
+                    if (markersAreUpToDate && existingContent === newContent) {
+                        log(
+                            `Skipping query in [${file.path}] - content unchanged: "${foundQuery}"`,
+                            'debug'
+                        )
+                        this.profileQuery(
+                            file.path,
+                            'block',
+                            foundQuery,
+                            queryStartTime,
+                            serializedQuery.length,
+                            isErrorCallout ? 'error' : 'unchanged',
+                            dryRun
+                        )
+                        continue
+                    }
+                }
+                this.profileQuery(
+                    file.path,
+                    'block',
+                    foundQuery,
+                    queryStartTime,
+                    serializedQuery.length,
+                    isErrorCallout ? 'error' : serializedQuery === '' ? 'unchanged' : 'written',
+                    dryRun
+                )
+
+                // Empty results are never written, but the error callout of a query that
+                // works again must go, leaving the result kept below it, if any
+                const existingResult =
+                    '' === serializedQuery
+                        ? this.splitExistingResult(text, regexParams, options.header)
+                        : null
+                if (existingResult?.callout) {
+                    const keptResult = existingResult.result
+                    updatedText =
+                        replaceSerializedBlockContent(
+                            updatedText,
+                            regexParams,
+                            keptResult ? `${applyIndentation(keptResult, indentation)}\n` : ''
+                        ) ?? updatedText
+                }
+
+                if ('' !== serializedQuery) {
+                    // Match the query definition, optionally followed by an existing
+                    // serialized block, so both can be replaced in one go
+                    const originalQueryDefinition = queryWithContext.originalQueryDefinition
+                    log(
+                        `[DEBUG] Is multi-line query: ${!!originalQueryDefinition}, indentation: "${indentation}"`,
+                        'debug'
+                    )
+                    const queryToSerializeRegex = buildBlockQueryReplacementRegex(regexParams)
+
+                    log(`[DEBUG] Replacement regex: ${queryToSerializeRegex.source}`, 'debug')
+
+                    // Test if the regex matches and what it matches
+                    const regexTestMatch = updatedText.match(queryToSerializeRegex)
+                    log(
+                        `[DEBUG] Regex test - matches: ${regexTestMatch ? regexTestMatch.length : 0}, matched text length: ${regexTestMatch?.[0]?.length ?? 0}`,
+                        'debug'
+                    )
+                    if (regexTestMatch) {
+                        log(
+                            `[DEBUG] Matched text (first 200 chars): "${regexTestMatch[0]?.substring(0, 200)}"`,
+                            'debug'
+                        )
+                    }
+
+                    let queryAndSerializedQuery = ''
+
+                    if (updateMode === 'once-and-eject') {
+                        // For 'once-and-eject', remove all tags and leave only the serialized content
+                        // (and its header, if any)
+                        // Add a trailing newline to maintain proper document structure
+                        queryAndSerializedQuery = `${buildSerializedContent({
+                            ...contentParams,
+                            // Below a header, tables still need a blank line to render
+                            blankLineBeforeContent:
+                                !!options.header && contentParams.blankLineBeforeContent,
+                            blankLineBeforeEnd: false
+                        })}\n`
+                    } else {
+                        // Multi-line queries and code blocks keep their original definition;
+                        // single-line queries are rebuilt from their parts (flagClose is
+                        // reused so the user's format is preserved).
+                        // The SerializedQuery marker always uses the normalized query.
+                        // Use syntax-appropriate result markers.
+                        const queryDefinition =
+                            originalQueryDefinition ??
+                            `${indentation}${flagOpen}${foundQuery}${flagClose}`
+
+                        queryAndSerializedQuery = buildSerializedBlock({
+                            queryDefinition,
+                            startMarker: `${serializedStart}${foundQuery}${QUERY_FLAG_CLOSE}`,
+                            endMarker: serializedEnd,
+                            ...contentParams
+                        })
+
+                        // Neither an error callout nor the link to a target note or
+                        // property is a result of the query
+                        if (
+                            !isErrorCallout &&
+                            !options.target &&
+                            options.format !== 'frontmatter'
+                        ) {
+                            writtenResults.push({
+                                query: foundQuery,
+                                // Exactly what sits between the result markers
+                                content: `${buildSerializedContent(contentParams)}\n`,
+                                previousContent: existingBlock?.content,
+                                blockquotePrefix
+                            })
+                        }
+                    }
+                    if (!isErrorCallout) {
+                        serializedQueries.push({
+                            path: file.path,
+                            type: 'block',
+                            query: foundQuery,
+                            updateMode,
+                            oldContent: existingBlock?.content,
+                            newContent: `${buildSerializedContent(contentParams)}\n`,
+                            durationMs: performance.now() - queryStartTime
+                        })
+                    }
+                    log(
+                        `[DEBUG] Replacement string length: ${queryAndSerializedQuery.length}, first 200 chars: "${queryAndSerializedQuery.substring(0, 200)}"`,
+                        'debug'
+                    )
+
+                    const textLengthBefore = updatedText.length
+                    updatedText = updatedText.replace(
+                        queryToSerializeRegex,
+                        () => queryAndSerializedQuery
+                    )
+                    log(
+                        `[DEBUG] After replacement - text length before: ${textLengthBefore}, after: ${updatedText.length}, diff: ${updatedText.length - textLengthBefore}`,
+                        'debug'
+                    )
+                }
+            }
+
+            // Process inline queries
+            updatedText = await this.processInlineQueries(
+                updatedText,
+                text,
+                file.path,
+                result,
+                serializedQueries,
+                targetQuery,
+                isManualTrigger,
+                dryRun
+            )
+
+            // Process DataviewJS queries (if enabled)
+            if (this.settings.enableDataviewJS && foundDataviewJSQueries.length > 0) {
+                updatedText = await this.processDataviewJSQueries(
+                    updatedText,
+                    text,
+                    file.path,
+                    result,
+                    serializedQueries,
+                    foundDataviewJSQueries,
+                    targetQuery,
+                    isManualTrigger,
+                    dryRun
+                )
+            }
+
+            // Process property queries
+            if (foundPropertyQueries.length > 0) {
+                updatedText = await this.processPropertyQueries(
+                    updatedText,
+                    file,
+                    result,
+                    serializedPropertyQueries,
+                    frontmatterUpdates,
+                    targetQuery,
+                    isManualTrigger,
+                    dryRun
+                )
+            }
+
+            // Log the items that entered or left the results, unless they go to another note
+            const changeLogEntries = this.buildChangeLogEntries(
+                file,
+                writtenResults,
+                foundQueries.length > 1
+            )
+            if (changeLogEntries.length > 0 && this.settings.changeLogNotePath.trim() === '') {
+                updatedText = appendToSection(
+                    updatedText,
+                    this.settings.changeLogHeading,
+                    changeLogEntries
+                )
+            }
+
+            // Dry runs report the change without writing it, nor delaying the next update
+            if (dryRun) {
+                if (frontmatterUpdates.size > 0) {
+                    updatedText = this.withFrontmatterData(file, updatedText, frontmatterUpdates)
+                }
+                if (updatedText !== text) {
+                    result.originalText = text
+                    result.updatedText = updatedText
+                    result.writtenResults = writtenResults
+                    result.serializedQueries = [...serializedQueries, ...serializedPropertyQueries]
+                }
+                const otherNoteUpdates: OtherNoteUpdate[] = targetNoteUpdates.map(
+                    ({ path, update }) => ({ path, update })
+                )
+                if (changeLogEntries.length > 0 && this.settings.changeLogNotePath.trim() !== '') {
+                    otherNoteUpdates.push(this.buildChangeLogNoteUpdate(changeLogEntries))
+                }
+                if (otherNoteUpdates.length > 0) {
+                    result.otherNoteUpdates = otherNoteUpdates
+                }
+                return result
+            }
+
+            for (const error of result.errors) {
+                this.triggerSerializerEvent(SERIALIZER_EVENT_ERROR, { path: file.path, ...error })
+            }
+
+            // Forget the errors of the queries that were edited or removed
+            if (!targetQuery && this.queryErrorLog.size > 0) {
+                if (
+                    this.queryErrorLog.retain(file.path, indexNoteQueries(file.path, updatedText))
+                ) {
+                    this.scheduleErrorLogUpdate()
+                }
+            }
+
+            // Keep track of the last time this file was updated to avoid modification loops
+            this.recordFileUpdate(file.path)
+
+            // Save the updated version
+            log(
+                `[DEBUG] Final check - original length: ${text.length}, updated length: ${updatedText.length}, will save: ${updatedText !== text}`,
+                'debug'
+            )
+
+            // Read before writing, as it is when the previous results were written
+            const previousModificationTime = file.stat.mtime
+            const isTextWritten = updatedText !== text
+            if (isTextWritten) {
+                this.recordWrittenSyncedTasks(file.path, updatedText)
+                //log('The file content has changed. Saving the modifications', 'info');
+                await this.writeSerializedText(file, updatedText)
+            }
+
+            // Written after the text, which would otherwise overwrite the frontmatter
+            const isFrontmatterWritten =
+                frontmatterUpdates.size > 0 &&
+                (await this.writeFrontmatterData(file, frontmatterUpdates))
+
+            if (isTextWritten || isFrontmatterWritten) {
+                this.reportWrittenFile(result, {
+                    oldContent: text,
+                    newContent: isFrontmatterWritten
+                        ? await this.app.vault.read(file)
+                        : updatedText,
+                    previousModificationTime,
+                    writtenResults,
+                    serializedQueries: [
+                        ...(isTextWritten ? serializedQueries : []),
+                        ...(isFrontmatterWritten ? serializedPropertyQueries : [])
+                    ],
+                    durationMs: performance.now() - startTime
+                })
+            }
+
+            // Written once the note is saved, so that no target holds a result the note does not link to
+            await this.writeTargetNotes(file, targetNoteUpdates, result)
+
+            if (changeLogEntries.length > 0 && this.settings.changeLogNotePath.trim() !== '') {
+                await this.appendToChangeLogNote(changeLogEntries)
+            }
+
+            this.queryProfiler.recordFile(
+                file.path,
+                performance.now() - startTime,
+                updatedText !== text,
+                Date.now()
+            )
+        } catch (e: unknown) {
+            // Ensure cleanup on error
+            if (this.filesToIgnoreFileEvents.has(file.path)) {
+                this.filesToIgnoreFileEvents.delete(file.path)
+            }
+            log('Failed to process the file', 'warn', e)
+            if (!dryRun) {
+                this.triggerSerializerEvent(SERIALIZER_EVENT_ERROR, {
+                    path: file.path,
+                    query: '',
+                    message: e instanceof Error ? e.message : String(e)
+                })
+            }
+        }
+
+        return result
+    }
+
+    /**
+     * Record and report the results just written to a note: in the result history, the
+     * statuses of the queries, the workspace events and the callbacks of the API
+     *
+     * @param result The result of processing the note, marked as written
+     */
+    private reportWrittenFile(
+        result: FileProcessingResult,
+        write: {
+            oldContent: string
+            newContent: string
+            /** When the note was modified before the write */
+            previousModificationTime: number
+            writtenResults: WrittenQueryResult[]
+            /** The queries whose result changed */
+            serializedQueries: QuerySerializedEvent[]
+            durationMs: number
+        }
+    ): void {
+        const path = result.filePath
+        result.written = true
+        this.recordResultHistory(path, write.writtenResults, write.previousModificationTime)
+        this.pluginApi.notifySerialized(result)
+
+        for (const serializedQuery of write.serializedQueries) {
+            this.queryStatus.recordWritten(
+                path,
+                serializedQuery.type,
+                serializedQuery.query,
+                Date.now()
+            )
+            this.triggerSerializerEvent(SERIALIZER_EVENT_QUERY_SERIALIZED, serializedQuery)
+        }
+        this.triggerSerializerEvent(SERIALIZER_EVENT_FILE_WRITTEN, {
+            path,
+            oldContent: write.oldContent,
+            newContent: write.newContent,
+            durationMs: write.durationMs
+        })
+    }
+
+    /**
+     * Record how long a query took, from the start of its serialization.
+     * Dry runs are left out, as their results are never written.
+     */
+    private profileQuery(
+        path: string,
+        type: QueryKind,
+        query: string,
+        startTime: number,
+        resultSize: number,
+        outcome: QueryOutcome,
+        dryRun: boolean
+    ): void {
+        if (dryRun) {
+            return
+        }
+        this.queryProfiler.recordQuery(
+            { path, type, query, durationMs: performance.now() - startTime, resultSize, outcome },
+            Date.now()
+        )
+    }
+
+    /**
+     * Trigger one of the workspace events other plugins and scripts can listen to
+     * (see `SerializerEventMap`)
+     */
+    private triggerSerializerEvent<K extends keyof SerializerEventMap>(
+        name: K,
+        event: SerializerEventMap[K]
+    ): void {
+        this.app.workspace.trigger(name, event)
+    }
+
+    /**
+     * Prevent the file from being updated again for a while, to avoid modification loops
+     */
+    private recordFileUpdate(path: string): void {
+        const nextPossibleUpdateTimeForFile = add(new Date(), {
+            seconds: MINIMUM_SECONDS_BETWEEN_UPDATES
+        })
+        this.nextPossibleUpdates.set(path, nextPossibleUpdateTimeForFile)
+    }
+
+    /**
+     * Record the synced tasks about to be written to a note. Recorded before the write,
+     * so that the written checkboxes are not taken for ticks.
+     */
+    private recordWrittenSyncedTasks(path: string, text: string): void {
+        const syncedTasks = findSyncedTasks(text)
+        if (syncedTasks.length > 0 || this.taskCheckboxTracker.has(path)) {
+            this.taskCheckboxTracker.record(path, syncedTasks)
+        }
+    }
+
+    /**
+     * Write the checkboxes ticked by the user in the synced tasks of a note back to
+     * the tasks they copy
+     */
+    private async syncTaskCheckboxes(file: TFile): Promise<void> {
+        // Only the notes known to hold synced tasks are read
+        if (!this.taskCheckboxTracker.has(file.path)) {
+            return
+        }
+
+        const text = await this.app.vault.cachedRead(file)
+        for (const task of this.taskCheckboxTracker.update(file.path, findSyncedTasks(text))) {
+            const sourceFile = this.app.vault.getFileByPath(task.sourcePath)
+            let updated = false
+            if (sourceFile) {
+                await this.app.vault.process(sourceFile, (sourceText) => {
+                    const updatedText = updateTaskStatus(sourceText, task)
+                    updated = updatedText !== null
+                    return updatedText ?? sourceText
+                })
+            }
+
+            if (updated) {
+                log(`Synced the task [${task.text}] of [${task.sourcePath}]`, 'debug')
+            } else {
+                log(`Failed to sync the task [${task.text}] of [${task.sourcePath}]`, 'warn')
+                new Notice(
+                    `The task "${task.text}" was not found in ${task.sourcePath}. Serialize the query again to refresh it.`
+                )
+            }
+        }
+    }
+
+    /**
+     * Prepare the update writing the result of a query into its target note (the
+     * `target` query option): into the section below the target heading, or into a
+     * marker region identifying the query. The target note is created when missing.
+     * Targets the plugin would not process themselves are refused.
+     *
+     * @returns The update of the target note, and the link to the target, written in
+     * place of the result
+     */
+    private prepareTargetNoteUpdate(
+        file: TFile,
+        target: QueryTarget,
+        query: string,
+        content: string
+    ): { update: OtherNoteUpdate; pointer: string } {
+        const targetFile = this.app.metadataCache.getFirstLinkpathDest(target.linkpath, file.path)
+        if (targetFile?.path === file.path) {
+            throw new Error('The target of a query cannot be the note holding it')
+        }
+
+        const updateTarget = (text: string): string =>
+            target.heading
+                ? replaceSectionContent(text, target.heading, content)
+                : replaceTargetRegion(text, buildTargetRegionId(file.path, query), content)
+
+        const path =
+            targetFile?.path ??
+            normalizePath(
+                /\.md$/i.test(target.linkpath) ? target.linkpath : `${target.linkpath}.md`
+            )
+        if (
+            !this.isInScanScope(path) ||
+            this.isInIgnoredFolder(path) ||
+            (targetFile && this.isFileIgnoredByFrontmatter(targetFile))
+        ) {
+            throw new Error(
+                `The target note ${path} is ignored by Dataview Serializer (folders to scan, folders to ignore or the "${IGNORE_FRONTMATTER_KEY}" property)`
+            )
+        }
+
+        const linktext = targetFile
+            ? this.app.metadataCache.fileToLinktext(targetFile, file.path)
+            : target.linkpath
+        return {
+            update: { path, update: updateTarget },
+            pointer: `Result written to [[${linktext}${target.heading ? `#${target.heading}` : ''}]]`
+        }
+    }
+
+    /**
+     * Write the results of the queries of a note into their target notes, once the note
+     * holds the links to them. The target notes missing are created.
+     */
+    private async writeTargetNotes(
+        file: TFile,
+        updates: TargetNoteUpdate[],
+        result: FileProcessingResult
+    ): Promise<void> {
+        for (const { path, update, query } of updates) {
+            try {
+                const targetFile = this.app.vault.getFileByPath(path)
+                if (targetFile) {
+                    const text = await this.app.vault.read(targetFile)
+                    const updatedText = update(text)
+                    if (updatedText !== text) {
+                        await this.writeSerializedText(targetFile, updatedText)
+                    }
+                } else {
+                    await this.createNote(path, update(''))
+                    log(`Created the target note [${path}]`, 'debug')
+                }
+            } catch (e: unknown) {
+                const message = e instanceof Error ? e.message : String(e)
+                log(`Failed to write the result to the target note [${path}]`, 'warn', e)
+                result.errors.push({ message, query })
+                this.recordQueryError(file.path, 'block', query, message, false)
+                this.triggerSerializerEvent(SERIALIZER_EVENT_ERROR, {
+                    path: file.path,
+                    query,
+                    message
+                })
+            }
+        }
+    }
+
+    /**
+     * Create a note, and the folders holding it when missing
+     */
+    private async createNote(path: string, text: string): Promise<TFile> {
+        const folderPath = path.substring(0, path.lastIndexOf('/'))
+        if (folderPath !== '' && !this.app.vault.getFolderByPath(folderPath)) {
+            try {
+                await this.app.vault.createFolder(folderPath)
+            } catch (e: unknown) {
+                // Another note may have created the folder meanwhile
+                if (!this.app.vault.getFolderByPath(folderPath)) {
+                    throw e
+                }
+            }
+        }
+        return this.app.vault.create(path, text)
+    }
+
+    /**
+     * Write the data of queries into properties of the frontmatter of their note (the
+     * `frontmatter` format, and property queries). The note is left untouched when every property already
+     * holds its data.
+     *
+     * @returns Whether the frontmatter was written
+     */
+    private async writeFrontmatterData(
+        file: TFile,
+        updates: Map<string, ResultData>
+    ): Promise<boolean> {
+        const changedUpdates = this.getChangedFrontmatterData(file, updates)
+        if (changedUpdates.length === 0) {
+            return false
+        }
+
+        this.ignoreFileEvents(file)
+        await this.app.fileManager.processFrontMatter(file, (draft: Record<string, unknown>) => {
+            for (const [property, data] of changedUpdates) {
+                draft[property] = data
+            }
+        })
+        return true
+    }
+
+    /**
+     * The text of a note once the data of queries is written into its frontmatter, the
+     * way `writeFrontmatterData` writes it. Dry runs preview the properties with it.
+     */
+    private withFrontmatterData(
+        file: TFile,
+        text: string,
+        updates: Map<string, ResultData>
+    ): string {
+        const changedUpdates = this.getChangedFrontmatterData(file, updates)
+        if (changedUpdates.length === 0) {
+            return text
+        }
+
+        const info = getFrontMatterInfo(text)
+        const frontmatter: Record<string, unknown> = info.exists
+            ? ((parseYaml(info.frontmatter) as Record<string, unknown> | null) ?? {})
+            : {}
+        for (const [property, data] of changedUpdates) {
+            frontmatter[property] = data
+        }
+        const content = info.exists ? text.slice(info.contentStart).replace(/^\r?\n/, '') : text
+        return `---\n${stringifyYaml(frontmatter)}---\n${content}`
+    }
+
+    /**
+     * The data of queries that differs from the properties of the frontmatter of their note
+     */
+    private getChangedFrontmatterData(
+        file: TFile,
+        updates: Map<string, ResultData>
+    ): [string, ResultData][] {
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {}
+        return [...updates].filter(
+            ([property, data]) => JSON.stringify(frontmatter[property]) !== JSON.stringify(data)
+        )
+    }
+
+    /**
+     * Write serialized text to a file, without reacting to the resulting file event
+     */
+    private async writeSerializedText(file: TFile, text: string): Promise<void> {
+        this.ignoreFileEvents(file)
+        await this.app.vault.modify(file, text)
+    }
+
+    /**
+     * Ignore the modify event of a file about to be written by the plugin
+     */
+    private ignoreFileEvents(file: TFile): void {
+        this.filesToIgnoreFileEvents.add(file.path)
+        // Safety net: ensure the file is eventually removed from the ignore list
+        // even if the modify event doesn't fire or an error occurs.
+        window.setTimeout(() => {
+            if (this.filesToIgnoreFileEvents.has(file.path)) {
+                this.filesToIgnoreFileEvents.delete(file.path)
+            }
+        }, 2000)
+    }
+
+    /**
+     * Load the result history from its file in the plugin's folder
+     */
+    private async loadResultHistory(): Promise<void> {
+        const path = this.getPluginFilePath(RESULT_HISTORY_FILE_NAME)
+        try {
+            if (await this.app.vault.adapter.exists(path)) {
+                this.resultHistory.restore(JSON.parse(await this.app.vault.adapter.read(path)))
+            }
+        } catch (e: unknown) {
+            log('Failed to load the result history', 'warn', e)
+        }
+    }
+
+    async saveResultHistory(): Promise<void> {
+        try {
+            await this.app.vault.adapter.write(
+                this.getPluginFilePath(RESULT_HISTORY_FILE_NAME),
+                JSON.stringify(this.resultHistory.toData())
+            )
+        } catch (e: unknown) {
+            log('Failed to save the result history', 'warn', e)
+        }
+    }
+
+    /**
+     * Split the existing result block of a query between its error callout, if any, and
+     * the result below it
+     *
+     * @returns The split result, or null when the query has no result block
+     */
+    private splitExistingResult(
+        text: string,
+        regexParams: BlockQueryRegexParams,
+        header: string | undefined
+    ): SplitErrorCallout | null {
+        const existingBlock = matchExistingSerializedBlock(text, regexParams)
+        if (!existingBlock) {
+            return null
+        }
+        return splitErrorCallout(
+            stripLinePrefix(existingBlock.content, regexParams.indentation),
+            header
+        )
+    }
+
+    /**
+     * Build the content written into the result block of a failing query: an error
+     * callout, followed by the previous result when it is kept (see `keepResultOnError`)
+     *
+     * @returns The content, indented like the query
+     */
+    private buildErrorResult(
+        text: string,
+        regexParams: BlockQueryRegexParams,
+        header: string | undefined,
+        message: string
+    ): string {
+        const keptResult = this.settings.keepResultOnError
+            ? (this.splitExistingResult(text, regexParams, header)?.result ?? '')
+            : ''
+        const callout = buildErrorCallout({
+            query: regexParams.query,
+            message,
+            timestamp: format(new Date(), 'yyyy-MM-dd HH:mm')
+        })
+
+        return applyIndentation(
+            keptResult ? `${callout}\n\n${keptResult}` : callout,
+            regexParams.indentation
+        )
+    }
+
+    /**
+     * Load the error log from its file in the plugin's folder
+     */
+    private async loadQueryErrorLog(): Promise<void> {
+        const path = this.getPluginFilePath(ERROR_LOG_FILE_NAME)
+        try {
+            if (await this.app.vault.adapter.exists(path)) {
+                this.queryErrorLog.restore(JSON.parse(await this.app.vault.adapter.read(path)))
+            }
+        } catch (e: unknown) {
+            log('Failed to load the error log', 'warn', e)
+        }
+    }
+
+    async saveQueryErrorLog(): Promise<void> {
+        try {
+            await this.app.vault.adapter.write(
+                this.getPluginFilePath(ERROR_LOG_FILE_NAME),
+                JSON.stringify(this.queryErrorLog.toData())
+            )
+        } catch (e: unknown) {
+            log('Failed to save the error log', 'warn', e)
+        }
+    }
+
+    /**
+     * Path of a file of the plugin's folder
+     */
+    private getPluginFilePath(fileName: string): string {
+        const pluginDir =
+            this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`
+        return `${pluginDir}/${fileName}`
+    }
+
+    /**
+     * Log the error of a query. Dry runs leave the error log untouched, as nothing is written.
+     */
+    private recordQueryError(
+        path: string,
+        type: QueryKind,
+        query: string,
+        message: string,
+        dryRun: boolean
+    ): void {
+        if (dryRun) {
+            return
+        }
+        this.queryErrorLog.record(path, type, query, message, Date.now())
+        this.scheduleErrorLogUpdate()
+    }
+
+    /**
+     * Forget the error of a query that serialized again, unless in a dry run
+     */
+    private resolveQueryError(path: string, type: QueryKind, query: string, dryRun: boolean): void {
+        if (dryRun) {
+            return
+        }
+        if (this.queryErrorLog.resolve(path, type, query)) {
+            this.scheduleErrorLogUpdate()
+        }
+    }
+
+    /**
+     * Save the error log, and show it in the status bar and the open error log panels
+     */
+    private async updateErrorLog(): Promise<void> {
+        this.updateErrorStatusBar()
+        for (const leaf of this.app.workspace.getLeavesOfType(ERROR_LOG_VIEW_TYPE)) {
+            if (leaf.view instanceof ErrorLogView) {
+                leaf.view.render()
+            }
+        }
+        await this.saveQueryErrorLog()
+    }
+
+    private updateErrorStatusBar(): void {
+        if (!this.errorStatusBarEl) {
+            return
+        }
+        const count = this.queryErrorLog.size
+        this.errorStatusBarEl.toggle(count > 0)
+        this.errorStatusBarEl.setText(`⚠ ${count} query error${count === 1 ? '' : 's'}`)
+    }
+
+    /**
+     * Record the results just written to a note in the result history.
+     *
+     * The first time a query is recorded, its previous result is recorded as well, dated
+     * with the last modification of the note, so that the history starts with what the
+     * note held before.
+     */
+    private recordResultHistory(
+        path: string,
+        writtenResults: WrittenQueryResult[],
+        previousModificationTime: number
+    ): void {
+        if (!this.settings.enableResultHistory || writtenResults.length === 0) {
+            return
+        }
+
+        const maxSnapshots = this.settings.resultHistorySize
+        const now = Date.now()
+        for (const { query, content, previousContent } of writtenResults) {
+            if (previousContent !== undefined && this.resultHistory.get(path, query).length === 0) {
+                this.resultHistory.record(
+                    path,
+                    query,
+                    { timestamp: previousModificationTime, content: previousContent },
+                    maxSnapshots
+                )
+            }
+            this.resultHistory.record(path, query, { timestamp: now, content }, maxSnapshots)
+        }
+
+        this.scheduleResultHistorySave()
+    }
+
+    /**
+     * Build the change log entries of the results written to a note: one per query whose
+     * result gained or lost items. Results written for the first time are not logged.
+     *
+     * @param file The note holding the queries
+     * @param writtenResults The results written to the note
+     * @param hasSeveralQueries Whether the note holds several queries, which entries then name
+     */
+    private buildChangeLogEntries(
+        file: TFile,
+        writtenResults: WrittenQueryResult[],
+        hasSeveralQueries: boolean
+    ): string[] {
+        if (!this.settings.enableChangeLog) {
+            return []
+        }
+
+        const changeLogNotePath = this.settings.changeLogNotePath.trim()
+        // Entries logged in another note link back to the note of the query
+        const source =
+            changeLogNotePath === ''
+                ? undefined
+                : this.app.fileManager.generateMarkdownLink(
+                      file,
+                      this.getChangeLogNotePath(changeLogNotePath)
+                  )
+        const date = format(new Date(), 'yyyy-MM-dd')
+
+        return writtenResults.flatMap(({ query, content, previousContent, blockquotePrefix }) => {
+            if (previousContent === undefined) {
+                return []
+            }
+
+            const changes = diffResultItems(
+                stripLinePrefix(previousContent, blockquotePrefix),
+                stripLinePrefix(content, blockquotePrefix)
+            )
+            if (changes.added.length === 0 && changes.removed.length === 0) {
+                return []
+            }
+
+            return [
+                formatChangeLogEntry({
+                    date,
+                    changes,
+                    source,
+                    query: hasSeveralQueries || source !== undefined ? query : undefined
+                })
+            ]
+        })
+    }
+
+    private getChangeLogNotePath(configuredPath: string): string {
+        return normalizePath(
+            configuredPath.endsWith(`.${MARKDOWN_FILE_EXTENSION}`)
+                ? configuredPath
+                : `${configuredPath}.${MARKDOWN_FILE_EXTENSION}`
+        )
+    }
+
+    /**
+     * The change appending entries at the end of the change log note
+     */
+    private buildChangeLogNoteUpdate(entries: string[]): OtherNoteUpdate {
+        return {
+            path: this.getChangeLogNotePath(this.settings.changeLogNotePath.trim()),
+            update: (data) => {
+                const separator = data === '' || data.endsWith('\n') ? '' : '\n'
+                return `${data}${separator}${entries.join('\n')}\n`
+            }
+        }
+    }
+
+    /**
+     * Append entries at the end of the change log note, creating it when missing
+     */
+    private async appendToChangeLogNote(entries: string[]): Promise<void> {
+        const { path, update } = this.buildChangeLogNoteUpdate(entries)
+
+        try {
+            const changeLogNote = this.app.vault.getFileByPath(path)
+            if (changeLogNote) {
+                await this.app.vault.process(changeLogNote, update)
+                return
+            }
+            try {
+                await this.createNote(path, update(''))
+            } catch (e: unknown) {
+                // The notes processed in the same batch may have created it meanwhile
+                const createdNote = this.app.vault.getFileByPath(path)
+                if (!createdNote) {
+                    throw e
+                }
+                await this.app.vault.process(createdNote, update)
+            }
+        } catch (e: unknown) {
+            log(`Failed to update the change log note [${path}]`, 'warn', e)
+            new Notice(`Dataview Serializer: failed to update the change log note ${path}`)
+        }
+    }
+
+    /**
+     * Let the user pick a query of the active note, then browse and restore its past results
+     */
+    async browseResultHistory(): Promise<void> {
+        const activeFile = this.app.workspace.getActiveFile()
+        if (!activeFile) {
+            new Notice('No active file')
+            return
+        }
+
+        const text = await this.app.vault.read(activeFile)
+        const queries = findQueries(text)
+            .map((query) => query.query)
+            .filter((query) => this.resultHistory.get(activeFile.path, query).length > 0)
+
+        if (queries.length === 0) {
+            const hint = this.settings.enableResultHistory
+                ? ''
+                : ' Enable "Keep result history" in the settings to start recording it.'
+            new Notice(`No result history for the queries of ${activeFile.name}.${hint}`)
+            return
+        }
+
+        const openHistory = (query: string): void => {
+            new ResultHistoryModal(
+                this.app,
+                query,
+                this.resultHistory.get(activeFile.path, query),
+                (snapshot) => this.restoreResultSnapshot(activeFile, query, snapshot)
+            ).open()
+        }
+
+        if (queries.length === 1) {
+            openHistory(queries[0]!)
+            return
+        }
+        new QueryHistorySuggestModal(this.app, queries, openHistory).open()
+    }
+
+    /**
+     * Put a past result of a query back between its result markers
+     */
+    async restoreResultSnapshot(
+        file: TFile,
+        query: string,
+        snapshot: ResultSnapshot
+    ): Promise<void> {
+        const text = await this.app.vault.read(file)
+        const queryWithContext = findQueries(text).find((found) => found.query === query)
+        const updatedText = queryWithContext
+            ? replaceSerializedBlockContent(text, queryWithContext, snapshot.content)
+            : null
+
+        if (updatedText === null) {
+            new Notice(`The query no longer has a result block in ${file.name}`)
+            return
+        }
+
+        if (updatedText !== text) {
+            this.recordFileUpdate(file.path)
+            await this.writeSerializedText(file, updatedText)
+        }
+        new Notice(`Restored the result of ${new Date(snapshot.timestamp).toLocaleString()}`)
+    }
+
+    /**
+     * The Markdown files inside the folders to scan
+     */
+    private getFilesInScanScope(): TFile[] {
+        const isInScope = createScopeMatcher(this.settings.foldersToScan)
+        return this.app.vault.getMarkdownFiles().filter((file) => isInScope(file.path))
+    }
+
+    /**
+     * Open the error log in the right sidebar, or reveal it when it is already open
+     */
+    async openQueryErrorLog(): Promise<void> {
+        const { workspace } = this.app
+        const existing = workspace.getLeavesOfType(ERROR_LOG_VIEW_TYPE)[0]
+        if (existing) {
+            await workspace.revealLeaf(existing)
+            return
+        }
+        const leaf = workspace.getRightLeaf(false)
+        if (!leaf) {
+            return
+        }
+        await leaf.setViewState({ type: ERROR_LOG_VIEW_TYPE, active: true })
+        await workspace.revealLeaf(leaf)
+    }
+
+    getQueryErrors(): QueryErrorEntry[] {
+        return this.queryErrorLog.getAll()
+    }
+
+    async openQueryError(error: QueryErrorEntry): Promise<void> {
+        const file = this.app.vault.getFileByPath(error.path)
+        if (!file) {
+            new Notice(`Note not found: ${error.path}`)
+            return
+        }
+
+        const text = await this.app.vault.cachedRead(file)
+        const line = indexNoteQueries(file.path, text).find(
+            (query) => query.type === error.type && query.query === error.query
+        )?.line
+        await this.app.workspace
+            .getLeaf(false)
+            .openFile(file, line === undefined ? undefined : { eState: { line } })
+    }
+
+    async retryQueryError(error: QueryErrorEntry): Promise<void> {
+        const file = this.app.vault.getFileByPath(error.path)
+        if (!file) {
+            new Notice(`Note not found: ${error.path}`)
+            return
+        }
+
+        const result = await this.processFile(file, true, error.query, true)
+        this.notifyManualRun(result, file.name)
+    }
+
+    clearQueryErrors(): void {
+        this.queryErrorLog.clear()
+        void this.updateErrorLog()
+    }
+
+    /**
+     * Open the performance tab, or reveal and refresh it when it is already open
+     */
+    async openPerformanceView(): Promise<void> {
+        const { workspace } = this.app
+        const existing = workspace.getLeavesOfType(PERFORMANCE_VIEW_TYPE)[0]
+        if (existing) {
+            await workspace.revealLeaf(existing)
+            if (existing.view instanceof PerformanceView) {
+                existing.view.render()
+            }
+            return
+        }
+        const leaf = workspace.getLeaf('tab')
+        await leaf.setViewState({ type: PERFORMANCE_VIEW_TYPE, active: true })
+        await workspace.revealLeaf(leaf)
+    }
+
+    getQueryProfiles(): QueryProfile[] {
+        return this.queryProfiler.getQueryProfiles()
+    }
+
+    getFileProfiles(): FileProfile[] {
+        return this.queryProfiler.getFileProfiles()
+    }
+
+    /**
+     * Export the profiles to a new file at the root of the vault
+     */
+    async exportProfiles(exportFormat: ProfileExportFormat): Promise<void> {
+        const now = new Date()
+        const params = {
+            queries: this.queryProfiler.getQueryProfiles(),
+            files: this.queryProfiler.getFileProfiles(),
+            exportedAt: now.toISOString()
+        }
+        const content =
+            exportFormat === 'csv' ? formatProfilesAsCsv(params) : formatProfilesAsJson(params)
+        const path = normalizePath(
+            `Serializer performance ${format(now, 'yyyy-MM-dd HH-mm-ss')}.${exportFormat}`
+        )
+
+        try {
+            await this.app.vault.create(path, content)
+            new Notice(`Serializer performance exported to ${path}`)
+        } catch (e: unknown) {
+            log('Failed to export the serializer performance', 'warn', e)
+            new Notice(`Failed to export the serializer performance to ${path}`)
+        }
+    }
+
+    clearProfiles(): void {
+        this.queryProfiler.clear()
+    }
+
+    /**
+     * Open the query dashboard, or reveal it when it is already open
+     */
+    async openQueryDashboard(): Promise<void> {
+        const { workspace } = this.app
+        const existing = workspace.getLeavesOfType(QUERY_DASHBOARD_VIEW_TYPE)[0]
+        if (existing) {
+            await workspace.revealLeaf(existing)
+            if (existing.view instanceof QueryDashboardView) {
+                await existing.view.reload()
+            }
+            return
+        }
+        const leaf = workspace.getLeaf('tab')
+        await leaf.setViewState({ type: QUERY_DASHBOARD_VIEW_TYPE, active: true })
+        await workspace.revealLeaf(leaf)
+    }
+
+    async listDashboardQueries(): Promise<DashboardQuery[]> {
+        const queries: DashboardQuery[] = []
+
+        for (const file of this.getFilesInScanScope()) {
+            const text = await this.app.vault.cachedRead(file)
+            // Every definition is an HTML comment or a fenced block: skip the notes without any
+            if (
+                !text.includes('<!--') &&
+                !text.includes(QUERY_FENCE_LANGUAGE) &&
+                !text.includes(DATAVIEWJS_FENCE_LANGUAGE)
+            ) {
+                continue
+            }
+            for (const query of indexNoteQueries(file.path, text)) {
+                queries.push({
+                    ...query,
+                    ...this.queryStatus.get(file.path, query.type, query.query),
+                    lastError: this.queryErrorLog.get(file.path, query.type, query.query)
+                })
+            }
+        }
+
+        return queries
+    }
 
-                log(
-                    `[DEBUG] Serialized content length: ${serializedQuery.length}, content: "${serializedQuery.substring(0, 100)}..."`,
-                    'debug'
-                )
+    async refreshDashboardQuery(query: DashboardQuery): Promise<void> {
+        const file = this.app.vault.getFileByPath(query.path)
+        if (!file) {
+            new Notice(`Note not found: ${query.path}`)
+            return
+        }
 
-                // Idempotency check: compare new result with existing serialized content
-                // If they're identical, skip this query to prevent unnecessary file modifications
-                // This prevents infinite update loops for queries that always produce the same output
-                // Look for a serialized block that immediately follows THIS query definition
-                // We match ANY query text in the SerializedQuery marker (not the exact query)
-                // because the user may have modified the query since it was last serialized
-                const existingBlock = matchExistingSerializedBlock(text, regexParams)
-                log(`[DEBUG] Idempotency check - existingMatch found: ${!!existingBlock}`, 'debug')
-                if (existingBlock) {
-                    // Inside a blockquote, the prefix carried by every line (including the
-                    // blank ones) is stripped before comparing, so that structural markers
-                    // never make identical results look different.
-                    const existingContent = stripLinePrefix(
-                        existingBlock.content,
-                        blockquotePrefix
-                    ).trim()
-                    const newContent = stripLinePrefix(serializedQuery, blockquotePrefix).trim()
+        const result = await this.processFile(file, true, query.query, true)
+        this.notifyManualRun(result, file.name)
+    }
 
-                    // A block written before the blockquote fix carries unquoted markers,
-                    // which breaks the callout. Its content may well be up to date, so the
-                    // structure has to be checked too, otherwise it is never repaired.
-                    // Reference: https://github.com/dsebastien/obsidian-dataview-serializer/issues/64
-                    const markersAreUpToDate =
-                        existingBlock.startPrefix === blockquotePrefix &&
-                        existingBlock.endPrefix === blockquotePrefix
+    async openDashboardQuery(query: DashboardQuery): Promise<void> {
+        const file = this.app.vault.getFileByPath(query.path)
+        if (!file) {
+            new Notice(`Note not found: ${query.path}`)
+            return
+        }
 
-                    log(
-                        `[DEBUG] Idempotency - existing length: ${existingContent.length}, new length: ${newContent.length}, match: ${existingContent === newContent}, markers up to date: ${markersAreUpToDate}`,
-                        'debug'
-                    )
+        await this.app.workspace.getLeaf(false).openFile(file, { eState: { line: query.line } })
+    }
 
-                    if (markersAreUpToDate && existingContent === newContent) {
-                        log(
-                            `Skipping query in [${file.path}] - content unchanged: "${foundQuery}"`,
-                            'debug'
-                        )
-                        continue
-                    }
-                }
+    async convertDashboardQueryMode(
+        query: DashboardQuery,
+        mode: ConvertibleUpdateMode
+    ): Promise<void> {
+        const file = this.app.vault.getFileByPath(query.path)
+        if (!file) {
+            new Notice(`Note not found: ${query.path}`)
+            return
+        }
 
-                if ('' !== serializedQuery) {
-                    // Match the query definition, optionally followed by an existing
-                    // serialized block, so both can be replaced in one go
-                    const originalQueryDefinition = queryWithContext.originalQueryDefinition
-                    log(
-                        `[DEBUG] Is multi-line query: ${!!originalQueryDefinition}, indentation: "${indentation}"`,
-                        'debug'
-                    )
-                    const queryToSerializeRegex = buildBlockQueryReplacementRegex({
-                        ...regexParams,
-                        originalQueryDefinition
-                    })
+        let converted = false
+        await this.app.vault.process(file, (text) => {
+            const updatedText = convertQueryUpdateMode(text, query, mode)
+            converted = updatedText !== null
+            return updatedText ?? text
+        })
 
-                    log(`[DEBUG] Replacement regex: ${queryToSerializeRegex.source}`, 'debug')
+        if (!converted) {
+            new Notice(`The query was not found in ${file.name}. Reload the dashboard.`)
+        }
+    }
 
-                    // Test if the regex matches and what it matches
-                    const regexTestMatch = updatedText.match(queryToSerializeRegex)
-                    log(
-                        `[DEBUG] Regex test - matches: ${regexTestMatch ? regexTestMatch.length : 0}, matched text length: ${regexTestMatch?.[0]?.length ?? 0}`,
-                        'debug'
-                    )
-                    if (regexTestMatch) {
-                        log(
-                            `[DEBUG] Matched text (first 200 chars): "${regexTestMatch[0]?.substring(0, 200)}"`,
-                            'debug'
-                        )
-                    }
+    /**
+     * Run the "Scan and serialize all Dataview queries" pipeline without writing anything,
+     * then open the preview tab so that the changes can be reviewed, accepted or discarded.
+     */
+    async previewSerialization(): Promise<void> {
+        log('Previewing the serialization of all Dataview queries', 'debug')
+        const results = await processInBatches(
+            this.getFilesInScanScope(),
+            (file) => this.processFile(file, false, undefined, true, true),
+            5 // Process 5 files concurrently
+        )
 
-                    let queryAndSerializedQuery = ''
+        this.notifyQueryErrors(results)
 
-                    // Determine if we need a trailing newline before the END marker.
-                    // This is needed for indented content (to maintain structure) or
-                    // when the setting is enabled (for static site generators like Jekyll).
-                    // Blockquotes are excluded: the quoted blank line that already ends the
-                    // content keeps the structure, so adding another one only inserts empty
-                    // space inside the callout.
-                    // Reference: https://github.com/dsebastien/obsidian-dataview-serializer/issues/64
-                    const needsTrailingNewline =
-                        (indentation.length > 0 && blockquotePrefix === '') ||
-                        this.settings.addTrailingNewline
+        const changes = new Map<string, Omit<PreviewedFileChange, 'hunks'>>()
+        for (const result of results) {
+            if (result.originalText !== undefined) {
+                changes.set(result.filePath, {
+                    path: result.filePath,
+                    originalText: result.originalText,
+                    updatedText: result.updatedText!,
+                    writtenResults: result.writtenResults ?? [],
+                    serializedQueries: result.serializedQueries ?? []
+                })
+            }
+        }
+        // The changes to other notes are applied in turn, on top of the previewed change
+        // of the note itself, if any
+        for (const { path, update } of results.flatMap((result) => result.otherNoteUpdates ?? [])) {
+            let change = changes.get(path)
+            if (!change) {
+                const file = this.app.vault.getFileByPath(path)
+                const text = file ? await this.app.vault.read(file) : ''
+                change = { path, originalText: text, updatedText: text, isNewNote: !file }
+            }
+            changes.set(path, { ...change, updatedText: update(change.updatedText) })
+        }
 
-                    if (updateMode === 'once-and-eject') {
-                        // For 'once-and-eject', remove all tags and leave only the serialized content
-                        // Add a trailing newline to maintain proper document structure
-                        queryAndSerializedQuery = `${serializedQuery}\n`
-                    } else {
-                        // Multi-line queries keep their original multi-line definition;
-                        // single-line queries are rebuilt from their parts (flagClose is
-                        // reused so the user's format is preserved).
-                        // The SerializedQuery marker always uses the normalized query.
-                        // Use syntax-appropriate result markers.
-                        const queryDefinition =
-                            originalQueryDefinition ??
-                            `${indentation}${flagOpen}${foundQuery}${flagClose}`
+        this.previewedChanges = [...changes.values()]
+            .filter((change) => change.isNewNote || change.updatedText !== change.originalText)
+            .map((change) => ({
+                ...change,
+                hunks: buildDiffHunks(change.originalText, change.updatedText)
+            }))
+            .sort((a, b) => a.path.localeCompare(b.path))
+
+        if (this.previewedChanges.length === 0) {
+            new Notice('Dataview Serializer: all serialized queries are up to date')
+            this.detachPreviewViews()
+            return
+        }
 
-                        queryAndSerializedQuery = buildSerializedBlock({
-                            queryDefinition,
-                            startMarker: `${serializedStart}${foundQuery}${QUERY_FLAG_CLOSE}`,
-                            endMarker: serializedEnd,
-                            content: serializedQuery,
-                            indentation,
-                            // Tables need a blank line after the marker to render
-                            blankLineBeforeContent: isTableQuery(foundQuery),
-                            blankLineBeforeEnd: needsTrailingNewline
-                        })
-                    }
-                    log(
-                        `[DEBUG] Replacement string length: ${queryAndSerializedQuery.length}, first 200 chars: "${queryAndSerializedQuery.substring(0, 200)}"`,
-                        'debug'
-                    )
+        const { workspace } = this.app
+        const existing = workspace.getLeavesOfType(SERIALIZATION_PREVIEW_VIEW_TYPE)[0]
+        if (existing) {
+            this.refreshPreviewViews()
+            await workspace.revealLeaf(existing)
+            return
+        }
+        const leaf = workspace.getLeaf('tab')
+        await leaf.setViewState({ type: SERIALIZATION_PREVIEW_VIEW_TYPE, active: true })
+        await workspace.revealLeaf(leaf)
+    }
 
-                    const textLengthBefore = updatedText.length
-                    updatedText = updatedText.replace(
-                        queryToSerializeRegex,
-                        () => queryAndSerializedQuery
-                    )
-                    log(
-                        `[DEBUG] After replacement - text length before: ${textLengthBefore}, after: ${updatedText.length}, diff: ${updatedText.length - textLengthBefore}`,
-                        'debug'
-                    )
+    getPreviewedChanges(): PreviewedFileChange[] {
+        return this.previewedChanges
+    }
+
+    /**
+     * Write the previewed changes of the given notes (all of them when omitted), creating
+     * the new notes. Notes modified (or created) since the preview are skipped, so that
+     * no edit is ever overwritten.
+     */
+    async applyPreviewedChanges(paths?: string[]): Promise<void> {
+        const changesToApply = this.previewedChanges.filter(
+            (change) => !paths || paths.includes(change.path)
+        )
+
+        let appliedCount = 0
+        let skippedCount = 0
+        for (const change of changesToApply) {
+            const file = this.app.vault.getFileByPath(change.path)
+            try {
+                const isUnchanged = change.isNewNote
+                    ? !file
+                    : !!file && (await this.app.vault.read(file)) === change.originalText
+                if (!isUnchanged) {
+                    log(`Skipping [${change.path}]: it changed since the preview`, 'debug')
+                    skippedCount++
+                    continue
+                }
+                if (file) {
+                    const startTime = performance.now()
+                    const previousModificationTime = file.stat.mtime
+                    this.recordFileUpdate(file.path)
+                    this.recordWrittenSyncedTasks(file.path, change.updatedText)
+                    await this.writeSerializedText(file, change.updatedText)
+                    // The changes of the queries of the note are reported as if they had
+                    // been written by a scan
+                    if (change.serializedQueries) {
+                        this.reportWrittenFile(
+                            { filePath: file.path, errors: [] },
+                            {
+                                oldContent: change.originalText,
+                                newContent: change.updatedText,
+                                previousModificationTime,
+                                writtenResults: change.writtenResults ?? [],
+                                serializedQueries: change.serializedQueries,
+                                durationMs: performance.now() - startTime
+                            }
+                        )
+                    }
+                } else {
+                    await this.createNote(change.path, change.updatedText)
                 }
+                appliedCount++
+            } catch (e: unknown) {
+                this.filesToIgnoreFileEvents.delete(change.path)
+                log(`Failed to apply the previewed changes of [${change.path}]`, 'warn', e)
+                skippedCount++
             }
+        }
 
-            // Process inline queries
-            updatedText = await this.processInlineQueries(
-                updatedText,
-                text,
-                file.path,
-                result,
-                targetQuery,
-                isManualTrigger
-            )
+        this.previewedChanges = this.previewedChanges.filter(
+            (change) => !changesToApply.includes(change)
+        )
 
-            // Process DataviewJS queries (if enabled)
-            if (this.settings.enableDataviewJS && foundDataviewJSQueries.length > 0) {
-                updatedText = await this.processDataviewJSQueries(
-                    updatedText,
-                    text,
-                    file.path,
-                    result,
-                    foundDataviewJSQueries,
-                    targetQuery,
-                    isManualTrigger
-                )
-            }
+        const skippedMessage =
+            skippedCount > 0
+                ? ` Skipped ${skippedCount} note(s) modified since the preview, or that could not be written.`
+                : ''
+        new Notice(
+            `Dataview Serializer: applied the changes to ${appliedCount} note(s).${skippedMessage}`,
+            NOTICE_TIMEOUT
+        )
 
-            // Keep track of the last time this file was updated to avoid modification loops
-            const nextPossibleUpdateTimeForFile = add(new Date(), {
-                seconds: MINIMUM_SECONDS_BETWEEN_UPDATES
-            })
-            this.nextPossibleUpdates.set(file.path, nextPossibleUpdateTimeForFile)
+        if (this.previewedChanges.length === 0) {
+            this.detachPreviewViews()
+        } else {
+            this.refreshPreviewViews()
+        }
+    }
 
-            // Save the updated version
-            log(
-                `[DEBUG] Final check - original length: ${text.length}, updated length: ${updatedText.length}, will save: ${updatedText !== text}`,
-                'debug'
-            )
+    discardPreviewedChanges(): void {
+        this.previewedChanges = []
+        this.detachPreviewViews()
+    }
 
-            if (updatedText !== text) {
-                this.filesToIgnoreFileEvents.add(file.path)
-                // Safety net: ensure the file is eventually removed from the ignore list
-                // even if the modify event doesn't fire or an error occurs.
-                window.setTimeout(() => {
-                    if (this.filesToIgnoreFileEvents.has(file.path)) {
-                        this.filesToIgnoreFileEvents.delete(file.path)
-                    }
-                }, 2000)
-                //log('The file content has changed. Saving the modifications', 'info');
-                await this.app.vault.modify(file, updatedText)
-            }
-        } catch (e: unknown) {
-            // Ensure cleanup on error
-            if (this.filesToIgnoreFileEvents.has(file.path)) {
-                this.filesToIgnoreFileEvents.delete(file.path)
+    private refreshPreviewViews(): void {
+        for (const leaf of this.app.workspace.getLeavesOfType(SERIALIZATION_PREVIEW_VIEW_TYPE)) {
+            if (leaf.view instanceof SerializationPreviewView) {
+                leaf.view.render()
             }
-            log('Failed to process the file', 'warn', e)
         }
+    }
 
-        return result
+    private detachPreviewViews(): void {
+        this.app.workspace.detachLeavesOfType(SERIALIZATION_PREVIEW_VIEW_TYPE)
     }
 
     /**
@@ -1193,8 +3391,10 @@ export class DataviewSerializerPlugin extends Plugin {
      * @param originalText The original file text (for idempotency checks)
      * @param filePath The file path for evaluation context
      * @param result The file processing result to add errors to
+     * @param serializedQueries The queries whose result changed, to add the inline queries to
      * @param targetQuery Optional specific query to process
      * @param isManualTrigger Whether this is a manual trigger (vs automatic)
+     * @param dryRun Whether the changes are only previewed
      * @returns The updated text with serialized inline queries
      */
     private async processInlineQueries(
@@ -1202,8 +3402,10 @@ export class DataviewSerializerPlugin extends Plugin {
         _originalText: string,
         filePath: string,
         result: FileProcessingResult,
+        serializedQueries: QuerySerializedEvent[],
         targetQuery?: string,
-        isManualTrigger = false
+        isManualTrigger = false,
+        dryRun = false
     ): Promise<string> {
         const foundInlineQueries: InlineQueryWithContext[] = findInlineQueries(updatedText)
 
@@ -1235,6 +3437,7 @@ export class DataviewSerializerPlugin extends Plugin {
             const inTable = isInsideTable(updatedText, startOffset)
 
             // Serialize the inline query
+            const queryStartTime = performance.now()
             const serializationResult = await serializeInlineQuery({
                 expression,
                 originFile: filePath,
@@ -1248,8 +3451,25 @@ export class DataviewSerializerPlugin extends Plugin {
                     message: serializationResult.error.message,
                     query: expression
                 })
+                this.recordQueryError(
+                    filePath,
+                    'inline',
+                    expression,
+                    serializationResult.error.message,
+                    dryRun
+                )
+                this.profileQuery(
+                    filePath,
+                    'inline',
+                    expression,
+                    queryStartTime,
+                    0,
+                    'error',
+                    dryRun
+                )
                 continue
             }
+            this.resolveQueryError(filePath, 'inline', expression, dryRun)
 
             const serializedContent = serializationResult.serializedContent
 
@@ -1263,9 +3483,27 @@ export class DataviewSerializerPlugin extends Plugin {
                         `Skipping inline query in [${filePath}] - content unchanged: "${expression}"`,
                         'debug'
                     )
+                    this.profileQuery(
+                        filePath,
+                        'inline',
+                        expression,
+                        queryStartTime,
+                        serializedContent.length,
+                        'unchanged',
+                        dryRun
+                    )
                     continue
                 }
             }
+            this.profileQuery(
+                filePath,
+                'inline',
+                expression,
+                queryStartTime,
+                serializedContent.length,
+                'written',
+                dryRun
+            )
 
             // Build the replacement
             let replacement: string
@@ -1282,6 +3520,16 @@ export class DataviewSerializerPlugin extends Plugin {
                 )
             }
 
+            serializedQueries.push({
+                path: filePath,
+                type: 'inline',
+                query: expression,
+                updateMode,
+                oldContent: currentResult,
+                newContent: serializedContent,
+                durationMs: performance.now() - queryStartTime
+            })
+
             // Replace the full match with the new content
             updatedText =
                 updatedText.substring(0, startOffset) +
@@ -1292,6 +3540,121 @@ export class DataviewSerializerPlugin extends Plugin {
         return updatedText
     }
 
+    /**
+     * Process the property queries of a note. Their values are collected into the
+     * frontmatter updates, written once the rest of the note is; the markers of the
+     * queries to eject are removed from the text.
+     *
+     * @param updatedText The current text content (may have been modified by previous processing)
+     * @param file The note of the queries
+     * @param result The file processing result to add errors to
+     * @param serializedQueries The queries whose value changed, to add the property queries to
+     * @param frontmatterUpdates The values to write, by property
+     * @param targetQuery Optional specific query to process (see `buildPropertyQueryKey`)
+     * @param isManualTrigger Whether this is a manual trigger (vs automatic)
+     * @param dryRun Whether the changes are only previewed
+     * @returns The updated text, without the ejected queries
+     */
+    private async processPropertyQueries(
+        updatedText: string,
+        file: TFile,
+        result: FileProcessingResult,
+        serializedQueries: QuerySerializedEvent[],
+        frontmatterUpdates: Map<string, ResultData>,
+        targetQuery?: string,
+        isManualTrigger = false,
+        dryRun = false
+    ): Promise<string> {
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {}
+
+        // Process property queries in reverse order to preserve offsets
+        for (const propertyQuery of findPropertyQueries(updatedText).reverse()) {
+            const { property, query, updateMode, definition, startOffset } = propertyQuery
+            const queryKey = buildPropertyQueryKey(propertyQuery)
+
+            // If we are targeting a specific query, skip others
+            if (targetQuery && queryKey !== targetQuery) {
+                continue
+            }
+
+            // A 'once' query is done as soon as its property exists
+            const currentValue: unknown = frontmatter[property]
+            const isAlreadySerialized = currentValue !== undefined
+            if (shouldSkipQuery({ updateMode, isManualTrigger, isAlreadySerialized })) {
+                continue
+            }
+
+            const queryStartTime = performance.now()
+            const serializationResult = await serializePropertyQuery({
+                query,
+                originFile: file.path,
+                dataviewApi: this.dataviewApi!
+            })
+
+            if (!serializationResult.success && serializationResult.error) {
+                result.errors.push({ message: serializationResult.error.message, query: queryKey })
+                this.recordQueryError(
+                    file.path,
+                    'property',
+                    queryKey,
+                    serializationResult.error.message,
+                    dryRun
+                )
+                this.profileQuery(
+                    file.path,
+                    'property',
+                    queryKey,
+                    queryStartTime,
+                    0,
+                    'error',
+                    dryRun
+                )
+                continue
+            }
+            this.resolveQueryError(file.path, 'property', queryKey, dryRun)
+
+            // Idempotency check: compare the new value with the property
+            const newContent = JSON.stringify(serializationResult.data)
+            const oldContent = isAlreadySerialized ? JSON.stringify(currentValue) : undefined
+            const hasChanged = newContent !== oldContent
+            this.profileQuery(
+                file.path,
+                'property',
+                queryKey,
+                queryStartTime,
+                newContent.length,
+                hasChanged ? 'written' : 'unchanged',
+                dryRun
+            )
+            if (hasChanged) {
+                frontmatterUpdates.set(property, serializationResult.data)
+                serializedQueries.push({
+                    path: file.path,
+                    type: 'property',
+                    query: queryKey,
+                    updateMode,
+                    oldContent,
+                    newContent,
+                    durationMs: performance.now() - queryStartTime
+                })
+            }
+
+            if (updateMode === 'once-and-eject') {
+                // Remove the marker, and its line when it was alone on it
+                const lineStart = updatedText.lastIndexOf('\n', startOffset - 1) + 1
+                const end = startOffset + definition.length
+                const isAloneOnLine =
+                    updatedText.substring(lineStart, startOffset).trim() === '' &&
+                    (updatedText[end] === '\n' || end === updatedText.length)
+                updatedText = isAloneOnLine
+                    ? updatedText.substring(0, lineStart) + updatedText.substring(end + 1)
+                    : updatedText.substring(0, startOffset) + updatedText.substring(end)
+            }
+        }
+
+        return updatedText
+    }
+
     /**
      * Process DataviewJS queries in the given text.
      * This handles JavaScript-based Dataview queries.
@@ -1300,9 +3663,11 @@ export class DataviewSerializerPlugin extends Plugin {
      * @param originalText The original file text (for idempotency checks)
      * @param filePath The file path for evaluation context
      * @param result The file processing result to add errors to
+     * @param serializedQueries The queries whose result changed, to add the DataviewJS queries to
      * @param foundDataviewJSQueries The DataviewJS queries found in the text
      * @param targetQuery Optional specific query to process
      * @param isManualTrigger Whether this is a manual trigger (vs automatic)
+     * @param dryRun Whether the changes are only previewed
      * @returns The updated text with serialized DataviewJS queries
      */
     private async processDataviewJSQueries(
@@ -1310,14 +3675,26 @@ export class DataviewSerializerPlugin extends Plugin {
         originalText: string,
         filePath: string,
         result: FileProcessingResult,
+        serializedQueries: QuerySerializedEvent[],
         foundDataviewJSQueries: DataviewJSQueryWithContext[],
         targetQuery?: string,
-        isManualTrigger = false
+        isManualTrigger = false,
+        dryRun = false
     ): Promise<string> {
         log(
             `[DEBUG] Processing ${foundDataviewJSQueries.length} DataviewJS queries in file [${filePath}]`,
             'debug'
         )
+        this.viewDependencyIndex.retain(
+            filePath,
+            foundDataviewJSQueries.map(({ jsCode }) => jsCode)
+        )
+        // Code removed or edited since the last run no longer awaits approval
+        for (const [hash, request] of this.pendingDataviewJSApprovals) {
+            if (request.notePath === filePath) {
+                this.pendingDataviewJSApprovals.delete(hash)
+            }
+        }
 
         for (const dvjsQuery of foundDataviewJSQueries) {
             const { jsCode, updateMode, indentation, syntaxVariant, originalQueryDefinition } =
@@ -1372,15 +3749,48 @@ export class DataviewSerializerPlugin extends Plugin {
                 continue
             }
 
+            // Code synced from another device never runs before it is approved here
+            const hash = await hashDataviewJSCode(jsCode)
+            if (!this.dataviewJSApprovals.isApproved(hash)) {
+                this.requestDataviewJSApproval(
+                    { hash, jsCode, codePath: filePath, notePath: filePath },
+                    isManualTrigger,
+                    dryRun
+                )
+                this.recordQueryError(
+                    filePath,
+                    'dataviewjs',
+                    jsCode,
+                    'This DataviewJS code awaits approval on this device',
+                    dryRun
+                )
+                continue
+            }
+
             log(`Processing DataviewJS query in file [${filePath}]`, 'debug')
 
             // Serialize the DataviewJS query
+            const queryStartTime = performance.now()
             const serializationResult = await serializeDataviewJSQuery({
                 jsCode,
                 originFile: filePath,
                 dataviewApi: this.dataviewApi!,
-                indentation
+                indentation,
+                capabilities: this.settings.dataviewJSCapabilities,
+                canRunViewScript: async (path, contents) => {
+                    const viewHash = await hashDataviewJSCode(contents)
+                    if (this.dataviewJSApprovals.isApproved(viewHash)) {
+                        return true
+                    }
+                    this.requestDataviewJSApproval(
+                        { hash: viewHash, jsCode: contents, codePath: path, notePath: filePath },
+                        isManualTrigger,
+                        dryRun
+                    )
+                    return false
+                }
             })
+            this.viewDependencyIndex.set(filePath, jsCode, serializationResult.viewPaths)
 
             // Check for errors
             if (!serializationResult.success && serializationResult.error) {
@@ -1392,8 +3802,25 @@ export class DataviewSerializerPlugin extends Plugin {
                     message: serializationResult.error.message,
                     query: jsCode.substring(0, 50) + (jsCode.length > 50 ? '...' : '')
                 })
+                this.recordQueryError(
+                    filePath,
+                    'dataviewjs',
+                    jsCode,
+                    serializationResult.error.message,
+                    dryRun
+                )
+                this.profileQuery(
+                    filePath,
+                    'dataviewjs',
+                    jsCode,
+                    queryStartTime,
+                    0,
+                    'error',
+                    dryRun
+                )
                 continue
             }
+            this.resolveQueryError(filePath, 'dataviewjs', jsCode, dryRun)
 
             const serializedContent = serializationResult.serializedContent
 
@@ -1418,9 +3845,29 @@ export class DataviewSerializerPlugin extends Plugin {
 
                 if (markersAreUpToDate && existingContent === newContent) {
                     log(`Skipping DataviewJS query in [${filePath}] - content unchanged`, 'debug')
+                    this.profileQuery(
+                        filePath,
+                        'dataviewjs',
+                        jsCode,
+                        queryStartTime,
+                        serializedContent.length,
+                        'unchanged',
+                        dryRun
+                    )
                     continue
                 }
             }
+            this.profileQuery(
+                filePath,
+                'dataviewjs',
+                jsCode,
+                queryStartTime,
+                serializedContent.length,
+                serializedContent !== '' || updateMode === 'once-and-eject'
+                    ? 'written'
+                    : 'unchanged',
+                dryRun
+            )
 
             // Build the replacement
             if (serializedContent !== '' || updateMode === 'once-and-eject') {
@@ -1452,6 +3899,15 @@ export class DataviewSerializerPlugin extends Plugin {
                 }
 
                 updatedText = updatedText.replace(queryToSerializeRegex, () => replacement)
+                serializedQueries.push({
+                    path: filePath,
+                    type: 'dataviewjs',
+                    query: jsCode,
+                    updateMode,
+                    oldContent: existingBlock?.content,
+                    newContent: serializedContent,
+                    durationMs: performance.now() - queryStartTime
+                })
             }
         }
 
@@ -1467,6 +3923,23 @@ export class DataviewSerializerPlugin extends Plugin {
         return isIgnoredByFrontmatter(frontmatter)
     }
 
+    /**
+     * Check whether the given path is part of the configured folders to scan.
+     * Folders are path rules (see `createPathRulesMatcher`), resolved on every call.
+     * When no folder is configured, the whole vault is in scope.
+     */
+    isInScanScope(path: string): boolean {
+        return createScopeMatcher(this.settings.foldersToScan)(path)
+    }
+
+    /**
+     * Check whether the given path matches the configured folders to ignore.
+     * See `createPathRulesMatcher` for the supported rules.
+     */
+    isInIgnoredFolder(path: string): boolean {
+        return createPathRulesMatcher(this.settings.ignoredFolders)(path)
+    }
+
     async shouldFileBeIgnored(file: TFile, force = false): Promise<boolean> {
         if (!file.path) {
             return true
@@ -1481,6 +3954,13 @@ export class DataviewSerializerPlugin extends Plugin {
             return true
         }
 
+        // Checked before reading the file so that out-of-scope notes cost nothing.
+        // Forced runs target a specific file explicitly and are not limited by the scope.
+        if (!force && !this.isInScanScope(file.path)) {
+            log(`Ignoring file [${file.path}] as it is outside of the folders to scan`, 'debug')
+            return true
+        }
+
         const fileContent = (await this.app.vault.read(file)).trim()
 
         if (fileContent.length === 0) {
@@ -1512,13 +3992,6 @@ export class DataviewSerializerPlugin extends Plugin {
             }
         }
 
-        return this.settings.ignoredFolders.some((ignoredFolder) => {
-            if (file.path.startsWith(ignoredFolder)) {
-                //log(`Skipping because the file is part of an ignored folder: [${ignoredFolder}]`, 'debug');
-                return true
-            } else {
-                return false
-            }
-        })
+        return this.isInIgnoredFolder(file.path)
     }
 }
@@ -14,6 +14,8 @@ import {
     QUERY_FLAG_MANUAL_OPEN_ALT,
     QUERY_FLAG_ONCE_OPEN_ALT,
     QUERY_FLAG_ONCE_AND_EJECT_OPEN_ALT,
+    QUERY_FLAG_EVERY_OPEN,
+    QUERY_FLAG_EVERY_OPEN_ALT,
     SERIALIZED_QUERY_END,
     SERIALIZED_QUERY_START,
     SERIALIZED_QUERY_START_ALT,
@@ -45,8 +47,39 @@ import {
 import type { PluginSettings } from './types/plugin-settings.intf'
 import { log } from '../utils/log'
 import { getBlockquotePrefix, stripBlockquoteMarkers } from './utils/blockquote.fn'
+import { escapeRegExp } from './utils/escape-reg-exp.fn'
+import { QUERY_OPTIONS_PATTERN } from './utils/parse-query-options.fn'
 
-type QueryType = 'auto' | 'manual' | 'once' | 'eject'
+type QueryType = 'auto' | 'manual' | 'once' | 'eject' | 'scheduled'
+
+/**
+ * Match the opening flag of a scheduled query, which carries its refresh interval
+ * and optionally an options block (e.g. `<!-- dataview-serializer-query-every 1h: `)
+ */
+const SCHEDULED_QUERY_FLAG_REGEX = new RegExp(
+    `(?:${escapeRegExp(QUERY_FLAG_EVERY_OPEN_ALT)}|${escapeRegExp(QUERY_FLAG_EVERY_OPEN)})[^:\\s]+(?:${QUERY_OPTIONS_PATTERN})?: `
+)
+
+/**
+ * Match the opening flags carrying an options block
+ * (e.g. `<!-- dataview-serializer-query [linkFormat=absolute]: `)
+ */
+const QUERY_FLAGS_WITH_OPTIONS: Array<{ regex: RegExp; queryType: QueryType }> = (
+    [
+        [QUERY_FLAG_ONCE_AND_EJECT_OPEN_ALT, 'eject'],
+        [QUERY_FLAG_MANUAL_OPEN_ALT, 'manual'],
+        [QUERY_FLAG_ONCE_OPEN_ALT, 'once'],
+        [QUERY_FLAG_OPEN_ALT, 'auto'],
+        [QUERY_FLAG_ONCE_AND_EJECT_OPEN, 'eject'],
+        [QUERY_FLAG_MANUAL_OPEN, 'manual'],
+        [QUERY_FLAG_ONCE_OPEN, 'once'],
+        [QUERY_FLAG_OPEN, 'auto']
+    ] as const
+).map(([flag, queryType]) => ({
+    // The options block sits between the flag name and its colon
+    regex: new RegExp(`${escapeRegExp(flag.trim().slice(0, -1))}${QUERY_OPTIONS_PATTERN}: `),
+    queryType
+}))
 
 interface QueryFlagInfo {
     flagOpen: string
@@ -58,6 +91,23 @@ interface QueryFlagInfo {
  * Detect which query flag is present in a line and return the flag info
  */
 function detectQueryFlagInLine(text: string): QueryFlagInfo | null {
+    // Scheduled flags carry an interval, so they are matched with a regex
+    const scheduledMatch = SCHEDULED_QUERY_FLAG_REGEX.exec(text)
+    if (scheduledMatch) {
+        return {
+            flagOpen: scheduledMatch[0],
+            openIdx: scheduledMatch.index,
+            queryType: 'scheduled'
+        }
+    }
+
+    for (const { regex, queryType } of QUERY_FLAGS_WITH_OPTIONS) {
+        const match = regex.exec(text)
+        if (match) {
+            return { flagOpen: match[0], openIdx: match.index, queryType }
+        }
+    }
+
     // Check in order of specificity (longer prefixes first)
     // Alternative syntax first (longer prefixes)
     const ejectAltIdx = text.indexOf(QUERY_FLAG_ONCE_AND_EJECT_OPEN_ALT)
@@ -287,6 +337,8 @@ function getQueryTypeInfo(queryType: QueryType): { label: string; icon: string }
             return { label: 'once', icon: 'circle-1' }
         case 'eject':
             return { label: 'eject', icon: 'log-out' }
+        case 'scheduled':
+            return { label: 'every', icon: 'clock' }
     }
 }
 
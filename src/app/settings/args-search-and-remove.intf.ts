@@ -9,4 +9,9 @@ export interface ArgsSearchAndRemove {
      * what it currently resolves to.
      */
     supportsPlaceholders?: boolean
+    /**
+     * When true, each configured entry shows how many notes of the vault it
+     * currently matches (or excludes, for negated rules).
+     */
+    showMatchCounts?: boolean
 }
@@ -2,17 +2,44 @@ import { App, PluginSettingTab, SearchComponent, Setting } from 'obsidian'
 import type DataviewSerializerPlugin from '../../main'
 import { produce } from 'immer'
 import type { Draft } from 'immer'
-import type { LinkFormat, PluginSettings } from '../types/plugin-settings.intf'
+import {
+    DEFAULT_SETTINGS,
+    type DataviewJSCapability,
+    type LinkFormat,
+    type PluginSettings
+} from '../types/plugin-settings.intf'
 import { onlyUniqueArray } from '../utils/only-unique-array.fn'
 import { FolderSuggest } from '../utils/folder-suggest'
 import {
     containsPathPlaceholders,
     resolvePathPlaceholders
 } from '../utils/resolve-path-placeholders.fn'
+import { countPathRuleMatches, PATH_RULE_NEGATION_PREFIX } from '../utils/path-rules.fn'
 import type { ArgsSearchAndRemove } from './args-search-and-remove.intf'
 import { setDebugMode } from '../../utils/log'
 import { BUY_ME_A_COFFEE_BADGE_DATA_URL } from '../assets/buy-me-a-coffee'
 import { renderSupportSection } from '../ui/support-links'
+import { MAX_RESULT_HISTORY_SIZE, MIN_RESULT_HISTORY_SIZE } from '../constants'
+import { formatRowTemplatePresets, parseRowTemplatePresets } from '../utils/row-template.fn'
+import { DATAVIEWJS_CAPABILITIES } from '../utils/dataviewjs-capabilities.fn'
+
+/**
+ * Name and description of the DataviewJS capabilities in the settings
+ */
+const DATAVIEWJS_CAPABILITY_LABELS: Record<DataviewJSCapability, { name: string; desc: string }> = {
+    'read-index': {
+        name: 'DataviewJS: read the Dataview index',
+        desc: 'Allow dv.pages(), dv.pagePaths() and dv.page().'
+    },
+    'read-files': {
+        name: 'DataviewJS: read vault files',
+        desc: 'Allow dv.io.load(), dv.io.csv(), and view scripts through dv.view().'
+    },
+    'execute-dql': {
+        name: 'DataviewJS: run DQL queries',
+        desc: 'Allow dv.query(), dv.queryMarkdown(), dv.execute(), dv.evaluate() and their "try" variants.'
+    }
+}
 
 export class SettingsTab extends PluginSettingTab {
     plugin: DataviewSerializerPlugin
@@ -30,11 +57,22 @@ export class SettingsTab extends PluginSettingTab {
         this.renderDeviceDisabledBanner()
         this.renderDeviceDisableToggle()
         this.renderAutomaticUpdatesToggle()
+        this.renderDependentQueriesToggle()
         this.renderRefreshButtonToggle()
         this.renderDataviewJSToggle()
+        this.renderDataviewJSCapabilities()
+        this.renderDataviewJSApprovalsReset()
         this.renderErrorNotificationsToggle()
+        this.renderErrorCalloutsToggle()
+        this.renderKeepResultOnErrorToggle()
         this.renderTrailingNewlineToggle()
         this.renderLinkFormatDropdown()
+        this.renderResultHistoryToggle()
+        this.renderResultHistorySize()
+        this.renderChangeLogToggle()
+        this.renderChangeLogNotePath()
+        this.renderChangeLogHeading()
+        this.renderRowTemplatePresets()
         this.renderDebugLoggingToggle()
         this.renderFoldersToScan()
         this.renderFoldersToIgnore()
@@ -109,6 +147,33 @@ export class SettingsTab extends PluginSettingTab {
             })
     }
 
+    renderDependentQueriesToggle(): void {
+        new Setting(this.containerEl)
+            .setName('Update dependent queries')
+            .setDesc(
+                'When enabled, a change to a note also re-serializes the queries of other notes that could include it (FROM #tag, FROM "folder", FROM [[link]], etc.). Requires automatic updates.'
+            )
+            .addToggle((toggle) => {
+                toggle
+                    .setValue(this.plugin.settings.updateDependentQueries)
+                    .onChange(async (value) => {
+                        this.plugin.settings = produce(
+                            this.plugin.settings,
+                            (draft: Draft<PluginSettings>) => {
+                                draft.updateDependentQueries = value
+                            }
+                        )
+                        await this.plugin.saveSettings()
+
+                        if (value) {
+                            await this.plugin.buildQueryIndex()
+                        } else {
+                            this.plugin.queryDependencyIndex.clear()
+                        }
+                    })
+            })
+    }
+
     renderRefreshButtonToggle(): void {
         new Setting(this.containerEl)
             .setName('Show refresh button')
@@ -132,7 +197,7 @@ export class SettingsTab extends PluginSettingTab {
         new Setting(this.containerEl)
             .setName('Enable DataviewJS serialization')
             .setDesc(
-                'When enabled, JavaScript-based Dataview queries can be serialized to static markdown. Note: JavaScript code cannot contain "--" due to HTML comment limitations.'
+                'When enabled, JavaScript-based Dataview queries can be serialized to static markdown. Each script only runs once you approved it on this device, and editing it requires a new approval.'
             )
             .addToggle((toggle) => {
                 toggle.setValue(this.plugin.settings.enableDataviewJS).onChange(async (value) => {
@@ -147,6 +212,60 @@ export class SettingsTab extends PluginSettingTab {
             })
     }
 
+    /**
+     * One toggle per capability of the DataviewJS code. Rendering is always allowed, so
+     * turning every toggle off restricts the code to rendering.
+     */
+    renderDataviewJSCapabilities(): void {
+        for (const capability of DATAVIEWJS_CAPABILITIES) {
+            const { name, desc } = DATAVIEWJS_CAPABILITY_LABELS[capability]
+            new Setting(this.containerEl)
+                .setName(name)
+                .setDesc(
+                    `${desc} When disabled, DataviewJS queries calling these methods fail with an error naming the "${capability}" capability.`
+                )
+                .addToggle((toggle) => {
+                    toggle
+                        .setValue(this.plugin.settings.dataviewJSCapabilities.includes(capability))
+                        .onChange(async (value) => {
+                            this.plugin.settings = produce(
+                                this.plugin.settings,
+                                (draft: Draft<PluginSettings>) => {
+                                    draft.dataviewJSCapabilities = DATAVIEWJS_CAPABILITIES.filter(
+                                        (candidate) =>
+                                            candidate === capability
+                                                ? value
+                                                : draft.dataviewJSCapabilities.includes(candidate)
+                                    )
+                                }
+                            )
+                            await this.plugin.saveSettings()
+                        })
+                })
+        }
+    }
+
+    /**
+     * Device-local button to forget the DataviewJS code approved on this device
+     */
+    renderDataviewJSApprovalsReset(): void {
+        const count = this.plugin.dataviewJSApprovals.size
+        new Setting(this.containerEl)
+            .setName('Revoke DataviewJS approvals on this device')
+            .setDesc(
+                `${count} DataviewJS script(s) are approved on this device. Revoking the approvals means every script has to be reviewed again before it runs. Approvals are stored locally and are never synced to your other devices.`
+            )
+            .addButton((button) => {
+                button
+                    .setButtonText('Revoke all')
+                    .setDisabled(count === 0)
+                    .onClick(() => {
+                        this.plugin.dataviewJSApprovals.revokeAll()
+                        this.display()
+                    })
+            })
+    }
+
     renderErrorNotificationsToggle(): void {
         new Setting(this.containerEl)
             .setName('Show error notifications')
@@ -168,6 +287,44 @@ export class SettingsTab extends PluginSettingTab {
             })
     }
 
+    renderErrorCalloutsToggle(): void {
+        new Setting(this.containerEl)
+            .setName('Write errors into notes')
+            .setDesc(
+                'When enabled, a block query that fails to serialize gets an error callout in its result block, with the query, the error and the time of the failure. The callout is removed once the query works again.'
+            )
+            .addToggle((toggle) => {
+                toggle.setValue(this.plugin.settings.writeErrorCallouts).onChange(async (value) => {
+                    this.plugin.settings = produce(
+                        this.plugin.settings,
+                        (draft: Draft<PluginSettings>) => {
+                            draft.writeErrorCallouts = value
+                        }
+                    )
+                    await this.plugin.saveSettings()
+                })
+            })
+    }
+
+    renderKeepResultOnErrorToggle(): void {
+        new Setting(this.containerEl)
+            .setName('Keep the previous result below errors')
+            .setDesc(
+                'When errors are written into notes, keep the last result of the failing query below its error callout instead of replacing it.'
+            )
+            .addToggle((toggle) => {
+                toggle.setValue(this.plugin.settings.keepResultOnError).onChange(async (value) => {
+                    this.plugin.settings = produce(
+                        this.plugin.settings,
+                        (draft: Draft<PluginSettings>) => {
+                            draft.keepResultOnError = value
+                        }
+                    )
+                    await this.plugin.saveSettings()
+                })
+            })
+    }
+
     renderTrailingNewlineToggle(): void {
         new Setting(this.containerEl)
             .setName('Add trailing newline')
@@ -211,6 +368,138 @@ export class SettingsTab extends PluginSettingTab {
             })
     }
 
+    renderResultHistoryToggle(): void {
+        new Setting(this.containerEl)
+            .setName('Keep result history')
+            .setDesc(
+                'When enabled, the previous results of each block query are kept, so that they can be compared and restored with the "Browse the result history of a query in current file" command. The history is stored in the plugin folder.'
+            )
+            .addToggle((toggle) => {
+                toggle
+                    .setValue(this.plugin.settings.enableResultHistory)
+                    .onChange(async (value) => {
+                        this.plugin.settings = produce(
+                            this.plugin.settings,
+                            (draft: Draft<PluginSettings>) => {
+                                draft.enableResultHistory = value
+                            }
+                        )
+                        await this.plugin.saveSettings()
+                    })
+            })
+    }
+
+    renderResultHistorySize(): void {
+        new Setting(this.containerEl)
+            .setName('Result history size')
+            .setDesc('Number of previous results kept per query. Older results are dropped.')
+            .addSlider((slider) => {
+                slider
+                    .setLimits(MIN_RESULT_HISTORY_SIZE, MAX_RESULT_HISTORY_SIZE, 1)
+                    .setDynamicTooltip()
+                    .setValue(this.plugin.settings.resultHistorySize)
+                    .onChange(async (value) => {
+                        this.plugin.settings = produce(
+                            this.plugin.settings,
+                            (draft: Draft<PluginSettings>) => {
+                                draft.resultHistorySize = value
+                            }
+                        )
+                        this.plugin.resultHistory.trim(value)
+                        this.plugin.scheduleResultHistorySave()
+                        await this.plugin.saveSettings()
+                    })
+            })
+    }
+
+    renderChangeLogToggle(): void {
+        new Setting(this.containerEl)
+            .setName('Log result changes')
+            .setDesc(
+                'When enabled, the items that enter or leave the result of a block query are logged as dated entries, such as "2026-10-19: +[[Project X]], -[[Project Y]]".'
+            )
+            .addToggle((toggle) => {
+                toggle.setValue(this.plugin.settings.enableChangeLog).onChange(async (value) => {
+                    this.plugin.settings = produce(
+                        this.plugin.settings,
+                        (draft: Draft<PluginSettings>) => {
+                            draft.enableChangeLog = value
+                        }
+                    )
+                    await this.plugin.saveSettings()
+                })
+            })
+    }
+
+    renderChangeLogNotePath(): void {
+        new Setting(this.containerEl)
+            .setName('Change log note')
+            .setDesc(
+                'Note receiving the change log entries of all queries, created when missing. Leave empty to log the changes in a section of the note of each query.'
+            )
+            .addText((text) => {
+                text.setPlaceholder('Reviews/Change log')
+                    .setValue(this.plugin.settings.changeLogNotePath)
+                    .onChange(async (value) => {
+                        this.plugin.settings = produce(
+                            this.plugin.settings,
+                            (draft: Draft<PluginSettings>) => {
+                                draft.changeLogNotePath = value.trim()
+                            }
+                        )
+                        await this.plugin.saveSettings()
+                    })
+            })
+    }
+
+    renderChangeLogHeading(): void {
+        new Setting(this.containerEl)
+            .setName('Change log heading')
+            .setDesc(
+                'Heading of the section receiving the changes, when they are logged in the note of each query. The section is added at the end of the note when missing.'
+            )
+            .addText((text) => {
+                text.setPlaceholder(DEFAULT_SETTINGS.changeLogHeading)
+                    .setValue(this.plugin.settings.changeLogHeading)
+                    .onChange(async (value) => {
+                        this.plugin.settings = produce(
+                            this.plugin.settings,
+                            (draft: Draft<PluginSettings>) => {
+                                draft.changeLogHeading =
+                                    value.trim() === ''
+                                        ? DEFAULT_SETTINGS.changeLogHeading
+                                        : value.trim()
+                            }
+                        )
+                        await this.plugin.saveSettings()
+                    })
+            })
+    }
+
+    renderRowTemplatePresets(): void {
+        new Setting(this.containerEl)
+            .setName('Row template presets')
+            .setDesc(
+                'Row templates that queries can use with the preset option, such as [preset=projects]. One preset per line, written as "name: template".'
+            )
+            .addTextArea((textArea) => {
+                textArea
+                    .setPlaceholder('projects: - {{file.link}} — {{status}} ({{due}})')
+                    .setValue(formatRowTemplatePresets(this.plugin.settings.rowTemplatePresets))
+                    .onChange(async (value) => {
+                        this.plugin.settings = produce(
+                            this.plugin.settings,
+                            (draft: Draft<PluginSettings>) => {
+                                draft.rowTemplatePresets = parseRowTemplatePresets(value)
+                            }
+                        )
+                        await this.plugin.saveSettings()
+                    })
+                textArea.inputEl.rows = 4
+                textArea.inputEl.addClass('dvs-row-template-presets')
+            })
+    }
+
     renderDebugLoggingToggle(): void {
         new Setting(this.containerEl)
             .setName('Debug logging')
@@ -247,10 +536,49 @@ export class SettingsTab extends PluginSettingTab {
                         draft.foldersToScan = newValue
                     }
                 )
+                // Notes entering or leaving the scope change which queries are tracked
+                void this.plugin.buildQueryIndex()
             },
             name: 'Folders to scan',
-            description: 'Folders to scan when looking for queries to serialize.'
+            description: this.buildPathRulesDescription(
+                'Only notes in these folders are processed, both automatically and by the "Scan and serialize all Dataview queries" command. Leave empty to process the whole vault.'
+            ),
+            supportsPlaceholders: true,
+            showMatchCounts: true
+        })
+    }
+
+    /**
+     * Description of a setting holding path rules: the purpose of the setting,
+     * followed by the rule syntax shared by all the folder settings.
+     */
+    buildPathRulesDescription(purpose: string): DocumentFragment {
+        const fragment = new DocumentFragment()
+
+        fragment.createSpan({ text: purpose })
+
+        fragment.createEl('br')
+        fragment.createEl('br')
+
+        fragment.createSpan({ text: 'Each entry is a folder (' })
+        fragment.createEl('code', { text: 'Archive' })
+        fragment.createSpan({ text: ' does not include ' })
+        fragment.createEl('code', { text: 'Archive-2024' })
+        fragment.createSpan({ text: '), a glob pattern (' })
+        fragment.createEl('code', { text: '**/_templates/**' })
+        fragment.createSpan({ text: ', ' })
+        fragment.createEl('code', { text: '*.excalidraw.md' })
+        fragment.createSpan({ text: ') or a regular expression (' })
+        fragment.createEl('code', { text: 'regex:^Daily/\\d{4}/' })
+        fragment.createSpan({ text: '). Prefix an entry with ' })
+        fragment.createEl('code', { text: '!' })
+        fragment.createSpan({
+            text: ' to exclude what it matches; the last matching entry wins. Date placeholders such as '
         })
+        fragment.createEl('code', { text: '{{year}}' })
+        fragment.createSpan({ text: ' are supported everywhere.' })
+
+        return fragment
     }
 
     renderFoldersToIgnore(): void {
@@ -265,7 +593,11 @@ export class SettingsTab extends PluginSettingTab {
                 )
             },
             name: 'Folders to ignore',
-            description: 'Folders to ignore when processing added/modified files.'
+            description: this.buildPathRulesDescription(
+                'Folders to ignore when processing added/modified files.'
+            ),
+            supportsPlaceholders: true,
+            showMatchCounts: true
         })
     }
 
@@ -282,7 +614,8 @@ export class SettingsTab extends PluginSettingTab {
             },
             name: 'Folders to force update',
             description: this.buildFoldersToForceUpdateDescription(),
-            supportsPlaceholders: true
+            supportsPlaceholders: true,
+            showMatchCounts: true
         })
     }
 
@@ -301,7 +634,7 @@ export class SettingsTab extends PluginSettingTab {
         fragment.createEl('br')
 
         fragment.createSpan({
-            text: 'Paths support date placeholders, resolved every time the force update runs: '
+            text: 'Entries are folders, glob patterns or regular expressions, like the folders to scan and to ignore. They support date placeholders, resolved every time the force update runs: '
         })
         fragment.createEl('code', { text: '{{year}}' })
         fragment.createSpan({ text: ', ' })
@@ -335,12 +668,28 @@ export class SettingsTab extends PluginSettingTab {
         return fragment
     }
 
+    /**
+     * Describe how many notes of the vault a path rule currently matches.
+     */
+    describePathRuleMatches(rule: string, vaultPaths: string[]): string {
+        const count = countPathRuleMatches(vaultPaths, rule)
+        if (count === null) {
+            return 'Invalid rule: matches nothing'
+        }
+
+        const notes = `${count} note${count === 1 ? '' : 's'}`
+        return rule.trim().startsWith(PATH_RULE_NEGATION_PREFIX)
+            ? `Currently excludes ${notes}`
+            : `Currently matches ${notes}`
+    }
+
     doSearchAndRemoveList({
         currentList,
         setValue,
         description,
         name,
-        supportsPlaceholders = false
+        supportsPlaceholders = false,
+        showMatchCounts = false
     }: ArgsSearchAndRemove) {
         let searchInput: SearchComponent | undefined
         new Setting(this.containerEl)
@@ -373,11 +722,24 @@ export class SettingsTab extends PluginSettingTab {
                 })
             })
 
+        const vaultPaths = showMatchCounts
+            ? this.app.vault.getMarkdownFiles().map((file) => file.path)
+            : []
+
         currentList.forEach((ignoreFolder) => {
             const setting = new Setting(this.containerEl).setName(ignoreFolder)
+            const details: string[] = []
 
             if (supportsPlaceholders && containsPathPlaceholders(ignoreFolder)) {
-                setting.setDesc(`Currently resolves to: ${resolvePathPlaceholders(ignoreFolder)}`)
+                details.push(`Currently resolves to: ${resolvePathPlaceholders(ignoreFolder)}`)
+            }
+
+            if (showMatchCounts) {
+                details.push(this.describePathRuleMatches(ignoreFolder, vaultPaths))
+            }
+
+            if (details.length > 0) {
+                setting.setDesc(details.join(' · '))
             }
 
             setting.addButton((button) => {
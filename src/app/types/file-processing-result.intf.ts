@@ -0,0 +1,55 @@
+import type { QuerySerializedEvent } from './serializer-events.intf'
+
+/**
+ * A result written to a block query during a run of `processFile`
+ */
+export interface WrittenQueryResult {
+    query: string
+    /** The text written between the result markers */
+    content: string
+    /** The text previously sitting between the result markers, if any */
+    previousContent: string | undefined
+    /** The blockquote prefix carried by every line of the result */
+    blockquotePrefix: string
+}
+
+/**
+ * A change to another note than the one processed, such as the target note of a query
+ */
+export interface OtherNoteUpdate {
+    path: string
+    /**
+     * Apply the change to the text of the note; an empty text when the note does not exist
+     */
+    update: (text: string) => string
+}
+
+/**
+ * Result of processing a file
+ */
+export interface FileProcessingResult {
+    filePath: string
+    errors: Array<{
+        message: string
+        query: string
+    }>
+    /**
+     * Whether the serialized queries were written to the file
+     */
+    written?: boolean
+    /**
+     * Dry runs only: the file's text before and after serialization, when it would change
+     */
+    originalText?: string
+    updatedText?: string
+    /**
+     * Dry runs only: the changes to the other notes, in the order they would be written
+     */
+    otherNoteUpdates?: OtherNoteUpdate[]
+    /**
+     * Dry runs only: the results the serialization would write, and the queries whose
+     * result would change, reported once the change is applied
+     */
+    writtenResults?: WrittenQueryResult[]
+    serializedQueries?: QuerySerializedEvent[]
+}
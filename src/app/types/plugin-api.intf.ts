@@ -0,0 +1,96 @@
+import type { QueryUpdateMode, SyntaxVariant } from '../utils/find-queries.fn'
+import type { QueryKind } from './serializer-events.intf'
+
+/**
+ * Options of `DataviewSerializerApi.serializeFile`
+ */
+export interface SerializeFileOptions {
+    /**
+     * Serialize the note even if it was updated in the last seconds, or lies outside the
+     * folders to scan. Default: true
+     */
+    force?: boolean
+    /**
+     * Only serialize this query (the text of a block query, an inline expression, or the
+     * property and query of a property query, e.g. `count: =length(this.file.inlinks)`)
+     */
+    query?: string
+    /**
+     * Serialize the manual and write-once queries too, as the commands do.
+     * When false, the note is serialized as an automatic update would. Default: true
+     */
+    includeManualQueries?: boolean
+    /**
+     * Compute the updated text without writing it. Default: false
+     */
+    dryRun?: boolean
+}
+
+/**
+ * Outcome of the serialization of a note
+ */
+export interface SerializeFileResult {
+    path: string
+    /** Whether the note changed (or would change, for a dry run) */
+    changed: boolean
+    /** The queries that failed to serialize */
+    errors: Array<{
+        message: string
+        query: string
+    }>
+    /** Dry runs only: the text the note would have, when it would change */
+    updatedText?: string
+}
+
+/**
+ * A query found in a note
+ */
+export interface ListedQuery {
+    type: QueryKind
+    /** The query, inline expression, JavaScript code, or property and its query */
+    query: string
+    updateMode: QueryUpdateMode
+    syntaxVariant: SyntaxVariant
+}
+
+/**
+ * Called whenever the plugin writes the serialized queries of a note, whatever triggered it
+ */
+export type SerializedCallback = (result: SerializeFileResult) => void
+
+/**
+ * The public API of the plugin, available to other plugins and scripts as
+ * `app.plugins.plugins['dataview-serializer'].api`.
+ *
+ * Breaking changes increment `version`; additions keep it.
+ */
+export interface DataviewSerializerApi {
+    readonly version: number
+    /**
+     * Serialize the queries of a note
+     *
+     * @param path The path of the note, from the root of the vault
+     * @throws Error when the note does not exist
+     */
+    serializeFile(path: string, options?: SerializeFileOptions): Promise<SerializeFileResult>
+    /**
+     * Serialize a Dataview query to Markdown, without writing anything
+     *
+     * @param query The query (e.g. `LIST FROM #project`)
+     * @param originFile The path of the note the query is evaluated from (for `this`)
+     * @throws Error when Dataview is unavailable or the query fails
+     */
+    serializeQuery(query: string, originFile: string): Promise<string>
+    /**
+     * List the queries of a note
+     *
+     * @throws Error when the note does not exist
+     */
+    listQueries(path: string): Promise<ListedQuery[]>
+    /**
+     * Register a callback called whenever the serialized queries of a note are written
+     *
+     * @returns A function unregistering the callback
+     */
+    onSerialized(callback: SerializedCallback): () => void
+}
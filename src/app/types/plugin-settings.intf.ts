@@ -6,6 +6,24 @@
  */
 export type LinkFormat = 'obsidian' | 'shortest' | 'absolute'
 
+/**
+ * What serialized DataviewJS code may call, on top of the rendering methods that are
+ * always available.
+ * - 'read-index': read the pages of the Dataview index (`dv.pages()`, `dv.page()`...)
+ * - 'read-files': read the files of the vault (`dv.io.load()`, `dv.io.csv()`, `dv.view()`)
+ * - 'execute-dql': run DQL queries and expressions (`dv.query()`, `dv.execute()`, `dv.evaluate()`...)
+ */
+export type DataviewJSCapability = 'read-index' | 'read-files' | 'execute-dql'
+
+/**
+ * A named row template, used by queries through the `preset` option
+ */
+export interface RowTemplatePreset {
+    name: string
+    /** The template of each row, such as `- {{file.link}} — {{status}}` */
+    template: string
+}
+
 export interface PluginSettings {
     foldersToScan: string[]
     ignoredFolders: string[]
@@ -16,10 +34,25 @@ export interface PluginSettings {
      * Useful for index files with queries that aggregate data from elsewhere in the vault.
      */
     foldersToForceUpdate: string[]
+    /**
+     * Re-serialize the notes whose queries may be affected when another note changes,
+     * based on the sources of each query (`FROM #tag`, `FROM "folder"`, `FROM [[link]]`...).
+     */
+    updateDependentQueries: boolean
     /**
      * Show notification popups when queries fail to serialize.
      */
     showErrorNotifications: boolean
+    /**
+     * Write an error callout into the result block of a failing block query, so that
+     * readers of the note know its result is stale.
+     * Default: false
+     */
+    writeErrorCallouts: boolean
+    /**
+     * Keep the previous result below the error callout of a failing query.
+     */
+    keepResultOnError: boolean
     /**
      * Enable verbose debug logging in the console.
      */
@@ -42,6 +75,38 @@ export interface PluginSettings {
      * Default: true
      */
     enableDataviewJS: boolean
+    /**
+     * What serialized DataviewJS code may call besides the rendering methods.
+     * Default: every capability
+     */
+    dataviewJSCapabilities: DataviewJSCapability[]
+    /**
+     * Keep the previous results of the block queries, so that they can be browsed and restored.
+     * Default: false
+     */
+    enableResultHistory: boolean
+    /**
+     * Number of results kept per query when the result history is enabled.
+     */
+    resultHistorySize: number
+    /**
+     * Log the items that enter or leave the result of a block query, as dated entries.
+     * Default: false
+     */
+    enableChangeLog: boolean
+    /**
+     * Note receiving the change log entries of all queries.
+     * When empty, each note logs its own changes in the section below `changeLogHeading`.
+     */
+    changeLogNotePath: string
+    /**
+     * Heading of the change log section, when the changes are logged in the note of the query.
+     */
+    changeLogHeading: string
+    /**
+     * Named row templates, shared by the queries using them through the `preset` option.
+     */
+    rowTemplatePresets: RowTemplatePreset[]
 }
 
 export const DEFAULT_SETTINGS: PluginSettings = {
@@ -50,9 +115,19 @@ export const DEFAULT_SETTINGS: PluginSettings = {
     disableAutomaticUpdates: false,
     showRefreshButton: true,
     foldersToForceUpdate: [],
+    updateDependentQueries: true,
     showErrorNotifications: true,
+    writeErrorCallouts: false,
+    keepResultOnError: false,
     debugLogging: false,
     addTrailingNewline: false,
     linkFormat: 'shortest',
-    enableDataviewJS: true
+    enableDataviewJS: true,
+    dataviewJSCapabilities: ['read-index', 'read-files', 'execute-dql'],
+    enableResultHistory: false,
+    resultHistorySize: 10,
+    enableChangeLog: false,
+    changeLogNotePath: '',
+    changeLogHeading: 'Change log',
+    rowTemplatePresets: []
 }
@@ -0,0 +1,11 @@
+import type { IndexedQuery } from '../utils/index-note-queries.fn'
+import type { QueryErrorEntry } from '../utils/query-error-log'
+import type { QueryStatus } from '../utils/query-status'
+
+/**
+ * A row of the query dashboard: a query of the vault, with its status
+ */
+export interface DashboardQuery extends IndexedQuery, QueryStatus {
+    /** The error of the query, while it fails */
+    lastError?: QueryErrorEntry
+}
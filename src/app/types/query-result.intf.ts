@@ -1,6 +1,12 @@
+import type { ResultData } from '../utils/result-data.fn'
+
 export interface QuerySerializationResult {
     success: boolean
     serializedContent: string
+    /**
+     * The data of the result, for queries writing it into the frontmatter
+     */
+    data?: ResultData[]
     error?: {
         message: string
         query: string
@@ -0,0 +1,33 @@
+import type { DiffHunk } from '../utils/diff-lines.fn'
+import type { WrittenQueryResult } from './file-processing-result.intf'
+import type { QuerySerializedEvent } from './serializer-events.intf'
+
+/**
+ * A note that a vault-wide serialization would change, as computed by a dry run
+ */
+export interface PreviewedFileChange {
+    path: string
+    /**
+     * The note's text when the preview was computed.
+     * Changes are only applied to notes still holding this exact text.
+     */
+    originalText: string
+    /**
+     * The note's text once serialized
+     */
+    updatedText: string
+    /**
+     * Whether the note does not exist yet, and is created on accept
+     */
+    isNewNote?: boolean
+    /**
+     * The results written to the queries of the note, and the queries whose result
+     * changed. Absent for the notes changed by the queries of other notes.
+     */
+    writtenResults?: WrittenQueryResult[]
+    serializedQueries?: QuerySerializedEvent[]
+    /**
+     * The changes, grouped per serialized block
+     */
+    hunks: DiffHunk[]
+}
@@ -0,0 +1,76 @@
+import type {
+    SERIALIZER_EVENT_BEFORE_FILE,
+    SERIALIZER_EVENT_ERROR,
+    SERIALIZER_EVENT_FILE_WRITTEN,
+    SERIALIZER_EVENT_QUERY_SERIALIZED
+} from '../constants'
+import type { QueryUpdateMode } from '../utils/find-queries.fn'
+
+/**
+ * The kinds of queries the plugin serializes
+ * - 'block': A block query (`<!-- QueryToSerialize: ... -->`)
+ * - 'inline': An inline expression (`<!-- IQ: =... -->`)
+ * - 'dataviewjs': A DataviewJS query (`<!-- DataviewJSToSerialize: ... -->`)
+ * - 'property': A query writing into a frontmatter property (`<!-- PropertyQuery name: ... -->`)
+ */
+export type QueryKind = 'block' | 'inline' | 'dataviewjs' | 'property'
+
+/**
+ * A note is about to be serialized. Only notes holding queries are reported.
+ */
+export interface BeforeFileEvent {
+    path: string
+    /** Whether the user explicitly asked for the update (command, refresh button, API) */
+    isManualTrigger: boolean
+}
+
+/**
+ * The result of a query changed, and was written to its note
+ */
+export interface QuerySerializedEvent {
+    path: string
+    type: QueryKind
+    /** The query, the inline expression, or the JavaScript code */
+    query: string
+    updateMode: QueryUpdateMode
+    /** The previous result, as written in the note, or undefined for a first serialization */
+    oldContent: string | undefined
+    /** The new result, as written in the note */
+    newContent: string
+    /** Time taken to evaluate the query */
+    durationMs: number
+}
+
+/**
+ * The serialized queries of a note were written
+ */
+export interface FileWrittenEvent {
+    path: string
+    /** The text of the note before serialization */
+    oldContent: string
+    /** The text of the note after serialization */
+    newContent: string
+    /** Time taken to serialize and write the note */
+    durationMs: number
+}
+
+/**
+ * A query of a note failed to serialize
+ */
+export interface SerializationErrorEvent {
+    path: string
+    /** The failing query, or an empty string when the whole note failed */
+    query: string
+    message: string
+}
+
+/**
+ * The workspace events triggered by the plugin, by name.
+ * Listen to them with `app.workspace.on(name, (event) => ...)`.
+ */
+export interface SerializerEventMap {
+    [SERIALIZER_EVENT_BEFORE_FILE]: BeforeFileEvent
+    [SERIALIZER_EVENT_QUERY_SERIALIZED]: QuerySerializedEvent
+    [SERIALIZER_EVENT_FILE_WRITTEN]: FileWrittenEvent
+    [SERIALIZER_EVENT_ERROR]: SerializationErrorEvent
+}
@@ -0,0 +1,64 @@
+import { App, Modal, Setting } from 'obsidian'
+import type { DataviewJSApprovalRequest } from '../utils/dataviewjs-approvals'
+
+/**
+ * Show DataviewJS code that was never approved on this device, so that it can be
+ * reviewed before it runs
+ */
+export class DataviewJSApprovalModal extends Modal {
+    /** Whether the code was approved, as opposed to the modal being dismissed */
+    private approved = false
+
+    constructor(
+        app: App,
+        private readonly request: DataviewJSApprovalRequest,
+        private readonly remainingCount: number,
+        private readonly onApprove: () => Promise<void>,
+        private readonly onDismiss: () => void
+    ) {
+        super(app)
+    }
+
+    override onOpen(): void {
+        const { contentEl } = this
+        contentEl.empty()
+
+        this.setTitle('Review DataviewJS code')
+        contentEl.createEl('p', {
+            text: `This code was never approved on this device. It runs with access to your vault's data, so only approve code you trust. Editing it requires a new approval.`
+        })
+        const location =
+            this.request.codePath === this.request.notePath
+                ? this.request.codePath
+                : `${this.request.codePath} (view script used by ${this.request.notePath})`
+        contentEl.createEl('p', { cls: 'dvs-approval-location', text: location })
+        contentEl.createEl('pre', { cls: 'dvs-approval-code', text: this.request.jsCode })
+
+        new Setting(contentEl)
+            .setDesc(
+                this.remainingCount > 0 ? `${this.remainingCount} more script(s) to review` : ''
+            )
+            .addButton((button) => {
+                button.setButtonText('Not now').onClick(() => {
+                    this.close()
+                })
+            })
+            .addButton((button) => {
+                button
+                    .setButtonText('Approve and run')
+                    .setCta()
+                    .onClick(async () => {
+                        this.approved = true
+                        this.close()
+                        await this.onApprove()
+                    })
+            })
+    }
+
+    override onClose(): void {
+        this.contentEl.empty()
+        if (!this.approved) {
+            this.onDismiss()
+        }
+    }
+}
@@ -0,0 +1,130 @@
+import { ItemView, Setting } from 'obsidian'
+import type { WorkspaceLeaf } from 'obsidian'
+import { format } from 'date-fns'
+
+import { ERROR_LOG_VIEW_TYPE } from '../constants'
+import type { QueryErrorEntry } from '../utils/query-error-log'
+
+/**
+ * What the error log needs from the plugin: the failing queries, and the actions
+ * available on each of them.
+ */
+export interface ErrorLogHost {
+    getQueryErrors(): QueryErrorEntry[]
+    openQueryError(error: QueryErrorEntry): Promise<void>
+    retryQueryError(error: QueryErrorEntry): Promise<void>
+    clearQueryErrors(): void
+}
+
+/**
+ * Longest query text shown in an entry; the full text is in the tooltip
+ */
+const MAX_QUERY_LENGTH = 120
+
+const DATE_FORMAT = 'yyyy-MM-dd HH:mm'
+
+/**
+ * Side panel listing the queries that currently fail, most recently failed first.
+ * An entry disappears once its query serializes again.
+ *
+ * Like the preview tab, the panel holds no state of its own: the host re-renders it
+ * (see `render`) whenever the log changes.
+ */
+export class ErrorLogView extends ItemView {
+    override navigation = false
+
+    constructor(
+        leaf: WorkspaceLeaf,
+        private readonly host: ErrorLogHost
+    ) {
+        super(leaf)
+        this.icon = 'alert-triangle'
+    }
+
+    override getViewType(): string {
+        return ERROR_LOG_VIEW_TYPE
+    }
+
+    override getDisplayText(): string {
+        return 'Query errors'
+    }
+
+    protected override async onOpen(): Promise<void> {
+        this.contentEl.addClass('dvs-error-log-content')
+        this.render()
+    }
+
+    protected override async onClose(): Promise<void> {
+        this.contentEl.empty()
+    }
+
+    /**
+     * Render the errors currently logged by the host
+     */
+    render(): void {
+        const errors = this.host.getQueryErrors()
+        this.contentEl.empty()
+
+        this.contentEl.createEl('h4', { text: 'Query errors' })
+
+        if (errors.length === 0) {
+            this.contentEl.createEl('p', {
+                cls: 'dvs-error-log-empty',
+                text: 'No query is failing.'
+            })
+            return
+        }
+
+        new Setting(this.contentEl)
+            .setName(`${errors.length} failing query(ies)`)
+            .setDesc('Entries are removed once their query serializes again.')
+            .addButton((button) => {
+                button.setButtonText('Clear').onClick(() => {
+                    this.host.clearQueryErrors()
+                })
+            })
+
+        for (const error of errors) {
+            this.renderError(error)
+        }
+    }
+
+    private renderError(error: QueryErrorEntry): void {
+        const errorEl = this.contentEl.createDiv({ cls: 'dvs-error-log-entry' })
+
+        new Setting(errorEl)
+            .setName(error.path)
+            .setDesc(
+                error.count > 1
+                    ? `${error.type} query, failed ${error.count} times since ${format(error.firstSeen, DATE_FORMAT)}, last at ${format(error.lastSeen, DATE_FORMAT)}`
+                    : `${error.type} query, failed at ${format(error.lastSeen, DATE_FORMAT)}`
+            )
+            .addExtraButton((button) => {
+                button
+                    .setIcon('refresh-cw')
+                    .setTooltip('Retry')
+                    .onClick(async () => {
+                        await this.host.retryQueryError(error)
+                    })
+            })
+            .addExtraButton((button) => {
+                button
+                    .setIcon('file-text')
+                    .setTooltip('Open')
+                    .onClick(async () => {
+                        await this.host.openQueryError(error)
+                    })
+            })
+
+        const queryText =
+            error.query.length > MAX_QUERY_LENGTH
+                ? `${error.query.substring(0, MAX_QUERY_LENGTH)}…`
+                : error.query
+        errorEl.createEl('code', {
+            cls: 'dvs-error-log-query',
+            text: queryText,
+            attr: { 'aria-label': error.query }
+        })
+        errorEl.createDiv({ cls: 'dvs-error-log-message', text: error.message })
+    }
+}
@@ -0,0 +1,180 @@
+import { ItemView, Setting } from 'obsidian'
+import type { WorkspaceLeaf } from 'obsidian'
+
+import { PERFORMANCE_VIEW_TYPE } from '../constants'
+import type { ProfileExportFormat } from '../utils/profile-export.fn'
+import type { FileProfile, QueryProfile } from '../utils/query-profiler'
+
+/**
+ * What the performance tab needs from the plugin: the profiles, and the actions to
+ * export or reset them.
+ */
+export interface PerformanceHost {
+    getQueryProfiles(): QueryProfile[]
+    getFileProfiles(): FileProfile[]
+    exportProfiles(format: ProfileExportFormat): Promise<void>
+    clearProfiles(): void
+}
+
+/**
+ * Longest query text shown in a row; the full text is in the tooltip
+ */
+const MAX_QUERY_LENGTH = 80
+
+/**
+ * Number of rows shown per table; the exports hold every profile
+ */
+const MAX_ROWS = 100
+
+const formatMs = (durationMs: number): string => `${durationMs.toFixed(1)} ms`
+
+/**
+ * Tab listing the execution times of the queries and notes serialized since the
+ * plugin was loaded, most time-consuming first, to find what slows down the
+ * automatic updates.
+ *
+ * The tab shows a snapshot: it is rendered when opened and when "Refresh" is clicked.
+ */
+export class PerformanceView extends ItemView {
+    override navigation = false
+
+    constructor(
+        leaf: WorkspaceLeaf,
+        private readonly host: PerformanceHost
+    ) {
+        super(leaf)
+        this.icon = 'gauge'
+    }
+
+    override getViewType(): string {
+        return PERFORMANCE_VIEW_TYPE
+    }
+
+    override getDisplayText(): string {
+        return 'Serializer performance'
+    }
+
+    protected override async onOpen(): Promise<void> {
+        this.contentEl.addClass('dvs-performance-content')
+        this.render()
+    }
+
+    protected override async onClose(): Promise<void> {
+        this.contentEl.empty()
+    }
+
+    render(): void {
+        const queries = this.host.getQueryProfiles()
+        const files = this.host.getFileProfiles()
+        this.contentEl.empty()
+
+        this.contentEl.createEl('h2', { text: 'Serializer performance' })
+
+        new Setting(this.contentEl)
+            .setName(`${queries.length} query(ies) in ${files.length} note(s) profiled`)
+            .setDesc('Since the plugin was loaded. The most time-consuming come first.')
+            .addButton((button) => {
+                button.setButtonText('Refresh').onClick(() => {
+                    this.render()
+                })
+            })
+            .addButton((button) => {
+                button.setButtonText('Export JSON').onClick(async () => {
+                    await this.host.exportProfiles('json')
+                })
+            })
+            .addButton((button) => {
+                button.setButtonText('Export CSV').onClick(async () => {
+                    await this.host.exportProfiles('csv')
+                })
+            })
+            .addButton((button) => {
+                button.setButtonText('Reset').onClick(() => {
+                    this.host.clearProfiles()
+                    this.render()
+                })
+            })
+
+        if (queries.length === 0) {
+            this.contentEl.createEl('p', {
+                cls: 'dvs-performance-empty',
+                text: 'No query has been serialized yet.'
+            })
+            return
+        }
+
+        this.contentEl.createEl('h4', { text: 'Queries' })
+        this.renderTable(
+            [
+                'File',
+                'Query',
+                'Type',
+                'Runs',
+                'Total',
+                'Average',
+                'Max',
+                'Size',
+                'Written',
+                'Skipped',
+                'Errors'
+            ],
+            queries
+                .slice(0, MAX_ROWS)
+                .map((profile) => [
+                    profile.path,
+                    profile.query,
+                    profile.type,
+                    String(profile.runs),
+                    formatMs(profile.totalMs),
+                    formatMs(profile.totalMs / profile.runs),
+                    formatMs(profile.maxMs),
+                    String(profile.lastResultSize),
+                    String(profile.writes),
+                    String(profile.skipped),
+                    String(profile.errors)
+                ])
+        )
+
+        this.contentEl.createEl('h4', { text: 'Notes' })
+        this.renderTable(
+            ['File', 'Runs', 'Total', 'Average', 'Max', 'Last', 'Written'],
+            files
+                .slice(0, MAX_ROWS)
+                .map((profile) => [
+                    profile.path,
+                    String(profile.runs),
+                    formatMs(profile.totalMs),
+                    formatMs(profile.totalMs / profile.runs),
+                    formatMs(profile.maxMs),
+                    formatMs(profile.lastMs),
+                    String(profile.writes)
+                ])
+        )
+    }
+
+    private renderTable(headers: string[], rows: string[][]): void {
+        const tableEl = this.contentEl.createEl('table', { cls: 'dvs-performance-table' })
+        const headerRowEl = tableEl.createEl('thead').createEl('tr')
+        for (const header of headers) {
+            headerRowEl.createEl('th', { text: header })
+        }
+
+        const bodyEl = tableEl.createEl('tbody')
+        for (const row of rows) {
+            const rowEl = bodyEl.createEl('tr')
+            for (const [index, value] of row.entries()) {
+                if (headers[index] === 'Query') {
+                    const queryText =
+                        value.length > MAX_QUERY_LENGTH
+                            ? `${value.substring(0, MAX_QUERY_LENGTH)}…`
+                            : value
+                    rowEl
+                        .createEl('td')
+                        .createEl('code', { text: queryText, attr: { 'aria-label': value } })
+                } else {
+                    rowEl.createEl('td', { text: value })
+                }
+            }
+        }
+    }
+}
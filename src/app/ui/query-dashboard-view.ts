@@ -0,0 +1,323 @@
+import { ItemView, setIcon } from 'obsidian'
+import type { WorkspaceLeaf } from 'obsidian'
+import { format } from 'date-fns'
+
+import { QUERY_DASHBOARD_VIEW_TYPE } from '../constants'
+import type { DashboardQuery } from '../types/query-dashboard.intf'
+import type { QueryErrorEntry } from '../utils/query-error-log'
+import {
+    CONVERTIBLE_UPDATE_MODES,
+    type ConvertibleUpdateMode
+} from '../utils/convert-query-update-mode.fn'
+
+/**
+ * What the dashboard needs from the plugin: the queries of the vault, and the actions
+ * available on each of them.
+ */
+export interface QueryDashboardHost {
+    listDashboardQueries(): Promise<DashboardQuery[]>
+    refreshDashboardQuery(query: DashboardQuery): Promise<void>
+    openDashboardQuery(query: DashboardQuery): Promise<void>
+    convertDashboardQueryMode(query: DashboardQuery, mode: ConvertibleUpdateMode): Promise<void>
+}
+
+type SortKey =
+    | 'path'
+    | 'query'
+    | 'type'
+    | 'updateMode'
+    | 'lastSerializedAt'
+    | 'resultSize'
+    | 'error'
+
+interface Column {
+    key: SortKey
+    label: string
+}
+
+const COLUMNS: Column[] = [
+    { key: 'path', label: 'File' },
+    { key: 'query', label: 'Query' },
+    { key: 'type', label: 'Type' },
+    { key: 'updateMode', label: 'Mode' },
+    { key: 'lastSerializedAt', label: 'Last serialized' },
+    { key: 'resultSize', label: 'Size' },
+    { key: 'error', label: 'Last error' }
+]
+
+/**
+ * Longest query text shown in a row; the full text is in the tooltip
+ */
+const MAX_QUERY_LENGTH = 80
+
+const compareValues = (a: string | number | undefined, b: string | number | undefined): number => {
+    // Missing values always sort last
+    if (a === undefined || b === undefined) {
+        return a === b ? 0 : a === undefined ? 1 : -1
+    }
+    return typeof a === 'number' && typeof b === 'number'
+        ? a - b
+        : String(a).localeCompare(String(b))
+}
+
+const sortValueOf = (query: DashboardQuery, key: SortKey): string | number | undefined => {
+    switch (key) {
+        case 'error':
+            return query.lastError?.message
+        case 'path':
+            // Keep the queries of a note in document order
+            return `${query.path}\n${String(query.line).padStart(8, '0')}`
+        default:
+            return query[key]
+    }
+}
+
+const formatResultSize = (query: DashboardQuery): string => {
+    if (query.resultSize === undefined) {
+        return '—'
+    }
+    return query.type === 'inline' ? `${query.resultSize} chars` : `${query.resultSize} lines`
+}
+
+const formatQueryError = (error: QueryErrorEntry): string => {
+    const occurrences = error.count > 1 ? `, ${error.count} times` : ''
+    return `${error.message} (${format(error.lastSeen, 'HH:mm')}${occurrences})`
+}
+
+/**
+ * Tab listing every block, inline and DataviewJS query of the folders to scan, with
+ * what is known of its last serializations, so that broken queries are easy to spot.
+ *
+ * The queries are indexed when the tab opens and when "Reload" is clicked; sorting
+ * and filtering only re-render the rows.
+ */
+export class QueryDashboardView extends ItemView {
+    override navigation = false
+
+    private queries: DashboardQuery[] = []
+    private filterText = ''
+    private typeFilter: DashboardQuery['type'] | 'all' = 'all'
+    private errorsOnly = false
+    private sortKey: SortKey = 'path'
+    private sortAscending = true
+    private tableBodyEl: HTMLElement | null = null
+    private summaryEl: HTMLElement | null = null
+    private headerCells = new Map<SortKey, HTMLElement>()
+
+    constructor(
+        leaf: WorkspaceLeaf,
+        private readonly host: QueryDashboardHost
+    ) {
+        super(leaf)
+        this.icon = 'list-checks'
+    }
+
+    override getViewType(): string {
+        return QUERY_DASHBOARD_VIEW_TYPE
+    }
+
+    override getDisplayText(): string {
+        return 'Query dashboard'
+    }
+
+    protected override async onOpen(): Promise<void> {
+        this.contentEl.addClass('dvs-dashboard-content')
+        this.renderLayout()
+        await this.reload()
+    }
+
+    protected override async onClose(): Promise<void> {
+        this.contentEl.empty()
+    }
+
+    /**
+     * Index the queries of the vault again, then render them
+     */
+    async reload(): Promise<void> {
+        this.summaryEl?.setText('Indexing the queries…')
+        this.queries = await this.host.listDashboardQueries()
+        this.renderRows()
+    }
+
+    private renderLayout(): void {
+        this.contentEl.empty()
+        this.contentEl.createEl('h2', { text: 'Query dashboard' })
+
+        const toolbarEl = this.contentEl.createDiv({ cls: 'dvs-dashboard-toolbar' })
+
+        const searchEl = toolbarEl.createEl('input', {
+            type: 'search',
+            placeholder: 'Filter by file, query or error'
+        })
+        searchEl.addEventListener('input', () => {
+            this.filterText = searchEl.value.toLowerCase()
+            this.renderRows()
+        })
+
+        const typeEl = toolbarEl.createEl('select', { cls: 'dropdown' })
+        for (const [value, label] of [
+            ['all', 'All types'],
+            ['block', 'Block queries'],
+            ['inline', 'Inline queries'],
+            ['dataviewjs', 'DataviewJS queries'],
+            ['property', 'Property queries']
+        ] as const) {
+            typeEl.createEl('option', { value, text: label })
+        }
+        typeEl.addEventListener('change', () => {
+            this.typeFilter = typeEl.value as DashboardQuery['type'] | 'all'
+            this.renderRows()
+        })
+
+        const errorsLabelEl = toolbarEl.createEl('label', { cls: 'dvs-dashboard-errors-only' })
+        const errorsEl = errorsLabelEl.createEl('input', { type: 'checkbox' })
+        errorsLabelEl.appendText('Errors only')
+        errorsEl.addEventListener('change', () => {
+            this.errorsOnly = errorsEl.checked
+            this.renderRows()
+        })
+
+        const reloadEl = toolbarEl.createEl('button', { text: 'Reload' })
+        reloadEl.addEventListener('click', async () => {
+            await this.reload()
+        })
+
+        this.summaryEl = this.contentEl.createDiv({ cls: 'dvs-dashboard-summary' })
+
+        const tableEl = this.contentEl.createEl('table', { cls: 'dvs-dashboard-table' })
+        const headerRowEl = tableEl.createEl('thead').createEl('tr')
+        this.headerCells.clear()
+        for (const column of COLUMNS) {
+            const cellEl = headerRowEl.createEl('th', {
+                cls: 'dvs-dashboard-sortable',
+                text: column.label
+            })
+            cellEl.addEventListener('click', () => {
+                this.sortAscending = this.sortKey === column.key ? !this.sortAscending : true
+                this.sortKey = column.key
+                this.renderRows()
+            })
+            this.headerCells.set(column.key, cellEl)
+        }
+        headerRowEl.createEl('th', { text: 'Actions' })
+        this.tableBodyEl = tableEl.createEl('tbody')
+    }
+
+    private getVisibleQueries(): DashboardQuery[] {
+        const visible = this.queries.filter(
+            (query) =>
+                (this.typeFilter === 'all' || query.type === this.typeFilter) &&
+                (!this.errorsOnly || query.lastError !== undefined) &&
+                (this.filterText === '' ||
+                    [query.path, query.query, query.lastError?.message ?? ''].some((value) =>
+                        value.toLowerCase().includes(this.filterText)
+                    ))
+        )
+
+        const direction = this.sortAscending ? 1 : -1
+        return visible.sort((a, b) => {
+            const aValue = sortValueOf(a, this.sortKey)
+            const bValue = sortValueOf(b, this.sortKey)
+            // Missing values stay last whatever the direction
+            if (aValue === undefined || bValue === undefined) {
+                return compareValues(aValue, bValue)
+            }
+            return direction * compareValues(aValue, bValue)
+        })
+    }
+
+    private renderRows(): void {
+        if (!this.tableBodyEl || !this.summaryEl) {
+            return
+        }
+
+        for (const [key, cellEl] of this.headerCells) {
+            cellEl.toggleClass('dvs-dashboard-sorted', key === this.sortKey)
+            cellEl.dataset['sortDirection'] =
+                key === this.sortKey ? (this.sortAscending ? 'asc' : 'desc') : ''
+        }
+
+        const visible = this.getVisibleQueries()
+        const errorCount = this.queries.filter((query) => query.lastError).length
+        this.summaryEl.setText(
+            `${visible.length} of ${this.queries.length} queries shown, ${errorCount} with errors`
+        )
+
+        this.tableBodyEl.empty()
+        for (const query of visible) {
+            this.renderRow(this.tableBodyEl, query)
+        }
+    }
+
+    private renderRow(bodyEl: HTMLElement, query: DashboardQuery): void {
+        const rowEl = bodyEl.createEl('tr')
+        rowEl.toggleClass('dvs-dashboard-has-error', query.lastError !== undefined)
+
+        rowEl.createEl('td', { text: query.path })
+
+        const queryText =
+            query.query.length > MAX_QUERY_LENGTH
+                ? `${query.query.substring(0, MAX_QUERY_LENGTH)}…`
+                : query.query
+        rowEl
+            .createEl('td')
+            .createEl('code', { text: queryText, attr: { 'aria-label': query.query } })
+
+        rowEl.createEl('td', {
+            text: `${query.type}${query.syntaxVariant === 'alternative' ? ' (alt)' : ''}`
+        })
+        rowEl.createEl('td', { text: query.updateMode })
+        rowEl.createEl('td', {
+            text:
+                query.lastSerializedAt === undefined
+                    ? '—'
+                    : format(query.lastSerializedAt, 'yyyy-MM-dd HH:mm')
+        })
+        rowEl.createEl('td', { text: formatResultSize(query) })
+        rowEl.createEl('td', {
+            cls: 'dvs-dashboard-error',
+            text: query.lastError ? formatQueryError(query.lastError) : ''
+        })
+
+        const actionsEl = rowEl.createEl('td', { cls: 'dvs-dashboard-actions' })
+        this.createActionButton(actionsEl, 'refresh-cw', 'Refresh', async () => {
+            await this.host.refreshDashboardQuery(query)
+            await this.reload()
+        })
+        this.createActionButton(actionsEl, 'file-text', 'Open', async () => {
+            await this.host.openDashboardQuery(query)
+        })
+
+        const modeEl = actionsEl.createEl('select', {
+            cls: 'dropdown',
+            attr: { 'aria-label': 'Convert the update mode' }
+        })
+        modeEl.createEl('option', { value: '', text: 'Convert to…' })
+        for (const mode of CONVERTIBLE_UPDATE_MODES) {
+            if (mode !== query.updateMode) {
+                modeEl.createEl('option', { value: mode, text: mode })
+            }
+        }
+        modeEl.addEventListener('change', async () => {
+            if (modeEl.value === '') {
+                return
+            }
+            await this.host.convertDashboardQueryMode(query, modeEl.value as ConvertibleUpdateMode)
+            await this.reload()
+        })
+    }
+
+    private createActionButton(
+        containerEl: HTMLElement,
+        icon: string,
+        label: string,
+        onClick: () => Promise<void>
+    ): void {
+        const buttonEl = containerEl.createEl('button', {
+            cls: 'clickable-icon',
+            attr: { 'aria-label': label }
+        })
+        setIcon(buttonEl, icon)
+        buttonEl.addEventListener('click', onClick)
+    }
+}
@@ -0,0 +1,87 @@
+import { App, Modal, Setting, SuggestModal } from 'obsidian'
+import { format } from 'date-fns'
+import type { ResultSnapshot } from '../utils/result-history'
+
+/**
+ * Pick one of the queries of a note that have a result history
+ */
+export class QueryHistorySuggestModal extends SuggestModal<string> {
+    constructor(
+        app: App,
+        private readonly queries: string[],
+        private readonly onChoose: (query: string) => void
+    ) {
+        super(app)
+        this.setPlaceholder('Choose a query to browse the result history of')
+    }
+
+    override getSuggestions(input: string): string[] {
+        const lowerCaseInput = input.toLowerCase()
+        return this.queries.filter((query) => query.toLowerCase().includes(lowerCaseInput))
+    }
+
+    override renderSuggestion(query: string, el: HTMLElement): void {
+        el.setText(query)
+    }
+
+    override onChooseSuggestion(query: string): void {
+        this.onChoose(query)
+    }
+}
+
+/**
+ * List the past results of a query, newest first, each of which can be shown and restored
+ */
+export class ResultHistoryModal extends Modal {
+    constructor(
+        app: App,
+        private readonly query: string,
+        private readonly snapshots: ResultSnapshot[],
+        private readonly onRestore: (snapshot: ResultSnapshot) => Promise<void>
+    ) {
+        super(app)
+    }
+
+    override onOpen(): void {
+        const { contentEl } = this
+        contentEl.empty()
+
+        this.setTitle('Result history')
+        contentEl.createEl('p', { cls: 'dvs-history-query', text: this.query })
+
+        for (const snapshot of this.snapshots) {
+            const lineCount = snapshot.content.trim().split('\n').length
+            let previewEl: HTMLElement | null = null
+
+            const setting = new Setting(contentEl)
+                .setName(format(snapshot.timestamp, 'yyyy-MM-dd HH:mm'))
+                .setDesc(`${lineCount} line(s)`)
+                .addButton((button) => {
+                    button.setButtonText('Show').onClick(() => {
+                        if (previewEl) {
+                            previewEl.remove()
+                            previewEl = null
+                            button.setButtonText('Show')
+                            return
+                        }
+                        previewEl = createEl('pre', {
+                            cls: 'dvs-history-preview',
+                            text: snapshot.content.trim()
+                        })
+                        setting.settingEl.after(previewEl)
+                        button.setButtonText('Hide')
+                    })
+                })
+                .addButton((button) => {
+                    button.setButtonText('Restore this version').onClick(async () => {
+                        this.close()
+                        await this.onRestore(snapshot)
+                    })
+                })
+        }
+    }
+
+    override onClose(): void {
+        this.contentEl.empty()
+    }
+}
@@ -0,0 +1,127 @@
+import { ItemView, Setting } from 'obsidian'
+import type { WorkspaceLeaf } from 'obsidian'
+
+import { SERIALIZATION_PREVIEW_VIEW_TYPE } from '../constants'
+import type { PreviewedFileChange } from '../types/serialization-preview.intf'
+import { formatDiffHunkHeader } from '../utils/diff-lines.fn'
+
+/**
+ * What the preview tab needs from the plugin: the previewed changes, and the
+ * actions to apply or discard them.
+ */
+export interface SerializationPreviewHost {
+    getPreviewedChanges(): PreviewedFileChange[]
+    /**
+     * Apply the previewed changes of the given notes, or of all notes when omitted
+     */
+    applyPreviewedChanges(paths?: string[]): Promise<void>
+    discardPreviewedChanges(): void
+}
+
+/**
+ * Tab listing the notes a vault-wide serialization would change, with a unified
+ * diff per serialized block. Nothing is written until the changes are accepted.
+ *
+ * The tab holds no state of its own: it renders whatever the host currently
+ * previews, so the host re-renders it (see `render`) whenever that changes.
+ */
+export class SerializationPreviewView extends ItemView {
+    /** Static view: nothing here can be navigated to or away from. */
+    override navigation = false
+
+    constructor(
+        leaf: WorkspaceLeaf,
+        private readonly host: SerializationPreviewHost
+    ) {
+        super(leaf)
+        this.icon = 'git-compare'
+    }
+
+    override getViewType(): string {
+        return SERIALIZATION_PREVIEW_VIEW_TYPE
+    }
+
+    override getDisplayText(): string {
+        return 'Serialization preview'
+    }
+
+    protected override async onOpen(): Promise<void> {
+        this.contentEl.addClass('dvs-preview-content')
+        this.render()
+    }
+
+    protected override async onClose(): Promise<void> {
+        this.contentEl.empty()
+    }
+
+    /**
+     * Render the changes currently previewed by the host
+     */
+    render(): void {
+        const changes = this.host.getPreviewedChanges()
+        this.contentEl.empty()
+
+        this.contentEl.createEl('h2', { text: 'Serialization preview' })
+
+        if (changes.length === 0) {
+            this.contentEl.createEl('p', {
+                cls: 'dvs-preview-empty',
+                text: 'Nothing to review. Run "Preview serialization of all Dataview queries" to compute the changes.'
+            })
+            return
+        }
+
+        const blockCount = changes.reduce((count, change) => count + change.hunks.length, 0)
+        new Setting(this.contentEl)
+            .setName(`${changes.length} note(s) would change`)
+            .setDesc(
+                `${blockCount} changed block(s). Notes modified since the preview are skipped when accepting.`
+            )
+            .addButton((button) => {
+                button
+                    .setCta()
+                    .setButtonText('Accept all')
+                    .onClick(async () => {
+                        await this.host.applyPreviewedChanges()
+                    })
+            })
+            .addButton((button) => {
+                button.setButtonText('Discard').onClick(() => {
+                    this.host.discardPreviewedChanges()
+                })
+            })
+
+        for (const change of changes) {
+            this.renderFileChange(change)
+        }
+    }
+
+    private renderFileChange(change: PreviewedFileChange): void {
+        const fileEl = this.contentEl.createDiv({ cls: 'dvs-preview-file' })
+
+        const setting = new Setting(fileEl).setName(change.path)
+        if (change.isNewNote) {
+            setting.setDesc('New note')
+        } else {
+            setting.setDesc(`${change.hunks.length} changed block(s)`).addButton((button) => {
+                button.setButtonText('Open').onClick(async () => {
+                    await this.app.workspace.openLinkText(change.path, '', 'tab')
+                })
+            })
+        }
+        setting.addButton((button) => {
+            button.setButtonText('Accept').onClick(async () => {
+                await this.host.applyPreviewedChanges([change.path])
+            })
+        })
+
+        for (const hunk of change.hunks) {
+            const hunkEl = fileEl.createEl('pre', { cls: 'dvs-preview-hunk' })
+            hunkEl.createDiv({ cls: 'dvs-diff-header', text: formatDiffHunkHeader(hunk) })
+            for (const line of hunk.lines) {
+                const marker = line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '
+                hunkEl.createDiv({ cls: `dvs-diff-${line.type}`, text: `${marker}${line.text}` })
+            }
+        }
+    }
+}
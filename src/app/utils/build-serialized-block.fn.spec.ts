@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'bun:test'
-import { buildSerializedBlock } from './build-serialized-block.fn'
+import { buildSerializedBlock, buildSerializedContent } from './build-serialized-block.fn'
 import {
     QUERY_FLAG_CLOSE,
     QUERY_FLAG_OPEN,
@@ -156,4 +156,47 @@ describe('buildSerializedBlock', () => {
             )
         })
     })
+
+    describe('header', () => {
+        it('should write the header above the content', () => {
+            const result = buildSerializedBlock({
+                queryDefinition: definition,
+                startMarker,
+                endMarker: SERIALIZED_QUERY_END,
+                content: '- [[A]]',
+                indentation: '',
+                blankLineBeforeContent: false,
+                blankLineBeforeEnd: false,
+                header: '## Projects'
+            })
+
+            expect(result).toBe(
+                `${definition}\n${startMarker}\n## Projects\n- [[A]]\n${SERIALIZED_QUERY_END}\n`
+            )
+        })
+
+        it('should keep the blank line required by tables below the header', () => {
+            const result = buildSerializedContent({
+                content: '| A |',
+                indentation: '',
+                blankLineBeforeContent: true,
+                blankLineBeforeEnd: false,
+                header: '## Projects'
+            })
+
+            expect(result).toBe('## Projects\n\n| A |')
+        })
+
+        it('should quote the header inside a callout', () => {
+            const result = buildSerializedContent({
+                content: '> - [[A]]',
+                indentation: '> ',
+                blankLineBeforeContent: false,
+                blankLineBeforeEnd: false,
+                header: 'Projects'
+            })
+
+            expect(result).toBe('> Projects\n> - [[A]]')
+        })
+    })
 })
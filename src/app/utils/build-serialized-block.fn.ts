@@ -1,21 +1,6 @@
-import { getBlankLinePrefix, getBlockquotePrefix } from './blockquote.fn'
+import { applyIndentation, getBlankLinePrefix, getBlockquotePrefix } from './blockquote.fn'
 
-export interface BuildSerializedBlockParams {
-    /**
-     * The query definition as it must appear in the file, including its
-     * indentation and its opening/closing flags.
-     */
-    queryDefinition: string
-    /**
-     * The result start marker line, without indentation
-     * (e.g. `<!-- SerializedQuery: LIST FROM #foo -->`).
-     */
-    startMarker: string
-    /**
-     * The result end marker line, without indentation
-     * (e.g. `<!-- SerializedQuery END -->`).
-     */
-    endMarker: string
+export interface BuildSerializedContentParams {
     /**
      * The serialized content, already indented (see `applyIndentation`).
      */
@@ -35,25 +20,47 @@ export interface BuildSerializedBlockParams {
      * Whether to insert a blank line between the content and the end marker.
      */
     blankLineBeforeEnd: boolean
+    /**
+     * Optional line written above the content (the `header` query option).
+     * Indented like the content.
+     */
+    header?: string | undefined
+}
+
+export interface BuildSerializedBlockParams extends BuildSerializedContentParams {
+    /**
+     * The query definition as it must appear in the file, including its
+     * indentation and its opening/closing flags.
+     */
+    queryDefinition: string
+    /**
+     * The result start marker line, without indentation
+     * (e.g. `<!-- SerializedQuery: LIST FROM #foo -->`).
+     */
+    startMarker: string
+    /**
+     * The result end marker line, without indentation
+     * (e.g. `<!-- SerializedQuery END -->`).
+     */
+    endMarker: string
 }
 
 /**
- * Assemble the query definition and its serialized result block.
- *
- * Inside a blockquote/callout, the result markers and the blank lines carry the
- * blockquote prefix so that the block stays part of the quote. Outside a
- * blockquote the output is unchanged from previous versions.
+ * Assemble the lines sitting between the result markers: the optional header,
+ * the blank lines and the content.
  *
- * Reference: https://github.com/dsebastien/obsidian-dataview-serializer/issues/64
+ * Also used to compute the expected block content for the idempotency check.
  *
- * @param params The block components
- * @returns The full replacement text, terminated by a newline
+ * @param params The content components
+ * @returns The lines, joined without a trailing newline
  */
-export const buildSerializedBlock = (params: BuildSerializedBlockParams): string => {
-    const markerPrefix = getBlockquotePrefix(params.indentation)
+export const buildSerializedContent = (params: BuildSerializedContentParams): string => {
     const blankLine = getBlankLinePrefix(params.indentation)
+    const lines: string[] = []
 
-    const lines: string[] = [params.queryDefinition, `${markerPrefix}${params.startMarker}`]
+    if (params.header) {
+        lines.push(applyIndentation(params.header, params.indentation))
+    }
 
     if (params.blankLineBeforeContent) {
         lines.push(blankLine)
@@ -65,7 +72,30 @@ export const buildSerializedBlock = (params: BuildSerializedBlockParams): string
         lines.push(blankLine)
     }
 
-    lines.push(`${markerPrefix}${params.endMarker}`)
+    return lines.join('\n')
+}
+
+/**
+ * Assemble the query definition and its serialized result block.
+ *
+ * Inside a blockquote/callout, the result markers and the blank lines carry the
+ * blockquote prefix so that the block stays part of the quote. Outside a
+ * blockquote the output is unchanged from previous versions.
+ *
+ * Reference: https://github.com/dsebastien/obsidian-dataview-serializer/issues/64
+ *
+ * @param params The block components
+ * @returns The full replacement text, terminated by a newline
+ */
+export const buildSerializedBlock = (params: BuildSerializedBlockParams): string => {
+    const markerPrefix = getBlockquotePrefix(params.indentation)
+
+    const lines: string[] = [
+        params.queryDefinition,
+        `${markerPrefix}${params.startMarker}`,
+        buildSerializedContent(params),
+        `${markerPrefix}${params.endMarker}`
+    ]
 
     return `${lines.join('\n')}\n`
 }
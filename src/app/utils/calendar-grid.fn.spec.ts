@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'bun:test'
+import { buildCalendarGrid } from './calendar-grid.fn'
+
+describe('buildCalendarGrid', () => {
+    it('should lay out the month in weeks starting on Monday, with linked days', () => {
+        const grid = buildCalendarGrid([
+            { year: 2026, month: 2, day: 3, link: '[[Daily/2026-02-03.md|2026-02-03]]' },
+            { year: 2026, month: 2, day: 3, link: '[[Meeting]]' }
+        ])
+
+        // February 2026 starts on a Sunday and spans exactly 4 weeks after it
+        expect(grid).toBe(
+            [
+                '**February 2026**',
+                '',
+                '| Mon | Tue | Wed | Thu | Fri | Sat | Sun |',
+                '| --- | --- | --- | --- | --- | --- | --- |',
+                '|  |  |  |  |  |  | 1 |',
+                '| 2 | 3<br>[[Daily/2026-02-03.md\\|2026-02-03]]<br>[[Meeting]] | 4 | 5 | 6 | 7 | 8 |',
+                '| 9 | 10 | 11 | 12 | 13 | 14 | 15 |',
+                '| 16 | 17 | 18 | 19 | 20 | 21 | 22 |',
+                '| 23 | 24 | 25 | 26 | 27 | 28 |  |'
+            ].join('\n')
+        )
+    })
+
+    it('should render one grid per month, oldest first', () => {
+        const grid = buildCalendarGrid([
+            { year: 2026, month: 11, day: 2, link: '[[B]]' },
+            { year: 2025, month: 12, day: 24, link: '[[A]]' },
+            { year: 2026, month: 11, day: 20, link: '[[C]]' }
+        ])
+
+        const titles = grid.split('\n').filter((line) => line.startsWith('**'))
+        expect(titles).toEqual(['**December 2025**', '**November 2026**'])
+        expect(grid).toContain('| 24<br>[[A]] |')
+        expect(grid).toContain('| 2<br>[[B]] |')
+        expect(grid).toContain('| 20<br>[[C]] |')
+    })
+
+    it('should render nothing without notes', () => {
+        expect(buildCalendarGrid([])).toBe('')
+    })
+})
@@ -0,0 +1,71 @@
+import { format } from 'date-fns'
+
+/**
+ * A note placed on the calendar by a CALENDAR query
+ */
+export interface CalendarEntry {
+    year: number
+    /** 1 to 12 */
+    month: number
+    /** 1 to 31 */
+    day: number
+    /** The link to the note, in markdown (e.g. `[[folder/note.md|note]]`) */
+    link: string
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+/**
+ * Escape the pipes of a link so that it fits in a table cell
+ */
+const escapePipes = (link: string): string => link.replace(/(?<!\\)\|/g, '\\|')
+
+/**
+ * Build one month grid: a table of weeks (Monday first), each day listing the
+ * notes placed on it below its number
+ */
+const buildMonthGrid = (year: number, month: number, entries: CalendarEntry[]): string => {
+    const daysInMonth = new Date(year, month, 0).getDate()
+    // getDay() counts from Sunday; the grid starts on Monday
+    const leadingDays = (new Date(year, month - 1, 1).getDay() + 6) % 7
+
+    const cells: string[] = Array.from({ length: leadingDays }, () => '')
+    for (let day = 1; day <= daysInMonth; day++) {
+        const links = entries.filter((entry) => entry.day === day).map(({ link }) => link)
+        cells.push([String(day), ...links.map(escapePipes)].join('<br>'))
+    }
+    while (cells.length % 7 !== 0) {
+        cells.push('')
+    }
+
+    const rows = [`| ${WEEKDAYS.join(' | ')} |`, `| ${WEEKDAYS.map(() => '---').join(' | ')} |`]
+    for (let index = 0; index < cells.length; index += 7) {
+        rows.push(`| ${cells.slice(index, index + 7).join(' | ')} |`)
+    }
+
+    return `**${format(new Date(year, month - 1, 1), 'MMMM yyyy')}**\n\n${rows.join('\n')}`
+}
+
+/**
+ * Render the result of a CALENDAR query as markdown: one grid per month holding
+ * a note, oldest month first
+ *
+ * @param entries The notes placed on the calendar
+ * @returns The month grids separated by blank lines, or an empty string without notes
+ */
+export const buildCalendarGrid = (entries: CalendarEntry[]): string => {
+    const months = new Map<string, CalendarEntry[]>()
+    const sortedEntries = [...entries].sort(
+        (a, b) => a.year - b.year || a.month - b.month || a.day - b.day
+    )
+    for (const entry of sortedEntries) {
+        const key = `${entry.year}-${entry.month}`
+        months.set(key, [...(months.get(key) ?? []), entry])
+    }
+
+    return [...months.values()]
+        .map((monthEntries) =>
+            buildMonthGrid(monthEntries[0]!.year, monthEntries[0]!.month, monthEntries)
+        )
+        .join('\n\n')
+}
@@ -257,7 +257,7 @@ Some regular text
 
     test('should skip unsupported query types', () => {
         const text = `\`\`\`dataview
-CALENDAR file.ctime
+AGENDA file.ctime
 \`\`\`
 `
         const cursorOffset = 15
@@ -266,7 +266,7 @@ CALENDAR file.ctime
 
         expect(result.converted).toBe(false)
         expect(result.skipped).toHaveLength(1)
-        expect(result.skipped[0]).toContain('CALENDAR')
+        expect(result.skipped[0]).toContain('AGENDA')
     })
 })
 
@@ -311,7 +311,7 @@ LIST FROM #project
 \`\`\`
 
 \`\`\`dataview
-CALENDAR file.ctime
+AGENDA file.ctime
 \`\`\`
 `
 
@@ -320,7 +320,7 @@ CALENDAR file.ctime
         expect(result.converted).toBe(true)
         expect(result.count).toBe(1)
         expect(result.skipped).toHaveLength(1)
-        expect(result.skipped[0]).toContain('CALENDAR')
+        expect(result.skipped[0]).toContain('AGENDA')
     })
 
     test('should preserve indentation when converting', () => {
@@ -0,0 +1,129 @@
+import { describe, expect, test } from 'bun:test'
+import {
+    convertCodeBlockQueriesToComments,
+    convertCommentQueriesToCodeBlocks
+} from './convert-query-definition.fn'
+
+describe('convertCommentQueriesToCodeBlocks', () => {
+    test('should convert block and DataviewJS comments, keeping their results', () => {
+        const text = [
+            '# Note',
+            '<!-- QueryToSerializeManual [limit=5]: LIST FROM #project -->',
+            '<!-- SerializedQuery: LIST FROM #project -->',
+            '- [[Alpha]]',
+            '<!-- SerializedQuery END -->',
+            '<!-- dataview-serializer-js-once:',
+            'dv.paragraph("a")',
+            '-->',
+            ''
+        ].join('\n')
+
+        const result = convertCommentQueriesToCodeBlocks(text)
+
+        expect(result.count).toBe(2)
+        expect(result.newText).toBe(
+            [
+                '# Note',
+                '```dataview-serialize-manual [limit=5]',
+                'LIST FROM #project',
+                '```',
+                '<!-- SerializedQuery: LIST FROM #project -->',
+                '- [[Alpha]]',
+                '<!-- SerializedQuery END -->',
+                '```dataviewjs-serialize-once',
+                'dv.paragraph("a")',
+                '```',
+                ''
+            ].join('\n')
+        )
+    })
+
+    test('should keep the lines of multi-line queries inside callouts', () => {
+        const text = [
+            '> [!info]',
+            '> <!-- dataview-serializer-query:',
+            '> LIST',
+            '> FROM #a',
+            '> -->'
+        ].join('\n')
+
+        expect(convertCommentQueriesToCodeBlocks(text).newText).toBe(
+            ['> [!info]', '> ```dataview-serialize', '> LIST', '> FROM #a', '> ```'].join('\n')
+        )
+    })
+
+    test('should use a longer fence for code holding a fence, and skip scheduled queries', () => {
+        const text = [
+            '<!-- dataview-serializer-query-every 1h: LIST FROM #a -->',
+            '<!-- dataview-serializer-js:',
+            'dv.paragraph(`',
+            '```',
+            '`)',
+            '-->'
+        ].join('\n')
+
+        const result = convertCommentQueriesToCodeBlocks(text)
+
+        expect(result.count).toBe(1)
+        expect(result.skipped).toEqual(['LIST FROM #a'])
+        expect(result.newText).toContain('````dataviewjs-serialize\ndv.paragraph(`\n```\n`)\n````')
+    })
+})
+
+describe('convertCodeBlockQueriesToComments', () => {
+    test('should convert code blocks into comments of the alternative syntax', () => {
+        const text = [
+            '```dataview-serialize-once [limit=5]',
+            'LIST FROM #project',
+            '```',
+            '<!-- dataview-serializer-result: LIST FROM #project -->',
+            '- [[Alpha]]',
+            '<!-- dataview-serializer-result-end -->',
+            '  ```dataviewjs-serialize',
+            '  dv.paragraph("a")',
+            '  ```'
+        ].join('\n')
+
+        const result = convertCodeBlockQueriesToComments(text)
+
+        expect(result.count).toBe(2)
+        expect(result.newText).toBe(
+            [
+                '<!-- dataview-serializer-query-once [limit=5]: LIST FROM #project -->',
+                '<!-- dataview-serializer-result: LIST FROM #project -->',
+                '- [[Alpha]]',
+                '<!-- dataview-serializer-result-end -->',
+                '  <!-- dataview-serializer-js:',
+                '  dv.paragraph("a")',
+                '  -->'
+            ].join('\n')
+        )
+    })
+
+    test('should skip the code that a comment cannot hold', () => {
+        const text = ['```dataviewjs-serialize', 'let i = 1', 'i--', '```'].join('\n')
+
+        const result = convertCodeBlockQueriesToComments(text)
+
+        expect(result.converted).toBe(false)
+        expect(result.newText).toBe(text)
+        expect(result.skipped).toEqual(['let i = 1\ni--'])
+    })
+
+    test('should convert back to the same code blocks', () => {
+        const text = [
+            '```dataview-serialize-manual',
+            'TABLE file.ctime',
+            'FROM #project',
+            '```',
+            '```dataviewjs-serialize',
+            'dv.paragraph("a")',
+            '```'
+        ].join('\n')
+
+        expect(
+            convertCommentQueriesToCodeBlocks(convertCodeBlockQueriesToComments(text).newText)
+                .newText
+        ).toBe(text)
+    })
+})
@@ -0,0 +1,236 @@
+import {
+    DATAVIEWJS_FLAG_MANUAL_OPEN_ALT,
+    DATAVIEWJS_FLAG_ONCE_AND_EJECT_OPEN_ALT,
+    DATAVIEWJS_FLAG_ONCE_OPEN_ALT,
+    DATAVIEWJS_FLAG_OPEN_ALT,
+    QUERY_FLAG_CLOSE,
+    QUERY_FLAG_MANUAL_OPEN_ALT,
+    QUERY_FLAG_ONCE_AND_EJECT_OPEN_ALT,
+    QUERY_FLAG_ONCE_OPEN_ALT,
+    QUERY_FLAG_OPEN_ALT
+} from '../constants'
+import { applyIndentation, stripLinePrefix } from './blockquote.fn'
+import type { ConversionResult } from './convert-dataview-query.fn'
+import { escapeRegExp } from './escape-reg-exp.fn'
+import {
+    buildFenceFlag,
+    findFencedQueries,
+    getFenceOptionsText,
+    isFencedFlag,
+    type FencedQueryKind,
+    type FencedUpdateMode
+} from './fenced-query.fn'
+import { findDataviewJSQueries } from './find-dataviewjs-queries.fn'
+import { findQueries } from './find-queries.fn'
+import { QUERY_OPTIONS_PATTERN } from './parse-query-options.fn'
+
+/**
+ * The opening flag of the comments written for code blocks, by update mode.
+ * Code blocks use the alternative result markers, so they become alternative comments.
+ */
+const COMMENT_FLAGS: Record<FencedQueryKind, Record<FencedUpdateMode, string>> = {
+    block: {
+        'auto': QUERY_FLAG_OPEN_ALT,
+        'manual': QUERY_FLAG_MANUAL_OPEN_ALT,
+        'once': QUERY_FLAG_ONCE_OPEN_ALT,
+        'once-and-eject': QUERY_FLAG_ONCE_AND_EJECT_OPEN_ALT
+    },
+    dataviewjs: {
+        'auto': DATAVIEWJS_FLAG_OPEN_ALT,
+        'manual': DATAVIEWJS_FLAG_MANUAL_OPEN_ALT,
+        'once': DATAVIEWJS_FLAG_ONCE_OPEN_ALT,
+        'once-and-eject': DATAVIEWJS_FLAG_ONCE_AND_EJECT_OPEN_ALT
+    }
+}
+
+/**
+ * The options block of a comment flag (e.g. ` [limit=5]` in `<!-- QueryToSerialize [limit=5]: `)
+ */
+const FLAG_OPTIONS_REGEX = new RegExp(`(${QUERY_OPTIONS_PATTERN}):\\s*$`)
+
+interface DefinitionReplacement {
+    /** The text of the definition, as found in the document */
+    definition: string
+    /** The text replacing it */
+    replacement: string
+}
+
+/**
+ * Extract the text of a comment definition, from its opening flag to its closing flag,
+ * keeping its line breaks but not the indentation of its lines
+ */
+const extractCommentContent = (
+    definition: string,
+    flagOpen: string,
+    indentation: string
+): string => {
+    const start = definition.indexOf(flagOpen.trim()) + flagOpen.trim().length
+    const end = definition.lastIndexOf(QUERY_FLAG_CLOSE.trim())
+    return stripLinePrefix(definition.substring(start, end), indentation).trim()
+}
+
+/**
+ * Build a code block holding the given content, with a fence longer than any
+ * backtick fence of the content
+ */
+const buildCodeBlock = (
+    kind: FencedQueryKind,
+    updateMode: FencedUpdateMode,
+    content: string,
+    indentation: string,
+    options: string
+): string => {
+    const longestFence = Math.max(
+        0,
+        ...content.split('\n').map((line) => /^\s*(`*)/.exec(line)?.[1]?.length ?? 0)
+    )
+    const fence = '`'.repeat(Math.max(3, longestFence + 1))
+    return applyIndentation(
+        `${buildFenceFlag(kind, updateMode, fence, options)}\n${content}\n${fence}`,
+        indentation
+    )
+}
+
+/**
+ * Replace each definition by its replacement, in order
+ */
+const applyReplacements = (
+    text: string,
+    replacements: DefinitionReplacement[],
+    skipped: string[]
+): ConversionResult => {
+    let newText = text
+    let count = 0
+    // Each definition is searched after the previous replacement, so that identical
+    // definitions are all replaced
+    let searchFrom = 0
+    for (const { definition, replacement } of replacements) {
+        const index = newText.indexOf(definition, searchFrom)
+        if (index === -1) {
+            continue
+        }
+        newText = `${newText.substring(0, index)}${replacement}${newText.substring(index + definition.length)}`
+        searchFrom = index + replacement.length
+        count++
+    }
+
+    return { converted: count > 0, newText, count, skipped }
+}
+
+/**
+ * Convert the block and DataviewJS queries written in comments into code blocks.
+ * Their results are kept. Scheduled queries need the interval of their comment, so
+ * they are skipped.
+ *
+ * @param text The document text
+ * @returns Conversion result with the new text
+ */
+export const convertCommentQueriesToCodeBlocks = (text: string): ConversionResult => {
+    const replacements: Array<DefinitionReplacement & { offset: number }> = []
+    const skipped: string[] = []
+
+    for (const query of findQueries(text)) {
+        if (isFencedFlag(query.flagOpen)) {
+            continue
+        }
+        if (query.updateMode === 'scheduled') {
+            skipped.push(query.query)
+            continue
+        }
+
+        const definition =
+            query.originalQueryDefinition ??
+            new RegExp(
+                `^${escapeRegExp(query.indentation)}${escapeRegExp(query.flagOpen)}${escapeRegExp(query.query)}\\s*${escapeRegExp(query.flagClose)}`,
+                'm'
+            ).exec(text)?.[0]
+        if (definition === undefined) {
+            continue
+        }
+
+        replacements.push({
+            definition,
+            replacement: buildCodeBlock(
+                'block',
+                query.updateMode,
+                extractCommentContent(definition, query.flagOpen, query.indentation),
+                query.indentation,
+                FLAG_OPTIONS_REGEX.exec(query.flagOpen)?.[1] ?? ''
+            ),
+            offset: text.indexOf(definition)
+        })
+    }
+
+    for (const query of findDataviewJSQueries(text)) {
+        // DataviewJS queries are never scheduled
+        if (isFencedFlag(query.flagOpen) || query.updateMode === 'scheduled') {
+            continue
+        }
+
+        replacements.push({
+            definition: query.originalQueryDefinition,
+            replacement: buildCodeBlock(
+                'dataviewjs',
+                query.updateMode,
+                extractCommentContent(
+                    query.originalQueryDefinition,
+                    query.flagOpen,
+                    query.indentation
+                ),
+                query.indentation,
+                ''
+            ),
+            offset: text.indexOf(query.originalQueryDefinition)
+        })
+    }
+
+    return applyReplacements(
+        text,
+        replacements.sort((a, b) => a.offset - b.offset),
+        skipped
+    )
+}
+
+/**
+ * Convert the queries written in code blocks into comments of the alternative syntax,
+ * which uses the same result markers. Their results are kept.
+ * HTML comments cannot hold `--`, so the queries containing it are skipped.
+ *
+ * @param text The document text
+ * @returns Conversion result with the new text
+ */
+export const convertCodeBlockQueriesToComments = (text: string): ConversionResult => {
+    const replacements: DefinitionReplacement[] = []
+    const skipped: string[] = []
+
+    for (const fencedQuery of findFencedQueries(text)) {
+        const content = fencedQuery.content.trim()
+        if (!content) {
+            continue
+        }
+        if (content.includes('--')) {
+            skipped.push(content)
+            continue
+        }
+
+        let flagOpen = COMMENT_FLAGS[fencedQuery.kind][fencedQuery.updateMode]
+        const options = getFenceOptionsText(fencedQuery.flagOpen)
+        if (options) {
+            // The options block sits between the flag name and its colon
+            flagOpen = `${flagOpen.trimEnd().slice(0, -1)}${options}: `
+        }
+
+        // DataviewJS code and multi-line queries keep their lines
+        const comment =
+            fencedQuery.kind === 'block' && !content.includes('\n')
+                ? `${flagOpen}${content}${QUERY_FLAG_CLOSE}`
+                : `${flagOpen.trimEnd()}\n${content}\n${QUERY_FLAG_CLOSE.trim()}`
+
+        replacements.push({
+            definition: fencedQuery.definition,
+            replacement: applyIndentation(comment, fencedQuery.indentation)
+        })
+    }
+
+    return applyReplacements(text, replacements, skipped)
+}
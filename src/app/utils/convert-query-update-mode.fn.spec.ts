@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'bun:test'
+import { convertQueryUpdateMode } from './convert-query-update-mode.fn'
+
+describe('convertQueryUpdateMode', () => {
+    const result = [
+        '<!-- SerializedQuery: LIST FROM #project -->',
+        '- [[A]]',
+        '<!-- SerializedQuery END -->'
+    ].join('\n')
+
+    it('should replace the flag of a block query, keeping its result', () => {
+        const text = `Intro\n<!-- QueryToSerialize: LIST FROM #project -->\n${result}\n`
+
+        expect(
+            convertQueryUpdateMode(
+                text,
+                {
+                    type: 'block',
+                    syntaxVariant: 'legacy',
+                    flagOpen: '<!-- QueryToSerialize: ',
+                    definition: '<!-- QueryToSerialize: LIST FROM #project'
+                },
+                'manual'
+            )
+        ).toBe(`Intro\n<!-- QueryToSerializeManual: LIST FROM #project -->\n${result}\n`)
+    })
+
+    it('should keep the syntax variant and the options block', () => {
+        const text = '<!-- dataview-serializer-query [limit=5]: LIST FROM #project -->\n'
+
+        expect(
+            convertQueryUpdateMode(
+                text,
+                {
+                    type: 'block',
+                    syntaxVariant: 'alternative',
+                    flagOpen: '<!-- dataview-serializer-query [limit=5]: ',
+                    definition: '<!-- dataview-serializer-query [limit=5]: LIST FROM #project'
+                },
+                'once'
+            )
+        ).toBe('<!-- dataview-serializer-query-once [limit=5]: LIST FROM #project -->\n')
+    })
+
+    it('should convert a scheduled query', () => {
+        const text = '<!-- QueryToSerializeEvery 1h: LIST FROM #project -->\n'
+
+        expect(
+            convertQueryUpdateMode(
+                text,
+                {
+                    type: 'block',
+                    syntaxVariant: 'legacy',
+                    flagOpen: '<!-- QueryToSerializeEvery 1h: ',
+                    definition: '<!-- QueryToSerializeEvery 1h: LIST FROM #project'
+                },
+                'auto'
+            )
+        ).toBe('<!-- QueryToSerialize: LIST FROM #project -->\n')
+    })
+
+    it('should convert inline and DataviewJS queries', () => {
+        expect(
+            convertQueryUpdateMode(
+                'Name: <!-- IQManual: =this.file.name -->Note<!-- /IQ -->',
+                {
+                    type: 'inline',
+                    syntaxVariant: 'legacy',
+                    flagOpen: '<!-- IQManual: ',
+                    definition: '<!-- IQManual: =this.file.name -->Note<!-- /IQ -->'
+                },
+                'auto'
+            )
+        ).toBe('Name: <!-- IQ: =this.file.name -->Note<!-- /IQ -->')
+
+        expect(
+            convertQueryUpdateMode(
+                '<!-- dataview-serializer-js: dv.list([1]) -->\n',
+                {
+                    type: 'dataviewjs',
+                    syntaxVariant: 'alternative',
+                    flagOpen: '<!-- dataview-serializer-js:',
+                    definition: '<!-- dataview-serializer-js: dv.list([1]) -->'
+                },
+                'manual'
+            )
+        ).toBe('<!-- dataview-serializer-js-manual: dv.list([1]) -->\n')
+    })
+
+    it('should convert property queries, keeping their property', () => {
+        expect(
+            convertQueryUpdateMode(
+                '<!-- PropertyQuery count: =length(this.file.inlinks) -->\n',
+                {
+                    type: 'property',
+                    syntaxVariant: 'legacy',
+                    flagOpen: '<!-- PropertyQuery ',
+                    definition: '<!-- PropertyQuery count: =length(this.file.inlinks) -->'
+                },
+                'once'
+            )
+        ).toBe('<!-- PropertyQueryOnce count: =length(this.file.inlinks) -->\n')
+    })
+
+    it('should convert queries written in a code block through their language', () => {
+        const definition = '```dataview-serialize-once [limit=5]\nLIST FROM #project\n```'
+        expect(
+            convertQueryUpdateMode(
+                `${definition}\n`,
+                {
+                    type: 'block',
+                    syntaxVariant: 'alternative',
+                    flagOpen: '```dataview-serialize-once [limit=5]',
+                    definition
+                },
+                'manual'
+            )
+        ).toBe('```dataview-serialize-manual [limit=5]\nLIST FROM #project\n```\n')
+    })
+
+    it('should return null when the query is not in the text anymore', () => {
+        expect(
+            convertQueryUpdateMode(
+                '<!-- QueryToSerialize: LIST FROM #other -->\n',
+                {
+                    type: 'block',
+                    syntaxVariant: 'legacy',
+                    flagOpen: '<!-- QueryToSerialize: ',
+                    definition: '<!-- QueryToSerialize: LIST FROM #project'
+                },
+                'manual'
+            )
+        ).toBeNull()
+    })
+})
@@ -0,0 +1,144 @@
+import {
+    DATAVIEWJS_FLAG_MANUAL_OPEN,
+    DATAVIEWJS_FLAG_MANUAL_OPEN_ALT,
+    DATAVIEWJS_FLAG_ONCE_OPEN,
+    DATAVIEWJS_FLAG_ONCE_OPEN_ALT,
+    DATAVIEWJS_FLAG_OPEN,
+    DATAVIEWJS_FLAG_OPEN_ALT,
+    INLINE_QUERY_FLAG_MANUAL_OPEN,
+    INLINE_QUERY_FLAG_MANUAL_OPEN_ALT,
+    INLINE_QUERY_FLAG_ONCE_OPEN,
+    INLINE_QUERY_FLAG_ONCE_OPEN_ALT,
+    INLINE_QUERY_FLAG_OPEN,
+    INLINE_QUERY_FLAG_OPEN_ALT,
+    PROPERTY_QUERY_FLAG_MANUAL_OPEN,
+    PROPERTY_QUERY_FLAG_MANUAL_OPEN_ALT,
+    PROPERTY_QUERY_FLAG_ONCE_OPEN,
+    PROPERTY_QUERY_FLAG_ONCE_OPEN_ALT,
+    PROPERTY_QUERY_FLAG_OPEN,
+    PROPERTY_QUERY_FLAG_OPEN_ALT,
+    QUERY_FLAG_MANUAL_OPEN,
+    QUERY_FLAG_MANUAL_OPEN_ALT,
+    QUERY_FLAG_ONCE_OPEN,
+    QUERY_FLAG_ONCE_OPEN_ALT,
+    QUERY_FLAG_OPEN,
+    QUERY_FLAG_OPEN_ALT
+} from '../constants'
+import type { QueryKind } from '../types/serializer-events.intf'
+import { changeFenceUpdateMode } from './fenced-query.fn'
+import type { SyntaxVariant } from './find-queries.fn'
+
+/**
+ * The update modes a query can be converted to.
+ * 'once-and-eject' removes the markers, and 'scheduled' needs an interval, so neither
+ * is offered.
+ */
+export type ConvertibleUpdateMode = 'auto' | 'manual' | 'once'
+
+export const CONVERTIBLE_UPDATE_MODES: ConvertibleUpdateMode[] = ['auto', 'manual', 'once']
+
+/**
+ * The opening flag of each kind of query, by syntax variant and update mode
+ */
+const QUERY_FLAGS: Record<
+    QueryKind,
+    Record<SyntaxVariant, Record<ConvertibleUpdateMode, string>>
+> = {
+    block: {
+        legacy: {
+            auto: QUERY_FLAG_OPEN,
+            manual: QUERY_FLAG_MANUAL_OPEN,
+            once: QUERY_FLAG_ONCE_OPEN
+        },
+        alternative: {
+            auto: QUERY_FLAG_OPEN_ALT,
+            manual: QUERY_FLAG_MANUAL_OPEN_ALT,
+            once: QUERY_FLAG_ONCE_OPEN_ALT
+        }
+    },
+    inline: {
+        legacy: {
+            auto: INLINE_QUERY_FLAG_OPEN,
+            manual: INLINE_QUERY_FLAG_MANUAL_OPEN,
+            once: INLINE_QUERY_FLAG_ONCE_OPEN
+        },
+        alternative: {
+            auto: INLINE_QUERY_FLAG_OPEN_ALT,
+            manual: INLINE_QUERY_FLAG_MANUAL_OPEN_ALT,
+            once: INLINE_QUERY_FLAG_ONCE_OPEN_ALT
+        }
+    },
+    dataviewjs: {
+        legacy: {
+            auto: DATAVIEWJS_FLAG_OPEN,
+            manual: DATAVIEWJS_FLAG_MANUAL_OPEN,
+            once: DATAVIEWJS_FLAG_ONCE_OPEN
+        },
+        alternative: {
+            auto: DATAVIEWJS_FLAG_OPEN_ALT,
+            manual: DATAVIEWJS_FLAG_MANUAL_OPEN_ALT,
+            once: DATAVIEWJS_FLAG_ONCE_OPEN_ALT
+        }
+    },
+    property: {
+        legacy: {
+            auto: PROPERTY_QUERY_FLAG_OPEN,
+            manual: PROPERTY_QUERY_FLAG_MANUAL_OPEN,
+            once: PROPERTY_QUERY_FLAG_ONCE_OPEN
+        },
+        alternative: {
+            auto: PROPERTY_QUERY_FLAG_OPEN_ALT,
+            manual: PROPERTY_QUERY_FLAG_MANUAL_OPEN_ALT,
+            once: PROPERTY_QUERY_FLAG_ONCE_OPEN_ALT
+        }
+    }
+}
+
+/**
+ * The options block of a block query flag (e.g. ` [limit=5]` in `<!-- QueryToSerialize [limit=5]: `)
+ */
+const FLAG_OPTIONS_REGEX = /( \[(?:[^\]"\n]|"[^"\n]*")*\]):\s*$/
+
+export interface ConvertQueryUpdateModeParams {
+    type: QueryKind
+    syntaxVariant: SyntaxVariant
+    /** The current opening flag of the query */
+    flagOpen: string
+    /** The text of the query definition, starting with its opening flag */
+    definition: string
+}
+
+/**
+ * Convert the update mode of a query by replacing its opening flag. The syntax variant
+ * and the options block of the query are kept, and so is its result.
+ *
+ * @param text The document text
+ * @param params The query to convert
+ * @param mode The new update mode
+ * @returns The updated text, or null when the query is not in the text anymore
+ */
+export const convertQueryUpdateMode = (
+    text: string,
+    params: ConvertQueryUpdateModeParams,
+    mode: ConvertibleUpdateMode
+): string | null => {
+    const index = text.indexOf(params.definition)
+    if (index === -1 || !params.definition.startsWith(params.flagOpen)) {
+        return null
+    }
+
+    // Queries written in a code block carry their update mode in its language
+    const fenceFlag = changeFenceUpdateMode(params.flagOpen, mode)
+    if (fenceFlag !== null) {
+        return `${text.substring(0, index)}${fenceFlag}${text.substring(index + params.flagOpen.length)}`
+    }
+
+    let flagOpen = QUERY_FLAGS[params.type][params.syntaxVariant][mode]
+    const options = FLAG_OPTIONS_REGEX.exec(params.flagOpen)?.[1]
+    if (params.type === 'block' && options) {
+        // The options block sits between the flag name and its colon
+        flagOpen = `${flagOpen.trimEnd().slice(0, -1)}${options}: `
+    }
+
+    return `${text.substring(0, index)}${flagOpen}${text.substring(index + params.flagOpen.length)}`
+}
@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'bun:test'
+import { DATAVIEWJS_APPROVALS_STORAGE_KEY } from '../constants'
+import { DataviewJSApprovals, hashDataviewJSCode } from './dataviewjs-approvals'
+import type { DeviceLocalStore } from './device-disabled'
+
+/**
+ * In-memory implementation of the device-local storage API for tests.
+ */
+class FakeStore implements DeviceLocalStore {
+    readonly data = new Map<string, unknown>()
+
+    loadLocalStorage(key: string): unknown {
+        return this.data.has(key) ? this.data.get(key) : null
+    }
+
+    saveLocalStorage(key: string, value: unknown | null): void {
+        if (value === null) {
+            this.data.delete(key)
+        } else {
+            this.data.set(key, value)
+        }
+    }
+}
+
+describe('hashDataviewJSCode', () => {
+    test('gives the same hash to the same code only', async () => {
+        const hash = await hashDataviewJSCode('dv.paragraph("a")')
+
+        expect(hash).toMatch(/^[0-9a-f]{64}$/)
+        expect(await hashDataviewJSCode('dv.paragraph("a")')).toBe(hash)
+        expect(await hashDataviewJSCode('dv.paragraph("b")')).not.toBe(hash)
+    })
+})
+
+describe('DataviewJSApprovals', () => {
+    test('keeps the approvals in device-local storage', () => {
+        const store = new FakeStore()
+        new DataviewJSApprovals(store).approve('abc')
+
+        const approvals = new DataviewJSApprovals(store)
+        expect(approvals.isApproved('abc')).toBe(true)
+        expect(approvals.isApproved('def')).toBe(false)
+        expect(store.data.get(DATAVIEWJS_APPROVALS_STORAGE_KEY)).toEqual(['abc'])
+    })
+
+    test('clears the storage entry when every approval is revoked', () => {
+        const store = new FakeStore()
+        const approvals = new DataviewJSApprovals(store)
+        approvals.approve('abc')
+
+        approvals.revokeAll()
+
+        expect(approvals.isApproved('abc')).toBe(false)
+        expect(approvals.size).toBe(0)
+        expect(store.data.has(DATAVIEWJS_APPROVALS_STORAGE_KEY)).toBe(false)
+    })
+
+    test('ignores invalid stored values', () => {
+        const store = new FakeStore()
+        store.saveLocalStorage(DATAVIEWJS_APPROVALS_STORAGE_KEY, ['abc', 42])
+
+        expect(new DataviewJSApprovals(store).size).toBe(1)
+
+        store.saveLocalStorage(DATAVIEWJS_APPROVALS_STORAGE_KEY, 'abc')
+        expect(new DataviewJSApprovals(store).size).toBe(0)
+    })
+})
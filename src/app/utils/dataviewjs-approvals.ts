@@ -0,0 +1,77 @@
+import { DATAVIEWJS_APPROVALS_STORAGE_KEY } from '../constants'
+import type { DeviceLocalStore } from './device-disabled'
+
+/**
+ * A DataviewJS script waiting to be approved on this device
+ */
+export interface DataviewJSApprovalRequest {
+    /** The hash of the code */
+    hash: string
+    /** The code to review */
+    jsCode: string
+    /** The path of the file holding the code: the note, or a view script */
+    codePath: string
+    /** The path of the note to serialize once the code is approved */
+    notePath: string
+}
+
+/**
+ * Hash DataviewJS code, so that it is approved as written: any edit gives another hash.
+ *
+ * @param jsCode The code
+ * @returns The hexadecimal SHA-256 hash of the code
+ */
+export const hashDataviewJSCode = async (jsCode: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(jsCode))
+    return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * The hashes of the DataviewJS code approved on this device.
+ *
+ * They are kept in device-local storage, never in the synced settings, so approving
+ * code on one device never lets it run on another.
+ */
+export class DataviewJSApprovals {
+    private readonly approvedHashes: Set<string>
+
+    constructor(private readonly store: DeviceLocalStore) {
+        const stored = store.loadLocalStorage(DATAVIEWJS_APPROVALS_STORAGE_KEY)
+        this.approvedHashes = new Set(
+            Array.isArray(stored)
+                ? stored.filter((hash): hash is string => typeof hash === 'string')
+                : []
+        )
+    }
+
+    /**
+     * The number of approved scripts
+     */
+    get size(): number {
+        return this.approvedHashes.size
+    }
+
+    isApproved(hash: string): boolean {
+        return this.approvedHashes.has(hash)
+    }
+
+    approve(hash: string): void {
+        this.approvedHashes.add(hash)
+        this.save()
+    }
+
+    /**
+     * Forget every approval: all the code has to be reviewed again
+     */
+    revokeAll(): void {
+        this.approvedHashes.clear()
+        this.save()
+    }
+
+    private save(): void {
+        this.store.saveLocalStorage(
+            DATAVIEWJS_APPROVALS_STORAGE_KEY,
+            this.approvedHashes.size > 0 ? [...this.approvedHashes] : null
+        )
+    }
+}
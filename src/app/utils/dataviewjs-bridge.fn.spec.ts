@@ -0,0 +1,95 @@
+import { describe, expect, test } from 'bun:test'
+import type { DataviewApi } from 'obsidian-dataview/lib/api/plugin-api'
+import { fromBridgeValue, toBridgeValue } from './dataviewjs-bridge.fn'
+
+const dataArray = (values: unknown[]) => ({
+    values,
+    [Symbol.iterator]: () => values[Symbol.iterator]()
+})
+
+// Only the methods used by the bridge
+const mockDataviewApi = {
+    isArray: (value: unknown) =>
+        Array.isArray(value) || (typeof value === 'object' && value !== null && 'values' in value),
+    fileLink: (path: string, embed?: boolean, display?: string) => ({
+        kind: 'file',
+        path,
+        embed,
+        display
+    }),
+    sectionLink: (path: string, section: string) => ({ kind: 'header', path, section }),
+    blockLink: (path: string, block: string) => ({ kind: 'block', path, block }),
+    luxon: {
+        DateTime: { fromJSDate: (date: Date) => ({ iso: date.toISOString() }) },
+        Duration: { fromMillis: (milliseconds: number) => ({ milliseconds }) }
+    }
+} as unknown as DataviewApi
+
+describe('toBridgeValue', () => {
+    test('should convert data arrays, links, dates and durations', () => {
+        const page = {
+            file: {
+                link: { path: 'Alpha.md', embed: false, type: 'file', display: 'Alpha' },
+                ctime: {
+                    toJSDate: () => new Date('2026-10-19T00:00:00.000Z'),
+                    toFormat: () => ''
+                },
+                tasks: dataArray([{ text: 'Task', completed: false }])
+            },
+            estimate: { toMillis: () => 3600000, toHuman: () => '1 hour' },
+            compute: () => 1
+        }
+
+        expect(toBridgeValue(dataArray([page]), mockDataviewApi)).toEqual([
+            {
+                file: {
+                    link: {
+                        $bridge: 'link',
+                        path: 'Alpha.md',
+                        display: 'Alpha',
+                        embed: false,
+                        type: 'file'
+                    },
+                    ctime: new Date('2026-10-19T00:00:00.000Z'),
+                    tasks: [{ text: 'Task', completed: false }]
+                },
+                estimate: { $bridge: 'duration', milliseconds: 3600000, text: '1 hour' }
+            }
+        ])
+    })
+
+    test('should turn undefined values and cycles into null', () => {
+        const cycle: Record<string, unknown> = { name: 'loop' }
+        cycle['self'] = cycle
+
+        expect(toBridgeValue(undefined, mockDataviewApi)).toBeNull()
+        expect(JSON.stringify(toBridgeValue(cycle, mockDataviewApi))).toContain('null')
+    })
+})
+
+describe('fromBridgeValue', () => {
+    test('should turn links, dates and durations back into Dataview values', () => {
+        expect(
+            fromBridgeValue(
+                [
+                    { $bridge: 'link', path: 'Alpha.md', embed: true, type: 'file' },
+                    {
+                        $bridge: 'link',
+                        path: 'Alpha.md',
+                        subpath: 'Intro',
+                        embed: false,
+                        type: 'header'
+                    },
+                    { due: new Date('2026-10-19T00:00:00.000Z') },
+                    { $bridge: 'duration', milliseconds: 60000, text: '1 minute' }
+                ],
+                mockDataviewApi
+            )
+        ).toEqual([
+            { kind: 'file', path: 'Alpha.md', embed: true, display: undefined },
+            { kind: 'header', path: 'Alpha.md', section: 'Intro' },
+            { due: { iso: '2026-10-19T00:00:00.000Z' } },
+            { milliseconds: 60000 }
+        ])
+    })
+})
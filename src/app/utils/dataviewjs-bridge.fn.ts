@@ -0,0 +1,170 @@
+import type { DataviewApi } from 'obsidian-dataview/lib/api/plugin-api'
+import type { Link } from 'obsidian-dataview/lib/data-model/value'
+import { literalToString } from './literal-to-string.fn'
+
+/**
+ * A value crossing the boundary of the DataviewJS sandbox. Only structured-clone
+ * friendly values are allowed: Dataview's links and durations travel as tagged
+ * objects, its dates as JavaScript dates and its data arrays as arrays.
+ */
+export type BridgeValue =
+    | string
+    | number
+    | boolean
+    | null
+    | Date
+    | BridgeValue[]
+    | BridgeLink
+    | BridgeDuration
+    | BridgeObject
+
+export interface BridgeObject {
+    [key: string]: BridgeValue
+}
+
+export interface BridgeLink {
+    $bridge: 'link'
+    path: string
+    display?: string
+    subpath?: string
+    embed: boolean
+    type: 'file' | 'header' | 'block'
+}
+
+export interface BridgeDuration {
+    $bridge: 'duration'
+    milliseconds: number
+    /** Human-readable text of the duration */
+    text: string
+}
+
+/**
+ * Values nested deeper are cut off, which also protects against cycles
+ */
+const MAX_BRIDGE_DEPTH = 32
+
+interface DateTimeLike {
+    toJSDate: () => Date
+    toFormat: (format: string) => string
+}
+
+interface DurationLike {
+    toMillis: () => number
+    toHuman: () => string
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object'
+
+const isLink = (value: Record<string, unknown>): boolean =>
+    typeof value['path'] === 'string' && typeof value['embed'] === 'boolean'
+
+const isDateTime = (
+    value: Record<string, unknown>
+): value is Record<string, unknown> & DateTimeLike =>
+    typeof value['toJSDate'] === 'function' && typeof value['toFormat'] === 'function'
+
+const isDuration = (
+    value: Record<string, unknown>
+): value is Record<string, unknown> & DurationLike =>
+    typeof value['toMillis'] === 'function' && typeof value['toHuman'] === 'function'
+
+const isBridgeObject = (value: Record<string, unknown>): boolean => {
+    const prototype = Object.getPrototypeOf(value) as unknown
+    return prototype === Object.prototype || prototype === null
+}
+
+/**
+ * Convert a value of the Dataview API into a value that can be sent to the sandbox.
+ *
+ * Data arrays become arrays, dates become JavaScript dates, links and durations become
+ * tagged objects. Functions are left out; other objects (widgets, HTML elements...)
+ * are sent as their text.
+ */
+export const toBridgeValue = (value: unknown, dataviewApi: DataviewApi, depth = 0): BridgeValue => {
+    if (value === null || value === undefined || depth > MAX_BRIDGE_DEPTH) {
+        return null
+    }
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        return value
+    }
+    if (value instanceof Date) {
+        return value
+    }
+    if (typeof value !== 'object') {
+        return null
+    }
+    if (Array.isArray(value) || dataviewApi.isArray(value)) {
+        return [...(value as Iterable<unknown>)].map((item) =>
+            toBridgeValue(item, dataviewApi, depth + 1)
+        )
+    }
+
+    const object = value as Record<string, unknown>
+    if (isLink(object)) {
+        const link = value as Link
+        return {
+            $bridge: 'link',
+            path: link.path,
+            ...(link.display !== undefined ? { display: link.display } : {}),
+            ...(link.subpath !== undefined ? { subpath: link.subpath } : {}),
+            embed: link.embed,
+            type: link.type
+        }
+    }
+    if (isDateTime(object)) {
+        return object.toJSDate()
+    }
+    if (isDuration(object)) {
+        return {
+            $bridge: 'duration',
+            milliseconds: object.toMillis(),
+            text: object.toHuman()
+        }
+    }
+    if (!isBridgeObject(object)) {
+        return literalToString(object as never, dataviewApi)
+    }
+
+    const result: BridgeObject = {}
+    for (const [key, item] of Object.entries(object)) {
+        if (typeof item !== 'function') {
+            result[key] = toBridgeValue(item, dataviewApi, depth + 1)
+        }
+    }
+    return result
+}
+
+/**
+ * Convert a value received from the sandbox back into a value of the Dataview API,
+ * so that links, dates and durations are rendered like Dataview renders them.
+ */
+export const fromBridgeValue = (value: unknown, dataviewApi: DataviewApi): unknown => {
+    if (value instanceof Date) {
+        return dataviewApi.luxon.DateTime.fromJSDate(value)
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => fromBridgeValue(item, dataviewApi))
+    }
+    if (!isObject(value)) {
+        return value
+    }
+
+    if (value['$bridge'] === 'link') {
+        const link = value as unknown as BridgeLink
+        if (link.type === 'header' && link.subpath !== undefined) {
+            return dataviewApi.sectionLink(link.path, link.subpath, link.embed, link.display)
+        }
+        if (link.type === 'block' && link.subpath !== undefined) {
+            return dataviewApi.blockLink(link.path, link.subpath, link.embed, link.display)
+        }
+        return dataviewApi.fileLink(link.path, link.embed, link.display)
+    }
+    if (value['$bridge'] === 'duration') {
+        return dataviewApi.luxon.Duration.fromMillis(Number(value['milliseconds']))
+    }
+
+    return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, fromBridgeValue(item, dataviewApi)])
+    )
+}
@@ -0,0 +1,33 @@
+import { describe, expect, test } from 'bun:test'
+import { assertCapabilityAllowed, getRequiredCapability } from './dataviewjs-capabilities.fn'
+
+describe('getRequiredCapability', () => {
+    test('should map the reading and querying methods to their capability', () => {
+        expect(getRequiredCapability('pages')).toBe('read-index')
+        expect(getRequiredCapability('io.csv')).toBe('read-files')
+        expect(getRequiredCapability('loadView')).toBe('read-files')
+        expect(getRequiredCapability('evaluate')).toBe('execute-dql')
+    })
+
+    test('should require nothing for the rendering and utility methods', () => {
+        expect(getRequiredCapability('table')).toBeUndefined()
+        expect(getRequiredCapability('fileLink')).toBeUndefined()
+        expect(getRequiredCapability('io.normalize')).toBeUndefined()
+    })
+})
+
+describe('assertCapabilityAllowed', () => {
+    test('should let allowed and always available methods through', () => {
+        expect(() => assertCapabilityAllowed('pages', ['read-index'])).not.toThrow()
+        expect(() => assertCapabilityAllowed('paragraph', [])).not.toThrow()
+    })
+
+    test('should name the method and the blocked capability', () => {
+        expect(() => assertCapabilityAllowed('io.load', ['read-index'])).toThrow(
+            'dv.io.load() requires the "read-files" capability'
+        )
+        expect(() => assertCapabilityAllowed('loadView', [])).toThrow(
+            'dv.view() requires the "read-files" capability'
+        )
+    })
+})
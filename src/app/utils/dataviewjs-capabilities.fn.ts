@@ -0,0 +1,60 @@
+import type { DataviewJSCapability } from '../types/plugin-settings.intf'
+
+/**
+ * Every capability, in the order they are presented
+ */
+export const DATAVIEWJS_CAPABILITIES: readonly DataviewJSCapability[] = [
+    'read-index',
+    'read-files',
+    'execute-dql'
+]
+
+/**
+ * The capability required by the methods of the dv proxy, by sandbox handler name.
+ * The other methods (rendering, links, dates, comparisons...) are always available.
+ */
+const REQUIRED_CAPABILITIES: Readonly<Record<string, DataviewJSCapability>> = {
+    'pages': 'read-index',
+    'pagePaths': 'read-index',
+    'page': 'read-index',
+    'io.load': 'read-files',
+    'io.csv': 'read-files',
+    'loadView': 'read-files',
+    'query': 'execute-dql',
+    'queryMarkdown': 'execute-dql',
+    'tryQuery': 'execute-dql',
+    'tryQueryMarkdown': 'execute-dql',
+    'execute': 'execute-dql',
+    'evaluate': 'execute-dql',
+    'tryEvaluate': 'execute-dql'
+}
+
+/**
+ * Get the capability a method of the dv proxy requires.
+ *
+ * @param handlerName The name of the sandbox handler, such as `pages` or `io.load`
+ * @returns The capability, or undefined when the method is always available
+ */
+export const getRequiredCapability = (handlerName: string): DataviewJSCapability | undefined =>
+    REQUIRED_CAPABILITIES[handlerName]
+
+/**
+ * Check that a method of the dv proxy may be called.
+ *
+ * @param handlerName The name of the sandbox handler, such as `pages` or `io.load`
+ * @param allowedCapabilities The capabilities allowed in the settings
+ * @throws Error naming the method and the capability it lacks
+ */
+export const assertCapabilityAllowed = (
+    handlerName: string,
+    allowedCapabilities: readonly DataviewJSCapability[]
+): void => {
+    const capability = getRequiredCapability(handlerName)
+    if (capability === undefined || allowedCapabilities.includes(capability)) {
+        return
+    }
+    const method = handlerName === 'loadView' ? 'view' : handlerName
+    throw new Error(
+        `dv.${method}() requires the "${capability}" capability, which is not allowed in the DataviewJS settings`
+    )
+}
@@ -279,15 +279,47 @@ describe('createDataviewJSProxy', () => {
         })
     })
 
-    describe('unsupported methods', () => {
-        test('dv.view() should return rejected promise', async () => {
+    describe('loadView()', () => {
+        // A vault holding views/tasks.js and views/cards/view.js
+        const createViewsApi = (): DataviewApi => {
             const mockApi = createMockDataviewApi()
-            const { proxy } = createDataviewJSProxy(mockApi, 'test.md')
+            const scripts: Record<string, string> = {
+                'views/tasks.js': 'dv.list(input.items)',
+                'views/cards/view.js': 'dv.header(2, input)'
+            }
+            mockApi.io.normalize = (path: string | { path: string }) => String(path)
+            mockApi.io.load = async (path: string | { path: string }) => scripts[String(path)]
+            return mockApi
+        }
+
+        test('should load the view script and record its path', async () => {
+            const { loadView, getViewPaths } = createDataviewJSProxy(createViewsApi(), 'test.md')
+
+            expect(await loadView('views/tasks')).toEqual({
+                path: 'views/tasks.js',
+                contents: 'dv.list(input.items)'
+            })
+            await loadView('views/tasks')
+            expect(getViewPaths()).toEqual(['views/tasks.js'])
+        })
+
+        test('should fall back to view.js in a folder', async () => {
+            const { loadView, getViewPaths } = createDataviewJSProxy(createViewsApi(), 'test.md')
 
-            const dvView = proxy['view'] as () => Promise<void>
-            await expect(dvView()).rejects.toThrow('dv.view() is not supported')
+            expect((await loadView('views/cards')).path).toBe('views/cards/view.js')
+            expect(getViewPaths()).toEqual(['views/cards/view.js'])
         })
 
+        test('should reject missing view scripts', async () => {
+            const { loadView } = createDataviewJSProxy(createViewsApi(), 'test.md')
+
+            await expect(loadView('views/missing')).rejects.toThrow(
+                'no view script found at views/missing.js or views/missing/view.js'
+            )
+        })
+    })
+
+    describe('unsupported methods', () => {
         test('dv.executeJs() should return rejected promise', async () => {
             const mockApi = createMockDataviewApi()
             const { proxy } = createDataviewJSProxy(mockApi, 'test.md')
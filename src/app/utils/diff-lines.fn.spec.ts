@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'bun:test'
+import { buildDiffHunks, diffLines } from './diff-lines.fn'
+
+describe('diffLines', () => {
+    it('should tag every line as context for identical texts', () => {
+        expect(diffLines('a\nb', 'a\nb')).toEqual([
+            { type: 'context', text: 'a' },
+            { type: 'context', text: 'b' }
+        ])
+    })
+
+    it('should detect added, removed and replaced lines', () => {
+        expect(diffLines('a\nb\nc\nd', 'a\nB\nc\nd\ne')).toEqual([
+            { type: 'context', text: 'a' },
+            { type: 'removed', text: 'b' },
+            { type: 'added', text: 'B' },
+            { type: 'context', text: 'c' },
+            { type: 'context', text: 'd' },
+            { type: 'added', text: 'e' }
+        ])
+    })
+
+    it('should find the shortest edit script', () => {
+        const lines = diffLines('x\na\nb\nc\ny', 'x\nb\nc\nd\ny')
+        expect(lines.filter((line) => line.type !== 'context')).toEqual([
+            { type: 'removed', text: 'a' },
+            { type: 'added', text: 'd' }
+        ])
+    })
+
+    it('should handle empty texts', () => {
+        expect(diffLines('', 'a')).toEqual([
+            { type: 'removed', text: '' },
+            { type: 'added', text: 'a' }
+        ])
+    })
+})
+
+describe('buildDiffHunks', () => {
+    const numbered = (count: number): string[] =>
+        Array.from({ length: count }, (_, index) => `line ${index + 1}`)
+
+    it('should return no hunks for identical texts', () => {
+        expect(buildDiffHunks('a\nb', 'a\nb')).toEqual([])
+    })
+
+    it('should surround a change with context lines', () => {
+        const before = numbered(10)
+        const after = [...before]
+        after[4] = 'changed'
+
+        const hunks = buildDiffHunks(before.join('\n'), after.join('\n'))
+
+        expect(hunks).toHaveLength(1)
+        expect(hunks[0]!.oldStart).toBe(2)
+        expect(hunks[0]!.oldLines).toBe(7)
+        expect(hunks[0]!.newStart).toBe(2)
+        expect(hunks[0]!.newLines).toBe(7)
+        expect(hunks[0]!.lines.map((line) => line.text)).toEqual([
+            'line 2',
+            'line 3',
+            'line 4',
+            'line 5',
+            'changed',
+            'line 6',
+            'line 7',
+            'line 8'
+        ])
+    })
+
+    it('should give distant changes their own hunk', () => {
+        const before = numbered(30)
+        const after = [...before]
+        after[2] = 'first'
+        after[25] = 'second'
+
+        const hunks = buildDiffHunks(before.join('\n'), after.join('\n'))
+
+        expect(hunks).toHaveLength(2)
+        expect(hunks[1]!.oldStart).toBe(23)
+    })
+
+    it('should merge close changes into one hunk', () => {
+        const before = numbered(20)
+        const after = [...before]
+        after[5] = 'first'
+        after[10] = 'second'
+
+        expect(buildDiffHunks(before.join('\n'), after.join('\n'))).toHaveLength(1)
+    })
+
+    it('should account for added lines in the new line numbers', () => {
+        const before = numbered(20)
+        const after = [...before.slice(0, 2), 'new 1', 'new 2', ...before.slice(2)]
+        after[17] = 'changed'
+
+        const hunks = buildDiffHunks(before.join('\n'), after.join('\n'))
+
+        expect(hunks).toHaveLength(2)
+        expect(hunks[1]!.oldStart).toBe(13)
+        expect(hunks[1]!.newStart).toBe(15)
+    })
+})
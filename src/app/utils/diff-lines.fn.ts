@@ -0,0 +1,226 @@
+/**
+ * A line of a diff
+ * - 'context': Unchanged line, shown around changes
+ * - 'added': Line only present in the new text
+ * - 'removed': Line only present in the old text
+ */
+export interface DiffLine {
+    type: 'context' | 'added' | 'removed'
+    text: string
+}
+
+/**
+ * A group of nearby changes, with their surrounding context (as in a unified diff)
+ */
+export interface DiffHunk {
+    /** First line of the hunk in the old text (1-based) */
+    oldStart: number
+    /** Number of lines of the old text covered by the hunk */
+    oldLines: number
+    /** First line of the hunk in the new text (1-based) */
+    newStart: number
+    /** Number of lines of the new text covered by the hunk */
+    newLines: number
+    lines: DiffLine[]
+}
+
+/**
+ * Number of unchanged lines shown around each change by default
+ */
+const DEFAULT_CONTEXT_LINES = 3
+
+/**
+ * Compute the shortest edit script between two arrays of lines (Myers' algorithm).
+ *
+ * @param a The old lines
+ * @param b The new lines
+ * @returns Every line of both arrays, in order, tagged as context, added or removed
+ */
+const diffLineArrays = (a: string[], b: string[]): DiffLine[] => {
+    const n = a.length
+    const m = b.length
+    const max = n + m
+    const offset = max + 1
+    // v[k + offset]: furthest x reached on diagonal k
+    const v = new Int32Array(2 * max + 3)
+    const trace: Int32Array[] = []
+
+    let found = false
+    for (let d = 0; d <= max && !found; d++) {
+        trace.push(v.slice())
+        for (let k = -d; k <= d; k += 2) {
+            let x =
+                k === -d || (k !== d && v[k - 1 + offset]! < v[k + 1 + offset]!)
+                    ? v[k + 1 + offset]!
+                    : v[k - 1 + offset]! + 1
+            let y = x - k
+            while (x < n && y < m && a[x] === b[y]) {
+                x++
+                y++
+            }
+            v[k + offset] = x
+            if (x >= n && y >= m) {
+                found = true
+                break
+            }
+        }
+    }
+
+    // Walk the trace backwards to recover the edit script
+    const lines: DiffLine[] = []
+    let x = n
+    let y = m
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const previous = trace[d]!
+        const k = x - y
+        const previousK =
+            k === -d || (k !== d && previous[k - 1 + offset]! < previous[k + 1 + offset]!)
+                ? k + 1
+                : k - 1
+        const previousX = previous[previousK + offset]!
+        const previousY = previousX - previousK
+
+        while (x > previousX && y > previousY) {
+            lines.push({ type: 'context', text: a[x - 1]! })
+            x--
+            y--
+        }
+
+        if (d > 0) {
+            if (x === previousX) {
+                lines.push({ type: 'added', text: b[y - 1]! })
+            } else {
+                lines.push({ type: 'removed', text: a[x - 1]! })
+            }
+        }
+
+        x = previousX
+        y = previousY
+    }
+
+    return lines.reverse()
+}
+
+/**
+ * Compute the line diff between two texts.
+ * The common prefix and suffix are skipped before diffing, as changes are usually local.
+ *
+ * @param before The old text
+ * @param after The new text
+ * @returns Every line of both texts, in order, tagged as context, added or removed
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+    const a = before.split('\n')
+    const b = after.split('\n')
+
+    let prefixLength = 0
+    while (
+        prefixLength < a.length &&
+        prefixLength < b.length &&
+        a[prefixLength] === b[prefixLength]
+    ) {
+        prefixLength++
+    }
+
+    let suffixLength = 0
+    while (
+        suffixLength < a.length - prefixLength &&
+        suffixLength < b.length - prefixLength &&
+        a[a.length - 1 - suffixLength] === b[b.length - 1 - suffixLength]
+    ) {
+        suffixLength++
+    }
+
+    const toContext = (text: string): DiffLine => ({ type: 'context', text })
+
+    return [
+        ...a.slice(0, prefixLength).map(toContext),
+        ...diffLineArrays(
+            a.slice(prefixLength, a.length - suffixLength),
+            b.slice(prefixLength, b.length - suffixLength)
+        ),
+        ...a.slice(a.length - suffixLength).map(toContext)
+    ]
+}
+
+/**
+ * Group the changes between two texts into hunks, each with up to `contextLines`
+ * unchanged lines around it. Changes closer than twice the context share a hunk,
+ * so each serialized block usually gets its own hunk.
+ *
+ * @param before The old text
+ * @param after The new text
+ * @param contextLines Number of unchanged lines shown around each change
+ * @returns The hunks, empty when the texts are identical
+ */
+export const buildDiffHunks = (
+    before: string,
+    after: string,
+    contextLines = DEFAULT_CONTEXT_LINES
+): DiffHunk[] => {
+    const lines = diffLines(before, after)
+    const hunks: DiffHunk[] = []
+
+    // Line numbers (0-based) in the old and new texts before each diff line
+    const oldLineNumbers: number[] = []
+    const newLineNumbers: number[] = []
+    let oldLine = 0
+    let newLine = 0
+    for (const line of lines) {
+        oldLineNumbers.push(oldLine)
+        newLineNumbers.push(newLine)
+        if (line.type !== 'added') {
+            oldLine++
+        }
+        if (line.type !== 'removed') {
+            newLine++
+        }
+    }
+
+    let index = 0
+    while (index < lines.length) {
+        if (lines[index]!.type === 'context') {
+            index++
+            continue
+        }
+
+        const start = Math.max(0, index - contextLines)
+        let end = index
+        // Extend the hunk while the next change is close enough
+        while (end < lines.length) {
+            let nextChange = end
+            while (nextChange < lines.length && lines[nextChange]!.type !== 'context') {
+                nextChange++
+            }
+            let gapEnd = nextChange
+            while (gapEnd < lines.length && lines[gapEnd]!.type === 'context') {
+                gapEnd++
+            }
+            const gap = gapEnd - nextChange
+            if (gapEnd < lines.length && gap <= contextLines * 2) {
+                end = gapEnd
+                continue
+            }
+            end = Math.min(lines.length, nextChange + contextLines)
+            break
+        }
+
+        const hunkLines = lines.slice(start, end)
+        hunks.push({
+            oldStart: oldLineNumbers[start]! + 1,
+            oldLines: hunkLines.filter((line) => line.type !== 'added').length,
+            newStart: newLineNumbers[start]! + 1,
+            newLines: hunkLines.filter((line) => line.type !== 'removed').length,
+            lines: hunkLines
+        })
+        index = end
+    }
+
+    return hunks
+}
+
+/**
+ * Format a hunk header, as in a unified diff (e.g. `@@ -3,4 +3,6 @@`)
+ */
+export const formatDiffHunkHeader = (hunk: DiffHunk): string =>
+    `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`
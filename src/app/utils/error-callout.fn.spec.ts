@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'bun:test'
+import {
+    buildErrorCallout,
+    ERROR_CALLOUT_TITLE,
+    splitErrorCallout,
+    withoutErrorTimestamps
+} from './error-callout.fn'
+
+describe('buildErrorCallout', () => {
+    it('should report the query, the error and the time of the failure', () => {
+        expect(
+            buildErrorCallout({
+                query: 'LIST FROM #project',
+                message: 'Parsing Failed:\n  Unknown source\n',
+                timestamp: '2026-10-19 14:30'
+            })
+        ).toBe(
+            [
+                `${ERROR_CALLOUT_TITLE} (2026-10-19 14:30)`,
+                '> Query: `LIST FROM #project`',
+                '> ```',
+                '> Parsing Failed:',
+                '>   Unknown source',
+                '> ```'
+            ].join('\n')
+        )
+    })
+
+    it('should quote queries containing backticks', () => {
+        expect(
+            buildErrorCallout({ query: 'LIST WHERE x = "`"', message: 'Oops', timestamp: 'now' })
+        ).toContain('> Query: `` LIST WHERE x = "`" ``')
+    })
+})
+
+describe('splitErrorCallout', () => {
+    const callout = buildErrorCallout({
+        query: 'LIST FROM #project',
+        message: 'Oops',
+        timestamp: '2026-10-19 14:30'
+    })
+
+    it('should split the callout from the result kept below it', () => {
+        expect(splitErrorCallout(`${callout}\n\n- [[Project A]]\n- [[Project B]]\n`)).toEqual({
+            callout,
+            result: '- [[Project A]]\n- [[Project B]]'
+        })
+    })
+
+    it('should skip the header and the blank lines above the callout', () => {
+        expect(splitErrorCallout(`## Projects\n\n${callout}\n`, '## Projects')).toEqual({
+            callout,
+            result: ''
+        })
+    })
+
+    it('should return the whole result when there is no callout', () => {
+        expect(splitErrorCallout('\n| File |\n| --- |\n| [[A]] |\n')).toEqual({
+            callout: null,
+            result: '| File |\n| --- |\n| [[A]] |'
+        })
+    })
+})
+
+describe('withoutErrorTimestamps', () => {
+    it('should drop the time of the failures, even in nested callouts', () => {
+        const text = `> ${ERROR_CALLOUT_TITLE} (2026-10-19 14:30)\n> > Query: \`LIST\``
+
+        expect(withoutErrorTimestamps(text)).toBe(`> ${ERROR_CALLOUT_TITLE}\n> > Query: \`LIST\``)
+    })
+
+    it('should leave other text untouched', () => {
+        expect(withoutErrorTimestamps('- [[A]] (draft)')).toBe('- [[A]] (draft)')
+    })
+})
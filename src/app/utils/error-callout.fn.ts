@@ -0,0 +1,91 @@
+import { escapeRegExp } from './escape-reg-exp.fn'
+
+/**
+ * Title of the callout written into the result block of a failing query.
+ * The time of the failure follows it on the same line.
+ */
+export const ERROR_CALLOUT_TITLE = '> [!error] Dataview Serializer: this query failed'
+
+export interface ErrorCalloutParams {
+    query: string
+    message: string
+    /** Time of the failure, already formatted (e.g. 2026-10-19 14:30) */
+    timestamp: string
+}
+
+/**
+ * The result of a block, split between the error callout it starts with, if any, and
+ * the result below it
+ */
+export interface SplitErrorCallout {
+    callout: string | null
+    result: string
+}
+
+/**
+ * Build the callout reporting a failing query, e.g.
+ *
+ * ```
+ * > [!error] Dataview Serializer: this query failed (2026-10-19 14:30)
+ * > Query: `LIST FROM #project`
+ * > ```
+ * > Parsing Failed: ...
+ * > ```
+ * ```
+ *
+ * The error message goes in a code block, as Dataview errors span several lines and
+ * point at columns.
+ */
+export const buildErrorCallout = (params: ErrorCalloutParams): string => {
+    const quote = params.query.includes('`') ? `\`\` ${params.query} \`\`` : `\`${params.query}\``
+    return [
+        `${ERROR_CALLOUT_TITLE} (${params.timestamp})`,
+        `> Query: ${quote}`,
+        '> ```',
+        ...params.message
+            .trim()
+            .split('\n')
+            .map((line) => `> ${line}`.trimEnd()),
+        '> ```'
+    ].join('\n')
+}
+
+/**
+ * Trim the blank lines around a text, keeping the indentation of its first line
+ */
+const trimBlankLines = (text: string): string => text.replace(/^(?:[ \t]*\n)+/, '').trimEnd()
+
+/**
+ * Split the content of a result block between the error callout it starts with and the
+ * result kept below it
+ *
+ * @param content The text between the result markers, without the query's indentation
+ * @param header The header of the query (the `header` option), skipped when present
+ */
+export const splitErrorCallout = (content: string, header?: string): SplitErrorCallout => {
+    const lines = trimBlankLines(content).split('\n')
+    if (header && lines[0]?.trim() === header.trim()) {
+        lines.shift()
+    }
+    while (lines.length > 0 && lines[0]!.trim() === '') {
+        lines.shift()
+    }
+
+    if (!lines[0]?.startsWith(ERROR_CALLOUT_TITLE)) {
+        return { callout: null, result: trimBlankLines(lines.join('\n')) }
+    }
+
+    const calloutLength = lines.findIndex((line) => !line.startsWith('>'))
+    const end = calloutLength === -1 ? lines.length : calloutLength
+    return {
+        callout: lines.slice(0, end).join('\n'),
+        result: trimBlankLines(lines.slice(end).join('\n'))
+    }
+}
+
+/**
+ * Remove the time of the failure from the error callouts of a text, so that a query
+ * failing again with the same error does not rewrite its block
+ */
+export const withoutErrorTimestamps = (text: string): string =>
+    text.replaceAll(new RegExp(`(${escapeRegExp(ERROR_CALLOUT_TITLE)}) \\([^)\\n]*\\)`, 'g'), '$1')
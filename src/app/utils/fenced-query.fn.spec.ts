@@ -0,0 +1,118 @@
+import { describe, expect, test } from 'bun:test'
+import { changeFenceUpdateMode, findFencedQueries, isFencedFlag } from './fenced-query.fn'
+
+describe('findFencedQueries', () => {
+    test('should find DQL and DataviewJS code blocks with their update mode', () => {
+        const text = [
+            '```dataview-serialize',
+            'LIST',
+            'FROM #project',
+            '```',
+            '',
+            '```dataviewjs-serialize-once-and-eject',
+            'for (let i = 10; i > 0; i--) dv.paragraph(i)',
+            '```'
+        ].join('\n')
+
+        const result = findFencedQueries(text)
+
+        expect(result).toHaveLength(2)
+        expect(result[0]).toMatchObject({
+            kind: 'block',
+            updateMode: 'auto',
+            flagOpen: '```dataview-serialize',
+            flagClose: '```',
+            content: 'LIST\nFROM #project',
+            definition: '```dataview-serialize\nLIST\nFROM #project\n```'
+        })
+        expect(result[1]).toMatchObject({
+            kind: 'dataviewjs',
+            updateMode: 'once-and-eject',
+            content: 'for (let i = 10; i > 0; i--) dv.paragraph(i)'
+        })
+    })
+
+    test('should read the options block of DQL code blocks only', () => {
+        const text = [
+            '~~~dataview-serialize-manual [limit=5]',
+            'LIST FROM #project',
+            '~~~',
+            '```dataviewjs-serialize [limit=5]',
+            'dv.paragraph("a")',
+            '```'
+        ].join('\n')
+
+        const result = findFencedQueries(text)
+
+        expect(result).toHaveLength(1)
+        expect(result[0]!.updateMode).toBe('manual')
+        expect(result[0]!.options).toEqual({ limit: 5 })
+    })
+
+    test('should only close a code block with a fence of the same kind, as long or longer', () => {
+        const text = [
+            '````dataviewjs-serialize',
+            'dv.paragraph(`',
+            '```',
+            '~~~~',
+            '`)',
+            '`````',
+            'after'
+        ].join('\n')
+
+        const result = findFencedQueries(text)
+
+        expect(result).toHaveLength(1)
+        expect(result[0]!.content).toBe('dv.paragraph(`\n```\n~~~~\n`)')
+        expect(result[0]!.endLineIndex).toBe(6)
+    })
+
+    test('should strip the blockquote markers and indentation of the content', () => {
+        const quoted = [
+            '> [!info]',
+            '> ```dataview-serialize',
+            '> LIST',
+            '> FROM #a',
+            '> ```'
+        ].join('\n')
+        const indented = [
+            '  ```dataviewjs-serialize',
+            '  if (a) {',
+            '    b()',
+            '  }',
+            '  ```'
+        ].join('\n')
+
+        expect(findFencedQueries(quoted)[0]).toMatchObject({
+            indentation: '> ',
+            content: 'LIST\nFROM #a'
+        })
+        expect(findFencedQueries(indented)[0]).toMatchObject({
+            indentation: '  ',
+            content: 'if (a) {\n  b()\n}'
+        })
+    })
+
+    test('should ignore code blocks that are never closed or use another language', () => {
+        expect(findFencedQueries('```dataview-serialize\nLIST FROM #a')).toEqual([])
+        expect(findFencedQueries('```dataview\nLIST FROM #a\n```')).toEqual([])
+        expect(findFencedQueries('```dataview-serialize-every 1h\nLIST FROM #a\n```')).toEqual([])
+    })
+})
+
+describe('changeFenceUpdateMode', () => {
+    test('should replace the update mode, keeping the fence and the options', () => {
+        expect(changeFenceUpdateMode('~~~~dataview-serialize-once [limit=5]', 'manual')).toBe(
+            '~~~~dataview-serialize-manual [limit=5]'
+        )
+        expect(changeFenceUpdateMode('```dataviewjs-serialize-manual', 'auto')).toBe(
+            '```dataviewjs-serialize'
+        )
+        expect(changeFenceUpdateMode('<!-- dataview-serializer-query: ', 'auto')).toBeNull()
+    })
+
+    test('should tell fences from comment flags', () => {
+        expect(isFencedFlag('```dataview-serialize-once')).toBe(true)
+        expect(isFencedFlag('<!-- dataview-serializer-js:')).toBe(false)
+    })
+})
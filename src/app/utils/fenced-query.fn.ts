@@ -0,0 +1,221 @@
+import { DATAVIEWJS_FENCE_LANGUAGE, QUERY_FENCE_LANGUAGE } from '../constants'
+import type { QueryKind } from '../types/serializer-events.intf'
+import { getBlockquotePrefix, stripBlockquoteMarkers } from './blockquote.fn'
+import { escapeRegExp } from './escape-reg-exp.fn'
+import type { QueryUpdateMode } from './find-queries.fn'
+import { parseQueryOptions, QUERY_OPTIONS_PATTERN } from './parse-query-options.fn'
+import type { QueryOptions } from './parse-query-options.fn'
+
+/**
+ * Fenced query definitions, an alternative to the HTML comments:
+ *
+ * ```dataviewjs-serialize
+ * dv.list((await dv.pages("#project")).file.link)
+ * ```
+ *
+ * The language of the code block names the kind of query and its update mode
+ * (e.g. `dataview-serialize-once`), and DQL blocks accept an options block after it.
+ * Unlike comments, code blocks can hold any text (`--` included) and get syntax
+ * highlighting.
+ */
+
+/**
+ * The kinds of queries that can be written in a code block
+ */
+export type FencedQueryKind = Extract<QueryKind, 'block' | 'dataviewjs'>
+
+/**
+ * The update modes a code block can carry, with the suffix of its language.
+ * Scheduled queries need an interval, so they are only written as comments.
+ */
+export type FencedUpdateMode = Exclude<QueryUpdateMode, 'scheduled'>
+
+const UPDATE_MODE_SUFFIXES: Record<FencedUpdateMode, string> = {
+    'auto': '',
+    'manual': '-manual',
+    'once': '-once',
+    'once-and-eject': '-once-and-eject'
+}
+
+const toUpdateMode = (suffix: string | undefined): FencedUpdateMode =>
+    (Object.keys(UPDATE_MODE_SUFFIXES) as FencedUpdateMode[]).find(
+        (updateMode) => UPDATE_MODE_SUFFIXES[updateMode] === (suffix ?? '')
+    ) ?? 'auto'
+
+const FENCE_LANGUAGES: Record<FencedQueryKind, string> = {
+    block: QUERY_FENCE_LANGUAGE,
+    dataviewjs: DATAVIEWJS_FENCE_LANGUAGE
+}
+
+/**
+ * Match the opening fence of a query, without its indentation, capturing the fence (1),
+ * the language (2), the update mode suffix (3) and the options block (4)
+ */
+const FENCE_FLAG_PATTERN = `(\`{3,}|~{3,})(${escapeRegExp(DATAVIEWJS_FENCE_LANGUAGE)}|${escapeRegExp(QUERY_FENCE_LANGUAGE)})(-once-and-eject|-manual|-once)?(${QUERY_OPTIONS_PATTERN})?`
+
+const FENCE_FLAG_REGEX = new RegExp(`^${FENCE_FLAG_PATTERN}$`)
+
+/**
+ * Match a line opening a query block, capturing the indentation (1) and the opening
+ * fence (2), followed by the groups of the fence flag
+ */
+const FENCE_OPEN_REGEX = new RegExp(`^([ \\t]*(?:>[ \\t]*)*)(${FENCE_FLAG_PATTERN})[ \\t]*$`)
+
+/**
+ * Match a line that may close a code block, capturing the fence
+ */
+const FENCE_CLOSE_REGEX = /^[ \t]*(?:>[ \t]*)*(`{3,}|~{3,})[ \t]*$/
+
+/**
+ * A query written in a code block
+ */
+export interface FencedQuery {
+    kind: FencedQueryKind
+    updateMode: FencedUpdateMode
+    /** The text preceding the opening fence on its line (spaces, blockquote markers) */
+    indentation: string
+    /** The opening fence, from its backticks to its options block */
+    flagOpen: string
+    /** The closing fence */
+    flagClose: string
+    /** The per-query options of a DQL block. Undefined when it has no options block. */
+    options?: QueryOptions
+    /** The lines between the fences, without their indentation and blockquote markers */
+    content: string
+    /** The text of the code block, from the opening fence line to the closing one */
+    definition: string
+    /** The index of the line following the closing fence */
+    endLineIndex: number
+}
+
+/**
+ * Check whether the opening flag of a query is the fence of a code block
+ *
+ * @param flagOpen The opening flag of the query
+ */
+export const isFencedFlag = (flagOpen: string): boolean => FENCE_FLAG_REGEX.test(flagOpen)
+
+/**
+ * Read the query block starting at the given line, if any.
+ * The block ends with a fence made of the same character, at least as long as the
+ * opening one. Blocks that are never closed are ignored.
+ *
+ * @param lines The lines of the document
+ * @param startLineIndex The index of the line that may open a query block
+ * @returns The query, or null when no query block starts at that line
+ */
+export const readFencedQuery = (lines: string[], startLineIndex: number): FencedQuery | null => {
+    const openMatch = FENCE_OPEN_REGEX.exec(lines[startLineIndex] ?? '')
+    if (!openMatch) {
+        return null
+    }
+
+    const indentation = openMatch[1] ?? ''
+    const fence = openMatch[3] ?? ''
+    const kind: FencedQueryKind =
+        openMatch[4] === DATAVIEWJS_FENCE_LANGUAGE ? 'dataviewjs' : 'block'
+    const optionsText = openMatch[6]
+    // Only DQL queries have options
+    if (kind === 'dataviewjs' && optionsText) {
+        return null
+    }
+
+    const isInBlockquote = getBlockquotePrefix(indentation) !== ''
+    for (let i = startLineIndex + 1; i < lines.length; i++) {
+        const line = lines[i]!
+        const closeFence = FENCE_CLOSE_REGEX.exec(line)?.[1]
+        if (!closeFence || closeFence[0] !== fence[0] || closeFence.length < fence.length) {
+            continue
+        }
+
+        const content = lines
+            .slice(startLineIndex + 1, i)
+            .map((contentLine) => {
+                if (isInBlockquote) {
+                    return stripBlockquoteMarkers(contentLine)
+                }
+                return contentLine.startsWith(indentation)
+                    ? contentLine.substring(indentation.length)
+                    : contentLine
+            })
+            .join('\n')
+
+        return {
+            kind,
+            updateMode: toUpdateMode(openMatch[5]),
+            indentation,
+            flagOpen: openMatch[2] ?? '',
+            flagClose: closeFence,
+            options: optionsText ? parseQueryOptions(optionsText) : undefined,
+            content,
+            definition: lines.slice(startLineIndex, i + 1).join('\n'),
+            endLineIndex: i + 1
+        }
+    }
+
+    return null
+}
+
+/**
+ * Find the query blocks of a document, in order
+ *
+ * @param text The document text
+ */
+export const findFencedQueries = (text: string): FencedQuery[] => {
+    const retVal: FencedQuery[] = []
+    const lines = text.split('\n')
+
+    for (let i = 0; i < lines.length; i++) {
+        const fencedQuery = readFencedQuery(lines, i)
+        if (fencedQuery) {
+            retVal.push(fencedQuery)
+            i = fencedQuery.endLineIndex - 1
+        }
+    }
+
+    return retVal
+}
+
+/**
+ * Build the opening fence of a query block
+ *
+ * @param kind The kind of query
+ * @param updateMode The update mode of the query
+ * @param fence The backticks or tildes of the fence
+ * @param options The options block of a DQL query (e.g. ` [limit=5]`)
+ */
+export const buildFenceFlag = (
+    kind: FencedQueryKind,
+    updateMode: FencedUpdateMode,
+    fence = '```',
+    options = ''
+): string => `${fence}${FENCE_LANGUAGES[kind]}${UPDATE_MODE_SUFFIXES[updateMode]}${options}`
+
+/**
+ * Change the update mode of the opening fence of a query block, keeping its fence
+ * and its options block
+ *
+ * @param flagOpen The opening fence
+ * @param updateMode The new update mode
+ * @returns The new opening fence, or null when the flag is not a fence
+ */
+export const changeFenceUpdateMode = (
+    flagOpen: string,
+    updateMode: FencedUpdateMode
+): string | null => {
+    const match = FENCE_FLAG_REGEX.exec(flagOpen)
+    if (!match) {
+        return null
+    }
+    const kind: FencedQueryKind = match[2] === DATAVIEWJS_FENCE_LANGUAGE ? 'dataviewjs' : 'block'
+    return buildFenceFlag(kind, updateMode, match[1], match[4] ?? '')
+}
+
+/**
+ * Get the options block written in the opening fence of a query block
+ *
+ * @param flagOpen The opening fence
+ * @returns The options block (e.g. ` [limit=5]`), or an empty string when there is none
+ */
+export const getFenceOptionsText = (flagOpen: string): string =>
+    FENCE_FLAG_REGEX.exec(flagOpen)?.[4] ?? ''
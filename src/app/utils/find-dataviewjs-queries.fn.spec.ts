@@ -224,6 +224,28 @@ dv.list([1])
             expect(queries[0]?.jsCode).toBe('dv.list([1])')
         })
 
+        test('should find code blocks, whose code may hold "--"', () => {
+            const text = `> \`\`\`dataviewjs-serialize-manual
+> for (let i = 3; i > 0; i--) dv.paragraph(i)
+> \`\`\`
+
+\`\`\`dataview-serialize
+LIST FROM #project
+\`\`\``
+
+            const queries = findDataviewJSQueries(text)
+
+            expect(queries).toHaveLength(1)
+            expect(queries[0]).toMatchObject({
+                jsCode: 'for (let i = 3; i > 0; i--) dv.paragraph(i)',
+                indentation: '> ',
+                updateMode: 'manual',
+                syntaxVariant: 'alternative',
+                flagOpen: '```dataviewjs-serialize-manual',
+                originalQueryDefinition: text.split('\n\n')[0]
+            })
+        })
+
         test('should handle closing flag without leading space', () => {
             const text = `<!-- DataviewJSToSerialize:
 dv.list([1])
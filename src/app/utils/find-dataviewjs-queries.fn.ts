@@ -13,7 +13,12 @@
  * dv.list(dv.pages("#project").file.link)
  * -->
  *
- * Both support update modes: auto, manual, once, once-and-eject
+ * Code block syntax (results use the alternative markers):
+ * ```dataviewjs-serialize
+ * dv.list((await dv.pages("#project")).file.link)
+ * ```
+ *
+ * All of them support update modes: auto, manual, once, once-and-eject
  */
 
 import {
@@ -33,6 +38,7 @@ import {
 } from '../constants'
 import type { QueryUpdateMode, SyntaxVariant } from './find-queries.fn'
 import { getBlockquotePrefix, stripBlockquoteMarkers } from './blockquote.fn'
+import { readFencedQuery } from './fenced-query.fn'
 
 /**
  * Interface to represent a DataviewJS query with its context
@@ -51,8 +57,8 @@ export interface DataviewJSQueryWithContext {
     /** Syntax variant (legacy or alternative) */
     syntaxVariant: SyntaxVariant
     /**
-     * The original query definition text from opening marker to closing marker.
-     * Used for accurate replacement.
+     * The original query definition text from opening marker to closing marker
+     * (the fences, for code blocks). Used for accurate replacement.
      */
     originalQueryDefinition: string
 }
@@ -214,6 +220,7 @@ function extractJSCode(accumulatedLines: string[], flagOpen: string, indentation
  *
  * DataviewJS queries are always multi-line (JavaScript code spans lines).
  * The opening marker starts with `<!-- DataviewJSToSerialize:` and ends with `-->`.
+ * They can also be written in a ```dataviewjs-serialize code block.
  *
  * @param text The document text to search for queries
  * @returns Array of DataviewJS queries with their context information
@@ -266,6 +273,30 @@ export function findDataviewJSQueries(text: string): DataviewJSQueryWithContext[
                 multiLineState = createInitialMultiLineState()
             }
         } else {
+            const fencedQuery = readFencedQuery(lines, i)
+            if (fencedQuery) {
+                const jsCode = fencedQuery.content.trim()
+                if (
+                    fencedQuery.kind === 'dataviewjs' &&
+                    jsCode &&
+                    !retVal.some((item) => item.jsCode === jsCode)
+                ) {
+                    retVal.push({
+                        jsCode,
+                        indentation: fencedQuery.indentation,
+                        updateMode: fencedQuery.updateMode,
+                        flagOpen: fencedQuery.flagOpen,
+                        flagClose: fencedQuery.flagClose,
+                        syntaxVariant: 'alternative',
+                        originalQueryDefinition: fencedQuery.definition
+                    })
+                }
+
+                // The content of a code block is never read as a query definition
+                i = fencedQuery.endLineIndex - 1
+                continue
+            }
+
             // Not currently capturing, look for a new DataviewJS query
             const flagInfo = detectDataviewJSFlag(trimmedLine, line)
 
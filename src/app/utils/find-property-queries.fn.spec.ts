@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'bun:test'
+import { buildPropertyQueryKey, findPropertyQueries } from './find-property-queries.fn'
+
+describe('findPropertyQueries', () => {
+    test('finds an expression query with auto mode', () => {
+        const text = 'Intro\n<!-- PropertyQuery backlink_count: =length(this.file.inlinks) -->\n'
+        const results = findPropertyQueries(text)
+
+        expect(results).toEqual([
+            {
+                property: 'backlink_count',
+                query: '=length(this.file.inlinks)',
+                updateMode: 'auto',
+                syntaxVariant: 'legacy',
+                flagOpen: '<!-- PropertyQuery ',
+                definition: '<!-- PropertyQuery backlink_count: =length(this.file.inlinks) -->',
+                startOffset: 6
+            }
+        ])
+    })
+
+    test('finds the update mode of each flag', () => {
+        const text = [
+            '<!-- PropertyQueryManual a: =1 -->',
+            '<!-- PropertyQueryOnce b: =2 -->',
+            '<!-- PropertyQueryOnceAndEject c: =3 -->',
+            '<!-- dataview-serializer-property d: =4 -->',
+            '<!-- dataview-serializer-property-manual e: =5 -->',
+            '<!-- dataview-serializer-property-once f: =6 -->',
+            '<!-- dataview-serializer-property-once-and-eject g: =7 -->'
+        ].join('\n')
+
+        expect(
+            findPropertyQueries(text).map(({ property, updateMode, syntaxVariant }) => [
+                property,
+                updateMode,
+                syntaxVariant
+            ])
+        ).toEqual([
+            ['a', 'manual', 'legacy'],
+            ['b', 'once', 'legacy'],
+            ['c', 'once-and-eject', 'legacy'],
+            ['d', 'auto', 'alternative'],
+            ['e', 'manual', 'alternative'],
+            ['f', 'once', 'alternative'],
+            ['g', 'once-and-eject', 'alternative']
+        ])
+    })
+
+    test('finds a DQL query spanning several lines', () => {
+        const text = '<!-- PropertyQuery related projects: LIST\nFROM #project\nSORT file.name -->'
+
+        const [result] = findPropertyQueries(text)
+        expect(result?.property).toBe('related projects')
+        expect(result?.query).toBe('LIST\nFROM #project\nSORT file.name')
+    })
+
+    test('ignores markers without a property or a query', () => {
+        const text = [
+            '<!-- PropertyQuery : =1 -->',
+            '<!-- PropertyQuery count: -->',
+            '<!-- PropertyQuery =1 -->',
+            '<!-- QueryToSerialize: LIST -->'
+        ].join('\n')
+
+        expect(findPropertyQueries(text)).toEqual([])
+    })
+})
+
+describe('buildPropertyQueryKey', () => {
+    test('joins the property and its query', () => {
+        expect(
+            buildPropertyQueryKey({ property: 'count', query: '=length(this.file.inlinks)' })
+        ).toBe('count: =length(this.file.inlinks)')
+    })
+})
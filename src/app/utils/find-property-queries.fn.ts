@@ -0,0 +1,124 @@
+import {
+    PROPERTY_QUERY_FLAG_MANUAL_OPEN,
+    PROPERTY_QUERY_FLAG_MANUAL_OPEN_ALT,
+    PROPERTY_QUERY_FLAG_ONCE_AND_EJECT_OPEN,
+    PROPERTY_QUERY_FLAG_ONCE_AND_EJECT_OPEN_ALT,
+    PROPERTY_QUERY_FLAG_ONCE_OPEN,
+    PROPERTY_QUERY_FLAG_ONCE_OPEN_ALT,
+    PROPERTY_QUERY_FLAG_OPEN,
+    PROPERTY_QUERY_FLAG_OPEN_ALT,
+    QUERY_FLAG_CLOSE
+} from '../constants'
+import { escapeRegExp } from './escape-reg-exp.fn'
+import type { QueryUpdateMode, SyntaxVariant } from './find-queries.fn'
+
+/**
+ * A query writing its result into a frontmatter property of its note
+ */
+export interface PropertyQueryWithContext {
+    /** The name of the property (e.g., "backlink_count") */
+    property: string
+    /** An expression (e.g., "=length(this.file.inlinks)"), or a LIST, TABLE, TASK or CALENDAR query */
+    query: string
+    updateMode: QueryUpdateMode
+    syntaxVariant: SyntaxVariant
+    /** The opening flag used */
+    flagOpen: string
+    /** The full marker, starting with its opening flag */
+    definition: string
+    /** Start offset of the marker in the document */
+    startOffset: number
+}
+
+/**
+ * All property query opening flags and their update modes. No flag is a prefix of
+ * another, as each one ends with the space before the property name.
+ */
+const PROPERTY_QUERY_FLAGS: Array<{
+    flag: string
+    updateMode: QueryUpdateMode
+    syntaxVariant: SyntaxVariant
+}> = [
+    { flag: PROPERTY_QUERY_FLAG_OPEN, updateMode: 'auto', syntaxVariant: 'legacy' },
+    { flag: PROPERTY_QUERY_FLAG_MANUAL_OPEN, updateMode: 'manual', syntaxVariant: 'legacy' },
+    { flag: PROPERTY_QUERY_FLAG_ONCE_OPEN, updateMode: 'once', syntaxVariant: 'legacy' },
+    {
+        flag: PROPERTY_QUERY_FLAG_ONCE_AND_EJECT_OPEN,
+        updateMode: 'once-and-eject',
+        syntaxVariant: 'legacy'
+    },
+    { flag: PROPERTY_QUERY_FLAG_OPEN_ALT, updateMode: 'auto', syntaxVariant: 'alternative' },
+    {
+        flag: PROPERTY_QUERY_FLAG_MANUAL_OPEN_ALT,
+        updateMode: 'manual',
+        syntaxVariant: 'alternative'
+    },
+    { flag: PROPERTY_QUERY_FLAG_ONCE_OPEN_ALT, updateMode: 'once', syntaxVariant: 'alternative' },
+    {
+        flag: PROPERTY_QUERY_FLAG_ONCE_AND_EJECT_OPEN_ALT,
+        updateMode: 'once-and-eject',
+        syntaxVariant: 'alternative'
+    }
+]
+
+/**
+ * Pre-compiled regex patterns for property queries: the property name (up to the
+ * colon), then the query (up to the closing flag, possibly over several lines).
+ * Neither can run past the closing flag of their own marker.
+ *
+ * WARNING: These regexes use the global flag. Safe with matchAll() which creates an
+ * internal iterator.
+ */
+const COMPILED_PROPERTY_PATTERNS = PROPERTY_QUERY_FLAGS.map((entry) => ({
+    ...entry,
+    regex: new RegExp(
+        `${escapeRegExp(entry.flag)}((?:(?!-->)[^:\\n])+?):\\s*((?:(?!-->)[\\s\\S])+?)\\s*${escapeRegExp(QUERY_FLAG_CLOSE.trim())}`,
+        'g'
+    )
+}))
+
+/**
+ * Find all property queries in the given text.
+ *
+ * Detects patterns like:
+ * - `<!-- PropertyQuery backlink_count: =length(this.file.inlinks) -->` (legacy)
+ * - `<!-- PropertyQueryManual related: LIST FROM #project -->` (legacy)
+ * - `<!-- dataview-serializer-property-once created: =date(today) -->` (alternative)
+ *
+ * @param text The document text to search for property queries
+ * @returns The property queries, in the order of the document
+ */
+export function findPropertyQueries(text: string): PropertyQueryWithContext[] {
+    const results: PropertyQueryWithContext[] = []
+
+    for (const { regex, flag, updateMode, syntaxVariant } of COMPILED_PROPERTY_PATTERNS) {
+        for (const match of text.matchAll(regex)) {
+            const property = match[1]?.trim() ?? ''
+            const query = match[2]?.trim() ?? ''
+            if (!property || !query) {
+                continue
+            }
+
+            results.push({
+                property,
+                query,
+                updateMode,
+                syntaxVariant,
+                flagOpen: flag,
+                definition: match[0],
+                startOffset: match.index
+            })
+        }
+    }
+
+    return results.sort((a, b) => a.startOffset - b.startOffset)
+}
+
+/**
+ * Identify a property query by its property and its query, e.g.
+ * `backlink_count: =length(this.file.inlinks)`. Used wherever queries are told apart
+ * (error log, profiler, dashboard, targeted runs).
+ */
+export const buildPropertyQueryKey = (
+    query: Pick<PropertyQueryWithContext, 'property' | 'query'>
+) => `${query.property}: ${query.query}`
@@ -9,7 +9,9 @@ import {
     QUERY_FLAG_OPEN_ALT,
     QUERY_FLAG_MANUAL_OPEN_ALT,
     QUERY_FLAG_ONCE_OPEN_ALT,
-    QUERY_FLAG_ONCE_AND_EJECT_OPEN_ALT
+    QUERY_FLAG_ONCE_AND_EJECT_OPEN_ALT,
+    QUERY_FLAG_EVERY_OPEN,
+    QUERY_FLAG_EVERY_OPEN_ALT
 } from '../constants'
 
 describe('findQueries', () => {
@@ -106,6 +108,96 @@ describe('findQueries', () => {
         })
     })
 
+    describe('scheduled update mode', () => {
+        it('should detect scheduled queries with the alternative syntax', () => {
+            const text = `${QUERY_FLAG_EVERY_OPEN_ALT}1h: TASK WHERE !completed${QUERY_FLAG_CLOSE}`
+            const result = findQueries(text)
+            expect(result).toHaveLength(1)
+            expect(result[0]!.updateMode).toBe('scheduled')
+            expect(result[0]!.query).toBe('TASK WHERE !completed')
+            expect(result[0]!.flagOpen).toBe(`${QUERY_FLAG_EVERY_OPEN_ALT}1h: `)
+            expect(result[0]!.syntaxVariant).toBe('alternative')
+            expect(result[0]!.refreshIntervalMs).toBe(60 * 60 * 1000)
+        })
+
+        it('should detect scheduled queries with the legacy syntax', () => {
+            const text = `${QUERY_FLAG_EVERY_OPEN}1h30m: list from "folder"${QUERY_FLAG_CLOSE}`
+            const result = findQueries(text)
+            expect(result).toHaveLength(1)
+            expect(result[0]!.updateMode).toBe('scheduled')
+            expect(result[0]!.syntaxVariant).toBe('legacy')
+            expect(result[0]!.refreshIntervalMs).toBe(90 * 60 * 1000)
+        })
+
+        it('should detect multi-line scheduled queries', () => {
+            const text = `${QUERY_FLAG_EVERY_OPEN_ALT}1d:\nTABLE due\nFROM #task\n-->`
+            const result = findQueries(text)
+            expect(result).toHaveLength(1)
+            expect(result[0]!.query).toBe('TABLE due FROM #task')
+            expect(result[0]!.flagOpen).toBe(`${QUERY_FLAG_EVERY_OPEN_ALT}1d:`)
+            expect(result[0]!.refreshIntervalMs).toBe(24 * 60 * 60 * 1000)
+            expect(result[0]!.originalQueryDefinition).toBe(text)
+        })
+
+        it('should ignore scheduled queries with an invalid interval', () => {
+            const text = `${QUERY_FLAG_EVERY_OPEN_ALT}soon: list from "folder"${QUERY_FLAG_CLOSE}`
+            expect(findQueries(text)).toHaveLength(0)
+        })
+
+        it('should not set an interval on other update modes', () => {
+            const result = findQueries(makeQuery('list from "folder"'))
+            expect(result[0]!.refreshIntervalMs).toBeUndefined()
+        })
+    })
+
+    describe('query options', () => {
+        it('should parse the options block of alternative syntax queries', () => {
+            const text =
+                '<!-- dataview-serializer-query [linkFormat=absolute, trailingNewline, header="Projects"]: LIST FROM #project -->'
+            const result = findQueries(text)
+            expect(result).toHaveLength(1)
+            expect(result[0]!.query).toBe('LIST FROM #project')
+            expect(result[0]!.updateMode).toBe('auto')
+            expect(result[0]!.syntaxVariant).toBe('alternative')
+            expect(result[0]!.flagOpen).toBe(
+                '<!-- dataview-serializer-query [linkFormat=absolute, trailingNewline, header="Projects"]: '
+            )
+            expect(result[0]!.options).toEqual({
+                linkFormat: 'absolute',
+                trailingNewline: true,
+                header: 'Projects'
+            })
+        })
+
+        it('should parse the options block of every update mode', () => {
+            const text = [
+                '<!-- QueryToSerializeManual [limit=3]: LIST FROM #a -->',
+                '<!-- dataview-serializer-query-once-and-eject [limit=4]: LIST FROM #b -->',
+                '<!-- QueryToSerializeEvery 1h [limit=5]: LIST FROM #c -->'
+            ].join('\n')
+            const result = findQueries(text)
+            expect(result.map((query) => [query.updateMode, query.options?.limit])).toEqual([
+                ['manual', 3],
+                ['once-and-eject', 4],
+                ['scheduled', 5]
+            ])
+            expect(result[2]!.refreshIntervalMs).toBe(60 * 60 * 1000)
+        })
+
+        it('should parse the options block of multi-line queries', () => {
+            const text = '<!-- dataview-serializer-query [header="## Tasks"]:\nTASK\nFROM #a\n-->'
+            const result = findQueries(text)
+            expect(result).toHaveLength(1)
+            expect(result[0]!.query).toBe('TASK FROM #a')
+            expect(result[0]!.options).toEqual({ header: '## Tasks' })
+        })
+
+        it('should not set options on queries without an options block', () => {
+            const result = findQueries(makeQuery('list from "folder"'))
+            expect(result[0]!.options).toBeUndefined()
+        })
+    })
+
     describe('indentation handling', () => {
         it('should capture space indentation', () => {
             const text = `    ${makeQuery('list from "folder"')}`
@@ -236,34 +328,43 @@ describe('findQueries', () => {
         })
     })
 
+    describe('calendar queries', () => {
+        it('should find calendar queries', () => {
+            const text = makeQuery('calendar file.day from "folder"')
+            const result = findQueries(text)
+            expect(result).toHaveLength(1)
+            expect(result[0]!.query).toBe('calendar file.day from "folder"')
+        })
+    })
+
     describe('unsupported query types', () => {
-        it('should ignore calendar queries', () => {
-            const text = makeQuery('calendar from "folder"')
+        it('should ignore queries of an unknown type', () => {
+            const text = makeQuery('agenda from "folder"')
             const result = findQueries(text)
             expect(result).toHaveLength(0)
         })
 
         it('should only include supported queries from mixed input', () => {
-            const text = `${makeQuery('list')}\n${makeQuery('calendar')}\n${makeQuery('table file.name')}`
+            const text = `${makeQuery('list')}\n${makeQuery('agenda')}\n${makeQuery('table file.name')}`
             const result = findQueries(text)
             expect(result).toHaveLength(2)
             expect(result.map((r) => r.query)).toEqual(['list', 'table file.name'])
         })
 
         it('should ignore unsupported query types for manual queries', () => {
-            const text = makeManualQuery('calendar from "folder"')
+            const text = makeManualQuery('agenda from "folder"')
             const result = findQueries(text)
             expect(result).toHaveLength(0)
         })
 
         it('should ignore unsupported query types for once queries', () => {
-            const text = makeOnceQuery('calendar from "folder"')
+            const text = makeOnceQuery('agenda from "folder"')
             const result = findQueries(text)
             expect(result).toHaveLength(0)
         })
 
         it('should ignore unsupported query types for once-and-eject queries', () => {
-            const text = makeOnceAndEjectQuery('calendar from "folder"')
+            const text = makeOnceAndEjectQuery('agenda from "folder"')
             const result = findQueries(text)
             expect(result).toHaveLength(0)
         })
@@ -510,7 +611,7 @@ ${QUERY_FLAG_CLOSE}`
 
         it('should ignore unsupported query types in multi-line format', () => {
             const text = `${QUERY_FLAG_OPEN}
-CALENDAR
+AGENDA
 FROM "folder"
 ${QUERY_FLAG_CLOSE}`
             const result = findQueries(text)
@@ -700,4 +801,42 @@ ${makeAltOnceAndEjectQuery('list from "eject"')}`
             expect(result[0]!.syntaxVariant).toBe('alternative')
         })
     })
+
+    describe('code block support', () => {
+        it('should find a query written in a code block, with its options', () => {
+            const text = [
+                '```dataview-serialize-once [limit=5]',
+                'TABLE file.ctime',
+                'FROM #project',
+                '```'
+            ].join('\n')
+
+            const result = findQueries(text)
+
+            expect(result).toHaveLength(1)
+            expect(result[0]).toMatchObject({
+                query: 'TABLE file.ctime FROM #project',
+                indentation: '',
+                updateMode: 'once',
+                flagOpen: '```dataview-serialize-once [limit=5]',
+                flagClose: '```',
+                originalQueryDefinition: text,
+                syntaxVariant: 'alternative',
+                options: { limit: 5 }
+            })
+        })
+
+        it('should not read the content of code blocks as comments', () => {
+            const text = [
+                '```dataviewjs-serialize',
+                `dv.paragraph("${makeQuery('LIST FROM #a')}")`,
+                '```',
+                '```dataview-serialize',
+                `${QUERY_FLAG_OPEN_ALT}LIST FROM #b${QUERY_FLAG_CLOSE}`,
+                '```'
+            ].join('\n')
+
+            expect(findQueries(text)).toEqual([])
+        })
+    })
 })
@@ -1,5 +1,7 @@
 import {
     QUERY_FLAG_CLOSE,
+    QUERY_FLAG_EVERY_OPEN,
+    QUERY_FLAG_EVERY_OPEN_ALT,
     QUERY_FLAG_MANUAL_OPEN,
     QUERY_FLAG_ONCE_AND_EJECT_OPEN,
     QUERY_FLAG_ONCE_OPEN,
@@ -11,6 +13,11 @@ import {
 } from '../constants'
 import { isSupportedQueryType } from './is-supported-query-type.fn'
 import { getBlockquotePrefix, stripBlockquoteMarkers } from './blockquote.fn'
+import { escapeRegExp } from './escape-reg-exp.fn'
+import { parseRefreshInterval } from './parse-refresh-interval.fn'
+import { parseQueryOptions, QUERY_OPTIONS_PATTERN } from './parse-query-options.fn'
+import { readFencedQuery } from './fenced-query.fn'
+import type { QueryOptions } from './parse-query-options.fn'
 
 /**
  * Update mode for a query
@@ -18,8 +25,10 @@ import { getBlockquotePrefix, stripBlockquoteMarkers } from './blockquote.fn'
  * - 'manual': Skips automatic updates; refreshable via commands/button
  * - 'once': Only serializes once; never auto-updates after first serialization
  * - 'once-and-eject': Serializes once and removes surrounding tags, leaving only the output
+ * - 'scheduled': Like 'auto', and also refreshed at a fixed interval even when no file changed
+ *   (block queries only)
  */
-export type QueryUpdateMode = 'auto' | 'manual' | 'once' | 'once-and-eject'
+export type QueryUpdateMode = 'auto' | 'manual' | 'once' | 'once-and-eject' | 'scheduled'
 
 /**
  * Syntax variant for query markers
@@ -44,6 +53,7 @@ export interface QueryWithContext {
     /**
      * For multi-line queries, this stores the original text from the opening flag
      * to the closing flag (inclusive), preserving newlines. Used for accurate replacement.
+     * For queries written in a code block, the whole block (fences included).
      * For single-line queries, this is undefined.
      */
     originalQueryDefinition?: string
@@ -52,6 +62,151 @@ export interface QueryWithContext {
      * Used to generate matching result markers (legacy query -> legacy markers).
      */
     syntaxVariant: SyntaxVariant
+    /**
+     * For 'scheduled' queries, the refresh interval in milliseconds.
+     * Undefined for every other update mode.
+     */
+    refreshIntervalMs?: number
+    /**
+     * The per-query options written in the marker (e.g. `[linkFormat=absolute]`).
+     * Undefined when the marker has no options block.
+     */
+    options?: QueryOptions
+}
+
+/**
+ * Information about the query flag found on a line
+ */
+interface QueryFlagInfo {
+    flagOpen: string
+    updateMode: QueryUpdateMode
+    syntaxVariant: SyntaxVariant
+    refreshIntervalMs?: number
+    options?: QueryOptions
+}
+
+/**
+ * Match the opening flag of scheduled queries, capturing the interval and the optional
+ * options block. The trailing space is optional, as for the other flags (multi-line queries).
+ */
+const SCHEDULED_FLAG_REGEXES: Array<{ regex: RegExp; syntaxVariant: SyntaxVariant }> = [
+    {
+        regex: new RegExp(
+            `${escapeRegExp(QUERY_FLAG_EVERY_OPEN_ALT)}([^:\\s]+)(${QUERY_OPTIONS_PATTERN})?: ?`
+        ),
+        syntaxVariant: 'alternative'
+    },
+    {
+        regex: new RegExp(
+            `${escapeRegExp(QUERY_FLAG_EVERY_OPEN)}([^:\\s]+)(${QUERY_OPTIONS_PATTERN})?: ?`
+        ),
+        syntaxVariant: 'legacy'
+    }
+]
+
+/**
+ * Build the regex matching a flag followed by an options block,
+ * e.g. `<!-- dataview-serializer-query [linkFormat=absolute]: `
+ */
+const buildFlagWithOptionsRegex = (flag: string): RegExp =>
+    // The options block sits between the flag name and its colon
+    new RegExp(`${escapeRegExp(flag.trim().slice(0, -1))}(${QUERY_OPTIONS_PATTERN}): ?`)
+
+/**
+ * Match the opening flags carrying an options block, capturing the options
+ */
+const FLAG_WITH_OPTIONS_REGEXES: Array<{
+    regex: RegExp
+    updateMode: QueryUpdateMode
+    syntaxVariant: SyntaxVariant
+}> = [
+    {
+        regex: buildFlagWithOptionsRegex(QUERY_FLAG_ONCE_AND_EJECT_OPEN_ALT),
+        updateMode: 'once-and-eject',
+        syntaxVariant: 'alternative'
+    },
+    {
+        regex: buildFlagWithOptionsRegex(QUERY_FLAG_MANUAL_OPEN_ALT),
+        updateMode: 'manual',
+        syntaxVariant: 'alternative'
+    },
+    {
+        regex: buildFlagWithOptionsRegex(QUERY_FLAG_ONCE_OPEN_ALT),
+        updateMode: 'once',
+        syntaxVariant: 'alternative'
+    },
+    {
+        regex: buildFlagWithOptionsRegex(QUERY_FLAG_OPEN_ALT),
+        updateMode: 'auto',
+        syntaxVariant: 'alternative'
+    },
+    {
+        regex: buildFlagWithOptionsRegex(QUERY_FLAG_ONCE_AND_EJECT_OPEN),
+        updateMode: 'once-and-eject',
+        syntaxVariant: 'legacy'
+    },
+    {
+        regex: buildFlagWithOptionsRegex(QUERY_FLAG_MANUAL_OPEN),
+        updateMode: 'manual',
+        syntaxVariant: 'legacy'
+    },
+    {
+        regex: buildFlagWithOptionsRegex(QUERY_FLAG_ONCE_OPEN),
+        updateMode: 'once',
+        syntaxVariant: 'legacy'
+    },
+    {
+        regex: buildFlagWithOptionsRegex(QUERY_FLAG_OPEN),
+        updateMode: 'auto',
+        syntaxVariant: 'legacy'
+    }
+]
+
+/**
+ * Detect the opening flag of a scheduled query, such as
+ * `<!-- dataview-serializer-query-every 1h: `. Flags with an invalid interval are ignored.
+ */
+function detectScheduledQueryFlag(line: string): QueryFlagInfo | null {
+    for (const { regex, syntaxVariant } of SCHEDULED_FLAG_REGEXES) {
+        const match = regex.exec(line)
+        if (!match) {
+            continue
+        }
+
+        const refreshIntervalMs = parseRefreshInterval(match[1] ?? '')
+        if (refreshIntervalMs === null) {
+            return null
+        }
+
+        return {
+            flagOpen: match[0],
+            updateMode: 'scheduled',
+            syntaxVariant,
+            refreshIntervalMs,
+            options: match[2] ? parseQueryOptions(match[2]) : undefined
+        }
+    }
+    return null
+}
+
+/**
+ * Detect an opening flag carrying an options block, such as
+ * `<!-- dataview-serializer-query [linkFormat=absolute]: `.
+ * The options block is kept in the flag, so that the marker is rewritten as is.
+ */
+function detectQueryFlagWithOptions(line: string): QueryFlagInfo | null {
+    for (const { regex, updateMode, syntaxVariant } of FLAG_WITH_OPTIONS_REGEXES) {
+        const match = regex.exec(line)
+        if (match) {
+            return {
+                flagOpen: match[0],
+                updateMode,
+                syntaxVariant,
+                options: parseQueryOptions(match[1] ?? '')
+            }
+        }
+    }
+    return null
 }
 
 /**
@@ -66,10 +221,7 @@ export interface QueryWithContext {
  * for multi-line queries, the opening flag might be at the end of a line
  * without the trailing space.
  */
-function detectQueryFlag(
-    trimmedLine: string,
-    originalLine: string
-): { flagOpen: string; updateMode: QueryUpdateMode; syntaxVariant: SyntaxVariant } | null {
+function detectQueryFlag(trimmedLine: string, originalLine: string): QueryFlagInfo | null {
     // Helper to determine which flag variant (full or trimmed) is in the original line
     const getActualFlag = (fullFlag: string): string => {
         // If the original line contains the full flag (with trailing space), use it
@@ -82,6 +234,18 @@ function detectQueryFlag(
     // that might otherwise be partially matched by legacy syntax
     // Use trimmedLine for detection, but originalLine to determine the actual flag variant
 
+    // Scheduled flags carry an interval, so they are matched with a regex
+    const scheduledFlag = detectScheduledQueryFlag(originalLine)
+    if (scheduledFlag) {
+        return scheduledFlag
+    }
+
+    // Options blocks sit inside the flags, so they are matched with a regex too
+    const flagWithOptions = detectQueryFlagWithOptions(originalLine)
+    if (flagWithOptions) {
+        return flagWithOptions
+    }
+
     // Alternative syntax checks (longer prefixes)
     if (
         trimmedLine.includes(QUERY_FLAG_ONCE_AND_EJECT_OPEN_ALT.trim()) ||
@@ -174,6 +338,8 @@ interface MultiLineState {
     flagOpen: string
     updateMode: QueryUpdateMode
     syntaxVariant: SyntaxVariant
+    refreshIntervalMs?: number
+    options?: QueryOptions
     indentation: string
     accumulatedLines: string[]
 }
@@ -252,6 +418,10 @@ function extractMultiLineQuery(
  * Multi-line queries are detected when the opening flag is found but the closing
  * flag is not on the same line. Lines are accumulated until the closing flag is found.
  *
+ * Queries can also be written in a ```dataview-serialize code block. Their flags are
+ * the fences, and their results use the alternative markers. DataviewJS code blocks
+ * are skipped.
+ *
  * @param text The document text to search for queries
  * @returns Array of queries with their context information
  */
@@ -294,7 +464,9 @@ export const findQueries = (text: string): QueryWithContext[] => {
                         flagOpen: multiLineState.flagOpen,
                         flagClose,
                         originalQueryDefinition: multiLineState.accumulatedLines.join('\n'),
-                        syntaxVariant: multiLineState.syntaxVariant
+                        syntaxVariant: multiLineState.syntaxVariant,
+                        refreshIntervalMs: multiLineState.refreshIntervalMs,
+                        options: multiLineState.options
                     })
                 }
 
@@ -302,11 +474,42 @@ export const findQueries = (text: string): QueryWithContext[] => {
                 multiLineState = createInitialMultiLineState()
             }
         } else {
+            const fencedQuery = readFencedQuery(lines, i)
+            if (fencedQuery) {
+                const foundQuery = fencedQuery.content
+                    .split('\n')
+                    .map((contentLine) => contentLine.trim())
+                    .join(' ')
+                    .replace(/\s+/g, ' ')
+                    .trim()
+
+                if (
+                    fencedQuery.kind === 'block' &&
+                    !retVal.some((item) => item.query === foundQuery) &&
+                    isSupportedQueryType(foundQuery)
+                ) {
+                    retVal.push({
+                        query: foundQuery,
+                        indentation: fencedQuery.indentation,
+                        updateMode: fencedQuery.updateMode,
+                        flagOpen: fencedQuery.flagOpen,
+                        flagClose: fencedQuery.flagClose,
+                        originalQueryDefinition: fencedQuery.definition,
+                        syntaxVariant: 'alternative',
+                        options: fencedQuery.options
+                    })
+                }
+
+                // The content of a code block is never read as a query definition
+                i = fencedQuery.endLineIndex - 1
+                continue
+            }
+
             // Not currently capturing, look for a new query
             const flagInfo = detectQueryFlag(trimmedLine, line)
 
             if (flagInfo) {
-                const { flagOpen, updateMode, syntaxVariant } = flagInfo
+                const { flagOpen, updateMode, syntaxVariant, refreshIntervalMs, options } = flagInfo
 
                 // Check for closing flag (with or without leading space)
                 const hasClosingFlag =
@@ -351,7 +554,9 @@ export const findQueries = (text: string): QueryWithContext[] => {
                             updateMode,
                             flagOpen,
                             flagClose,
-                            syntaxVariant
+                            syntaxVariant,
+                            refreshIntervalMs,
+                            options
                         })
                     }
                 } else {
@@ -363,6 +568,8 @@ export const findQueries = (text: string): QueryWithContext[] => {
                         flagOpen,
                         updateMode,
                         syntaxVariant,
+                        refreshIntervalMs,
+                        options,
                         indentation: line.substring(0, line.indexOf(flagOpen.trim())),
                         accumulatedLines: [line]
                     }
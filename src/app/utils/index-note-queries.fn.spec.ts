@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'bun:test'
+import { indexNoteQueries } from './index-note-queries.fn'
+
+describe('indexNoteQueries', () => {
+    const text = [
+        '# Dashboard',
+        '<!-- QueryToSerialize: LIST FROM #project -->',
+        '<!-- SerializedQuery: LIST FROM #project -->',
+        '- [[A]]',
+        '- [[B]]',
+        '<!-- SerializedQuery END -->',
+        '',
+        '> <!-- QueryToSerializeManual: LIST FROM #idea -->',
+        '',
+        'Updated: <!-- IQ: =this.file.name -->Dashboard<!-- /IQ -->',
+        '<!-- DataviewJSToSerialize: dv.list([1, 2]) -->',
+        '<!-- SerializedDataviewJS -->',
+        '- 1',
+        '- 2',
+        '<!-- SerializedDataviewJS END -->',
+        '<!-- PropertyQueryOnce backlink_count: =length(this.file.inlinks) -->',
+        ''
+    ].join('\n')
+
+    it('should index the block, inline, DataviewJS and property queries', () => {
+        const queries = indexNoteQueries('Dashboard.md', text)
+
+        expect(
+            queries.map(({ type, query, updateMode, line }) => [type, query, updateMode, line])
+        ).toEqual([
+            ['block', 'LIST FROM #project', 'auto', 1],
+            ['block', 'LIST FROM #idea', 'manual', 7],
+            ['inline', '=this.file.name', 'auto', 9],
+            ['dataviewjs', 'dv.list([1, 2])', 'auto', 10],
+            ['property', 'backlink_count: =length(this.file.inlinks)', 'once', 15]
+        ])
+        expect(queries.every((query) => query.path === 'Dashboard.md')).toBe(true)
+    })
+
+    it('should measure the current results', () => {
+        const queries = indexNoteQueries('Dashboard.md', text)
+
+        expect(queries.map((query) => query.resultSize)).toEqual([2, undefined, 9, 2, undefined])
+    })
+
+    it('should keep the definition of each query, starting with its flag', () => {
+        const queries = indexNoteQueries('Dashboard.md', text)
+
+        for (const query of queries) {
+            expect(query.definition.startsWith(query.flagOpen)).toBe(true)
+            expect(text.includes(query.definition)).toBe(true)
+        }
+    })
+})
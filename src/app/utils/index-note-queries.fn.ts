@@ -0,0 +1,112 @@
+import type { QueryKind } from '../types/serializer-events.intf'
+import { getBlockquotePrefix, stripLinePrefix } from './blockquote.fn'
+import { findDataviewJSQueries } from './find-dataviewjs-queries.fn'
+import { findInlineQueries } from './find-inline-queries.fn'
+import { buildPropertyQueryKey, findPropertyQueries } from './find-property-queries.fn'
+import { findQueries, type QueryUpdateMode, type SyntaxVariant } from './find-queries.fn'
+import {
+    findSerializedBlockContent,
+    matchExistingDataviewJSBlock
+} from './serialized-block-regexes.fn'
+
+/**
+ * A query found in a note, with what the note tells about its result
+ */
+export interface IndexedQuery {
+    path: string
+    type: QueryKind
+    /** The query, the inline expression, the JavaScript code, or the property and its query */
+    query: string
+    updateMode: QueryUpdateMode
+    syntaxVariant: SyntaxVariant
+    /** The opening flag of the query, as written in the note */
+    flagOpen: string
+    /** The text of the query definition in the note, starting with its opening flag */
+    definition: string
+    /** Line of the query definition (0-based) */
+    line: number
+    /**
+     * Size of the current result: its number of non-empty lines, or its number of
+     * characters for an inline query. Undefined when the query has no result yet, and
+     * for property queries, whose result is in the frontmatter.
+     */
+    resultSize?: number
+}
+
+const countLines = (content: string, indentation: string): number =>
+    stripLinePrefix(content, getBlockquotePrefix(indentation))
+        .split('\n')
+        .filter((line) => line.trim() !== '').length
+
+const lineOf = (text: string, index: number): number =>
+    index === -1 ? 0 : text.substring(0, index).split('\n').length - 1
+
+/**
+ * Index the block, inline, DataviewJS and property queries of a note, in that order
+ *
+ * @param path The path of the note
+ * @param text The text of the note
+ */
+export const indexNoteQueries = (path: string, text: string): IndexedQuery[] => {
+    const blockQueries = findQueries(text).map((query): IndexedQuery => {
+        const definition = query.originalQueryDefinition ?? `${query.flagOpen}${query.query}`
+        const content = findSerializedBlockContent(text, query)
+        return {
+            path,
+            type: 'block',
+            query: query.query,
+            updateMode: query.updateMode,
+            syntaxVariant: query.syntaxVariant,
+            flagOpen: query.flagOpen,
+            definition,
+            line: lineOf(text, text.indexOf(definition)),
+            resultSize: content === null ? undefined : countLines(content, query.indentation)
+        }
+    })
+
+    const inlineQueries = findInlineQueries(text).map(
+        (query): IndexedQuery => ({
+            path,
+            type: 'inline',
+            query: query.expression,
+            updateMode: query.updateMode,
+            syntaxVariant: query.syntaxVariant,
+            flagOpen: query.flagOpen,
+            definition: query.fullMatch,
+            line: lineOf(text, query.startOffset),
+            resultSize: query.currentResult ? query.currentResult.length : undefined
+        })
+    )
+
+    const dataviewJSQueries = findDataviewJSQueries(text).map((query): IndexedQuery => {
+        const existingBlock = matchExistingDataviewJSBlock(text, query)
+        return {
+            path,
+            type: 'dataviewjs',
+            query: query.jsCode,
+            updateMode: query.updateMode,
+            syntaxVariant: query.syntaxVariant,
+            flagOpen: query.flagOpen,
+            definition: query.originalQueryDefinition,
+            line: lineOf(text, text.indexOf(query.originalQueryDefinition)),
+            resultSize: existingBlock
+                ? countLines(existingBlock.content, query.indentation)
+                : undefined
+        }
+    })
+
+    const propertyQueries = findPropertyQueries(text).map(
+        (query): IndexedQuery => ({
+            path,
+            type: 'property',
+            query: buildPropertyQueryKey(query),
+            updateMode: query.updateMode,
+            syntaxVariant: query.syntaxVariant,
+            flagOpen: query.flagOpen,
+            definition: query.definition,
+            line: lineOf(text, query.startOffset)
+        })
+    )
+
+    return [...blockQueries, ...inlineQueries, ...dataviewJSQueries, ...propertyQueries]
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'bun:test'
+import { isCalendarQuery } from './is-calendar-query.fn'
+
+describe('isCalendarQuery', () => {
+    it('should return true for calendar queries, in any case', () => {
+        expect(isCalendarQuery('calendar file.ctime')).toBe(true)
+        expect(isCalendarQuery('CALENDAR due FROM #project')).toBe(true)
+        expect(isCalendarQuery('  Calendar date')).toBe(true)
+    })
+
+    it('should return false for other queries', () => {
+        expect(isCalendarQuery('list')).toBe(false)
+        expect(isCalendarQuery('TABLE calendar')).toBe(false)
+        expect(isCalendarQuery('')).toBe(false)
+    })
+})
@@ -0,0 +1,10 @@
+import { QUERY_TYPE_CALENDAR } from '../constants'
+
+/**
+ * Returns true if the query is a CALENDAR query
+ * @param query
+ */
+export const isCalendarQuery = (query: string): boolean => {
+    const queryLower = query.toLowerCase().trim()
+    return queryLower.startsWith(QUERY_TYPE_CALENDAR)
+}
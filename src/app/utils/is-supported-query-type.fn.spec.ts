@@ -26,14 +26,15 @@ describe('isSupportedQueryType', () => {
             expect(isSupportedQueryType('task from "folder"')).toBe(true)
             expect(isSupportedQueryType('TASK WHERE !completed')).toBe(true)
         })
-    })
 
-    describe('unsupported query types', () => {
-        it('should return false for calendar queries', () => {
-            expect(isSupportedQueryType('calendar')).toBe(false)
-            expect(isSupportedQueryType('CALENDAR')).toBe(false)
+        it('should return true for calendar queries', () => {
+            expect(isSupportedQueryType('calendar')).toBe(true)
+            expect(isSupportedQueryType('CALENDAR')).toBe(true)
+            expect(isSupportedQueryType('calendar file.day from "Daily"')).toBe(true)
         })
+    })
 
+    describe('unsupported query types', () => {
         it('should return false for unknown query types', () => {
             expect(isSupportedQueryType('unknown')).toBe(false)
             expect(isSupportedQueryType('dataview')).toBe(false)
@@ -85,7 +85,7 @@ function isHTMLElement(value: unknown): value is HTMLElement {
 /**
  * Type guard to check if a value is a plain object (DataObject)
  */
-function isDataObject(value: unknown): value is DataObject {
+export function isDataObject(value: unknown): value is DataObject {
     return (
         value !== null &&
         typeof value === 'object' &&
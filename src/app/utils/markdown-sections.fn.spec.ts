@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'bun:test'
+import { findSection, replaceSectionContent } from './markdown-sections.fn'
+
+describe('findSection', () => {
+    it('should end the section at the next heading of the same or a higher level', () => {
+        const text = '# Note\n\n## Active\n\n### Late\n\n- [[A]]\n\n## Done\n'
+        const section = findSection(text, 'Active')
+
+        expect(section).not.toBeNull()
+        expect(text.substring(section!.start, section!.end)).toBe('\n\n### Late\n\n- [[A]]\n\n')
+    })
+
+    it('should return null when the heading is missing', () => {
+        expect(findSection('# Note\n\nActive\n', 'Active')).toBeNull()
+    })
+})
+
+describe('replaceSectionContent', () => {
+    it('should replace the content of the section', () => {
+        const text = '# Projects\n\n## Active\n\n- [[A]]\n- [[B]]\n\n## Done\n\n- [[C]]\n'
+
+        expect(replaceSectionContent(text, 'Active', '- [[D]]\n')).toBe(
+            '# Projects\n\n## Active\n\n- [[D]]\n\n## Done\n\n- [[C]]\n'
+        )
+    })
+
+    it('should replace the last section of the note', () => {
+        expect(replaceSectionContent('## Active\n- [[A]]', 'Active', '- [[D]]')).toBe(
+            '## Active\n\n- [[D]]\n'
+        )
+    })
+
+    it('should create the section when missing', () => {
+        expect(replaceSectionContent('# Projects\n', 'Active', '- [[D]]')).toBe(
+            '# Projects\n\n## Active\n\n- [[D]]\n'
+        )
+    })
+})
@@ -0,0 +1,64 @@
+import { escapeRegExp } from './escape-reg-exp.fn'
+
+/**
+ * Where the section below a heading sits in a note
+ */
+export interface MarkdownSection {
+    /** Offset of the end of the heading line */
+    start: number
+    /** Offset of the next heading of the same or a higher level, or the end of the note */
+    end: number
+}
+
+/**
+ * Find the section below the given heading (of any level). The section ends at the
+ * next heading of the same or a higher level, so it includes its subsections.
+ *
+ * @param text The text of the note
+ * @param heading The text of the heading, without its `#` marks
+ * @returns The section, or null when the note has no such heading
+ */
+export const findSection = (text: string, heading: string): MarkdownSection | null => {
+    const headingMatch = new RegExp(
+        `^(#{1,6})[ \\t]+${escapeRegExp(heading.trim())}[ \\t]*$`,
+        'm'
+    ).exec(text)
+
+    if (!headingMatch) {
+        return null
+    }
+
+    const level = headingMatch[1]!.length
+    const start = headingMatch.index + headingMatch[0].length
+    const nextHeading = new RegExp(`^#{1,${level}}[ \\t]`, 'm').exec(text.substring(start))
+
+    return { start, end: nextHeading ? start + nextHeading.index : text.length }
+}
+
+/**
+ * Append a section at the end of a note, separated from its text by a blank line
+ */
+export const appendSection = (text: string, heading: string, content: string): string => {
+    const separator = text.trim() === '' ? '' : text.endsWith('\n') ? '\n' : '\n\n'
+    return `${text}${separator}## ${heading.trim()}\n\n${content}\n`
+}
+
+/**
+ * Replace the content of the section below the given heading, subsections included.
+ * When the note has no such heading, the section is created at the end of the note.
+ *
+ * @param text The text of the note
+ * @param heading The text of the heading, without its `#` marks
+ * @param content The new content of the section
+ * @returns The updated text
+ */
+export const replaceSectionContent = (text: string, heading: string, content: string): string => {
+    const section = findSection(text, heading)
+
+    if (!section) {
+        return appendSection(text, heading, content.trim())
+    }
+
+    const remainder = text.substring(section.end)
+    return `${text.substring(0, section.start)}\n\n${content.trim()}\n${remainder === '' ? '' : `\n${remainder}`}`
+}
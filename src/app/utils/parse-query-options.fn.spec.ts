@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'bun:test'
+import { parseQueryOptions } from './parse-query-options.fn'
+
+describe('parseQueryOptions', () => {
+    it('should parse every supported option', () => {
+        expect(
+            parseQueryOptions(
+                '[linkFormat=absolute, trailingNewline=false, header=Projects, limit=10]'
+            )
+        ).toEqual({
+            linkFormat: 'absolute',
+            trailingNewline: false,
+            header: 'Projects',
+            limit: 10
+        })
+    })
+
+    it('should accept the options without their brackets', () => {
+        expect(parseQueryOptions('linkFormat=shortest')).toEqual({ linkFormat: 'shortest' })
+    })
+
+    it('should treat a bare boolean option as true', () => {
+        expect(parseQueryOptions('[trailingNewline]')).toEqual({ trailingNewline: true })
+    })
+
+    it('should keep commas, brackets and spaces in quoted values', () => {
+        expect(parseQueryOptions('[header="## Projects, [active]", limit=2]')).toEqual({
+            header: '## Projects, [active]',
+            limit: 2
+        })
+    })
+
+    it('should parse the target note and its heading', () => {
+        expect(parseQueryOptions('[target="[[Project Index]]"]')).toEqual({
+            target: { linkpath: 'Project Index' }
+        })
+        expect(parseQueryOptions('[target="Published/Projects.md#Active"]')).toEqual({
+            target: { linkpath: 'Published/Projects.md', heading: 'Active' }
+        })
+    })
+
+    it('should match option names case-insensitively', () => {
+        expect(parseQueryOptions('[LinkFormat=absolute, TRAILINGNEWLINE]')).toEqual({
+            linkFormat: 'absolute',
+            trailingNewline: true
+        })
+    })
+
+    it('should parse the shape of the results', () => {
+        expect(parseQueryOptions('[shape=numbered]')).toEqual({ shape: 'numbered' })
+        expect(parseQueryOptions('[shape="definition"]')).toEqual({ shape: 'definition' })
+        expect(parseQueryOptions('[shape=inline]')).toEqual({ shape: 'inline' })
+    })
+
+    it('should parse the synchronization of tasks', () => {
+        expect(parseQueryOptions('[syncTasks]')).toEqual({ syncTasks: true })
+        expect(parseQueryOptions('[syncTasks=false]')).toEqual({ syncTasks: false })
+    })
+
+    it('should parse the row template and its preset', () => {
+        expect(
+            parseQueryOptions(
+                '[template="- {{file.link}} — {{status}} ({{due}})", preset=projects]'
+            )
+        ).toEqual({ template: '- {{file.link}} — {{status}} ({{due}})', preset: 'projects' })
+    })
+
+    it('should parse the data format and its frontmatter property', () => {
+        expect(parseQueryOptions('[format=csv]')).toEqual({ format: 'csv' })
+        expect(parseQueryOptions('[format=frontmatter, property="open tasks"]')).toEqual({
+            format: 'frontmatter',
+            property: 'open tasks'
+        })
+    })
+
+    it('should ignore unknown options and invalid values', () => {
+        expect(
+            parseQueryOptions(
+                '[color=red, format=xml, property="", linkFormat=relative, trailingNewline=maybe, trailingNewline=, header="", limit=0, limit=-1, limit=1.5, target="", target="[[#Active]]", shape=grid, syncTasks=yes, template="", preset=]'
+            )
+        ).toEqual({})
+    })
+
+    it('should return no options for an empty block', () => {
+        expect(parseQueryOptions('[]')).toEqual({})
+    })
+})
@@ -0,0 +1,185 @@
+import type { LinkFormat } from '../types/plugin-settings.intf'
+import { log } from '../../utils/log'
+import { parseQueryTarget, type QueryTarget } from './query-target.fn'
+import { RESULT_FORMATS, type ResultFormat } from './result-data.fn'
+import { RESULT_SHAPES, type ResultShape } from './result-shape.fn'
+
+/**
+ * Per-query output options, written between the flag and the colon of a block query:
+ * `<!-- dataview-serializer-query [linkFormat=absolute, trailingNewline, header="## Projects"]: LIST ... -->`
+ *
+ * Each option overrides the matching vault-wide setting for that query only.
+ */
+export interface QueryOptions {
+    /**
+     * Format of the internal links in the output (overrides the "Link format" setting)
+     */
+    linkFormat?: LinkFormat
+    /**
+     * Whether to add an empty line before the result end marker
+     * (overrides the "Add trailing newline" setting)
+     */
+    trailingNewline?: boolean
+    /**
+     * Line written above the results, inside the result block (e.g. `## Projects`)
+     */
+    header?: string
+    /**
+     * Maximum number of results (appended to the query as a `LIMIT` clause)
+     */
+    limit?: number
+    /**
+     * Another note receiving the results, instead of the result block below the query
+     */
+    target?: QueryTarget
+    /**
+     * Another shape for LIST and TABLE results: numbered list, definition list or inline list
+     */
+    shape?: ResultShape
+    /**
+     * Whether TASK results keep their checkboxes, ticking them updating the original tasks
+     */
+    syncTasks?: boolean
+    /**
+     * Template of each row of the result, such as `- {{file.link}} — {{status}}`
+     */
+    template?: string
+    /**
+     * Name of a row template preset, defined in the settings
+     */
+    preset?: string
+    /**
+     * Machine-readable output: a fenced CSV, JSON or YAML block, or a frontmatter property
+     */
+    format?: ResultFormat
+    /**
+     * Frontmatter property receiving the result, with `format=frontmatter`
+     */
+    property?: string
+}
+
+/**
+ * Regex source matching an options block, including the space in front of it.
+ * Quoted values may contain commas and closing brackets.
+ */
+export const QUERY_OPTIONS_PATTERN = ' \\[(?:[^\\]"\\n]|"[^"\\n]*")*\\]'
+
+/**
+ * Matches a single `key`, `key=value` or `key="quoted value"` option
+ */
+const OPTION_REGEX = /([A-Za-z][\w-]*)\s*(?:=\s*(?:"([^"]*)"|([^,"]*)))?/g
+
+const LINK_FORMATS: LinkFormat[] = ['obsidian', 'shortest', 'absolute']
+
+/**
+ * Parse a boolean option. A bare key (no value) means true.
+ */
+const parseBooleanOption = (value: string | undefined): boolean | null => {
+    if (value === undefined || value === 'true') {
+        return true
+    }
+    if (value === 'false') {
+        return false
+    }
+    return null
+}
+
+/**
+ * Parse the options block of a query marker.
+ * Unknown options and invalid values are ignored, so that a typo never prevents
+ * the query from being serialized.
+ *
+ * @param optionsBlock The options block, with or without its surrounding brackets
+ * @returns The valid options
+ */
+export const parseQueryOptions = (optionsBlock: string): QueryOptions => {
+    const retVal: QueryOptions = {}
+    const content = optionsBlock.trim().replace(/^\[/, '').replace(/\]$/, '')
+
+    for (const [, key, quotedValue, rawValue] of content.matchAll(OPTION_REGEX)) {
+        const value = quotedValue ?? rawValue?.trim()
+        // An empty unquoted value (`key=`) is invalid, not a bare key
+        const hasEmptyValue = quotedValue === undefined && rawValue !== undefined && !value
+
+        switch (key!.toLowerCase()) {
+            case 'linkformat':
+                if (LINK_FORMATS.includes(value as LinkFormat)) {
+                    retVal.linkFormat = value as LinkFormat
+                    continue
+                }
+                break
+            case 'trailingnewline': {
+                const trailingNewline = hasEmptyValue ? null : parseBooleanOption(value)
+                if (trailingNewline !== null) {
+                    retVal.trailingNewline = trailingNewline
+                    continue
+                }
+                break
+            }
+            case 'synctasks': {
+                const syncTasks = hasEmptyValue ? null : parseBooleanOption(value)
+                if (syncTasks !== null) {
+                    retVal.syncTasks = syncTasks
+                    continue
+                }
+                break
+            }
+            case 'header':
+                if (value) {
+                    retVal.header = value
+                    continue
+                }
+                break
+            case 'template':
+                if (value) {
+                    retVal.template = value
+                    continue
+                }
+                break
+            case 'preset':
+                if (value) {
+                    retVal.preset = value
+                    continue
+                }
+                break
+            case 'format':
+                if (RESULT_FORMATS.includes(value as ResultFormat)) {
+                    retVal.format = value as ResultFormat
+                    continue
+                }
+                break
+            case 'property':
+                if (value) {
+                    retVal.property = value
+                    continue
+                }
+                break
+            case 'target': {
+                const target = value ? parseQueryTarget(value) : null
+                if (target) {
+                    retVal.target = target
+                    continue
+                }
+                break
+            }
+            case 'shape':
+                if (RESULT_SHAPES.includes(value as ResultShape)) {
+                    retVal.shape = value as ResultShape
+                    continue
+                }
+                break
+            case 'limit': {
+                const limit = Number(value)
+                if (Number.isInteger(limit) && limit > 0) {
+                    retVal.limit = limit
+                    continue
+                }
+                break
+            }
+        }
+
+        log(`Ignoring invalid query option: [${key}=${value ?? ''}]`, 'debug')
+    }
+
+    return retVal
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'bun:test'
+import { parseRefreshInterval } from './parse-refresh-interval.fn'
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+describe('parseRefreshInterval', () => {
+    it('should parse each unit', () => {
+        expect(parseRefreshInterval('30m')).toBe(30 * MINUTE)
+        expect(parseRefreshInterval('1h')).toBe(HOUR)
+        expect(parseRefreshInterval('2d')).toBe(2 * DAY)
+        expect(parseRefreshInterval('1w')).toBe(7 * DAY)
+    })
+
+    it('should add up combined parts', () => {
+        expect(parseRefreshInterval('1h30m')).toBe(HOUR + 30 * MINUTE)
+        expect(parseRefreshInterval('1d12h')).toBe(DAY + 12 * HOUR)
+    })
+
+    it('should be case insensitive and ignore surrounding whitespace', () => {
+        expect(parseRefreshInterval(' 1H ')).toBe(HOUR)
+    })
+
+    it('should reject invalid intervals', () => {
+        expect(parseRefreshInterval('')).toBeNull()
+        expect(parseRefreshInterval('1')).toBeNull()
+        expect(parseRefreshInterval('h')).toBeNull()
+        expect(parseRefreshInterval('1s')).toBeNull()
+        expect(parseRefreshInterval('1 h')).toBeNull()
+        expect(parseRefreshInterval('soon')).toBeNull()
+    })
+
+    it('should reject zero intervals', () => {
+        expect(parseRefreshInterval('0m')).toBeNull()
+    })
+})
@@ -0,0 +1,39 @@
+/**
+ * Duration of each supported interval unit, in milliseconds
+ */
+const UNIT_MS: Record<string, number> = {
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000
+}
+
+/**
+ * Matches a whole interval made of one or more `<amount><unit>` parts, e.g. `1h30m`
+ */
+const INTERVAL_REGEX = /^(?:\d+[mhdw])+$/i
+
+/**
+ * Matches a single `<amount><unit>` part
+ */
+const INTERVAL_PART_REGEX = /(\d+)([mhdw])/gi
+
+/**
+ * Parse a refresh interval such as `30m`, `1h`, `1h30m`, `2d` or `1w`.
+ *
+ * @param interval The interval, as written in the query marker
+ * @returns The interval in milliseconds, or null if it is invalid or zero
+ */
+export const parseRefreshInterval = (interval: string): number | null => {
+    const trimmed = interval.trim()
+    if (!INTERVAL_REGEX.test(trimmed)) {
+        return null
+    }
+
+    let total = 0
+    for (const [, amount, unit] of trimmed.matchAll(INTERVAL_PART_REGEX)) {
+        total += Number(amount) * UNIT_MS[unit!.toLowerCase()]!
+    }
+
+    return total > 0 ? total : null
+}
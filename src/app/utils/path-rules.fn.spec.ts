@@ -0,0 +1,220 @@
+import { describe, expect, it } from 'bun:test'
+import {
+    countPathRuleMatches,
+    createPathRulesMatcher,
+    globToRegExp,
+    isGlobPattern,
+    isPathInScope,
+    matchesPath,
+    matchesPathRules,
+    parsePathRule
+} from './path-rules.fn'
+
+// Thursday, July 23rd 2026
+const REFERENCE_DATE = new Date(2026, 6, 23, 12, 0, 0)
+
+describe('isGlobPattern', () => {
+    it('should detect glob characters', () => {
+        expect(isGlobPattern('Projects/**')).toBe(true)
+        expect(isGlobPattern('*.excalidraw.md')).toBe(true)
+        expect(isGlobPattern('Daily/202?')).toBe(true)
+    })
+
+    it('should not treat plain paths as globs', () => {
+        expect(isGlobPattern('Projects/Active')).toBe(false)
+        expect(isGlobPattern('Daily/{{year}}')).toBe(false)
+    })
+})
+
+describe('globToRegExp', () => {
+    it('should match a single segment with *', () => {
+        const regex = globToRegExp('Projects/*.md')
+        expect(regex.test('Projects/a.md')).toBe(true)
+        expect(regex.test('Projects/Sub/a.md')).toBe(false)
+    })
+
+    it('should match across folders with **', () => {
+        const regex = globToRegExp('Projects/**')
+        expect(regex.test('Projects/a.md')).toBe(true)
+        expect(regex.test('Projects/Sub/a.md')).toBe(true)
+        expect(regex.test('Other/a.md')).toBe(false)
+    })
+
+    it('should match zero or more leading folders with **/', () => {
+        const regex = globToRegExp('**/_templates/**')
+        expect(regex.test('_templates/a.md')).toBe(true)
+        expect(regex.test('Projects/_templates/a.md')).toBe(true)
+        expect(regex.test('Projects/templates/a.md')).toBe(false)
+    })
+
+    it('should match a single character with ?', () => {
+        const regex = globToRegExp('Daily/202?/*')
+        expect(regex.test('Daily/2026/a.md')).toBe(true)
+        expect(regex.test('Daily/20266/a.md')).toBe(false)
+    })
+
+    it('should escape regular expression characters', () => {
+        const regex = globToRegExp('Notes (old)/*.md')
+        expect(regex.test('Notes (old)/a.md')).toBe(true)
+        expect(regex.test('Notes old/a.md')).toBe(false)
+    })
+})
+
+describe('parsePathRule', () => {
+    it('should detect negated rules', () => {
+        expect(parsePathRule('!Archive')?.negated).toBe(true)
+        expect(parsePathRule('Archive')?.negated).toBe(false)
+    })
+
+    it('should return null for empty rules', () => {
+        expect(parsePathRule('')).toBeNull()
+        expect(parsePathRule('!')).toBeNull()
+    })
+
+    it('should return null for invalid regular expressions', () => {
+        expect(parsePathRule('regex:(unclosed')).toBeNull()
+    })
+})
+
+describe('matchesPath', () => {
+    it('should match plain folders and their descendants', () => {
+        expect(matchesPath('Projects/a.md', 'Projects')).toBe(true)
+        expect(matchesPath('Projects/Sub/a.md', 'Projects')).toBe(true)
+        expect(matchesPath('Projects', 'Projects')).toBe(true)
+    })
+
+    it('should match the note of the same name', () => {
+        expect(matchesPath('Daily/2026-07-23.md', 'Daily/2026-07-23')).toBe(true)
+    })
+
+    it('should respect folder boundaries', () => {
+        expect(matchesPath('Archive-2024/a.md', 'Archive')).toBe(false)
+    })
+
+    it('should ignore leading and trailing slashes', () => {
+        expect(matchesPath('Projects/a.md', '/Projects/')).toBe(true)
+    })
+
+    it('should match the whole vault with /', () => {
+        expect(matchesPath('a.md', '/')).toBe(true)
+        expect(matchesPath('Projects/a.md', '/')).toBe(true)
+    })
+
+    it('should never match an empty path', () => {
+        expect(matchesPath('a.md', '')).toBe(false)
+        expect(matchesPath('a.md', '   ')).toBe(false)
+    })
+
+    it('should resolve date placeholders', () => {
+        expect(matchesPath('Daily/2026/07/a.md', 'Daily/{{year}}/{{month}}', REFERENCE_DATE)).toBe(
+            true
+        )
+        expect(matchesPath('Daily/2026/06/a.md', 'Daily/{{year}}/{{month}}', REFERENCE_DATE)).toBe(
+            false
+        )
+    })
+
+    it('should combine placeholders and globs', () => {
+        expect(matchesPath('Daily/2026/07-Jul/a.md', 'Daily/{{year}}/**', REFERENCE_DATE)).toBe(
+            true
+        )
+        expect(matchesPath('Daily/2025/12-Dec/a.md', 'Daily/{{year}}/**', REFERENCE_DATE)).toBe(
+            false
+        )
+    })
+
+    it('should match regular expressions', () => {
+        expect(matchesPath('Daily/2026/a.md', 'regex:^Daily/\\d{4}/')).toBe(true)
+        expect(matchesPath('Daily/Notes/a.md', 'regex:^Daily/\\d{4}/')).toBe(false)
+    })
+
+    it('should match file name globs', () => {
+        expect(matchesPath('Drawing.excalidraw.md', '*.excalidraw.md')).toBe(true)
+        expect(matchesPath('Drawings/Drawing.excalidraw.md', '**/*.excalidraw.md')).toBe(true)
+    })
+
+    it('should ignore the negation of a single rule', () => {
+        expect(matchesPath('Archive/a.md', '!Archive')).toBe(true)
+    })
+})
+
+describe('matchesPathRules', () => {
+    it('should match nothing without rules', () => {
+        expect(matchesPathRules('a.md', [])).toBe(false)
+    })
+
+    it('should let the last matching rule win', () => {
+        const rules = ['**/_templates/**', '!Projects/_templates/**']
+        expect(matchesPathRules('Areas/_templates/a.md', rules)).toBe(true)
+        expect(matchesPathRules('Projects/_templates/a.md', rules)).toBe(false)
+        expect(matchesPathRules('Projects/a.md', rules)).toBe(false)
+    })
+
+    it('should re-include paths after a negation', () => {
+        const rules = ['Archive', '!Archive/2024', 'Archive/2024/Keep']
+        expect(matchesPathRules('Archive/2023/a.md', rules)).toBe(true)
+        expect(matchesPathRules('Archive/2024/a.md', rules)).toBe(false)
+        expect(matchesPathRules('Archive/2024/Keep/a.md', rules)).toBe(true)
+    })
+
+    it('should match everything else when all rules are negated', () => {
+        const rules = ['!Archive']
+        expect(matchesPathRules('Projects/a.md', rules)).toBe(true)
+        expect(matchesPathRules('Archive/a.md', rules)).toBe(false)
+    })
+
+    it('should skip invalid rules', () => {
+        expect(matchesPathRules('a.md', ['regex:(unclosed'])).toBe(false)
+        expect(matchesPathRules('Projects/a.md', ['regex:(unclosed', 'Projects'])).toBe(true)
+    })
+
+    it('should resolve placeholders in every rule', () => {
+        const rules = ['Daily', '!Daily/{{year}}']
+        expect(matchesPathRules('Daily/2025/a.md', rules, REFERENCE_DATE)).toBe(true)
+        expect(matchesPathRules('Daily/2026/a.md', rules, REFERENCE_DATE)).toBe(false)
+    })
+})
+
+describe('createPathRulesMatcher', () => {
+    it('should be reusable across paths', () => {
+        const matches = createPathRulesMatcher(['Projects', '!Projects/Archive'])
+        expect(['Projects/a.md', 'Projects/Archive/b.md', 'c.md'].filter(matches)).toEqual([
+            'Projects/a.md'
+        ])
+    })
+})
+
+describe('countPathRuleMatches', () => {
+    const paths = ['Archive/a.md', 'Archive/b.md', 'Archive-2024/c.md', 'd.md']
+
+    it('should count the paths matched by a rule', () => {
+        expect(countPathRuleMatches(paths, 'Archive')).toBe(2)
+        expect(countPathRuleMatches(paths, '**/*.md')).toBe(4)
+    })
+
+    it('should count what negated rules exclude', () => {
+        expect(countPathRuleMatches(paths, '!Archive')).toBe(2)
+    })
+
+    it('should return null for invalid rules', () => {
+        expect(countPathRuleMatches(paths, 'regex:[')).toBeNull()
+    })
+})
+
+describe('isPathInScope', () => {
+    it('should include everything when no folder is configured', () => {
+        expect(isPathInScope('any/path.md', [])).toBe(true)
+    })
+
+    it('should include paths matching any configured folder', () => {
+        const folders = ['Projects', '**/Index.md']
+        expect(isPathInScope('Projects/a.md', folders)).toBe(true)
+        expect(isPathInScope('Areas/Health/Index.md', folders)).toBe(true)
+        expect(isPathInScope('Areas/Health/a.md', folders)).toBe(false)
+    })
+
+    it('should exclude negated folders from the whole vault', () => {
+        expect(isPathInScope('Projects/a.md', ['!Archive'])).toBe(true)
+        expect(isPathInScope('Archive/a.md', ['!Archive'])).toBe(false)
+    })
+})
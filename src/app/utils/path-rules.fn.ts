@@ -0,0 +1,235 @@
+import { resolvePathPlaceholders } from './resolve-path-placeholders.fn'
+
+/**
+ * Prefix of rules excluding the paths they match
+ */
+export const PATH_RULE_NEGATION_PREFIX = '!'
+
+/**
+ * Prefix of rules given as a regular expression
+ */
+export const PATH_RULE_REGEX_PREFIX = 'regex:'
+
+/**
+ * Characters that turn a configured path into a glob pattern
+ */
+const GLOB_CHARACTERS_REGEX = /[*?]/
+
+/**
+ * A configured path rule, compiled against a reference date.
+ */
+export interface PathRule {
+    /** Whether the rule excludes the paths it matches (`!` prefix) */
+    negated: boolean
+    /** Check whether a vault path matches the rule, regardless of its negation */
+    test: (path: string) => boolean
+}
+
+/**
+ * Whether a configured path is a glob pattern (e.g. `Projects/**` or `*.excalidraw.md`)
+ * rather than a plain folder path.
+ */
+export const isGlobPattern = (pattern: string): boolean => GLOB_CHARACTERS_REGEX.test(pattern)
+
+/**
+ * Convert a glob pattern to a regular expression matching whole vault paths.
+ * - `**` matches any number of characters, across folders
+ * - `**\/` matches zero or more leading folders, so `**\/_templates/**` also matches `_templates/a.md`
+ * - `*` matches any number of characters within a single path segment
+ * - `?` matches a single character within a path segment
+ */
+export const globToRegExp = (glob: string): RegExp => {
+    let source = ''
+    let i = 0
+
+    while (i < glob.length) {
+        const char = glob[i]!
+
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                if (glob[i + 2] === '/') {
+                    source += '(?:.*/)?'
+                    i += 3
+                } else {
+                    source += '.*'
+                    i += 2
+                }
+                continue
+            }
+            source += '[^/]*'
+        } else if (char === '?') {
+            source += '[^/]'
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        }
+        i++
+    }
+
+    return new RegExp(`^${source}$`)
+}
+
+/**
+ * Compile a configured path rule.
+ *
+ * Date placeholders (e.g. `Daily/{{year}}`) are resolved against the given date, then:
+ * - `regex:<expression>` matches paths against the regular expression (unanchored)
+ * - glob patterns must match the whole path
+ * - plain paths match the folder itself, everything below it, and the note of the same
+ *   name (`Daily/2026-07-23` matches `Daily/2026-07-23.md`), respecting folder
+ *   boundaries: `Archive` matches `Archive/note.md` but not `Archive-2024/note.md`.
+ *   `/` matches the whole vault.
+ *
+ * A leading `!` negates the rule (see `createPathRulesMatcher`).
+ *
+ * @param rule The configured rule
+ * @param date The reference date for placeholders. Defaults to now
+ * @returns The compiled rule, or null if the rule is empty or an invalid regular expression
+ */
+export const parsePathRule = (rule: string, date: Date = new Date()): PathRule | null => {
+    let pattern = rule.trim()
+    const negated = pattern.startsWith(PATH_RULE_NEGATION_PREFIX)
+    if (negated) {
+        pattern = pattern.slice(PATH_RULE_NEGATION_PREFIX.length).trim()
+    }
+
+    if (pattern.length === 0) {
+        return null
+    }
+
+    const resolved = resolvePathPlaceholders(pattern, date)
+
+    if (resolved.startsWith(PATH_RULE_REGEX_PREFIX)) {
+        try {
+            const regex = new RegExp(resolved.slice(PATH_RULE_REGEX_PREFIX.length))
+            return { negated, test: (path) => regex.test(path) }
+        } catch {
+            return null
+        }
+    }
+
+    const folder = resolved.replace(/^\/+|\/+$/g, '')
+
+    // The vault root (`/`)
+    if (folder.length === 0) {
+        return { negated, test: () => true }
+    }
+
+    if (isGlobPattern(folder)) {
+        const regex = globToRegExp(folder)
+        return { negated, test: (path) => regex.test(path) }
+    }
+
+    return {
+        negated,
+        test: (path) => path === folder || path === `${folder}.md` || path.startsWith(`${folder}/`)
+    }
+}
+
+/**
+ * Check whether a vault path matches a single configured rule, ignoring its negation.
+ *
+ * @param path The vault path of a file (e.g. `Projects/Active/Note.md`)
+ * @param rule The configured rule
+ * @param date The reference date for placeholders. Defaults to now
+ */
+export const matchesPath = (path: string, rule: string, date: Date = new Date()): boolean =>
+    parsePathRule(rule, date)?.test(path) ?? false
+
+/**
+ * Compile a list of configured rules into a single matcher, to check many paths at once.
+ *
+ * Rules are evaluated in order and the last matching rule wins, like `.gitignore`:
+ * `**\/_templates/**` followed by `!Projects/_templates/**` matches every `_templates`
+ * folder except the one under `Projects`. When all the rules are negated, paths
+ * matching none of them are matched: `!Archive` alone matches everything but `Archive`.
+ * Empty and invalid rules are skipped.
+ *
+ * @param rules The configured rules
+ * @param date The reference date for placeholders. Defaults to now
+ */
+export const createPathRulesMatcher = (
+    rules: string[],
+    date: Date = new Date()
+): ((path: string) => boolean) => {
+    const compiled = rules
+        .map((rule) => parsePathRule(rule, date))
+        .filter((rule): rule is PathRule => rule !== null)
+
+    if (compiled.length === 0) {
+        return () => false
+    }
+
+    const matchedByDefault = compiled.every((rule) => rule.negated)
+
+    return (path) => {
+        let matched = matchedByDefault
+        for (const rule of compiled) {
+            if (rule.test(path)) {
+                matched = !rule.negated
+            }
+        }
+        return matched
+    }
+}
+
+/**
+ * Check whether a vault path matches a list of configured rules.
+ * See `createPathRulesMatcher` for the evaluation order.
+ *
+ * @param path The vault path of a file
+ * @param rules The configured rules
+ * @param date The reference date for placeholders. Defaults to now
+ */
+export const matchesPathRules = (path: string, rules: string[], date: Date = new Date()): boolean =>
+    createPathRulesMatcher(rules, date)(path)
+
+/**
+ * Compile the configured folders to scan into a matcher.
+ * An empty list means that the whole vault is in scope.
+ *
+ * @param foldersToScan The configured folders to scan
+ * @param date The reference date for placeholders. Defaults to now
+ */
+export const createScopeMatcher = (
+    foldersToScan: string[],
+    date: Date = new Date()
+): ((path: string) => boolean) => {
+    if (foldersToScan.length === 0) {
+        return () => true
+    }
+    return createPathRulesMatcher(foldersToScan, date)
+}
+
+/**
+ * Check whether a vault path is part of the configured scan scope.
+ * An empty list means that the whole vault is in scope.
+ *
+ * @param path The vault path of a file
+ * @param foldersToScan The configured folders to scan
+ * @param date The reference date for placeholders. Defaults to now
+ */
+export const isPathInScope = (
+    path: string,
+    foldersToScan: string[],
+    date: Date = new Date()
+): boolean => createScopeMatcher(foldersToScan, date)(path)
+
+/**
+ * Count the paths matched by a single configured rule, ignoring its negation.
+ *
+ * @param paths The vault paths to check
+ * @param rule The configured rule
+ * @param date The reference date for placeholders. Defaults to now
+ * @returns The number of matching paths, or null if the rule is empty or invalid
+ */
+export const countPathRuleMatches = (
+    paths: string[],
+    rule: string,
+    date: Date = new Date()
+): number | null => {
+    const compiled = parsePathRule(rule, date)
+    if (!compiled) {
+        return null
+    }
+    return paths.filter((path) => compiled.test(path)).length
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'bun:test'
+import { formatProfilesAsCsv, formatProfilesAsJson } from './profile-export.fn'
+import type { FileProfile, QueryProfile } from './query-profiler'
+
+const queryProfile: QueryProfile = {
+    path: 'Projects/Dashboard.md',
+    type: 'block',
+    query: 'TABLE status, "due, soon" FROM #project',
+    runs: 3,
+    totalMs: 100,
+    maxMs: 60.04,
+    lastMs: 20,
+    lastResultSize: 512,
+    writes: 1,
+    skipped: 2,
+    errors: 0,
+    lastRunAt: 1
+}
+
+const fileProfile: FileProfile = {
+    path: 'Projects/Dashboard.md',
+    runs: 2,
+    totalMs: 120,
+    maxMs: 80,
+    lastMs: 40,
+    writes: 1,
+    lastRunAt: 1
+}
+
+describe('formatProfilesAsCsv', () => {
+    it('should write one line per query, quoting the fields that need it', () => {
+        expect(
+            formatProfilesAsCsv({
+                queries: [queryProfile],
+                files: [fileProfile],
+                exportedAt: '2026-10-19T12:00:00.000Z'
+            })
+        ).toBe(
+            [
+                'path,type,query,runs,total_ms,average_ms,max_ms,last_ms,last_result_size,writes,skipped,errors',
+                'Projects/Dashboard.md,block,"TABLE status, ""due, soon"" FROM #project",3,100,33.3,60,20,512,1,2,0',
+                ''
+            ].join('\n')
+        )
+    })
+
+    it('should only write the header when nothing was profiled', () => {
+        expect(formatProfilesAsCsv({ queries: [], files: [], exportedAt: '' }).split('\n')).toEqual(
+            [expect.stringContaining('path,type,query'), '']
+        )
+    })
+})
+
+describe('formatProfilesAsJson', () => {
+    it('should include the queries and the notes with their average time', () => {
+        const data = JSON.parse(
+            formatProfilesAsJson({
+                queries: [queryProfile],
+                files: [fileProfile],
+                exportedAt: '2026-10-19T12:00:00.000Z'
+            })
+        )
+
+        expect(data.exportedAt).toBe('2026-10-19T12:00:00.000Z')
+        expect(data.queries).toEqual([{ ...queryProfile, averageMs: 33.3 }])
+        expect(data.files).toEqual([{ ...fileProfile, averageMs: 60 }])
+    })
+})
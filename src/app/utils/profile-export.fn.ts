@@ -0,0 +1,84 @@
+import type { FileProfile, QueryProfile } from './query-profiler'
+
+export type ProfileExportFormat = 'json' | 'csv'
+
+export interface ProfileExportParams {
+    queries: QueryProfile[]
+    files: FileProfile[]
+    /** When the profiles were exported, as an ISO date */
+    exportedAt: string
+}
+
+const CSV_COLUMNS = [
+    'path',
+    'type',
+    'query',
+    'runs',
+    'total_ms',
+    'average_ms',
+    'max_ms',
+    'last_ms',
+    'last_result_size',
+    'writes',
+    'skipped',
+    'errors'
+] as const
+
+/**
+ * Round a duration to a tenth of a millisecond, which is all the precision worth reading
+ */
+const roundMs = (durationMs: number): number => Math.round(durationMs * 10) / 10
+
+/**
+ * Quote a CSV field when it holds a separator, a quote or a line break (RFC 4180)
+ */
+export const toCsvField = (value: string | number): string => {
+    const text = String(value)
+    return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text
+}
+
+/**
+ * Format the query profiles as CSV, one line per query
+ */
+export const formatProfilesAsCsv = (params: ProfileExportParams): string => {
+    const rows = params.queries.map((profile) =>
+        [
+            profile.path,
+            profile.type,
+            profile.query,
+            profile.runs,
+            roundMs(profile.totalMs),
+            roundMs(profile.totalMs / profile.runs),
+            roundMs(profile.maxMs),
+            roundMs(profile.lastMs),
+            profile.lastResultSize,
+            profile.writes,
+            profile.skipped,
+            profile.errors
+        ]
+            .map(toCsvField)
+            .join(',')
+    )
+
+    return `${[CSV_COLUMNS.join(','), ...rows].join('\n')}\n`
+}
+
+/**
+ * Format the query and note profiles as JSON
+ */
+export const formatProfilesAsJson = (params: ProfileExportParams): string =>
+    `${JSON.stringify(
+        {
+            exportedAt: params.exportedAt,
+            queries: params.queries.map((profile) => ({
+                ...profile,
+                averageMs: roundMs(profile.totalMs / profile.runs)
+            })),
+            files: params.files.map((profile) => ({
+                ...profile,
+                averageMs: roundMs(profile.totalMs / profile.runs)
+            }))
+        },
+        null,
+        2
+    )}\n`
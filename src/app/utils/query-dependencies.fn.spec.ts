@@ -0,0 +1,289 @@
+import { describe, expect, it } from 'bun:test'
+import {
+    collectFileDependencies,
+    extractDataviewJSDependencies,
+    extractInlineQueryDependencies,
+    extractQueryDependencies,
+    isAffectedByChange,
+    parseSourceExpression,
+    type DependencyMatchContext,
+    type FileChangeSnapshot
+} from './query-dependencies.fn'
+
+const LINKS: Record<string, string> = {
+    'Index': 'Index.md',
+    'Project X': 'Projects/Project X.md',
+    'Host': 'Host.md'
+}
+
+const OUTLINKS: Record<string, string[]> = {
+    'Index.md': ['Projects/Project X.md']
+}
+
+const CONTEXT: DependencyMatchContext = {
+    hostPath: 'Host.md',
+    resolveLink: (linkpath) => LINKS[linkpath] ?? null,
+    getOutlinks: (path) => OUTLINKS[path] ?? []
+}
+
+const snapshot = (
+    path: string,
+    tags: string[] = [],
+    outlinks: string[] = []
+): FileChangeSnapshot => ({ path, tags, outlinks })
+
+describe('parseSourceExpression', () => {
+    it('should parse a tag', () => {
+        expect(parseSourceExpression('#project')).toEqual({
+            unrestricted: false,
+            sources: [{ kind: 'tag', tag: '#project' }]
+        })
+    })
+
+    it('should parse a folder', () => {
+        expect(parseSourceExpression('"Projects/Active"')).toEqual({
+            unrestricted: false,
+            sources: [{ kind: 'folder', path: 'Projects/Active' }]
+        })
+    })
+
+    it('should parse links and outgoing links', () => {
+        expect(parseSourceExpression('[[Index|alias]] or outgoing([[Index#Heading]])')).toEqual({
+            unrestricted: false,
+            sources: [
+                { kind: 'linksTo', link: 'Index' },
+                { kind: 'linkedFrom', link: 'Index' }
+            ]
+        })
+    })
+
+    it('should treat [[]] and [[#]] as the host note', () => {
+        expect(parseSourceExpression('[[]] and [[#]]').sources).toEqual([
+            { kind: 'linksTo', link: '' },
+            { kind: 'linksTo', link: '' }
+        ])
+    })
+
+    it('should ignore negated sources combined with and', () => {
+        expect(parseSourceExpression('"Projects" and -#archived')).toEqual({
+            unrestricted: false,
+            sources: [{ kind: 'folder', path: 'Projects' }]
+        })
+    })
+
+    it('should be unrestricted for negations combined with or', () => {
+        expect(parseSourceExpression('#a or -#b').unrestricted).toBe(true)
+    })
+
+    it('should be unrestricted for negation-only expressions', () => {
+        expect(parseSourceExpression('-#archived').unrestricted).toBe(true)
+    })
+
+    it('should be unrestricted for the whole vault folder', () => {
+        expect(parseSourceExpression('""').unrestricted).toBe(true)
+    })
+
+    it('should be unrestricted for unknown words', () => {
+        expect(parseSourceExpression('something').unrestricted).toBe(true)
+    })
+
+    it('should be unrestricted for an empty expression', () => {
+        expect(parseSourceExpression('   ').unrestricted).toBe(true)
+    })
+})
+
+describe('extractQueryDependencies', () => {
+    it('should stop at the next clause', () => {
+        expect(
+            extractQueryDependencies(
+                'TABLE status FROM #project WHERE status = "active" SORT file.name'
+            )
+        ).toEqual({ unrestricted: false, sources: [{ kind: 'tag', tag: '#project' }] })
+    })
+
+    it('should be case insensitive', () => {
+        expect(extractQueryDependencies('list from "Projects"').sources).toEqual([
+            { kind: 'folder', path: 'Projects' }
+        ])
+    })
+
+    it('should not mistake a FROM inside a string for the clause', () => {
+        expect(extractQueryDependencies('TABLE "from here" AS label FROM #a').sources).toEqual([
+            { kind: 'tag', tag: '#a' }
+        ])
+    })
+
+    it('should be unrestricted without a FROM clause', () => {
+        expect(extractQueryDependencies('LIST WHERE status = "active"').unrestricted).toBe(true)
+    })
+})
+
+describe('extractDataviewJSDependencies', () => {
+    it('should parse string literal arguments of dv.pages', () => {
+        expect(extractDataviewJSDependencies('dv.list(dv.pages("#project").file.link)')).toEqual({
+            unrestricted: false,
+            sources: [{ kind: 'tag', tag: '#project' }]
+        })
+    })
+
+    it('should parse dv.page and dv.query arguments', () => {
+        expect(
+            extractDataviewJSDependencies(
+                "const p = dv.page('Index')\nawait dv.query('LIST FROM \"Projects\"')"
+            ).sources
+        ).toEqual([
+            { kind: 'file', link: 'Index' },
+            { kind: 'folder', path: 'Projects' }
+        ])
+    })
+
+    it('should only depend on the host note when reading dv.current()', () => {
+        expect(extractDataviewJSDependencies('dv.paragraph(dv.current().file.name)')).toEqual({
+            unrestricted: false,
+            sources: []
+        })
+    })
+
+    it('should be unrestricted for dv.pages() without arguments', () => {
+        expect(extractDataviewJSDependencies('dv.table([], dv.pages())').unrestricted).toBe(true)
+    })
+
+    it('should be unrestricted for computed arguments', () => {
+        expect(extractDataviewJSDependencies('dv.pages(source)').unrestricted).toBe(true)
+    })
+
+    it('should be unrestricted when reading files through dv.io', () => {
+        expect(extractDataviewJSDependencies('await dv.io.load("data.csv")').unrestricted).toBe(
+            true
+        )
+    })
+
+    it('should be unrestricted when running a view script', () => {
+        expect(
+            extractDataviewJSDependencies('await dv.view("views/tasks", { tag: "#a" })')
+                .unrestricted
+        ).toBe(true)
+    })
+})
+
+describe('extractInlineQueryDependencies', () => {
+    it('should depend on linked notes', () => {
+        expect(extractInlineQueryDependencies('=[[Index]].status')).toEqual({
+            unrestricted: false,
+            sources: [{ kind: 'file', link: 'Index' }]
+        })
+    })
+
+    it('should only depend on the host note for this fields', () => {
+        expect(extractInlineQueryDependencies('=this.status').sources).toEqual([])
+    })
+
+    it('should depend on notes linking to the host for inlinks', () => {
+        expect(extractInlineQueryDependencies('=length(this.file.inlinks)').sources).toEqual([
+            { kind: 'linksTo', link: '' }
+        ])
+    })
+})
+
+describe('collectFileDependencies', () => {
+    const text = `<!-- QueryToSerialize: LIST FROM #project -->
+<!-- QueryToSerializeManual: LIST FROM #manual -->
+<!-- IQ: =[[Index]].status --><!-- /IQ -->
+<!-- DataviewJSToSerialize:
+dv.list(dv.pages("#js").file.link)
+-->`
+
+    it('should collect the dependencies of automatic queries', () => {
+        expect(collectFileDependencies(text, true)).toEqual([
+            { unrestricted: false, sources: [{ kind: 'tag', tag: '#project' }] },
+            { unrestricted: false, sources: [{ kind: 'file', link: 'Index' }] },
+            { unrestricted: false, sources: [{ kind: 'tag', tag: '#js' }] }
+        ])
+    })
+
+    it('should leave DataviewJS queries out when disabled', () => {
+        expect(collectFileDependencies(text, false)).toHaveLength(2)
+    })
+
+    it('should return nothing for a note without queries', () => {
+        expect(collectFileDependencies('# Just a note', true)).toEqual([])
+    })
+})
+
+describe('isAffectedByChange', () => {
+    it('should always be affected when unrestricted', () => {
+        expect(
+            isAffectedByChange({ unrestricted: true, sources: [] }, [snapshot('a.md')], CONTEXT)
+        ).toBe(true)
+    })
+
+    it('should match tags and sub-tags case-insensitively', () => {
+        const dependencies = extractQueryDependencies('LIST FROM #project')
+        expect(isAffectedByChange(dependencies, [snapshot('a.md', ['#Project'])], CONTEXT)).toBe(
+            true
+        )
+        expect(
+            isAffectedByChange(dependencies, [snapshot('a.md', ['#project/active'])], CONTEXT)
+        ).toBe(true)
+        expect(isAffectedByChange(dependencies, [snapshot('a.md', ['#projects'])], CONTEXT)).toBe(
+            false
+        )
+    })
+
+    it('should match a note that lost the tag through its previous snapshot', () => {
+        const dependencies = extractQueryDependencies('LIST FROM #project')
+        expect(
+            isAffectedByChange(
+                dependencies,
+                [snapshot('a.md', ['#project']), snapshot('a.md', [])],
+                CONTEXT
+            )
+        ).toBe(true)
+    })
+
+    it('should respect folder boundaries', () => {
+        const dependencies = extractQueryDependencies('LIST FROM "Projects"')
+        expect(isAffectedByChange(dependencies, [snapshot('Projects/a.md')], CONTEXT)).toBe(true)
+        expect(isAffectedByChange(dependencies, [snapshot('Projects.md')], CONTEXT)).toBe(true)
+        expect(isAffectedByChange(dependencies, [snapshot('Projects Archive/a.md')], CONTEXT)).toBe(
+            false
+        )
+    })
+
+    it('should match notes linking to the target', () => {
+        const dependencies = extractQueryDependencies('LIST FROM [[Index]]')
+        expect(
+            isAffectedByChange(dependencies, [snapshot('a.md', [], ['Index.md'])], CONTEXT)
+        ).toBe(true)
+        expect(isAffectedByChange(dependencies, [snapshot('a.md')], CONTEXT)).toBe(false)
+    })
+
+    it('should match notes linking to the host note', () => {
+        const dependencies = extractQueryDependencies('LIST FROM [[]]')
+        expect(isAffectedByChange(dependencies, [snapshot('a.md', [], ['Host.md'])], CONTEXT)).toBe(
+            true
+        )
+    })
+
+    it('should match the target and the notes it links to for outgoing links', () => {
+        const dependencies = extractQueryDependencies('LIST FROM outgoing([[Index]])')
+        expect(isAffectedByChange(dependencies, [snapshot('Index.md')], CONTEXT)).toBe(true)
+        expect(isAffectedByChange(dependencies, [snapshot('Projects/Project X.md')], CONTEXT)).toBe(
+            true
+        )
+        expect(isAffectedByChange(dependencies, [snapshot('Other.md')], CONTEXT)).toBe(false)
+    })
+
+    it('should match a specific note', () => {
+        const dependencies = extractInlineQueryDependencies('=[[Project X]].status')
+        expect(isAffectedByChange(dependencies, [snapshot('Projects/Project X.md')], CONTEXT)).toBe(
+            true
+        )
+        expect(isAffectedByChange(dependencies, [snapshot('Index.md')], CONTEXT)).toBe(false)
+    })
+
+    it('should not match unresolved links', () => {
+        const dependencies = extractInlineQueryDependencies('=[[Missing]].status')
+        expect(isAffectedByChange(dependencies, [snapshot('Missing.md')], CONTEXT)).toBe(false)
+    })
+})
@@ -0,0 +1,439 @@
+import { findQueries } from './find-queries.fn'
+import { findInlineQueries } from './find-inline-queries.fn'
+import { findDataviewJSQueries } from './find-dataviewjs-queries.fn'
+
+/**
+ * A single source a query reads its pages from.
+ * - 'tag': pages carrying the tag (or one of its sub-tags), e.g. `FROM #project`
+ * - 'folder': pages inside the folder, or the note itself, e.g. `FROM "Projects"`
+ * - 'linksTo': pages linking to the target, e.g. `FROM [[Index]]`
+ * - 'linkedFrom': pages the target links to, e.g. `FROM outgoing([[Index]])`
+ * - 'file': one specific note, e.g. `dv.page("Index")` or `=[[Index]].status`
+ *
+ * An empty `link` designates the note hosting the query (`[[]]`, `[[#]]`).
+ */
+export type QuerySource =
+    | { kind: 'tag'; tag: string }
+    | { kind: 'folder'; path: string }
+    | { kind: 'linksTo'; link: string }
+    | { kind: 'linkedFrom'; link: string }
+    | { kind: 'file'; link: string }
+
+/**
+ * What a query depends on.
+ *
+ * When `unrestricted` is true, the sources could not be narrowed down (no
+ * `FROM` clause, negations mixed with `or`, computed DataviewJS arguments...)
+ * and the query must be considered affected by any change in the vault.
+ */
+export interface QueryDependencies {
+    unrestricted: boolean
+    sources: QuerySource[]
+}
+
+/**
+ * The state of a changed note, before or after the change.
+ */
+export interface FileChangeSnapshot {
+    /** Path of the note */
+    path: string
+    /** Tags of the note, with their leading `#` */
+    tags: string[]
+    /** Resolved paths of the notes it links to */
+    outlinks: string[]
+}
+
+/**
+ * Lookups needed to match link-based sources against a change.
+ */
+export interface DependencyMatchContext {
+    /** Path of the note hosting the query */
+    hostPath: string
+    /** Resolve a link text to the path of the note it points to */
+    resolveLink: (linkpath: string, sourcePath: string) => string | null
+    /** Resolved paths of the notes the given note links to */
+    getOutlinks: (path: string) => string[]
+}
+
+const UNRESTRICTED: QueryDependencies = { unrestricted: true, sources: [] }
+
+/**
+ * Keywords ending the `FROM` clause of a DQL query
+ */
+const CLAUSE_KEYWORDS = new Set(['where', 'sort', 'group', 'flatten', 'limit'])
+
+type SourceToken =
+    | { type: 'source'; source: QuerySource }
+    | { type: 'and' | 'or' | 'not' | 'paren' }
+    | { type: 'word'; value: string }
+
+/**
+ * Turn the part of a query following `FROM` into source tokens.
+ * Stops at the first clause keyword found outside of a string.
+ */
+function tokenizeSources(text: string): SourceToken[] | null {
+    const tokens: SourceToken[] = []
+    let i = 0
+
+    while (i < text.length) {
+        const char = text[i]!
+
+        if (/\s/.test(char)) {
+            i++
+            continue
+        }
+
+        if (char === '(' || char === ')') {
+            tokens.push({ type: 'paren' })
+            i++
+            continue
+        }
+
+        if (char === '-' || char === '!') {
+            tokens.push({ type: 'not' })
+            i++
+            continue
+        }
+
+        if (char === '"') {
+            const end = text.indexOf('"', i + 1)
+            if (end === -1) {
+                return null
+            }
+            tokens.push({
+                type: 'source',
+                source: { kind: 'folder', path: text.slice(i + 1, end) }
+            })
+            i = end + 1
+            continue
+        }
+
+        if (char === '#') {
+            const match = /^#[^\s()"]+/.exec(text.slice(i))
+            if (!match) {
+                return null
+            }
+            tokens.push({ type: 'source', source: { kind: 'tag', tag: match[0] } })
+            i += match[0].length
+            continue
+        }
+
+        if (text.startsWith('[[', i)) {
+            const end = text.indexOf(']]', i + 2)
+            if (end === -1) {
+                return null
+            }
+            tokens.push({
+                type: 'source',
+                source: { kind: 'linksTo', link: normalizeLink(text.slice(i + 2, end)) }
+            })
+            i = end + 2
+            continue
+        }
+
+        const outgoing = /^outgoing\s*\(\s*\[\[([^\]]*)\]\]\s*\)/i.exec(text.slice(i))
+        if (outgoing) {
+            tokens.push({
+                type: 'source',
+                source: { kind: 'linkedFrom', link: normalizeLink(outgoing[1] ?? '') }
+            })
+            i += outgoing[0].length
+            continue
+        }
+
+        const word = /^[^\s()"#[]+/.exec(text.slice(i))
+        if (!word) {
+            return null
+        }
+        const lower = word[0].toLowerCase()
+        if (CLAUSE_KEYWORDS.has(lower)) {
+            break
+        }
+        if (lower === 'and' || lower === 'or') {
+            tokens.push({ type: lower })
+        } else {
+            tokens.push({ type: 'word', value: word[0] })
+        }
+        i += word[0].length
+    }
+
+    return tokens
+}
+
+/**
+ * Drop the alias and the heading/block part of a link, keeping its target.
+ * `[[]]` and `[[#Heading]]` designate the host note, returned as ''.
+ */
+function normalizeLink(link: string): string {
+    return link.split('|')[0]!.split('#')[0]!.trim()
+}
+
+/**
+ * Find the index right after the top-level `FROM` keyword, ignoring string contents.
+ */
+function findFromClauseStart(query: string): number {
+    let inString = false
+    for (let i = 0; i < query.length; i++) {
+        const char = query[i]!
+        if (char === '"' && query[i - 1] !== '\\') {
+            inString = !inString
+            continue
+        }
+        if (inString) {
+            continue
+        }
+        if ((i === 0 || /\s/.test(query[i - 1]!)) && /^from(?:\s|$)/i.test(query.slice(i))) {
+            return i + 4
+        }
+    }
+    return -1
+}
+
+/**
+ * Turn a source expression (the content of a `FROM` clause, or the argument of
+ * `dv.pages()`) into dependencies.
+ *
+ * The result is deliberately a superset: a page matching ANY positive source
+ * is considered relevant, even when the sources are combined with `and`. The
+ * only combinations that cannot be narrowed down are negations combined with
+ * `or` (e.g. `#a or -#b`) and negation-only expressions, which both reach
+ * pages outside of every listed source.
+ */
+export const parseSourceExpression = (expression: string): QueryDependencies => {
+    if (expression.trim() === '') {
+        return UNRESTRICTED
+    }
+
+    const tokens = tokenizeSources(expression)
+    if (!tokens) {
+        return UNRESTRICTED
+    }
+
+    const sources: QuerySource[] = []
+    let hasOr = false
+    let hasNegation = false
+    let negateNext = false
+
+    for (const token of tokens) {
+        switch (token.type) {
+            case 'word':
+                // Anything we don't understand may widen the selection
+                return UNRESTRICTED
+            case 'or':
+                hasOr = true
+                break
+            case 'not':
+                negateNext = true
+                hasNegation = true
+                break
+            case 'source':
+                if (!negateNext) {
+                    if (token.source.kind === 'folder' && token.source.path === '') {
+                        return UNRESTRICTED
+                    }
+                    sources.push(token.source)
+                }
+                negateNext = false
+                break
+            default:
+                break
+        }
+    }
+
+    if (sources.length === 0 || (hasOr && hasNegation)) {
+        return UNRESTRICTED
+    }
+
+    return { unrestricted: false, sources }
+}
+
+/**
+ * Extract the dependencies of a DQL query (LIST, TABLE, TASK...) from its `FROM` clause.
+ * Queries without a `FROM` clause read every page of the vault.
+ */
+export const extractQueryDependencies = (query: string): QueryDependencies => {
+    const fromIndex = findFromClauseStart(query)
+    if (fromIndex === -1) {
+        return UNRESTRICTED
+    }
+    return parseSourceExpression(query.slice(fromIndex))
+}
+
+/**
+ * Matches `dv.<method>(` calls that read pages, run queries or run view scripts
+ */
+const DVJS_DATA_CALL_REGEX =
+    /\bdv\.(pages|pagePaths|page|query|tryQuery|queryMarkdown|tryQueryMarkdown|execute|view|io\.\w+)\s*\(/g
+
+/**
+ * Matches a string literal argument followed by the end of the call or a comma
+ */
+const STRING_ARGUMENT_REGEX = /^\s*(["'`])((?:\\.|(?!\1)[^\\])*)\1\s*[,)]/
+
+/**
+ * Extract the dependencies of a DataviewJS query.
+ *
+ * Only string literal arguments can be analyzed: `dv.pages('#project')`,
+ * `dv.page("Index")` and `dv.query("LIST FROM #a")`. A call without arguments,
+ * with a computed argument, reading files through `dv.io` or running a view script
+ * (which may read anything) makes the query unrestricted. Code that only reads `dv.current()` depends on its host note alone.
+ */
+export const extractDataviewJSDependencies = (jsCode: string): QueryDependencies => {
+    const sources: QuerySource[] = []
+
+    DVJS_DATA_CALL_REGEX.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = DVJS_DATA_CALL_REGEX.exec(jsCode)) !== null) {
+        const method = match[1]!
+        const argument = STRING_ARGUMENT_REGEX.exec(
+            jsCode.slice(match.index + match[0].length)
+        )?.[2]
+
+        if (argument === undefined || method === 'view' || method.startsWith('io.')) {
+            return UNRESTRICTED
+        }
+
+        let dependencies: QueryDependencies
+        if (method === 'pages' || method === 'pagePaths') {
+            dependencies = parseSourceExpression(argument)
+        } else if (method === 'page') {
+            dependencies = {
+                unrestricted: false,
+                sources: [{ kind: 'file', link: normalizeLink(argument) }]
+            }
+        } else {
+            dependencies = extractQueryDependencies(argument)
+        }
+
+        if (dependencies.unrestricted) {
+            return UNRESTRICTED
+        }
+        sources.push(...dependencies.sources)
+    }
+
+    return { unrestricted: false, sources }
+}
+
+/**
+ * Extract the dependencies of an inline expression such as `=[[Index]].status`.
+ * Expressions reading `this` only depend on their host note, except for
+ * `this.file.inlinks`, which changes whenever another note links to the host.
+ */
+export const extractInlineQueryDependencies = (expression: string): QueryDependencies => {
+    const sources: QuerySource[] = []
+
+    for (const link of expression.matchAll(/\[\[([^\]]*)\]\]/g)) {
+        const target = normalizeLink(link[1] ?? '')
+        if (target !== '') {
+            sources.push({ kind: 'file', link: target })
+        }
+    }
+
+    if (/\binlinks\b/.test(expression)) {
+        sources.push({ kind: 'linksTo', link: '' })
+    }
+
+    return { unrestricted: false, sources }
+}
+
+/**
+ * Collect the dependencies of every query of a note that can run automatically.
+ * Manual queries are left out: a change elsewhere never refreshes them.
+ *
+ * @param text The note content
+ * @param includeDataviewJS Whether DataviewJS queries are processed
+ */
+export const collectFileDependencies = (
+    text: string,
+    includeDataviewJS: boolean
+): QueryDependencies[] => {
+    const dependencies: QueryDependencies[] = []
+
+    for (const query of findQueries(text)) {
+        if (query.updateMode !== 'manual') {
+            dependencies.push(extractQueryDependencies(query.query))
+        }
+    }
+
+    for (const inlineQuery of findInlineQueries(text)) {
+        if (inlineQuery.updateMode !== 'manual') {
+            dependencies.push(extractInlineQueryDependencies(inlineQuery.expression))
+        }
+    }
+
+    if (includeDataviewJS) {
+        for (const dvjsQuery of findDataviewJSQueries(text)) {
+            if (dvjsQuery.updateMode !== 'manual') {
+                dependencies.push(extractDataviewJSDependencies(dvjsQuery.jsCode))
+            }
+        }
+    }
+
+    return dependencies
+}
+
+const isInFolder = (path: string, folder: string): boolean => {
+    const normalized = folder.replace(/\/+$/, '')
+    return path === normalized || path === `${normalized}.md` || path.startsWith(`${normalized}/`)
+}
+
+const hasTag = (tags: string[], tag: string): boolean => {
+    const wanted = tag.toLowerCase()
+    return tags.some((candidate) => {
+        const lower = candidate.toLowerCase()
+        return lower === wanted || lower.startsWith(`${wanted}/`)
+    })
+}
+
+/**
+ * Whether a source may select a different set of pages, or render a page
+ * differently, after a note went from one state to another.
+ */
+const isSourceAffected = (
+    source: QuerySource,
+    snapshot: FileChangeSnapshot,
+    context: DependencyMatchContext
+): boolean => {
+    const resolve = (link: string): string | null =>
+        link === '' ? context.hostPath : context.resolveLink(link, context.hostPath)
+
+    switch (source.kind) {
+        case 'tag':
+            return hasTag(snapshot.tags, source.tag)
+        case 'folder':
+            return isInFolder(snapshot.path, source.path)
+        case 'linksTo': {
+            const target = resolve(source.link)
+            return target !== null && snapshot.outlinks.includes(target)
+        }
+        case 'linkedFrom': {
+            const target = resolve(source.link)
+            return (
+                target !== null &&
+                (snapshot.path === target || context.getOutlinks(target).includes(snapshot.path))
+            )
+        }
+        case 'file':
+            return resolve(source.link) === snapshot.path
+    }
+}
+
+/**
+ * Decide whether a query may produce a different result after a change.
+ *
+ * @param dependencies The dependencies of the query
+ * @param snapshots The state of the changed note before and/or after the change
+ * @param context Link lookups and the path of the note hosting the query
+ */
+export const isAffectedByChange = (
+    dependencies: QueryDependencies,
+    snapshots: FileChangeSnapshot[],
+    context: DependencyMatchContext
+): boolean => {
+    if (dependencies.unrestricted) {
+        return true
+    }
+    return dependencies.sources.some((source) =>
+        snapshots.some((snapshot) => isSourceAffected(source, snapshot, context))
+    )
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'bun:test'
+import { QueryDependencyIndex } from './query-dependency-index'
+import { extractQueryDependencies } from './query-dependencies.fn'
+
+const CONTEXT = {
+    resolveLink: () => null,
+    getOutlinks: () => []
+}
+
+describe('QueryDependencyIndex', () => {
+    it('should not index notes without queries', () => {
+        const index = new QueryDependencyIndex()
+        index.set('a.md', [])
+
+        expect(index.has('a.md')).toBe(false)
+        expect(index.size).toBe(0)
+    })
+
+    it('should find the notes holding affected queries', () => {
+        const index = new QueryDependencyIndex()
+        index.set('Projects.md', [extractQueryDependencies('LIST FROM #project')])
+        index.set('Books.md', [extractQueryDependencies('LIST FROM #book')])
+
+        const affected = index.findAffectedFiles(
+            [{ path: 'Projects/X.md', tags: ['#project'], outlinks: [] }],
+            CONTEXT
+        )
+
+        expect(affected).toEqual(['Projects.md'])
+    })
+
+    it('should never return the changed note itself', () => {
+        const index = new QueryDependencyIndex()
+        index.set('a.md', [extractQueryDependencies('LIST')])
+        index.set('b.md', [extractQueryDependencies('LIST')])
+
+        const affected = index.findAffectedFiles(
+            [{ path: 'a.md', tags: [], outlinks: [] }],
+            CONTEXT
+        )
+
+        expect(affected).toEqual(['b.md'])
+    })
+
+    it('should move entries on rename', () => {
+        const index = new QueryDependencyIndex()
+        index.set('old.md', [extractQueryDependencies('LIST')])
+
+        index.rename('old.md', 'new.md')
+
+        expect(index.has('old.md')).toBe(false)
+        expect(index.has('new.md')).toBe(true)
+    })
+
+    it('should remove entries on delete and clear', () => {
+        const index = new QueryDependencyIndex()
+        index.set('a.md', [extractQueryDependencies('LIST')])
+        index.set('b.md', [extractQueryDependencies('LIST')])
+
+        index.delete('a.md')
+        expect(index.has('a.md')).toBe(false)
+
+        index.clear()
+        expect(index.size).toBe(0)
+    })
+})
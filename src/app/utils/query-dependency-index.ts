@@ -0,0 +1,88 @@
+import {
+    isAffectedByChange,
+    type DependencyMatchContext,
+    type FileChangeSnapshot,
+    type QueryDependencies
+} from './query-dependencies.fn'
+
+/**
+ * In-memory index of the notes holding queries, with what each query depends on.
+ *
+ * Used to work out which notes must be re-serialized when another note changes,
+ * instead of re-processing whole folders on every change.
+ */
+export class QueryDependencyIndex {
+    private readonly entries = new Map<string, QueryDependencies[]>()
+
+    /**
+     * Number of notes holding at least one indexed query
+     */
+    get size(): number {
+        return this.entries.size
+    }
+
+    /**
+     * Record the dependencies of the queries found in a note.
+     * A note without queries is removed from the index.
+     */
+    set(path: string, dependencies: QueryDependencies[]): void {
+        if (dependencies.length === 0) {
+            this.entries.delete(path)
+            return
+        }
+        this.entries.set(path, dependencies)
+    }
+
+    has(path: string): boolean {
+        return this.entries.has(path)
+    }
+
+    delete(path: string): void {
+        this.entries.delete(path)
+    }
+
+    rename(oldPath: string, newPath: string): void {
+        const dependencies = this.entries.get(oldPath)
+        if (!dependencies) {
+            return
+        }
+        this.entries.delete(oldPath)
+        this.entries.set(newPath, dependencies)
+    }
+
+    clear(): void {
+        this.entries.clear()
+    }
+
+    /**
+     * Find the notes holding at least one query affected by a change.
+     * The notes that changed are never returned: their own queries are
+     * processed as part of the change itself.
+     *
+     * @param snapshots The state of the changed note before and/or after the change
+     * @param context Link lookups used to match link-based sources
+     */
+    findAffectedFiles(
+        snapshots: FileChangeSnapshot[],
+        context: Omit<DependencyMatchContext, 'hostPath'>
+    ): string[] {
+        const changedPaths = new Set(snapshots.map((snapshot) => snapshot.path))
+        const affected: string[] = []
+
+        for (const [hostPath, dependencies] of this.entries) {
+            if (changedPaths.has(hostPath)) {
+                continue
+            }
+            const matchContext = { ...context, hostPath }
+            if (
+                dependencies.some((queryDependencies) =>
+                    isAffectedByChange(queryDependencies, snapshots, matchContext)
+                )
+            ) {
+                affected.push(hostPath)
+            }
+        }
+
+        return affected
+    }
+}
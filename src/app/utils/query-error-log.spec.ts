@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'bun:test'
+import { QueryErrorLog } from './query-error-log'
+
+describe('QueryErrorLog', () => {
+    const path = 'Dashboard.md'
+    const query = 'LIST FROM #project'
+
+    it('should count the repeated failures of a query', () => {
+        const log = new QueryErrorLog()
+
+        log.record(path, 'block', query, 'Parsing failed', 1)
+        log.record(path, 'block', query, 'Parsing failed', 5)
+
+        expect(log.get(path, 'block', query)).toEqual({
+            path,
+            type: 'block',
+            query,
+            message: 'Parsing failed',
+            firstSeen: 1,
+            lastSeen: 5,
+            count: 2
+        })
+        expect(log.get(path, 'inline', query)).toBeUndefined()
+        expect(log.size).toBe(1)
+    })
+
+    it('should start over when the error message changes', () => {
+        const log = new QueryErrorLog()
+        log.record(path, 'block', query, 'Parsing failed', 1)
+        log.record(path, 'block', query, 'Parsing failed', 2)
+
+        log.record(path, 'block', query, 'Unknown source', 3)
+
+        expect(log.get(path, 'block', query)).toMatchObject({
+            message: 'Unknown source',
+            firstSeen: 3,
+            count: 1
+        })
+    })
+
+    it('should remove the entry once the query succeeds', () => {
+        const log = new QueryErrorLog()
+        log.record(path, 'block', query, 'Parsing failed', 1)
+
+        expect(log.resolve(path, 'block', query)).toBe(true)
+        expect(log.resolve(path, 'block', query)).toBe(false)
+        expect(log.size).toBe(0)
+        expect(log.takePending()).toEqual([])
+    })
+
+    it('should take each new failure only once', () => {
+        const log = new QueryErrorLog()
+        log.record(path, 'block', query, 'Parsing failed', 1)
+        log.record('Other.md', 'inline', 'this.file.name', 'Unknown field', 1)
+
+        expect(log.takePending([path]).map((entry) => entry.path)).toEqual([path])
+
+        log.record(path, 'block', query, 'Parsing failed', 2)
+        expect(log.takePending([path])).toEqual([])
+        expect(log.takePending().map((entry) => entry.path)).toEqual(['Other.md'])
+
+        log.resolve(path, 'block', query)
+        log.record(path, 'block', query, 'Parsing failed', 3)
+        expect(log.takePending()).toHaveLength(1)
+    })
+
+    it('should list the most recent failures first', () => {
+        const log = new QueryErrorLog()
+        log.record(path, 'block', query, 'Parsing failed', 1)
+        log.record(path, 'inline', 'this.file.name', 'Unknown field', 2)
+
+        expect(log.getAll().map((entry) => entry.type)).toEqual(['inline', 'block'])
+    })
+
+    it('should forget the queries no longer in the note', () => {
+        const log = new QueryErrorLog()
+        log.record(path, 'block', query, 'Parsing failed', 1)
+        log.record(path, 'inline', 'this.file.name', 'Unknown field', 1)
+        log.record('Other.md', 'block', query, 'Parsing failed', 1)
+
+        expect(log.retain(path, [{ type: 'inline', query: 'this.file.name' }])).toBe(true)
+        expect(log.retain(path, [{ type: 'inline', query: 'this.file.name' }])).toBe(false)
+        expect(log.getAll().map((entry) => `${entry.path} ${entry.type}`)).toEqual([
+            'Dashboard.md inline',
+            'Other.md block'
+        ])
+    })
+
+    it('should follow renamed and deleted notes', () => {
+        const log = new QueryErrorLog()
+        log.record(path, 'block', query, 'Parsing failed', 1)
+
+        expect(log.rename(path, 'Archive/Dashboard.md')).toBe(true)
+        expect(log.get(path, 'block', query)).toBeUndefined()
+        expect(log.get('Archive/Dashboard.md', 'block', query)?.path).toBe('Archive/Dashboard.md')
+        expect(log.takePending(['Archive/Dashboard.md'])).toHaveLength(1)
+
+        expect(log.delete('Archive/Dashboard.md')).toBe(true)
+        expect(log.delete('Archive/Dashboard.md')).toBe(false)
+        expect(log.size).toBe(0)
+    })
+
+    it('should restore its persisted form, ignoring malformed entries', () => {
+        const log = new QueryErrorLog()
+        log.record(path, 'block', query, 'Parsing failed', 1)
+
+        const restored = new QueryErrorLog()
+        restored.restore([...log.toData(), { path: 'Broken.md' }, 'garbage'])
+
+        expect(restored.getAll()).toEqual(log.getAll())
+        expect(restored.takePending()).toEqual([])
+
+        restored.restore('garbage')
+        expect(restored.size).toBe(0)
+    })
+})
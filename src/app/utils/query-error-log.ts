@@ -0,0 +1,200 @@
+import type { QueryKind } from '../types/serializer-events.intf'
+import { buildQueryKey, renameQueryKey } from './query-key.fn'
+
+/**
+ * A query that currently fails, and how long it has been failing
+ */
+export interface QueryErrorEntry {
+    path: string
+    type: QueryKind
+    query: string
+    message: string
+    /** When the query first failed with this message */
+    firstSeen: number
+    /** When the query last failed with this message */
+    lastSeen: number
+    /** How many times the query failed with this message */
+    count: number
+}
+
+const QUERY_KINDS: readonly QueryKind[] = ['block', 'inline', 'dataviewjs', 'property']
+
+const isQueryErrorEntry = (value: unknown): value is QueryErrorEntry => {
+    if (typeof value !== 'object' || value === null) {
+        return false
+    }
+    const entry = value as QueryErrorEntry
+    return (
+        typeof entry.path === 'string' &&
+        QUERY_KINDS.includes(entry.type) &&
+        typeof entry.query === 'string' &&
+        typeof entry.message === 'string' &&
+        typeof entry.firstSeen === 'number' &&
+        typeof entry.lastSeen === 'number' &&
+        typeof entry.count === 'number'
+    )
+}
+
+/**
+ * The queries that currently fail, keyed by note path, kind of query and query text.
+ * An entry is removed as soon as its query succeeds again.
+ *
+ * New entries are pending until taken by `takePending`, so that a query failing over
+ * and over with the same error is only notified once.
+ */
+export class QueryErrorLog {
+    private readonly entries = new Map<string, QueryErrorEntry>()
+    private readonly pending = new Set<string>()
+
+    /**
+     * Number of failing queries
+     */
+    get size(): number {
+        return this.entries.size
+    }
+
+    get(path: string, type: QueryKind, query: string): QueryErrorEntry | undefined {
+        return this.entries.get(buildQueryKey(path, type, query))
+    }
+
+    /**
+     * The failing queries, most recently failed first
+     */
+    getAll(): QueryErrorEntry[] {
+        return [...this.entries.values()].sort((a, b) => b.lastSeen - a.lastSeen)
+    }
+
+    /**
+     * Record a failure of a query. A failure with the same message as the previous one
+     * is counted; a different message starts a new entry, which is pending again.
+     */
+    record(path: string, type: QueryKind, query: string, message: string, timestamp: number): void {
+        const key = buildQueryKey(path, type, query)
+        const existing = this.entries.get(key)
+
+        if (existing?.message === message) {
+            this.entries.set(key, { ...existing, lastSeen: timestamp, count: existing.count + 1 })
+            return
+        }
+
+        this.entries.set(key, {
+            path,
+            type,
+            query,
+            message,
+            firstSeen: timestamp,
+            lastSeen: timestamp,
+            count: 1
+        })
+        this.pending.add(key)
+    }
+
+    /**
+     * Record that a query succeeded, which removes its entry
+     *
+     * @returns Whether the query had an entry
+     */
+    resolve(path: string, type: QueryKind, query: string): boolean {
+        const key = buildQueryKey(path, type, query)
+        this.pending.delete(key)
+        return this.entries.delete(key)
+    }
+
+    /**
+     * Take the entries not notified yet, optionally only those of the given notes
+     */
+    takePending(paths?: string[]): QueryErrorEntry[] {
+        const taken: QueryErrorEntry[] = []
+        for (const key of [...this.pending]) {
+            const entry = this.entries.get(key)
+            if (!entry || !paths || paths.includes(entry.path)) {
+                this.pending.delete(key)
+                if (entry) {
+                    taken.push(entry)
+                }
+            }
+        }
+        return taken
+    }
+
+    /**
+     * Remove the entries of a note whose query is not among the given ones, as happens
+     * when a failing query is edited or removed
+     *
+     * @returns Whether entries were removed
+     */
+    retain(path: string, queries: Array<{ type: QueryKind; query: string }>): boolean {
+        const keys = new Set(queries.map(({ type, query }) => buildQueryKey(path, type, query)))
+        let removed = false
+        for (const [key, entry] of [...this.entries]) {
+            if (entry.path === path && !keys.has(key)) {
+                this.entries.delete(key)
+                this.pending.delete(key)
+                removed = true
+            }
+        }
+        return removed
+    }
+
+    /**
+     * @returns Whether the note had entries
+     */
+    delete(path: string): boolean {
+        let deleted = false
+        for (const [key, entry] of [...this.entries]) {
+            if (entry.path === path) {
+                this.entries.delete(key)
+                this.pending.delete(key)
+                deleted = true
+            }
+        }
+        return deleted
+    }
+
+    /**
+     * @returns Whether the note had entries
+     */
+    rename(oldPath: string, newPath: string): boolean {
+        let renamed = false
+        for (const [key, entry] of [...this.entries]) {
+            const newKey = renameQueryKey(key, oldPath, newPath)
+            if (newKey !== undefined) {
+                this.entries.delete(key)
+                this.entries.set(newKey, { ...entry, path: newPath })
+                if (this.pending.delete(key)) {
+                    this.pending.add(newKey)
+                }
+                renamed = true
+            }
+        }
+        return renamed
+    }
+
+    clear(): void {
+        this.entries.clear()
+        this.pending.clear()
+    }
+
+    /**
+     * Restore the log from its persisted form. Malformed entries are ignored, and the
+     * restored entries are not pending: they were notified before.
+     */
+    restore(data: unknown): void {
+        this.clear()
+
+        if (!Array.isArray(data)) {
+            return
+        }
+
+        for (const entry of data.filter(isQueryErrorEntry)) {
+            this.entries.set(buildQueryKey(entry.path, entry.type, entry.query), entry)
+        }
+    }
+
+    /**
+     * The persisted form of the log
+     */
+    toData(): QueryErrorEntry[] {
+        return [...this.entries.values()]
+    }
+}
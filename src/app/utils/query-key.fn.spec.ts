@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'bun:test'
+import {
+    buildQueryKey,
+    isQueryKey,
+    pathOfQueryKey,
+    queryOfQueryKey,
+    renameQueryKey
+} from './query-key.fn'
+
+describe('query keys', () => {
+    it('should keep the path and the query of a key, even a multi-line query', () => {
+        const key = buildQueryKey('Notes/A.md', 'LIST\nFROM #a')
+
+        expect(isQueryKey(key)).toBe(true)
+        expect(pathOfQueryKey(key)).toBe('Notes/A.md')
+        expect(queryOfQueryKey(key)).toBe('LIST\nFROM #a')
+    })
+
+    it('should move the keys of a renamed note only', () => {
+        const key = buildQueryKey('A.md', 'block', 'LIST')
+
+        expect(renameQueryKey(key, 'A.md', 'B.md')).toBe(buildQueryKey('B.md', 'block', 'LIST'))
+        expect(renameQueryKey(key, 'A', 'B.md')).toBeUndefined()
+    })
+})
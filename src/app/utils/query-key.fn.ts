@@ -0,0 +1,41 @@
+/**
+ * Separator between the parts of the keys identifying the queries of notes, in the
+ * registries of the plugin (error log, profiler, statuses, schedule, result history).
+ * Paths and query kinds cannot contain a newline; queries can, so they come last.
+ */
+const QUERY_KEY_SEPARATOR = '\n'
+
+/**
+ * Build the key of a query of a note
+ *
+ * @param path The path of the note
+ * @param parts What identifies the query in the note (e.g. its kind), the query last
+ */
+export const buildQueryKey = (path: string, ...parts: string[]): string =>
+    [path, ...parts].join(QUERY_KEY_SEPARATOR)
+
+/**
+ * Whether a string is shaped like a query key, e.g. when restoring persisted keys
+ */
+export const isQueryKey = (key: string): boolean => key.includes(QUERY_KEY_SEPARATOR)
+
+export const pathOfQueryKey = (key: string): string =>
+    key.slice(0, key.indexOf(QUERY_KEY_SEPARATOR))
+
+/**
+ * The query of a key built from a path and a query only
+ */
+export const queryOfQueryKey = (key: string): string =>
+    key.slice(key.indexOf(QUERY_KEY_SEPARATOR) + QUERY_KEY_SEPARATOR.length)
+
+/**
+ * The key of the same query, once its note is renamed
+ *
+ * @returns The new key, or undefined when the key belongs to another note
+ */
+export const renameQueryKey = (
+    key: string,
+    oldPath: string,
+    newPath: string
+): string | undefined =>
+    pathOfQueryKey(key) === oldPath ? `${newPath}${key.slice(oldPath.length)}` : undefined
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'bun:test'
+import { QueryProfiler, type QueryTiming } from './query-profiler'
+
+describe('QueryProfiler', () => {
+    const timing: QueryTiming = {
+        path: 'Dashboard.md',
+        type: 'block',
+        query: 'LIST FROM #project',
+        durationMs: 10,
+        resultSize: 120,
+        outcome: 'written'
+    }
+
+    it('should aggregate the runs of a query', () => {
+        const profiler = new QueryProfiler()
+
+        profiler.recordQuery(timing, 1)
+        profiler.recordQuery({ ...timing, durationMs: 30, outcome: 'unchanged' }, 2)
+        profiler.recordQuery({ ...timing, durationMs: 5, resultSize: 0, outcome: 'error' }, 3)
+
+        expect(profiler.getQueryProfiles()).toEqual([
+            {
+                path: 'Dashboard.md',
+                type: 'block',
+                query: 'LIST FROM #project',
+                runs: 3,
+                totalMs: 45,
+                maxMs: 30,
+                lastMs: 5,
+                lastResultSize: 120,
+                writes: 1,
+                skipped: 1,
+                errors: 1,
+                lastRunAt: 3
+            }
+        ])
+    })
+
+    it('should list the most time-consuming queries and notes first', () => {
+        const profiler = new QueryProfiler()
+        profiler.recordQuery(timing, 1)
+        profiler.recordQuery({ ...timing, type: 'inline', query: 'this.file.name' }, 1)
+        profiler.recordQuery({ ...timing, type: 'inline', query: 'this.file.name' }, 2)
+        profiler.recordFile('Dashboard.md', 12, true, 1)
+        profiler.recordFile('Slow.md', 50, false, 1)
+        profiler.recordFile('Dashboard.md', 8, false, 2)
+
+        expect(profiler.getQueryProfiles().map((profile) => profile.type)).toEqual([
+            'inline',
+            'block'
+        ])
+        expect(profiler.getFileProfiles()).toEqual([
+            {
+                path: 'Slow.md',
+                runs: 1,
+                totalMs: 50,
+                maxMs: 50,
+                lastMs: 50,
+                writes: 0,
+                lastRunAt: 1
+            },
+            {
+                path: 'Dashboard.md',
+                runs: 2,
+                totalMs: 20,
+                maxMs: 12,
+                lastMs: 8,
+                writes: 1,
+                lastRunAt: 2
+            }
+        ])
+    })
+
+    it('should follow renamed and deleted notes', () => {
+        const profiler = new QueryProfiler()
+        profiler.recordQuery(timing, 1)
+        profiler.recordFile('Dashboard.md', 12, true, 1)
+
+        profiler.rename('Dashboard.md', 'Archive/Dashboard.md')
+        expect(profiler.getQueryProfiles()[0]?.path).toBe('Archive/Dashboard.md')
+        expect(profiler.getFileProfiles()[0]?.path).toBe('Archive/Dashboard.md')
+
+        profiler.delete('Archive/Dashboard.md')
+        expect(profiler.getQueryProfiles()).toEqual([])
+        expect(profiler.getFileProfiles()).toEqual([])
+    })
+})
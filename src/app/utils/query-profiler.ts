@@ -0,0 +1,151 @@
+import type { QueryKind } from '../types/serializer-events.intf'
+import { buildQueryKey, renameQueryKey } from './query-key.fn'
+
+/**
+ * What became of the result of a query: written to the note, skipped by the
+ * idempotency check because it did not change, or not computed because of an error
+ */
+export type QueryOutcome = 'written' | 'unchanged' | 'error'
+
+/**
+ * A single serialization of a query
+ */
+export interface QueryTiming {
+    path: string
+    type: QueryKind
+    query: string
+    durationMs: number
+    /** Length of the serialized result, in characters */
+    resultSize: number
+    outcome: QueryOutcome
+}
+
+/**
+ * The serializations of a query since the plugin was loaded
+ */
+export interface QueryProfile {
+    path: string
+    type: QueryKind
+    query: string
+    runs: number
+    totalMs: number
+    maxMs: number
+    lastMs: number
+    /** Length of the last serialized result, in characters */
+    lastResultSize: number
+    writes: number
+    /** Runs whose result was identical to the one in the note */
+    skipped: number
+    errors: number
+    lastRunAt: number
+}
+
+/**
+ * The processing of a note since the plugin was loaded: reading it, serializing its
+ * queries and writing it
+ */
+export interface FileProfile {
+    path: string
+    runs: number
+    totalMs: number
+    maxMs: number
+    lastMs: number
+    writes: number
+    lastRunAt: number
+}
+
+/**
+ * Execution times of the queries and notes serialized since the plugin was loaded,
+ * so that the slow ones can be found
+ */
+export class QueryProfiler {
+    private readonly queries = new Map<string, QueryProfile>()
+    private readonly files = new Map<string, FileProfile>()
+
+    recordQuery(timing: QueryTiming, timestamp: number): void {
+        const key = buildQueryKey(timing.path, timing.type, timing.query)
+        const profile: QueryProfile = this.queries.get(key) ?? {
+            path: timing.path,
+            type: timing.type,
+            query: timing.query,
+            runs: 0,
+            totalMs: 0,
+            maxMs: 0,
+            lastMs: 0,
+            lastResultSize: 0,
+            writes: 0,
+            skipped: 0,
+            errors: 0,
+            lastRunAt: timestamp
+        }
+
+        this.queries.set(key, {
+            ...profile,
+            runs: profile.runs + 1,
+            totalMs: profile.totalMs + timing.durationMs,
+            maxMs: Math.max(profile.maxMs, timing.durationMs),
+            lastMs: timing.durationMs,
+            lastResultSize: timing.outcome === 'error' ? profile.lastResultSize : timing.resultSize,
+            writes: profile.writes + (timing.outcome === 'written' ? 1 : 0),
+            skipped: profile.skipped + (timing.outcome === 'unchanged' ? 1 : 0),
+            errors: profile.errors + (timing.outcome === 'error' ? 1 : 0),
+            lastRunAt: timestamp
+        })
+    }
+
+    recordFile(path: string, durationMs: number, written: boolean, timestamp: number): void {
+        const profile = this.files.get(path)
+        this.files.set(path, {
+            path,
+            runs: (profile?.runs ?? 0) + 1,
+            totalMs: (profile?.totalMs ?? 0) + durationMs,
+            maxMs: Math.max(profile?.maxMs ?? 0, durationMs),
+            lastMs: durationMs,
+            writes: (profile?.writes ?? 0) + (written ? 1 : 0),
+            lastRunAt: timestamp
+        })
+    }
+
+    /**
+     * The profiles of the queries, most time-consuming first
+     */
+    getQueryProfiles(): QueryProfile[] {
+        return [...this.queries.values()].sort((a, b) => b.totalMs - a.totalMs)
+    }
+
+    /**
+     * The profiles of the notes, most time-consuming first
+     */
+    getFileProfiles(): FileProfile[] {
+        return [...this.files.values()].sort((a, b) => b.totalMs - a.totalMs)
+    }
+
+    delete(path: string): void {
+        this.files.delete(path)
+        for (const [key, profile] of [...this.queries]) {
+            if (profile.path === path) {
+                this.queries.delete(key)
+            }
+        }
+    }
+
+    rename(oldPath: string, newPath: string): void {
+        const fileProfile = this.files.get(oldPath)
+        if (fileProfile) {
+            this.files.delete(oldPath)
+            this.files.set(newPath, { ...fileProfile, path: newPath })
+        }
+        for (const [key, profile] of [...this.queries]) {
+            const newKey = renameQueryKey(key, oldPath, newPath)
+            if (newKey !== undefined) {
+                this.queries.delete(key)
+                this.queries.set(newKey, { ...profile, path: newPath })
+            }
+        }
+    }
+
+    clear(): void {
+        this.queries.clear()
+        this.files.clear()
+    }
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'bun:test'
+import { QuerySchedule } from './query-schedule'
+import type { DeviceLocalStore } from './device-disabled'
+import { QUERY_SCHEDULE_STORAGE_KEY } from '../constants'
+
+const HOUR = 60 * 60 * 1000
+
+const createStore = (): DeviceLocalStore & { data: Record<string, unknown> } => {
+    const data: Record<string, unknown> = {}
+    return {
+        data,
+        loadLocalStorage: (key) => data[key] ?? null,
+        saveLocalStorage: (key, value) => {
+            data[key] = value
+        }
+    }
+}
+
+describe('QuerySchedule', () => {
+    it('should consider queries that never ran as due', () => {
+        const schedule = new QuerySchedule()
+        schedule.set('Dashboard.md', [{ query: 'TASK', refreshIntervalMs: HOUR }])
+
+        expect(schedule.findDueFiles(0)).toEqual(['Dashboard.md'])
+    })
+
+    it('should consider queries due once their interval elapsed', () => {
+        const schedule = new QuerySchedule()
+        schedule.set('Dashboard.md', [{ query: 'TASK', refreshIntervalMs: HOUR }])
+        schedule.markRun('Dashboard.md', 1000)
+
+        expect(schedule.findDueFiles(1000 + HOUR - 1)).toEqual([])
+        expect(schedule.findDueFiles(1000 + HOUR)).toEqual(['Dashboard.md'])
+    })
+
+    it('should only mark the due queries of a note as run', () => {
+        const schedule = new QuerySchedule()
+        schedule.set('Dashboard.md', [
+            { query: 'TASK', refreshIntervalMs: HOUR },
+            { query: 'LIST', refreshIntervalMs: 24 * HOUR }
+        ])
+        schedule.markRun('Dashboard.md', 0)
+        schedule.markRun('Dashboard.md', HOUR)
+
+        expect(schedule.getLastRun('Dashboard.md', 'TASK')).toBe(HOUR)
+        expect(schedule.getLastRun('Dashboard.md', 'LIST')).toBe(0)
+    })
+
+    it('should not index notes without scheduled queries', () => {
+        const schedule = new QuerySchedule()
+        schedule.set('Note.md', [])
+
+        expect(schedule.size).toBe(0)
+    })
+
+    it('should forget when removed queries last ran', () => {
+        const schedule = new QuerySchedule()
+        schedule.set('Dashboard.md', [{ query: 'TASK', refreshIntervalMs: HOUR }])
+        schedule.markRun('Dashboard.md', 0)
+        schedule.set('Dashboard.md', [{ query: 'LIST', refreshIntervalMs: HOUR }])
+
+        expect(schedule.getLastRun('Dashboard.md', 'TASK')).toBeUndefined()
+    })
+
+    it('should keep when queries last ran on rename', () => {
+        const schedule = new QuerySchedule()
+        schedule.set('Old.md', [{ query: 'TASK', refreshIntervalMs: HOUR }])
+        schedule.markRun('Old.md', 0)
+        schedule.rename('Old.md', 'New.md')
+
+        expect(schedule.get('Old.md')).toEqual([])
+        expect(schedule.getLastRun('New.md', 'TASK')).toBe(0)
+        expect(schedule.findDueFiles(1)).toEqual([])
+    })
+
+    it('should catch up on queries that became due while closed', () => {
+        const store = createStore()
+        const before = new QuerySchedule()
+        before.set('Dashboard.md', [{ query: 'TASK', refreshIntervalMs: HOUR }])
+        before.markRun('Dashboard.md', 0)
+        before.persist(store)
+
+        const after = new QuerySchedule()
+        after.restore(store)
+        after.set('Dashboard.md', [{ query: 'TASK', refreshIntervalMs: HOUR }])
+
+        expect(after.findDueFiles(HOUR / 2)).toEqual([])
+        expect(after.findDueFiles(2 * HOUR)).toEqual(['Dashboard.md'])
+    })
+
+    it('should prune queries that are no longer scheduled', () => {
+        const store = createStore()
+        store.data[QUERY_SCHEDULE_STORAGE_KEY] = { 'Deleted.md\nTASK': 0, 'Kept.md\nTASK': 0 }
+
+        const schedule = new QuerySchedule()
+        schedule.restore(store)
+        schedule.set('Kept.md', [{ query: 'TASK', refreshIntervalMs: HOUR }])
+        schedule.prune()
+        schedule.persist(store)
+
+        expect(store.data[QUERY_SCHEDULE_STORAGE_KEY]).toEqual({ 'Kept.md\nTASK': 0 })
+    })
+
+    it('should ignore malformed stored data', () => {
+        const store = createStore()
+        store.data[QUERY_SCHEDULE_STORAGE_KEY] = { 'Dashboard.md\nTASK': 'yesterday' }
+
+        const schedule = new QuerySchedule()
+        schedule.restore(store)
+
+        expect(schedule.getLastRun('Dashboard.md', 'TASK')).toBeUndefined()
+    })
+})
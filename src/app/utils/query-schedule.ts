@@ -0,0 +1,167 @@
+import { QUERY_SCHEDULE_STORAGE_KEY } from '../constants'
+import type { DeviceLocalStore } from './device-disabled'
+import {
+    buildQueryKey,
+    isQueryKey,
+    pathOfQueryKey,
+    queryOfQueryKey,
+    renameQueryKey
+} from './query-key.fn'
+
+/**
+ * A scheduled query, as found in a note
+ */
+export interface ScheduledQuery {
+    query: string
+    refreshIntervalMs: number
+}
+
+/**
+ * Schedule of the queries refreshed at a fixed interval (`every` mode).
+ *
+ * Keeps the scheduled queries found in each note, in memory, along with when each
+ * of them last ran. The latter is persisted so that queries that became due while
+ * Obsidian was closed are caught up on the next start.
+ */
+export class QuerySchedule {
+    private readonly queries = new Map<string, ScheduledQuery[]>()
+    private lastRuns = new Map<string, number>()
+
+    /**
+     * Number of notes holding at least one scheduled query
+     */
+    get size(): number {
+        return this.queries.size
+    }
+
+    /**
+     * Record the scheduled queries found in a note.
+     * A note without scheduled queries is removed from the schedule.
+     */
+    set(path: string, queries: ScheduledQuery[]): void {
+        const kept = new Set(queries.map((query) => buildQueryKey(path, query.query)))
+        for (const key of this.lastRuns.keys()) {
+            if (pathOfQueryKey(key) === path && !kept.has(key)) {
+                this.lastRuns.delete(key)
+            }
+        }
+
+        if (queries.length === 0) {
+            this.queries.delete(path)
+            return
+        }
+        this.queries.set(path, queries)
+    }
+
+    get(path: string): ScheduledQuery[] {
+        return this.queries.get(path) ?? []
+    }
+
+    delete(path: string): void {
+        this.set(path, [])
+    }
+
+    rename(oldPath: string, newPath: string): void {
+        const queries = this.queries.get(oldPath)
+        if (!queries) {
+            return
+        }
+
+        for (const [key, lastRun] of [...this.lastRuns]) {
+            const newKey = renameQueryKey(key, oldPath, newPath)
+            if (newKey !== undefined) {
+                this.lastRuns.delete(key)
+                this.lastRuns.set(newKey, lastRun)
+            }
+        }
+
+        this.queries.delete(oldPath)
+        this.queries.set(newPath, queries)
+    }
+
+    /**
+     * Forget the scheduled queries, but not when they last ran
+     */
+    clear(): void {
+        this.queries.clear()
+    }
+
+    /**
+     * Forget when the queries that are no longer scheduled last ran.
+     * Call once every note has been recorded.
+     */
+    prune(): void {
+        for (const key of this.lastRuns.keys()) {
+            const path = pathOfQueryKey(key)
+            const query = queryOfQueryKey(key)
+            if (!this.get(path).some((scheduled) => scheduled.query === query)) {
+                this.lastRuns.delete(key)
+            }
+        }
+    }
+
+    /**
+     * When the given query last ran, if ever
+     */
+    getLastRun(path: string, query: string): number | undefined {
+        return this.lastRuns.get(buildQueryKey(path, query))
+    }
+
+    /**
+     * Whether a query is due: it never ran, or its interval elapsed since it last ran.
+     */
+    isDue(path: string, scheduledQuery: ScheduledQuery, now: number): boolean {
+        const lastRun = this.getLastRun(path, scheduledQuery.query)
+        return lastRun === undefined || now - lastRun >= scheduledQuery.refreshIntervalMs
+    }
+
+    /**
+     * Find the notes holding at least one due query
+     */
+    findDueFiles(now: number): string[] {
+        const due: string[] = []
+        for (const [path, queries] of this.queries) {
+            if (queries.some((query) => this.isDue(path, query, now))) {
+                due.push(path)
+            }
+        }
+        return due
+    }
+
+    /**
+     * Record that the due queries of a note just ran.
+     * Queries that are not due keep their own rhythm.
+     */
+    markRun(path: string, now: number): void {
+        for (const query of this.get(path)) {
+            if (this.isDue(path, query, now)) {
+                this.lastRuns.set(buildQueryKey(path, query.query), now)
+            }
+        }
+    }
+
+    /**
+     * Restore when the queries last ran from device-local storage
+     */
+    restore(store: DeviceLocalStore): void {
+        const stored = store.loadLocalStorage(QUERY_SCHEDULE_STORAGE_KEY)
+        this.lastRuns = new Map()
+
+        if (typeof stored !== 'object' || stored === null) {
+            return
+        }
+
+        for (const [key, value] of Object.entries(stored)) {
+            if (typeof value === 'number' && isQueryKey(key)) {
+                this.lastRuns.set(key, value)
+            }
+        }
+    }
+
+    /**
+     * Persist when the queries last ran to device-local storage
+     */
+    persist(store: DeviceLocalStore): void {
+        store.saveLocalStorage(QUERY_SCHEDULE_STORAGE_KEY, Object.fromEntries(this.lastRuns))
+    }
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'bun:test'
+import { QueryStatusRegistry } from './query-status'
+
+describe('QueryStatusRegistry', () => {
+    const path = 'Dashboard.md'
+    const query = 'LIST FROM #project'
+
+    it('should record the last write of a query', () => {
+        const registry = new QueryStatusRegistry()
+
+        registry.recordWritten(path, 'block', query, 1)
+        registry.recordWritten(path, 'block', query, 2)
+
+        expect(registry.get(path, 'block', query)).toEqual({ lastSerializedAt: 2 })
+        expect(registry.get(path, 'inline', query)).toBeUndefined()
+    })
+
+    it('should follow renamed and deleted notes', () => {
+        const registry = new QueryStatusRegistry()
+        registry.recordWritten(path, 'block', query, 1)
+        registry.recordWritten('Dashboard.md.bak', 'block', query, 1)
+
+        registry.rename(path, 'Archive/Dashboard.md')
+        expect(registry.get(path, 'block', query)).toBeUndefined()
+        expect(registry.get('Archive/Dashboard.md', 'block', query)).toEqual({
+            lastSerializedAt: 1
+        })
+        expect(registry.get('Dashboard.md.bak', 'block', query)).toBeDefined()
+
+        registry.delete('Archive/Dashboard.md')
+        expect(registry.get('Archive/Dashboard.md', 'block', query)).toBeUndefined()
+    })
+})
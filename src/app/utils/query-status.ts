@@ -0,0 +1,49 @@
+import type { QueryKind } from '../types/serializer-events.intf'
+import { buildQueryKey, pathOfQueryKey, renameQueryKey } from './query-key.fn'
+
+/**
+ * What happened the last times a query was serialized.
+ * Failing queries are tracked by the `QueryErrorLog`.
+ */
+export interface QueryStatus {
+    /** When the result of the query was last written */
+    lastSerializedAt?: number
+}
+
+/**
+ * Status of the queries serialized since the plugin was loaded, keyed by note path,
+ * kind of query and query text
+ */
+export class QueryStatusRegistry {
+    private readonly statuses = new Map<string, QueryStatus>()
+
+    get(path: string, type: QueryKind, query: string): QueryStatus | undefined {
+        return this.statuses.get(buildQueryKey(path, type, query))
+    }
+
+    /**
+     * Record that the result of a query was written
+     */
+    recordWritten(path: string, type: QueryKind, query: string, timestamp: number): void {
+        const key = buildQueryKey(path, type, query)
+        this.statuses.set(key, { ...this.statuses.get(key), lastSerializedAt: timestamp })
+    }
+
+    delete(path: string): void {
+        for (const key of [...this.statuses.keys()]) {
+            if (pathOfQueryKey(key) === path) {
+                this.statuses.delete(key)
+            }
+        }
+    }
+
+    rename(oldPath: string, newPath: string): void {
+        for (const [key, status] of [...this.statuses]) {
+            const newKey = renameQueryKey(key, oldPath, newPath)
+            if (newKey !== undefined) {
+                this.statuses.delete(key)
+                this.statuses.set(newKey, status)
+            }
+        }
+    }
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'bun:test'
+import {
+    buildTargetRegionId,
+    parseQueryTarget,
+    replaceTargetRegion,
+    TARGET_REGION_END,
+    TARGET_REGION_START
+} from './query-target.fn'
+
+describe('parseQueryTarget', () => {
+    it('should parse wikilinks, with or without a heading', () => {
+        expect(parseQueryTarget('[[Project Index]]')).toEqual({ linkpath: 'Project Index' })
+        expect(parseQueryTarget('[[Project Index#Active]]')).toEqual({
+            linkpath: 'Project Index',
+            heading: 'Active'
+        })
+        expect(parseQueryTarget('[[Project Index#Active|the index]]')).toEqual({
+            linkpath: 'Project Index',
+            heading: 'Active'
+        })
+    })
+
+    it('should parse paths, with or without a heading', () => {
+        expect(parseQueryTarget('Published/Projects.md#Active')).toEqual({
+            linkpath: 'Published/Projects.md',
+            heading: 'Active'
+        })
+        expect(parseQueryTarget(' Published/Projects.md ')).toEqual({
+            linkpath: 'Published/Projects.md'
+        })
+        expect(parseQueryTarget('Published/Projects.md#')).toEqual({
+            linkpath: 'Published/Projects.md'
+        })
+    })
+
+    it('should reject values naming no note', () => {
+        expect(parseQueryTarget('')).toBeNull()
+        expect(parseQueryTarget('[[#Active]]')).toBeNull()
+    })
+})
+
+describe('buildTargetRegionId', () => {
+    it('should tell the queries and their notes apart', () => {
+        const id = buildTargetRegionId('Control.md', 'LIST FROM #project')
+
+        expect(id).toMatch(/^[0-9a-f]{8}$/)
+        expect(buildTargetRegionId('Control.md', 'LIST FROM #project')).toBe(id)
+        expect(buildTargetRegionId('Control.md', 'LIST FROM #area')).not.toBe(id)
+        expect(buildTargetRegionId('Other.md', 'LIST FROM #project')).not.toBe(id)
+    })
+})
+
+describe('replaceTargetRegion', () => {
+    const start = `${TARGET_REGION_START}0badcafe -->`
+
+    it('should replace the content of the region', () => {
+        const text = `# Projects\n\n${start}\n\n- [[A]]\n\n${TARGET_REGION_END}\n\nFooter\n`
+
+        expect(replaceTargetRegion(text, '0badcafe', '- [[B]]\n')).toBe(
+            `# Projects\n\n${start}\n\n- [[B]]\n\n${TARGET_REGION_END}\n\nFooter\n`
+        )
+    })
+
+    it('should leave the other regions untouched', () => {
+        const other = `${TARGET_REGION_START}12345678 -->\n\n- [[Z]]\n\n${TARGET_REGION_END}`
+        const text = `${other}\n\n${start}\n\n- [[A]]\n\n${TARGET_REGION_END}\n`
+
+        expect(replaceTargetRegion(text, '0badcafe', '- [[B]]')).toBe(
+            `${other}\n\n${start}\n\n- [[B]]\n\n${TARGET_REGION_END}\n`
+        )
+    })
+
+    it('should create the region at the end of the note when missing', () => {
+        expect(replaceTargetRegion('# Projects', '0badcafe', '- [[B]]')).toBe(
+            `# Projects\n\n${start}\n\n- [[B]]\n\n${TARGET_REGION_END}\n`
+        )
+        expect(replaceTargetRegion('', '0badcafe', '- [[B]]')).toBe(
+            `${start}\n\n- [[B]]\n\n${TARGET_REGION_END}\n`
+        )
+    })
+})
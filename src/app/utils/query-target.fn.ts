@@ -0,0 +1,84 @@
+import { escapeRegExp } from './escape-reg-exp.fn'
+
+/**
+ * Another note receiving the result of a query (the `target` query option)
+ */
+export interface QueryTarget {
+    /** The note, as a link path (e.g. `Project Index` or `Published/Projects.md`) */
+    linkpath: string
+    /** The heading of the section receiving the result; a marker region when omitted */
+    heading?: string
+}
+
+/** Opening marker of the region receiving a result, followed by the region id */
+export const TARGET_REGION_START = '<!-- SerializedResult: '
+/** Closing marker of the region receiving a result */
+export const TARGET_REGION_END = '<!-- SerializedResult END -->'
+
+/**
+ * Parse the value of the `target` option: a wikilink (`[[Project Index]]`,
+ * `[[Project Index#Active]]`) or a path (`Published/Projects.md#Active`)
+ *
+ * @returns The target, or null when the value names no note
+ */
+export const parseQueryTarget = (value: string): QueryTarget | null => {
+    let link = value.trim()
+    if (link.startsWith('[[') && link.endsWith(']]')) {
+        link = link.slice(2, -2)
+    }
+    // The alias of a wikilink is irrelevant
+    link = link.split('|')[0]!
+
+    const separatorIndex = link.indexOf('#')
+    const linkpath = (separatorIndex === -1 ? link : link.substring(0, separatorIndex)).trim()
+    const heading = separatorIndex === -1 ? '' : link.substring(separatorIndex + 1).trim()
+
+    if (linkpath === '') {
+        return null
+    }
+
+    return heading === '' ? { linkpath } : { linkpath, heading }
+}
+
+/**
+ * Identify the region receiving the result of a query in its target note.
+ * The id is a hash, so that the target note tells nothing about the query or its note.
+ *
+ * @param sourcePath The path of the note holding the query
+ * @param query The query
+ * @returns An 8-character hexadecimal id
+ */
+export const buildTargetRegionId = (sourcePath: string, query: string): string => {
+    // FNV-1a: short, stable and good enough to tell a few queries apart
+    let hash = 0x811c9dc5
+    for (const character of `${sourcePath}\n${query}`) {
+        hash ^= character.codePointAt(0)!
+        hash = Math.imul(hash, 0x01000193) >>> 0
+    }
+    return hash.toString(16).padStart(8, '0')
+}
+
+/**
+ * Replace the content of the marker region with the given id. When the note has no
+ * such region, it is created at the end of the note.
+ *
+ * @param text The text of the note
+ * @param regionId The id of the region (see `buildTargetRegionId`)
+ * @param content The new content of the region
+ * @returns The updated text
+ */
+export const replaceTargetRegion = (text: string, regionId: string, content: string): string => {
+    const startMarker = `${TARGET_REGION_START}${regionId} -->`
+    // Blank lines around the content, so that tables render
+    const region = `${startMarker}\n\n${content.trim()}\n\n${TARGET_REGION_END}`
+    const regionRegex = new RegExp(
+        `${escapeRegExp(startMarker)}[\\s\\S]*?${escapeRegExp(TARGET_REGION_END)}`
+    )
+
+    if (regionRegex.test(text)) {
+        return text.replace(regionRegex, () => region)
+    }
+
+    const separator = text.trim() === '' ? '' : text.endsWith('\n') ? '\n' : '\n\n'
+    return `${text}${separator}${region}\n`
+}
@@ -53,6 +53,21 @@ describe('removeAllQueries', () => {
             expect(result.removedCount).toBe(1)
         })
 
+        test('should remove scheduled block query', () => {
+            const input = [
+                '<!-- QueryToSerializeEvery 1h: TASK WHERE !completed AND due < date(today) -->',
+                '<!-- SerializedQuery: TASK WHERE !completed AND due < date(today) -->',
+                '- [ ] Overdue',
+                '<!-- SerializedQuery END -->',
+                ''
+            ].join('\n')
+
+            const result = removeAllQueries(input)
+
+            expect(result.newText).toBe('')
+            expect(result.removedCount).toBe(1)
+        })
+
         test('should remove once block query', () => {
             const input = [
                 '<!-- QueryToSerializeOnce: TABLE file.ctime FROM "Templates" -->',
@@ -139,6 +154,34 @@ describe('removeAllQueries', () => {
             expect(result.removedCount).toBe(1)
         })
 
+        test('should remove alternative block query with options', () => {
+            const input = [
+                '<!-- dataview-serializer-query [linkFormat=absolute, header="## Projects]"]: LIST FROM #project -->',
+                '<!-- dataview-serializer-result: LIST FROM #project -->',
+                '## Projects]',
+                '- [[A]]',
+                '<!-- dataview-serializer-result-end -->',
+                'Kept'
+            ].join('\n')
+
+            const result = removeAllQueries(input)
+
+            expect(result.newText).toBe('Kept')
+            expect(result.removedCount).toBe(1)
+        })
+
+        test('should remove scheduled alternative block query', () => {
+            const input = [
+                '<!-- dataview-serializer-query-every 30m: LIST FROM #inbox -->',
+                ''
+            ].join('\n')
+
+            const result = removeAllQueries(input)
+
+            expect(result.newText).toBe('')
+            expect(result.removedCount).toBe(1)
+        })
+
         test('should remove once alternative block query', () => {
             const input = ['<!-- dataview-serializer-query-once: TABLE FROM "Setup" -->', ''].join(
                 '\n'
@@ -417,6 +460,61 @@ describe('removeAllQueries', () => {
         })
     })
 
+    // -------------------------------------------------------------------------
+    // Property queries
+    // -------------------------------------------------------------------------
+    describe('property queries', () => {
+        test('should remove property queries of both syntaxes and every update mode', () => {
+            const input = [
+                '---',
+                'backlink_count: 3',
+                '---',
+                '<!-- PropertyQuery backlink_count: =length(this.file.inlinks) -->',
+                '<!-- PropertyQueryOnceAndEject created: =date(today) -->',
+                '<!-- dataview-serializer-property-manual related: LIST',
+                'FROM #project -->',
+                'Some content',
+                ''
+            ].join('\n')
+
+            const result = removeAllQueries(input)
+
+            expect(result.newText).toBe('---\nbacklink_count: 3\n---\nSome content\n')
+            expect(result.removedCount).toBe(3)
+        })
+    })
+
+    // -------------------------------------------------------------------------
+    // Code blocks
+    // -------------------------------------------------------------------------
+    describe('queries written in code blocks', () => {
+        test('should remove DQL and DataviewJS code blocks with their results', () => {
+            const input = [
+                '```dataview-serialize-manual',
+                'LIST FROM #foo',
+                '```',
+                '<!-- dataview-serializer-result: LIST FROM #foo -->',
+                '- [[Note A]]',
+                '<!-- dataview-serializer-result-end -->',
+                '~~~dataviewjs-serialize',
+                'for (let i = 3; i > 0; i--) dv.paragraph(i)',
+                '~~~',
+                '<!-- dataview-serializer-js-result -->',
+                '3',
+                '<!-- dataview-serializer-js-result-end -->',
+                '```js',
+                'const kept = true',
+                '```',
+                ''
+            ].join('\n')
+
+            const result = removeAllQueries(input)
+
+            expect(result.newText).toBe('```js\nconst kept = true\n```\n')
+            expect(result.removedCount).toBe(2)
+        })
+    })
+
     // -------------------------------------------------------------------------
     // Mixed content
     // -------------------------------------------------------------------------
@@ -1,3 +1,5 @@
+import { findFencedQueries } from './fenced-query.fn'
+
 /**
  * Result of removing all queries from a document.
  */
@@ -11,9 +13,10 @@ export interface RemoveAllQueriesResult {
 /**
  * Remove all Dataview serializer queries and their output from a document.
  *
- * Handles all three query types (block, inline, DataviewJS) across both
- * syntax variants (legacy and alternative). Result blocks are removed along
- * with their associated query definitions.
+ * Handles all four query types (block, inline, DataviewJS, property) across both
+ * syntax variants (legacy and alternative), and the queries written in code blocks.
+ * Result blocks are removed along with their associated query definitions. The properties written by property
+ * queries are kept.
  *
  * @param text The document text
  * @returns The cleaned text and the number of removed queries
@@ -39,20 +42,20 @@ export function removeAllQueries(text: string): RemoveAllQueriesResult {
     )
 
     // --- Step 2: Remove block query definitions (count these) ---
-    // Matches single-line and multi-line definitions for all 4 update modes.
+    // Matches single-line and multi-line definitions for all 5 update modes.
 
-    // Legacy: <!-- QueryToSerialize[Manual|Once|OnceAndEject]: ... -->
+    // Legacy: <!-- QueryToSerialize[Manual|Once|OnceAndEject|Every <interval>][ [options]]: ... -->
     result = result.replace(
-        /^[ \t]*(?:>[ \t]*)*<!-- QueryToSerialize(?:Manual|Once(?:AndEject)?)?:[\s\S]*?-->(?:\n|$)/gm,
+        /^[ \t]*(?:>[ \t]*)*<!-- QueryToSerialize(?:Manual|Once(?:AndEject)?|Every [^:\s]+)?(?: \[(?:[^\]"\n]|"[^"\n]*")*\])?:[\s\S]*?-->(?:\n|$)/gm,
         () => {
             removedCount++
             return ''
         }
     )
 
-    // Alt: <!-- dataview-serializer-query[-manual|-once|-once-and-eject]: ... -->
+    // Alt: <!-- dataview-serializer-query[-manual|-once|-once-and-eject|-every <interval>][ [options]]: ... -->
     result = result.replace(
-        /^[ \t]*(?:>[ \t]*)*<!-- dataview-serializer-query(?:-manual|-once(?:-and-eject)?)?:[\s\S]*?-->(?:\n|$)/gm,
+        /^[ \t]*(?:>[ \t]*)*<!-- dataview-serializer-query(?:-manual|-once(?:-and-eject)?|-every [^:\s]+)?(?: \[(?:[^\]"\n]|"[^"\n]*")*\])?:[\s\S]*?-->(?:\n|$)/gm,
         () => {
             removedCount++
             return ''
@@ -113,7 +116,37 @@ export function removeAllQueries(text: string): RemoveAllQueriesResult {
         }
     )
 
-    // --- Step 6: Clean up excess blank lines ---
+    // Code blocks: ```dataview-serialize[...] or ```dataviewjs-serialize[...] up to their fence
+    for (const fencedQuery of findFencedQueries(result)) {
+        const index = result.indexOf(fencedQuery.definition)
+        if (index !== -1) {
+            const end = index + fencedQuery.definition.length
+            result = `${result.substring(0, index)}${result.substring(result[end] === '\n' ? end + 1 : end)}`
+            removedCount++
+        }
+    }
+
+    // --- Step 6: Remove property query definitions (count these) ---
+
+    // Legacy: <!-- PropertyQuery[Manual|Once|OnceAndEject] <property>: ... -->
+    result = result.replace(
+        /^[ \t]*(?:>[ \t]*)*<!-- PropertyQuery(?:Manual|Once(?:AndEject)?)? [^:\n]+:[\s\S]*?-->(?:\n|$)/gm,
+        () => {
+            removedCount++
+            return ''
+        }
+    )
+
+    // Alt: <!-- dataview-serializer-property[-manual|-once|-once-and-eject] <property>: ... -->
+    result = result.replace(
+        /^[ \t]*(?:>[ \t]*)*<!-- dataview-serializer-property(?:-manual|-once(?:-and-eject)?)? [^:\n]+:[\s\S]*?-->(?:\n|$)/gm,
+        () => {
+            removedCount++
+            return ''
+        }
+    )
+
+    // --- Step 7: Clean up excess blank lines ---
     // Collapse 3+ consecutive newlines into 2 (one blank line)
     result = result.replace(/\n{3,}/g, '\n\n')
 
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'bun:test'
+import {
+    appendToSection,
+    diffResultItems,
+    extractResultItems,
+    formatChangeLogEntry
+} from './result-changes.fn'
+
+describe('extractResultItems', () => {
+    it('should extract list items', () => {
+        expect(extractResultItems('- [[A]]\n* [[B]]\n1. [[C]]\n\n')).toEqual([
+            '[[A]]',
+            '[[B]]',
+            '[[C]]'
+        ])
+    })
+
+    it('should ignore task checkboxes', () => {
+        expect(extractResultItems('- [ ] Call [[Bob]]\n- [x] Email [[Alice]]')).toEqual([
+            'Call [[Bob]]',
+            'Email [[Alice]]'
+        ])
+    })
+
+    it('should extract the first cell of table rows, without the header', () => {
+        const table = [
+            '| File | Status |',
+            '| ---- | ------ |',
+            '| [[Projects/X\\|X]] | active |',
+            '| [[Y]] | done |'
+        ].join('\n')
+
+        expect(extractResultItems(table)).toEqual(['[[Projects/X\\|X]]', '[[Y]]'])
+    })
+
+    it('should not split a cell on the pipe of a link alias', () => {
+        expect(extractResultItems('| Name |\n|---|\n| [[Projects/X|X]] |')).toEqual([
+            '[[Projects/X|X]]'
+        ])
+    })
+
+    it('should ignore other lines', () => {
+        expect(extractResultItems('**Projects**\n\nSome text')).toEqual([])
+    })
+})
+
+describe('diffResultItems', () => {
+    it('should report the added and removed items', () => {
+        expect(diffResultItems('- [[A]]\n- [[B]]\n', '- [[B]]\n- [[C]]\n')).toEqual({
+            added: ['[[C]]'],
+            removed: ['[[A]]']
+        })
+    })
+
+    it('should not report reordered items', () => {
+        expect(diffResultItems('- [[A]]\n- [[B]]', '- [[B]]\n- [[A]]')).toEqual({
+            added: [],
+            removed: []
+        })
+    })
+
+    it('should account for duplicated items', () => {
+        expect(diffResultItems('- [[A]]\n- [[A]]', '- [[A]]')).toEqual({
+            added: [],
+            removed: ['[[A]]']
+        })
+    })
+
+    it('should not report a completed task', () => {
+        expect(diffResultItems('- [ ] Call [[Bob]]', '- [x] Call [[Bob]]')).toEqual({
+            added: [],
+            removed: []
+        })
+    })
+})
+
+describe('formatChangeLogEntry', () => {
+    const changes = { added: ['[[Project X]]'], removed: ['[[Project Y]]'] }
+
+    it('should list the added items, then the removed ones', () => {
+        expect(formatChangeLogEntry({ date: '2026-10-19', changes })).toBe(
+            '- 2026-10-19: +[[Project X]], -[[Project Y]]'
+        )
+    })
+
+    it('should name the source note and the query when given', () => {
+        expect(
+            formatChangeLogEntry({
+                date: '2026-10-19',
+                changes,
+                source: '[[Dashboard]]',
+                query: 'LIST FROM #project'
+            })
+        ).toBe('- 2026-10-19 [[Dashboard]] `LIST FROM #project`: +[[Project X]], -[[Project Y]]')
+    })
+})
+
+describe('appendToSection', () => {
+    it('should append at the end of the section', () => {
+        const text = '# Note\n\n## Change log\n\n- 2026-10-18: +[[A]]\n\n## Other\n\nText\n'
+
+        expect(appendToSection(text, 'Change log', ['- 2026-10-19: -[[A]]'])).toBe(
+            '# Note\n\n## Change log\n\n- 2026-10-18: +[[A]]\n- 2026-10-19: -[[A]]\n\n## Other\n\nText\n'
+        )
+    })
+
+    it('should keep the subsections inside the section', () => {
+        const text = '## Change log\n\n### Older\n\n- 2026-10-18: +[[A]]\n'
+
+        expect(appendToSection(text, 'Change log', ['- 2026-10-19: -[[A]]'])).toBe(
+            '## Change log\n\n### Older\n\n- 2026-10-18: +[[A]]\n- 2026-10-19: -[[A]]\n'
+        )
+    })
+
+    it('should fill an empty section at the end of the note', () => {
+        expect(appendToSection('Text\n\n## Change log', 'Change log', ['- entry'])).toBe(
+            'Text\n\n## Change log\n\n- entry\n'
+        )
+    })
+
+    it('should create the section when missing', () => {
+        expect(appendToSection('Text\n', 'Change log', ['- entry'])).toBe(
+            'Text\n\n## Change log\n\n- entry\n'
+        )
+        expect(appendToSection('Text', 'Change log', ['- entry'])).toBe(
+            'Text\n\n## Change log\n\n- entry\n'
+        )
+    })
+})
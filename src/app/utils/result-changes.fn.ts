@@ -0,0 +1,166 @@
+import { appendSection, findSection } from './markdown-sections.fn'
+
+/**
+ * Items that entered or left the result of a query
+ */
+export interface ResultChanges {
+    added: string[]
+    removed: string[]
+}
+
+export interface ChangeLogEntryParams {
+    /** Date of the change, already formatted (e.g. 2026-10-19) */
+    date: string
+    changes: ResultChanges
+    /** Link to the note holding the query, when the entry is written to another note */
+    source?: string
+    /** The query, when it has to be told apart from the other queries of its note */
+    query?: string
+}
+
+/**
+ * A list item, with its optional task checkbox
+ */
+const LIST_ITEM_REGEX = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?(.*)$/
+
+/**
+ * The separator row below the header of a markdown table (e.g. `| --- | :-: |`)
+ */
+const TABLE_SEPARATOR_REGEX = /^\|(?:\s*:?-+:?\s*\|)+$/
+
+/**
+ * The first cell of a table row. Pipes inside links and escaped pipes do not end the cell.
+ */
+const firstTableCell = (row: string): string => {
+    let depth = 0
+    for (let index = 1; index < row.length; index++) {
+        const character = row[index]
+        if (row.startsWith('[[', index)) {
+            depth++
+            index++
+        } else if (row.startsWith(']]', index) && depth > 0) {
+            depth--
+            index++
+        } else if (character === '\\') {
+            index++
+        } else if (character === '|' && depth === 0) {
+            return row.substring(1, index).trim()
+        }
+    }
+    return row.substring(1).trim()
+}
+
+/**
+ * Extract the items of a serialized result: the text of each list item (without its
+ * task checkbox, so that completing a task does not count as a change), and the first
+ * cell of each table row (usually the link to the note of the row).
+ *
+ * @param content The serialized result, without its blockquote prefix
+ * @returns The items, in order
+ */
+export const extractResultItems = (content: string): string[] => {
+    const lines = content.split('\n').map((line) => line.trim())
+    const items: string[] = []
+
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index]!
+
+        if (line.startsWith('|')) {
+            // The row above the separator is the header of the table
+            if (
+                TABLE_SEPARATOR_REGEX.test(line) ||
+                TABLE_SEPARATOR_REGEX.test(lines[index + 1] ?? '')
+            ) {
+                continue
+            }
+            const cell = firstTableCell(line)
+            if (cell) {
+                items.push(cell)
+            }
+            continue
+        }
+
+        const listItem = LIST_ITEM_REGEX.exec(line)?.[1]?.trim()
+        if (listItem) {
+            items.push(listItem)
+        }
+    }
+
+    return items
+}
+
+/**
+ * Remove one occurrence of each of the given items
+ */
+const subtractItems = (items: string[], toRemove: string[]): string[] => {
+    const counts = new Map<string, number>()
+    for (const item of toRemove) {
+        counts.set(item, (counts.get(item) ?? 0) + 1)
+    }
+
+    return items.filter((item) => {
+        const count = counts.get(item) ?? 0
+        if (count > 0) {
+            counts.set(item, count - 1)
+            return false
+        }
+        return true
+    })
+}
+
+/**
+ * Compute the items that entered and left a result. Reordered items are not changes.
+ *
+ * @param before The previous serialized result, without its blockquote prefix
+ * @param after The new serialized result, without its blockquote prefix
+ */
+export const diffResultItems = (before: string, after: string): ResultChanges => {
+    const beforeItems = extractResultItems(before)
+    const afterItems = extractResultItems(after)
+
+    return {
+        added: subtractItems(afterItems, beforeItems),
+        removed: subtractItems(beforeItems, afterItems)
+    }
+}
+
+/**
+ * Format a change log entry, e.g. `- 2026-10-19: +[[Project X]], -[[Project Y]]`
+ */
+export const formatChangeLogEntry = (params: ChangeLogEntryParams): string => {
+    const context = [params.source, params.query ? `\`${params.query}\`` : undefined]
+        .filter((part) => part !== undefined)
+        .join(' ')
+    const changes = [
+        ...params.changes.added.map((item) => `+${item}`),
+        ...params.changes.removed.map((item) => `-${item}`)
+    ].join(', ')
+
+    return `- ${params.date}${context ? ` ${context}` : ''}: ${changes}`
+}
+
+/**
+ * Append lines at the end of the section below the given heading (of any level).
+ * The section ends at the next heading of the same or a higher level. When the note
+ * has no such heading, the section is created at the end of the note.
+ *
+ * @param text The text of the note
+ * @param heading The text of the heading, without its `#` marks
+ * @param lines The lines to append
+ * @returns The updated text
+ */
+export const appendToSection = (text: string, heading: string, lines: string[]): string => {
+    const section = findSection(text, heading)
+
+    if (!section) {
+        return appendSection(text, heading, lines.join('\n'))
+    }
+
+    // Insert right after the last non-blank line of the section
+    const content = text.substring(section.start, section.end)
+    const insertAt = section.start + content.trimEnd().length
+    const insertion = `${content.trim() === '' ? '\n' : ''}\n${lines.join('\n')}`
+    const remainder = text.substring(insertAt)
+
+    return `${text.substring(0, insertAt)}${insertion}${remainder === '' ? '\n' : remainder}`
+}
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'bun:test'
+import type { DataviewApi } from 'obsidian-dataview/lib/api/plugin-api'
+import {
+    buildDataBlock,
+    buildResultData,
+    formatDataAsCsv,
+    formatDataAsYaml,
+    toResultData
+} from './result-data.fn'
+
+// literalToString does not use the API
+const mockDataviewApi = {} as DataviewApi
+
+const link = (path: string) => ({
+    path,
+    embed: false,
+    toString: () => `[[${path}]]`
+})
+
+const date = (isoDate: string) => ({
+    toISO: () => `${isoDate}T00:00:00.000Z`,
+    toISODate: () => isoDate,
+    toFormat: () => isoDate
+})
+
+describe('toResultData', () => {
+    it('should keep the primitives and convert the Dataview objects to strings', () => {
+        expect(toResultData('active', mockDataviewApi)).toBe('active')
+        expect(toResultData(3, mockDataviewApi)).toBe(3)
+        expect(toResultData(false, mockDataviewApi)).toBe(false)
+        expect(toResultData(undefined, mockDataviewApi)).toBeNull()
+        expect(toResultData(link('Projects/Alpha.md'), mockDataviewApi)).toBe(
+            '[[Projects/Alpha.md]]'
+        )
+        expect(toResultData({ due: date('2026-10-19'), tags: ['#a', 1] }, mockDataviewApi)).toEqual(
+            { due: '2026-10-19T00:00:00.000Z', tags: ['#a', 1] }
+        )
+    })
+})
+
+describe('buildResultData', () => {
+    it('should key the cells of table rows by their header', () => {
+        expect(
+            buildResultData(
+                {
+                    type: 'table',
+                    headers: ['File', 'Due'],
+                    values: [[link('Alpha.md'), null]]
+                },
+                mockDataviewApi
+            )
+        ).toEqual([{ File: '[[Alpha.md]]', Due: null }])
+    })
+
+    it('should keep the list values, with or without an expression', () => {
+        expect(
+            buildResultData(
+                { type: 'list', values: [{ id: link('Alpha.md'), value: 3 }, 'plain'] },
+                mockDataviewApi
+            )
+        ).toEqual([{ id: '[[Alpha.md]]', value: 3 }, 'plain'])
+    })
+
+    it('should keep the fields of tasks and their groups', () => {
+        const task = {
+            text: 'Plan',
+            status: ' ',
+            completed: false,
+            path: 'Alpha.md',
+            line: 3,
+            position: { start: 0 },
+            children: [{ text: 'Draft', status: 'x', completed: true, path: 'Alpha.md', line: 4 }]
+        }
+
+        expect(
+            buildResultData(
+                { type: 'task', values: [{ key: 'Alpha', rows: [task] }] },
+                mockDataviewApi
+            )
+        ).toEqual([
+            {
+                key: 'Alpha',
+                rows: [
+                    {
+                        text: 'Plan',
+                        status: ' ',
+                        completed: false,
+                        path: 'Alpha.md',
+                        line: 3,
+                        children: [
+                            {
+                                text: 'Draft',
+                                status: 'x',
+                                completed: true,
+                                path: 'Alpha.md',
+                                line: 4
+                            }
+                        ]
+                    }
+                ]
+            }
+        ])
+    })
+
+    it('should keep the date and link of calendar entries', () => {
+        expect(
+            buildResultData(
+                { type: 'calendar', values: [{ date: date('2026-10-19'), link: link('A.md') }] },
+                mockDataviewApi
+            )
+        ).toEqual([{ date: '2026-10-19T00:00:00.000Z', link: '[[A.md]]' }])
+    })
+})
+
+describe('formatDataAsCsv', () => {
+    it('should write a header line and quote the fields when needed', () => {
+        expect(
+            formatDataAsCsv([
+                { File: '[[Alpha.md]]', Tags: ['#a', '#b'] },
+                { File: 'Say "hi"', Due: null }
+            ])
+        ).toBe(['File,Tags,Due', '[[Alpha.md]],"#a, #b",', '"Say ""hi""",,'].join('\n'))
+    })
+
+    it('should write list values in a value column', () => {
+        expect(formatDataAsCsv(['a', 2])).toBe('value\na\n2')
+    })
+})
+
+describe('formatDataAsYaml', () => {
+    it('should write a sequence of quoted strings and nested objects', () => {
+        expect(
+            formatDataAsYaml([
+                { 'File': '[[Alpha.md]]', 'Due date': null, 'tags': ['#a'], 'empty': [] },
+                'yes'
+            ])
+        ).toBe(
+            [
+                '- File: "[[Alpha.md]]"',
+                '  "Due date": null',
+                '  tags:',
+                '    - "#a"',
+                '  empty: []',
+                '- "yes"'
+            ].join('\n')
+        )
+    })
+
+    it('should write an empty result as an empty sequence', () => {
+        expect(formatDataAsYaml([])).toBe('[]')
+    })
+})
+
+describe('buildDataBlock', () => {
+    it('should fence the data with the language of its format', () => {
+        expect(buildDataBlock([{ a: 1 }], 'json')).toBe('```json\n[\n  {\n    "a": 1\n  }\n]\n```')
+        expect(buildDataBlock(['a'], 'yaml')).toBe('```yaml\n- "a"\n```')
+    })
+
+    it('should use a longer fence than the backticks of the data', () => {
+        expect(buildDataBlock(['```'], 'csv')).toBe('````csv\nvalue\n```\n````')
+    })
+})
@@ -0,0 +1,209 @@
+import type { DataviewApi } from 'obsidian-dataview/lib/api/plugin-api'
+import type { Literal } from 'obsidian-dataview/lib/data-model/value'
+import { isDataObject, literalToString } from './literal-to-string.fn'
+import { toCsvField } from './profile-export.fn'
+import type { TemplateQueryResult } from './row-template.fn'
+
+/**
+ * Machine-readable outputs of a query (the `format` option): a fenced code block, or
+ * a property of the frontmatter of the note
+ */
+export type ResultFormat = 'csv' | 'json' | 'yaml' | 'frontmatter'
+
+export const RESULT_FORMATS: ResultFormat[] = ['csv', 'json', 'yaml', 'frontmatter']
+
+/**
+ * A value of the data of a result: Dataview's dates, durations and links become strings
+ */
+export type ResultData = string | number | boolean | null | ResultData[] | ResultDataObject
+
+export interface ResultDataObject {
+    [key: string]: ResultData
+}
+
+/**
+ * Fields of a task kept in the data; the others are internal to Dataview
+ */
+const TASK_FIELDS = ['text', 'status', 'completed', 'path', 'line'] as const
+
+const isDataRow = (value: ResultData): value is ResultDataObject =>
+    value !== null && typeof value === 'object' && !Array.isArray(value)
+
+/**
+ * Convert a Dataview value to data. Arrays and plain objects are converted item by
+ * item; dates, durations, links and the other Dataview objects are converted to
+ * strings by `literalToString`.
+ */
+export const toResultData = (value: unknown, dataviewApi: DataviewApi): ResultData => {
+    if (value === null || value === undefined) {
+        return null
+    }
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        return value
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => toResultData(item, dataviewApi))
+    }
+    if (isDataObject(value)) {
+        return Object.fromEntries(
+            Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+                key,
+                toResultData(item, dataviewApi)
+            ])
+        )
+    }
+    return literalToString(value as Literal, dataviewApi)
+}
+
+/**
+ * Keep the meaningful fields of tasks, nested tasks and groups included
+ */
+const toTaskData = (values: unknown[], dataviewApi: DataviewApi): ResultData[] =>
+    values.flatMap((value): ResultData[] => {
+        if (!isDataObject(value)) {
+            return []
+        }
+        if (Array.isArray(value['rows'])) {
+            return [
+                {
+                    key: toResultData(value['key'], dataviewApi),
+                    rows: toTaskData(value['rows'], dataviewApi)
+                }
+            ]
+        }
+        const task: ResultDataObject = {}
+        for (const field of TASK_FIELDS) {
+            task[field] = toResultData(value[field], dataviewApi)
+        }
+        const children = Array.isArray(value['children']) ? value['children'] : []
+        if (children.length > 0) {
+            task['children'] = toTaskData(children, dataviewApi)
+        }
+        return [task]
+    })
+
+/**
+ * Build the data of a query result: one object per table row (keyed by the column
+ * headers), one value per list item, one object per task or calendar entry
+ */
+export const buildResultData = (
+    result: TemplateQueryResult,
+    dataviewApi: DataviewApi
+): ResultData[] => {
+    switch (result.type) {
+        case 'table':
+            return result.values.map((row) =>
+                Object.fromEntries(
+                    result.headers.map((header, index) => [
+                        header,
+                        toResultData(row[index], dataviewApi)
+                    ])
+                )
+            )
+        case 'list':
+            return result.values.map((value) => toResultData(value, dataviewApi))
+        case 'task':
+            return toTaskData(result.values, dataviewApi)
+        case 'calendar':
+            return result.values.map(({ date, link }) => ({
+                date: toResultData(date, dataviewApi),
+                link: toResultData(link, dataviewApi)
+            }))
+    }
+}
+
+/**
+ * Render a value in a CSV cell: lists are joined by commas, objects written as JSON
+ */
+const toCsvCell = (value: ResultData | undefined): string => {
+    if (value === null || value === undefined) {
+        return ''
+    }
+    if (Array.isArray(value)) {
+        return value.map(toCsvCell).join(', ')
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Format the data as CSV: one line per row, with a header line listing the fields of
+ * the rows. Rows that are not objects are written in a `value` column.
+ */
+export const formatDataAsCsv = (data: ResultData[]): string => {
+    const rows = data.map((row) => (isDataRow(row) ? row : { value: row }))
+    const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))]
+
+    return [
+        columns.map(toCsvField).join(','),
+        ...rows.map((row) => columns.map((column) => toCsvField(toCsvCell(row[column]))).join(','))
+    ].join('\n')
+}
+
+/**
+ * Keys written as they are; the others are quoted
+ */
+const PLAIN_YAML_KEY_REGEX = /^[A-Za-z_][\w-]*$/
+
+const toYamlKey = (key: string): string =>
+    PLAIN_YAML_KEY_REGEX.test(key) ? key : JSON.stringify(key)
+
+/**
+ * Render a scalar. Strings are always double-quoted, so that no value is read back
+ * as another type (`yes`, `2026-10-19`...); JSON strings are valid YAML strings.
+ */
+const toYamlScalar = (value: string | number | boolean | null): string =>
+    value === null ? 'null' : JSON.stringify(value)
+
+const toYamlLines = (value: ResultData, indent: string): string[] => {
+    if (Array.isArray(value)) {
+        if (value.length === 0) {
+            return [`${indent}[]`]
+        }
+        return value.flatMap((item) => {
+            const [first = '', ...rest] = toYamlLines(item, `${indent}  `)
+            return [`${indent}- ${first.trimStart()}`, ...rest]
+        })
+    }
+    if (value !== null && typeof value === 'object') {
+        const entries = Object.entries(value)
+        if (entries.length === 0) {
+            return [`${indent}{}`]
+        }
+        return entries.flatMap(([key, item]) => {
+            const isNested =
+                item !== null &&
+                typeof item === 'object' &&
+                (Array.isArray(item) ? item.length : Object.keys(item).length) > 0
+            return isNested
+                ? [`${indent}${toYamlKey(key)}:`, ...toYamlLines(item, `${indent}  `)]
+                : [`${indent}${toYamlKey(key)}: ${toYamlLines(item, '')[0]!}`]
+        })
+    }
+    return [`${indent}${toYamlScalar(value)}`]
+}
+
+/**
+ * Format the data as a YAML sequence
+ */
+export const formatDataAsYaml = (data: ResultData[]): string => toYamlLines(data, '').join('\n')
+
+/**
+ * Format the data of a result in a fenced code block of the given language
+ *
+ * @param data The data of the result
+ * @param format The format of the block
+ * @returns The fenced code block
+ */
+export const buildDataBlock = (data: ResultData[], format: 'csv' | 'json' | 'yaml'): string => {
+    const content =
+        format === 'csv'
+            ? formatDataAsCsv(data)
+            : format === 'json'
+              ? JSON.stringify(data, null, 2)
+              : formatDataAsYaml(data)
+    // The fence must be longer than any backtick run of the content
+    const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length))
+    const fence = '`'.repeat(Math.max(3, longestRun + 1))
+
+    return `${fence}${format}\n${content}\n${fence}`
+}
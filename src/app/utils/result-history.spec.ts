@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'bun:test'
+import { ResultHistory } from './result-history'
+
+describe('ResultHistory', () => {
+    const path = 'Notes/Projects.md'
+    const query = 'LIST FROM #project'
+
+    it('should keep the results newest first', () => {
+        const history = new ResultHistory()
+
+        history.record(path, query, { timestamp: 1, content: '- [[A]]\n' }, 10)
+        history.record(path, query, { timestamp: 2, content: '- [[B]]\n' }, 10)
+
+        expect(history.get(path, query).map((snapshot) => snapshot.timestamp)).toEqual([2, 1])
+    })
+
+    it('should not record a result identical to the latest one', () => {
+        const history = new ResultHistory()
+
+        expect(history.record(path, query, { timestamp: 1, content: '- [[A]]\n' }, 10)).toBe(true)
+        expect(history.record(path, query, { timestamp: 2, content: '- [[A]]\n\n' }, 10)).toBe(
+            false
+        )
+        expect(history.get(path, query)).toHaveLength(1)
+    })
+
+    it('should drop the oldest results beyond the limit', () => {
+        const history = new ResultHistory()
+
+        for (let index = 1; index <= 5; index++) {
+            history.record(path, query, { timestamp: index, content: `${index}` }, 3)
+        }
+
+        expect(history.get(path, query).map((snapshot) => snapshot.timestamp)).toEqual([5, 4, 3])
+
+        history.trim(1)
+        expect(history.get(path, query).map((snapshot) => snapshot.timestamp)).toEqual([5])
+    })
+
+    it('should keep the history of each query of a note apart', () => {
+        const history = new ResultHistory()
+        history.record(path, query, { timestamp: 1, content: 'a' }, 10)
+        history.record(path, 'TABLE status', { timestamp: 1, content: 'b' }, 10)
+        history.record('Other.md', query, { timestamp: 1, content: 'c' }, 10)
+
+        expect(history.getQueries(path)).toEqual([query, 'TABLE status'])
+        expect(history.size).toBe(3)
+    })
+
+    it('should follow renamed and deleted notes', () => {
+        const history = new ResultHistory()
+        history.record(path, query, { timestamp: 1, content: 'a' }, 10)
+
+        history.rename(path, 'Archive/Projects.md')
+        expect(history.getQueries(path)).toEqual([])
+        expect(history.get('Archive/Projects.md', query)).toHaveLength(1)
+
+        history.delete('Archive/Projects.md')
+        expect(history.size).toBe(0)
+    })
+
+    it('should round-trip through its persisted form', () => {
+        const history = new ResultHistory()
+        history.record(path, query, { timestamp: 1, content: 'a' }, 10)
+
+        const restored = new ResultHistory()
+        restored.restore(JSON.parse(JSON.stringify(history.toData())))
+
+        expect(restored.get(path, query)).toEqual([{ timestamp: 1, content: 'a' }])
+    })
+
+    it('should ignore malformed persisted entries', () => {
+        const history = new ResultHistory()
+
+        history.restore({
+            'no-separator': [{ timestamp: 1, content: 'a' }],
+            [`${path}\n${query}`]: [{ timestamp: 'yesterday', content: 'a' }, { timestamp: 2 }],
+            [`${path}\nTABLE status`]: [{ timestamp: 3, content: 'b' }, null]
+        })
+
+        expect(history.getQueries(path)).toEqual(['TABLE status'])
+        expect(history.get(path, 'TABLE status')).toEqual([{ timestamp: 3, content: 'b' }])
+
+        history.restore('garbage')
+        expect(history.size).toBe(0)
+    })
+})
@@ -0,0 +1,130 @@
+import {
+    buildQueryKey,
+    isQueryKey,
+    pathOfQueryKey,
+    queryOfQueryKey,
+    renameQueryKey
+} from './query-key.fn'
+
+/**
+ * A past result of a query: the text between its result markers, and when it was written
+ */
+export interface ResultSnapshot {
+    timestamp: number
+    content: string
+}
+
+const isResultSnapshot = (value: unknown): value is ResultSnapshot =>
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as ResultSnapshot).timestamp === 'number' &&
+    typeof (value as ResultSnapshot).content === 'string'
+
+/**
+ * History of the results of the block queries, keyed by note path and query text.
+ * Keeps the last results of each query, newest first, so that past versions can be
+ * browsed and restored.
+ */
+export class ResultHistory {
+    private readonly snapshots = new Map<string, ResultSnapshot[]>()
+
+    /**
+     * Number of queries with a history
+     */
+    get size(): number {
+        return this.snapshots.size
+    }
+
+    /**
+     * Record a result of a query, keeping at most `maxSnapshots` results.
+     * A result identical to the latest one is not recorded again.
+     *
+     * @returns Whether the result was recorded
+     */
+    record(path: string, query: string, snapshot: ResultSnapshot, maxSnapshots: number): boolean {
+        const key = buildQueryKey(path, query)
+        const existing = this.snapshots.get(key) ?? []
+
+        if (existing[0]?.content.trim() === snapshot.content.trim()) {
+            return false
+        }
+
+        this.snapshots.set(key, [snapshot, ...existing].slice(0, Math.max(1, maxSnapshots)))
+        return true
+    }
+
+    /**
+     * The past results of a query, newest first
+     */
+    get(path: string, query: string): ResultSnapshot[] {
+        return this.snapshots.get(buildQueryKey(path, query)) ?? []
+    }
+
+    /**
+     * The queries of a note that have a history
+     */
+    getQueries(path: string): string[] {
+        return [...this.snapshots.keys()]
+            .filter((key) => pathOfQueryKey(key) === path)
+            .map((key) => queryOfQueryKey(key))
+    }
+
+    delete(path: string): void {
+        for (const key of [...this.snapshots.keys()]) {
+            if (pathOfQueryKey(key) === path) {
+                this.snapshots.delete(key)
+            }
+        }
+    }
+
+    rename(oldPath: string, newPath: string): void {
+        for (const [key, snapshots] of [...this.snapshots]) {
+            const newKey = renameQueryKey(key, oldPath, newPath)
+            if (newKey !== undefined) {
+                this.snapshots.delete(key)
+                this.snapshots.set(newKey, snapshots)
+            }
+        }
+    }
+
+    /**
+     * Drop the oldest results beyond `maxSnapshots` per query
+     */
+    trim(maxSnapshots: number): void {
+        for (const [key, snapshots] of this.snapshots) {
+            this.snapshots.set(key, snapshots.slice(0, Math.max(1, maxSnapshots)))
+        }
+    }
+
+    clear(): void {
+        this.snapshots.clear()
+    }
+
+    /**
+     * Restore the history from its persisted form. Malformed entries are ignored.
+     */
+    restore(data: unknown): void {
+        this.snapshots.clear()
+
+        if (typeof data !== 'object' || data === null) {
+            return
+        }
+
+        for (const [key, value] of Object.entries(data)) {
+            if (!isQueryKey(key) || !Array.isArray(value)) {
+                continue
+            }
+            const snapshots = value.filter(isResultSnapshot)
+            if (snapshots.length > 0) {
+                this.snapshots.set(key, snapshots)
+            }
+        }
+    }
+
+    /**
+     * The persisted form of the history
+     */
+    toData(): Record<string, ResultSnapshot[]> {
+        return Object.fromEntries(this.snapshots)
+    }
+}
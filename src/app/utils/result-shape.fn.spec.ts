@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'bun:test'
+import { reshapeResult } from './result-shape.fn'
+
+describe('reshapeResult', () => {
+    const list = '- [[A]]\n- [[B]]: active\n- [[C]]'
+    const table =
+        '| File | Status | Due |\n| --- | --- | --- |\n| [[a.md\\|A]] | active | 2026-10-19 |\n| [[B]] |  | 2026-11-02 |'
+
+    describe('numbered', () => {
+        it('should number the items of a list', () => {
+            expect(reshapeResult(list, 'numbered', false)).toBe(
+                '1. [[A]]\n2. [[B]]: active\n3. [[C]]'
+            )
+        })
+
+        it('should number the rows of a table, their first cell first', () => {
+            expect(reshapeResult(table, 'numbered', true)).toBe(
+                '1. [[a.md|A]]: active, 2026-10-19\n2. [[B]]: 2026-11-02'
+            )
+        })
+
+        it('should keep the nested items of a grouped list', () => {
+            expect(
+                reshapeResult('- active\n    - [[A]]\n- done\n    - [[B]]', 'numbered', false)
+            ).toBe('1. active\n    - [[A]]\n2. done\n    - [[B]]')
+        })
+    })
+
+    describe('definition', () => {
+        it('should write the value of list items as their definition', () => {
+            expect(reshapeResult(list, 'definition', false)).toBe(
+                '[[A]]\n\n[[B]]\n: active\n\n[[C]]'
+            )
+        })
+
+        it('should write the other cells of a row as definitions of its first cell', () => {
+            expect(reshapeResult(table, 'definition', true)).toBe(
+                '[[a.md|A]]\n: active\n: 2026-10-19\n\n[[B]]\n: 2026-11-02'
+            )
+        })
+
+        it('should write the nested items of a group as its definitions', () => {
+            expect(reshapeResult('- active\n    - [[A]]\n    - [[B]]', 'definition', false)).toBe(
+                'active\n: [[A]]\n: [[B]]'
+            )
+        })
+    })
+
+    describe('inline', () => {
+        it('should join the items on a single line', () => {
+            expect(reshapeResult(list, 'inline', false)).toBe('[[A]], [[B]]: active, [[C]]')
+            expect(reshapeResult(table, 'inline', true)).toBe(
+                '[[a.md|A]]: active, 2026-10-19, [[B]]: 2026-11-02'
+            )
+        })
+    })
+
+    it('should render nothing for an empty result', () => {
+        expect(reshapeResult('', 'numbered', false)).toBe('')
+        expect(reshapeResult('| File |\n| --- |', 'inline', true)).toBe('')
+    })
+})
@@ -0,0 +1,113 @@
+/**
+ * Alternative shapes of LIST and TABLE results (the `shape` query option):
+ * - `numbered`: a numbered list
+ * - `definition`: a definition list (`Term` followed by `: Definition` lines)
+ * - `inline`: the items on a single line, separated by commas
+ */
+export type ResultShape = 'numbered' | 'definition' | 'inline'
+
+export const RESULT_SHAPES: ResultShape[] = ['numbered', 'definition', 'inline']
+
+/**
+ * An item of a result: the item of a list or the row of a table
+ */
+interface ResultItem {
+    /** The item, or the first cell of the row */
+    term: string
+    /** The value following the term (`- [[A]]: value`), or the other cells of the row */
+    definitions: string[]
+    /** The nested lines of a list item, as written */
+    children: string[]
+}
+
+/**
+ * Split a table row into its cells, leaving the escaped pipes of links alone
+ */
+const splitTableRow = (row: string): string[] =>
+    row
+        .trim()
+        .replace(/^\|/, '')
+        .replace(/(?<!\\)\|$/, '')
+        .split(/(?<!\\)\|/)
+        .map((cell) => cell.trim())
+
+/**
+ * Read the rows of a markdown table. Out of the table, the pipes of links no longer
+ * need escaping.
+ */
+const readTableItems = (markdown: string): ResultItem[] =>
+    markdown
+        .split('\n')
+        .filter((line) => line.trim().startsWith('|'))
+        // The header row and the separator row
+        .slice(2)
+        .map((row) => {
+            const [term = '', ...values] = splitTableRow(row).map((cell) =>
+                cell.replaceAll('\\|', '|')
+            )
+            return { term, definitions: values.filter((value) => value !== ''), children: [] }
+        })
+
+/**
+ * Read the items of a markdown list. Nested lines (e.g. the items of a group) stay
+ * attached to their item.
+ */
+const readListItems = (markdown: string): ResultItem[] => {
+    const items: ResultItem[] = []
+    for (const line of markdown.split('\n')) {
+        const itemMatch = /^[-*+] (.*)$/.exec(line)
+        if (itemMatch) {
+            // Dataview writes the value of `LIST expression` after the link: `[[A]]: value`
+            const separatorIndex = itemMatch[1]!.indexOf(': ')
+            items.push(
+                separatorIndex === -1
+                    ? { term: itemMatch[1]!, definitions: [], children: [] }
+                    : {
+                          term: itemMatch[1]!.substring(0, separatorIndex),
+                          definitions: [itemMatch[1]!.substring(separatorIndex + 2)],
+                          children: []
+                      }
+            )
+        } else if (line.trim() !== '' && items.length > 0) {
+            items[items.length - 1]!.children.push(line)
+        }
+    }
+    return items
+}
+
+const joinItem = (item: ResultItem): string =>
+    item.definitions.length > 0 ? `${item.term}: ${item.definitions.join(', ')}` : item.term
+
+/**
+ * Render the markdown of a LIST or TABLE result in another shape
+ *
+ * @param markdown The result, as rendered by Dataview
+ * @param shape The shape to render
+ * @param isTable Whether the result is a table
+ * @returns The reshaped result
+ */
+export const reshapeResult = (markdown: string, shape: ResultShape, isTable: boolean): string => {
+    const items = isTable ? readTableItems(markdown) : readListItems(markdown)
+
+    switch (shape) {
+        case 'numbered':
+            return items
+                .map((item, index) =>
+                    [`${index + 1}. ${joinItem(item)}`, ...item.children].join('\n')
+                )
+                .join('\n')
+        case 'definition':
+            return items
+                .map((item) =>
+                    [
+                        item.term,
+                        ...item.definitions.map((definition) => `: ${definition}`),
+                        // Nested items become definitions of their parent
+                        ...item.children.map((child) => `: ${child.trim().replace(/^[-*+] /, '')}`)
+                    ].join('\n')
+                )
+                .join('\n\n')
+        case 'inline':
+            return items.map(joinItem).join(', ')
+    }
+}
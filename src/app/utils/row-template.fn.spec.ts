@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'bun:test'
+import type { DataviewApi } from 'obsidian-dataview/lib/api/plugin-api'
+import {
+    buildRowContexts,
+    formatRowTemplatePresets,
+    parseRowTemplatePresets,
+    renderRowTemplate,
+    resolveField,
+    resolveRowTemplate,
+    type RowContext
+} from './row-template.fn'
+
+// literalToString does not use the API
+const mockDataviewApi = {} as DataviewApi
+
+const link = (path: string) => ({
+    path,
+    embed: false,
+    toString: () => `[[${path}]]`
+})
+
+const pages: Record<string, RowContext> = {
+    'Projects/Alpha.md': {
+        status: 'active',
+        file: { name: 'Alpha', link: link('Projects/Alpha.md') }
+    }
+}
+const getPage = (path: string): RowContext | undefined => pages[path]
+
+describe('resolveRowTemplate', () => {
+    const presets = [{ name: 'projects', template: '- {{file.link}}' }]
+
+    it('should prefer the template of the query over its preset', () => {
+        expect(resolveRowTemplate({ template: '- {{value}}', preset: 'projects' }, presets)).toBe(
+            '- {{value}}'
+        )
+        expect(resolveRowTemplate({ preset: 'projects' }, presets)).toBe('- {{file.link}}')
+        expect(resolveRowTemplate({}, presets)).toBeUndefined()
+        expect(resolveRowTemplate(undefined, presets)).toBeUndefined()
+    })
+
+    it('should reject an unknown preset', () => {
+        expect(() => resolveRowTemplate({ preset: 'tasks' }, presets)).toThrow(
+            'Unknown row template preset: tasks'
+        )
+    })
+})
+
+describe('resolveField', () => {
+    it('should follow dots and ignore the case of the keys when needed', () => {
+        const context = { Status: 'active', status: 'done', file: { name: 'Alpha' } }
+
+        expect(resolveField(context, 'status')).toBe('done')
+        expect(resolveField(context, 'STATUS')).toBe('active')
+        expect(resolveField(context, 'file.name')).toBe('Alpha')
+        expect(resolveField(context, 'file.name.length')).toBeUndefined()
+        expect(resolveField(context, 'due')).toBeUndefined()
+    })
+})
+
+describe('buildRowContexts', () => {
+    it('should read table columns by header, with the fields of the note', () => {
+        const [row] = buildRowContexts(
+            {
+                type: 'table',
+                headers: ['File', 'Due'],
+                values: [[link('Projects/Alpha.md'), '2026-10-19']]
+            },
+            getPage
+        )
+
+        expect(resolveField(row!, 'status')).toBe('active')
+        expect(resolveField(row!, 'Due')).toBe('2026-10-19')
+        expect(resolveField(row!, 'file.name')).toBe('Alpha')
+    })
+
+    it('should read list values, with or without an expression', () => {
+        const rows = buildRowContexts(
+            {
+                type: 'list',
+                values: [{ id: link('Projects/Alpha.md'), value: 3 }, link('Missing.md'), 'plain']
+            },
+            getPage
+        )
+
+        expect(rows[0]!['value']).toBe(3)
+        expect(resolveField(rows[0]!, 'file.name')).toBe('Alpha')
+        expect(resolveField(rows[1]!, 'value.path')).toBe('Missing.md')
+        expect(rows[2]).toEqual({ value: 'plain' })
+    })
+
+    it('should flatten grouped tasks', () => {
+        const rows = buildRowContexts(
+            {
+                type: 'task',
+                values: [
+                    {
+                        key: 'Alpha',
+                        rows: [{ text: 'Plan', path: 'Projects/Alpha.md' }]
+                    }
+                ]
+            },
+            getPage
+        )
+
+        expect(rows).toHaveLength(1)
+        expect(rows[0]!['text']).toBe('Plan')
+        expect(rows[0]!['status']).toBe('active')
+    })
+})
+
+describe('renderRowTemplate', () => {
+    it('should replace the placeholders with the values of the row', () => {
+        const context: RowContext = {
+            file: { link: link('Projects/Alpha.md') },
+            status: 'active',
+            tags: ['#a', '#b'],
+            due: null
+        }
+
+        expect(
+            renderRowTemplate(
+                '- {{file.link}} — {{ status }} ({{due}}) {{tags}}',
+                context,
+                mockDataviewApi
+            )
+        ).toBe('- [[Projects/Alpha.md]] — active () #a, #b')
+    })
+
+    it('should start a new line for each \\n of the template', () => {
+        expect(
+            renderRowTemplate('### {{name}}\\n{{value}}', { name: 'A', value: 1 }, mockDataviewApi)
+        ).toBe('### A\n1')
+    })
+})
+
+describe('row template presets', () => {
+    it('should parse one preset per line and skip invalid lines', () => {
+        const presets = parseRowTemplatePresets(
+            'projects: - {{file.link}} — {{status}}\n\nno separator\n: no name\ntasks: - [{{status}}] {{text}}'
+        )
+
+        expect(presets).toEqual([
+            { name: 'projects', template: '- {{file.link}} — {{status}}' },
+            { name: 'tasks', template: '- [{{status}}] {{text}}' }
+        ])
+        expect(parseRowTemplatePresets(formatRowTemplatePresets(presets))).toEqual(presets)
+    })
+})
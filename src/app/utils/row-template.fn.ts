@@ -0,0 +1,165 @@
+import type { DataviewApi } from 'obsidian-dataview/lib/api/plugin-api'
+import type { Literal } from 'obsidian-dataview/lib/data-model/value'
+import type { RowTemplatePreset } from '../types/plugin-settings.intf'
+import type { QueryOptions } from './parse-query-options.fn'
+import { literalToString } from './literal-to-string.fn'
+
+/**
+ * Structural view of the result of `dataviewApi.query`. Dataview's typings reference
+ * modules that do not resolve here, so we declare only the fields we read.
+ */
+export type TemplateQueryResult =
+    | { type: 'table'; headers: string[]; values: unknown[][] }
+    | { type: 'list'; values: unknown[] }
+    | { type: 'task'; values: unknown[] }
+    | { type: 'calendar'; values: { date: unknown; link: unknown; value?: unknown }[] }
+
+/**
+ * The fields a template can read for one row of the result
+ */
+export type RowContext = Record<string, unknown>
+
+/**
+ * Matches a placeholder, such as `{{file.link}}` or `{{ due }}`
+ */
+const PLACEHOLDER_REGEX = /\{\{\s*([^{}]+?)\s*\}\}/g
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object'
+
+/**
+ * Whether a value is a Dataview link, the path of which leads to its page
+ */
+const isLink = (value: unknown): value is { path: string } =>
+    isRecord(value) && typeof value['path'] === 'string' && typeof value['embed'] === 'boolean'
+
+/**
+ * Resolve the template of a query: its own, or the preset it names
+ *
+ * @throws When the query names an unknown preset
+ */
+export const resolveRowTemplate = (
+    options: QueryOptions | undefined,
+    presets: RowTemplatePreset[]
+): string | undefined => {
+    if (options?.template) {
+        return options.template
+    }
+    if (!options?.preset) {
+        return undefined
+    }
+
+    const preset = presets.find(({ name }) => name === options.preset)
+    if (!preset) {
+        throw new Error(`Unknown row template preset: ${options.preset}`)
+    }
+    return preset.template
+}
+
+/**
+ * Read a field of a row, following dots into objects (`file.link`). The exact key is
+ * preferred, then a key differing only by its case, as Dataview does.
+ */
+export const resolveField = (context: RowContext, path: string): unknown => {
+    let value: unknown = context
+    for (const key of path.split('.')) {
+        if (!isRecord(value)) {
+            return undefined
+        }
+        const matchingKey =
+            key in value
+                ? key
+                : Object.keys(value).find(
+                      (candidate) => candidate.toLowerCase() === key.toLowerCase()
+                  )
+        value = matchingKey === undefined ? undefined : value[matchingKey]
+    }
+    return value
+}
+
+/**
+ * Build the fields of each row of a query result. Rows pointing to a note (its link,
+ * or a task of the note) also get the fields of that note, such as `file.link`.
+ *
+ * @param result The raw result of the query
+ * @param getPage Returns the fields of a note, or undefined
+ * @returns One context per row, or per task (nested tasks excluded)
+ */
+export const buildRowContexts = (
+    result: TemplateQueryResult,
+    getPage: (path: string) => RowContext | undefined
+): RowContext[] => {
+    const pageOf = (link: unknown): RowContext => (isLink(link) ? (getPage(link.path) ?? {}) : {})
+
+    switch (result.type) {
+        case 'table':
+            // Columns are read by their header; the first one is the note, unless WITHOUT ID
+            return result.values.map((row) => ({
+                ...pageOf(row[0]),
+                ...Object.fromEntries(result.headers.map((header, index) => [header, row[index]]))
+            }))
+        case 'list':
+            return result.values.map((value) => {
+                // `LIST expression` returns the note and the value of the expression
+                if (isRecord(value) && 'id' in value && 'value' in value) {
+                    return { ...pageOf(value['id']), value: value['value'] }
+                }
+                return { ...pageOf(value), value }
+            })
+        case 'task': {
+            const flatten = (values: unknown[]): RowContext[] =>
+                values.flatMap((value): RowContext[] => {
+                    if (isRecord(value) && Array.isArray(value['rows'])) {
+                        return flatten(value['rows'])
+                    }
+                    if (!isRecord(value)) {
+                        return []
+                    }
+                    const path = value['path']
+                    return [{ ...(typeof path === 'string' ? getPage(path) : {}), ...value }]
+                })
+            return flatten(result.values)
+        }
+        case 'calendar':
+            return result.values.map((entry) => ({ ...pageOf(entry.link), ...entry }))
+    }
+}
+
+/**
+ * Render one row with a template. Placeholders read the fields of the row; a missing
+ * field renders as nothing. `\n` in the template starts a new line.
+ *
+ * @param template The template, such as `- {{file.link}} — {{status}} ({{due}})`
+ * @param context The fields of the row
+ * @param dataviewApi The Dataview API, to render the values
+ * @returns The markdown of the row
+ */
+export const renderRowTemplate = (
+    template: string,
+    context: RowContext,
+    dataviewApi: DataviewApi
+): string =>
+    template.replaceAll('\\n', '\n').replace(PLACEHOLDER_REGEX, (_placeholder, path: string) => {
+        const value = resolveField(context, path)
+        return value === undefined || value === null
+            ? ''
+            : literalToString(value as Literal, dataviewApi)
+    })
+
+/**
+ * Parse the presets setting: one `name: template` per line
+ */
+export const parseRowTemplatePresets = (text: string): RowTemplatePreset[] =>
+    text
+        .split('\n')
+        .map((line) => {
+            const separatorIndex = line.indexOf(':')
+            return {
+                name: line.substring(0, separatorIndex).trim(),
+                template: line.substring(separatorIndex + 1).trim()
+            }
+        })
+        .filter(({ name, template }) => name !== '' && template !== '')
+
+export const formatRowTemplatePresets = (presets: RowTemplatePreset[]): string =>
+    presets.map(({ name, template }) => `${name}: ${template}`).join('\n')
@@ -1,17 +1,21 @@
 /**
  * Serialize DataviewJS queries to markdown.
  *
- * This function executes JavaScript code in a sandboxed context with a proxy `dv` object
- * that captures rendering calls and converts them to markdown.
+ * This function executes JavaScript code in a sandbox (a Web Worker), whose `dv` object
+ * calls a proxy capturing rendering calls and converting them to markdown.
  *
  * Supports async/await in the JavaScript code.
  */
 
 import type { DataviewApi } from 'obsidian-dataview/lib/api/plugin-api'
-import { createDataviewJSProxy } from './dataviewjs-proxy'
+import { createDataviewJSProxy, type DataviewJSProxyResult } from './dataviewjs-proxy'
+import { fromBridgeValue, toBridgeValue } from './dataviewjs-bridge.fn'
+import { runInDataviewJSSandbox, type SandboxHandler } from './dataviewjs-sandbox'
 import { log } from '../../utils/log'
 import { DATAVIEWJS_TIMEOUT_MS } from '../constants'
 import { applyIndentation } from './blockquote.fn'
+import { assertCapabilityAllowed, DATAVIEWJS_CAPABILITIES } from './dataviewjs-capabilities.fn'
+import type { DataviewJSCapability } from '../types/plugin-settings.intf'
 
 /**
  * Result of serializing a DataviewJS query
@@ -21,6 +25,8 @@ export interface DataviewJSSerializationResult {
     success: boolean
     /** The serialized markdown content (empty string on failure) */
     serializedContent: string
+    /** Paths of the view scripts loaded through dv.view(), even on failure */
+    viewPaths: string[]
     /** Error information if serialization failed */
     error?: {
         message: string
@@ -40,38 +46,70 @@ interface SerializeDataviewJSParams {
     dataviewApi: DataviewApi
     /** Indentation to apply to the output */
     indentation?: string
+    /**
+     * Decide whether a view script loaded through dv.view() may run.
+     * View scripts always run when undefined.
+     */
+    canRunViewScript?: (path: string, contents: string) => Promise<boolean>
+    /**
+     * What the code may call besides the rendering methods.
+     * Every capability is allowed when undefined.
+     */
+    capabilities?: readonly DataviewJSCapability[]
 }
 
 /**
- * Execute JavaScript code with a timeout.
- *
- * @param fn The async function to execute
- * @param timeoutMs The timeout in milliseconds
- * @returns The result of the function or throws on timeout
+ * Expose the methods of the proxy to the sandbox, converting their arguments and
+ * results on the way. `dv.io.load()` is the `io.load` handler. Calling a method
+ * whose capability is not allowed fails.
  */
-async function withTimeout<T>(fn: () => Promise<T>, timeoutMs: number): Promise<T> {
-    return new Promise((resolve, reject) => {
-        const timeoutId = window.setTimeout(() => {
-            reject(new Error(`DataviewJS execution timed out after ${timeoutMs}ms`))
-        }, timeoutMs)
+function buildSandboxHandlers(
+    { proxy, loadView }: DataviewJSProxyResult,
+    dataviewApi: DataviewApi,
+    canRunViewScript: SerializeDataviewJSParams['canRunViewScript'],
+    capabilities: readonly DataviewJSCapability[]
+): Record<string, SandboxHandler> {
+    const handlers: Record<string, SandboxHandler> = {}
+    const expose = (name: string, method: (...args: unknown[]) => unknown) => {
+        handlers[name] = async (...args) => {
+            assertCapabilityAllowed(name, capabilities)
+            return toBridgeValue(
+                await method(...args.map((arg) => fromBridgeValue(arg, dataviewApi))),
+                dataviewApi
+            )
+        }
+    }
 
-        fn()
-            .then((result) => {
-                window.clearTimeout(timeoutId)
-                resolve(result)
-            })
-            .catch((error: unknown) => {
-                window.clearTimeout(timeoutId)
-                reject(error instanceof Error ? error : new Error(String(error)))
-            })
+    for (const [name, member] of Object.entries(proxy)) {
+        if (typeof member === 'function') {
+            expose(name, member as (...args: unknown[]) => unknown)
+        } else if (member !== null && typeof member === 'object') {
+            for (const [memberName, method] of Object.entries(member)) {
+                if (typeof method === 'function') {
+                    expose(`${name}.${memberName}`, method as (...args: unknown[]) => unknown)
+                }
+            }
+        }
+    }
+    expose('loadView', async (viewName) => {
+        const view = await loadView(String(viewName))
+        if (canRunViewScript && !(await canRunViewScript(view.path, view.contents))) {
+            throw new Error(
+                `dv.view(): the view script ${view.path} has not been approved on this device`
+            )
+        }
+        return view
     })
+
+    return handlers
 }
 
 /**
  * Serialize a DataviewJS query to markdown.
  *
- * Executes the JavaScript code with a proxy `dv` object that captures rendering calls
- * and converts them to markdown.
+ * Executes the JavaScript code in a sandbox, with a `dv` object whose calls reach a
+ * proxy capturing rendering calls and converting them to markdown. The sandbox is
+ * terminated when the code runs longer than DATAVIEWJS_TIMEOUT_MS.
  *
  * @param params Parameters for serialization
  * @returns Result containing the serialized content or error information
@@ -79,12 +117,20 @@ async function withTimeout<T>(fn: () => Promise<T>, timeoutMs: number): Promise<
 export async function serializeDataviewJSQuery(
     params: SerializeDataviewJSParams
 ): Promise<DataviewJSSerializationResult> {
-    const { jsCode, originFile, dataviewApi, indentation } = params
+    const {
+        jsCode,
+        originFile,
+        dataviewApi,
+        indentation,
+        canRunViewScript,
+        capabilities = DATAVIEWJS_CAPABILITIES
+    } = params
 
     if (!jsCode || !jsCode.trim()) {
         return {
             success: false,
             serializedContent: '',
+            viewPaths: [],
             error: {
                 message: 'Empty JavaScript code',
                 jsCode
@@ -92,24 +138,23 @@ export async function serializeDataviewJSQuery(
         }
     }
 
-    try {
-        // Create the proxy dv object
-        const { proxy: dv, getMarkdown } = createDataviewJSProxy(dataviewApi, originFile)
-
-        // Create an async function from the JavaScript code
-        // This allows the code to use await for async operations like dv.io.load()
-        const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor
-
-        // Create the function with 'dv' as the parameter
-        // The code can reference 'dv' directly
-        const executeCode = new AsyncFunction('dv', jsCode) as (
-            dv: Record<string, unknown>
-        ) => Promise<void>
+    // Create the proxy dv object
+    const dataviewJSProxy = createDataviewJSProxy(dataviewApi, originFile)
+    const { getMarkdown, getViewPaths } = dataviewJSProxy
 
-        // Execute the code with timeout
-        await withTimeout(async () => {
-            await executeCode(dv)
-        }, DATAVIEWJS_TIMEOUT_MS)
+    try {
+        // Run the code in the sandbox; it can use await for async operations like dv.io.load()
+        await runInDataviewJSSandbox({
+            jsCode,
+            handlers: buildSandboxHandlers(
+                dataviewJSProxy,
+                dataviewApi,
+                canRunViewScript,
+                capabilities
+            ),
+            current: toBridgeValue(dataviewApi.page(originFile), dataviewApi),
+            timeoutMs: DATAVIEWJS_TIMEOUT_MS
+        })
 
         // Get the captured markdown
         let serializedContent = getMarkdown()
@@ -120,7 +165,8 @@ export async function serializeDataviewJSQuery(
 
         return {
             success: true,
-            serializedContent
+            serializedContent,
+            viewPaths: getViewPaths()
         }
     } catch (err: unknown) {
         const errorMessage = err instanceof Error ? err.message : String(err)
@@ -129,6 +175,7 @@ export async function serializeDataviewJSQuery(
         return {
             success: false,
             serializedContent: '',
+            viewPaths: getViewPaths(),
             error: {
                 message: errorMessage,
                 jsCode
@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'bun:test'
+import type { DataviewApi } from 'obsidian-dataview/lib/api/plugin-api'
+import { serializePropertyQuery } from './serialize-property-query.fn'
+
+const link = (path: string) => ({
+    path,
+    embed: false,
+    toString: () => `[[${path}]]`
+})
+
+// Only the methods used to evaluate property queries
+const mockDataviewApi = {
+    page: (path: string) => (path === 'Missing.md' ? undefined : { file: { path } }),
+    evaluate: (expression: string, context: { this: { file: { path: string } } }) =>
+        expression === 'this.file.path'
+            ? { successful: true, value: context.this.file.path }
+            : expression === 'this.file.inlinks'
+              ? { successful: true, value: [link('A.md'), link('B.md')] }
+              : { successful: false, error: `Cannot evaluate ${expression}` },
+    query: async (query: string) =>
+        query.startsWith('LIST')
+            ? { successful: true, value: { type: 'list', values: [link('Projects/Alpha.md')] } }
+            : { successful: false, error: 'Invalid query' }
+} as unknown as DataviewApi
+
+describe('serializePropertyQuery', () => {
+    test('evaluates an expression with this being the note of the query', async () => {
+        expect(
+            await serializePropertyQuery({
+                query: '=this.file.path',
+                originFile: 'Home.md',
+                dataviewApi: mockDataviewApi
+            })
+        ).toEqual({ success: true, data: 'Home.md' })
+
+        expect(
+            await serializePropertyQuery({
+                query: '= this.file.inlinks',
+                originFile: 'Home.md',
+                dataviewApi: mockDataviewApi
+            })
+        ).toEqual({ success: true, data: ['[[A.md]]', '[[B.md]]'] })
+    })
+
+    test('gives the data of the result of a query', async () => {
+        expect(
+            await serializePropertyQuery({
+                query: 'LIST FROM #project',
+                originFile: 'Home.md',
+                dataviewApi: mockDataviewApi
+            })
+        ).toEqual({ success: true, data: ['[[Projects/Alpha.md]]'] })
+    })
+
+    test('reports the errors', async () => {
+        const evaluate = (query: string, originFile = 'Home.md') =>
+            serializePropertyQuery({ query, originFile, dataviewApi: mockDataviewApi })
+
+        expect((await evaluate('=this.unknown')).error?.message).toBe(
+            'Cannot evaluate this.unknown'
+        )
+        expect((await evaluate('=this.file.path', 'Missing.md')).error?.message).toBe(
+            'Could not get page metadata for file: Missing.md'
+        )
+        expect((await evaluate('TABLE status')).error).toEqual({
+            message: 'Invalid query',
+            query: 'TABLE status'
+        })
+        expect((await evaluate('this.file.path')).success).toBe(false)
+    })
+})
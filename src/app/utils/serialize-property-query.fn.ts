@@ -0,0 +1,90 @@
+import type { DataviewApi } from 'obsidian-dataview/lib/api/plugin-api'
+import { log } from '../../utils/log'
+import { isSupportedQueryType } from './is-supported-query-type.fn'
+import { buildResultData, toResultData, type ResultData } from './result-data.fn'
+import type { TemplateQueryResult } from './row-template.fn'
+
+/**
+ * Result of evaluating a property query
+ */
+export interface PropertyQuerySerializationResult {
+    /** Whether the evaluation was successful */
+    success: boolean
+    /** The value of the property (null on failure) */
+    data: ResultData
+    /** Error information if the evaluation failed */
+    error?: {
+        message: string
+        query: string
+    }
+}
+
+interface SerializePropertyQueryParams {
+    /** An expression (e.g., "=this.file.inlinks"), or a LIST, TABLE, TASK or CALENDAR query */
+    query: string
+    /** The file path where this query is located */
+    originFile: string
+    /** The Dataview API instance */
+    dataviewApi: DataviewApi
+}
+
+/**
+ * Evaluate a property query into the value of its property.
+ *
+ * An expression is evaluated like an inline query, `this` being the note of the query;
+ * a query gives the data of its result, e.g. a list of links for a LIST query. Links,
+ * dates and durations become strings, so that Obsidian reads the property like one
+ * typed by hand.
+ *
+ * @param params Parameters for the evaluation
+ * @returns Result containing the value of the property or error information
+ */
+export async function serializePropertyQuery(
+    params: SerializePropertyQueryParams
+): Promise<PropertyQuerySerializationResult> {
+    const { query, originFile, dataviewApi } = params
+
+    try {
+        if (query.startsWith('=')) {
+            const page = dataviewApi.page(originFile)
+            if (!page) {
+                throw new Error(`Could not get page metadata for file: ${originFile}`)
+            }
+            const evalResult = dataviewApi.evaluate(
+                query.slice(1).trim(),
+                { this: page },
+                originFile
+            )
+            if (!evalResult.successful) {
+                throw new Error(evalResult.error)
+            }
+            return { success: true, data: toResultData(evalResult.value, dataviewApi) }
+        }
+
+        if (!isSupportedQueryType(query)) {
+            throw new Error(
+                'A property query must be an expression starting with =, or a LIST, TABLE, TASK or CALENDAR query'
+            )
+        }
+        const queryResult = await dataviewApi.query(query, originFile)
+        if (!queryResult.successful) {
+            throw new Error(queryResult.error)
+        }
+        return {
+            success: true,
+            data: buildResultData(queryResult.value as TemplateQueryResult, dataviewApi)
+        }
+    } catch (err: unknown) {
+        const errorMessage = err instanceof Error ? err.message : String(err)
+        log(`Failed to evaluate the property query: ${query}`, 'warn', err)
+
+        return {
+            success: false,
+            data: null,
+            error: {
+                message: errorMessage,
+                query
+            }
+        }
+    }
+}
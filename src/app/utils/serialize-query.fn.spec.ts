@@ -313,6 +313,275 @@ describe('serializeQuery', () => {
         })
     })
 
+    describe('query options', () => {
+        it('should let the linkFormat option override the linkFormat setting', async () => {
+            const mockApp = createMockApp([{ name: 'unique-note.md' }])
+            const mockApi = createMockDataviewApi('- [[folder/unique-note.md|unique-note]]\n')
+
+            const result = await serializeQuery({
+                query: 'list',
+                originFile: 'origin.md',
+                dataviewApi: mockApi,
+                app: mockApp,
+                linkFormat: 'shortest',
+                options: { linkFormat: 'absolute' }
+            })
+
+            expect(result.serializedContent).toBe('- [[folder/unique-note.md|unique-note]]\n')
+        })
+
+        it('should fall back to the linkFormat setting without the option', async () => {
+            const mockApp = createMockApp([{ name: 'unique-note.md' }])
+            const mockApi = createMockDataviewApi('- [[folder/unique-note.md|unique-note]]\n')
+
+            const result = await serializeQuery({
+                query: 'list',
+                originFile: 'origin.md',
+                dataviewApi: mockApi,
+                app: mockApp,
+                linkFormat: 'absolute',
+                options: { header: 'Projects' }
+            })
+
+            expect(result.serializedContent).toBe('- [[folder/unique-note.md|unique-note]]\n')
+        })
+
+        it('should append the limit option as a LIMIT clause', async () => {
+            const mockApp = createMockApp([])
+            const tryQueryMarkdownMock = mock(() => Promise.resolve('result'))
+            const mockApi = {
+                tryQueryMarkdown: tryQueryMarkdownMock
+            } as unknown as DataviewApi
+
+            await serializeQuery({
+                query: 'list from #project',
+                originFile: 'my-note.md',
+                dataviewApi: mockApi,
+                app: mockApp,
+                options: { limit: 5 }
+            })
+
+            expect(tryQueryMarkdownMock).toHaveBeenCalledWith(
+                'list from #project\nLIMIT 5',
+                'my-note.md'
+            )
+        })
+    })
+
+    describe('result shapes', () => {
+        it('should render list results in the shape of the option', async () => {
+            const result = await serializeQuery({
+                query: 'list from #project',
+                originFile: 'origin.md',
+                dataviewApi: createMockDataviewApi('- [[folder/a.md|a]]\n- [[b.md|b]]\n'),
+                app: createMockApp([{ name: 'a.md' }, { name: 'b.md' }]),
+                options: { shape: 'numbered' }
+            })
+
+            expect(result.serializedContent).toBe('1. [[a]]\n2. [[b]]')
+        })
+
+        it('should render table rows in the shape of the option, with unescaped links', async () => {
+            const result = await serializeQuery({
+                query: 'table status from #project',
+                originFile: 'origin.md',
+                dataviewApi: createMockDataviewApi(
+                    '| File | status |\n| --- | --- |\n| [[folder/a.md\\|a]] | active |'
+                ),
+                app: createMockApp([{ name: 'a.md' }]),
+                options: { shape: 'inline' }
+            })
+
+            expect(result.serializedContent).toBe('[[a]]: active')
+        })
+
+        it('should ignore the shape for task queries', async () => {
+            const result = await serializeQuery({
+                query: 'task',
+                originFile: 'origin.md',
+                dataviewApi: createMockDataviewApi('- [ ] Task'),
+                app: createMockApp([]),
+                options: { shape: 'inline' }
+            })
+
+            expect(result.serializedContent).toBe('- Task')
+        })
+    })
+
+    describe('row templates', () => {
+        const link = (path: string) => ({
+            path,
+            embed: false,
+            toString: () => `[[${path}|${path.replace(/^.*\//, '').replace(/\.md$/, '')}]]`
+        })
+        const createTemplateApi = (): DataviewApi =>
+            ({
+                query: mock(() =>
+                    Promise.resolve({
+                        successful: true,
+                        value: {
+                            type: 'table',
+                            headers: ['File', 'due'],
+                            values: [[link('Projects/Alpha.md'), '2026-10-19']]
+                        }
+                    })
+                ),
+                page: mock(() => ({
+                    status: 'active',
+                    file: { link: link('Projects/Alpha.md') }
+                }))
+            }) as unknown as DataviewApi
+
+        it('should render each row with the template, with simplified links', async () => {
+            const result = await serializeQuery({
+                query: 'table due from #project',
+                originFile: 'origin.md',
+                dataviewApi: createTemplateApi(),
+                app: createMockApp([{ name: 'Alpha.md' }]),
+                options: { template: '- {{file.link}} — {{status}} ({{due}})' }
+            })
+
+            expect(result.serializedContent).toBe('- [[Alpha]] — active (2026-10-19)')
+        })
+
+        it('should render the rows with the preset named by the query', async () => {
+            const result = await serializeQuery({
+                query: 'table due from #project',
+                originFile: 'origin.md',
+                dataviewApi: createTemplateApi(),
+                app: createMockApp([{ name: 'Alpha.md' }]),
+                options: { preset: 'due' },
+                rowTemplatePresets: [{ name: 'due', template: '{{due}}: {{file.link}}' }]
+            })
+
+            expect(result.serializedContent).toBe('2026-10-19: [[Alpha]]')
+        })
+
+        it('should fail for an unknown preset', async () => {
+            const result = await serializeQuery({
+                query: 'table due from #project',
+                originFile: 'origin.md',
+                dataviewApi: createTemplateApi(),
+                app: createMockApp([]),
+                options: { preset: 'missing' }
+            })
+
+            expect(result.success).toBe(false)
+            expect(result.error?.message).toBe('Unknown row template preset: missing')
+        })
+    })
+
+    describe('synced tasks', () => {
+        it('should keep the checkboxes and tag the tasks with the syncTasks option', async () => {
+            const mockApi = {
+                query: mock(() =>
+                    Promise.resolve({
+                        successful: true,
+                        value: {
+                            type: 'task',
+                            values: [
+                                {
+                                    task: true,
+                                    status: 'x',
+                                    text: 'Ship [[folder/release.md|release]]',
+                                    path: 'Projects/A.md',
+                                    line: 4,
+                                    children: []
+                                }
+                            ]
+                        }
+                    })
+                )
+            } as unknown as DataviewApi
+
+            const result = await serializeQuery({
+                query: 'task from #project',
+                originFile: 'origin.md',
+                dataviewApi: mockApi,
+                app: createMockApp([{ name: 'release.md' }]),
+                options: { syncTasks: true }
+            })
+
+            expect(result.serializedContent).toBe(
+                '- [x] Ship [[release]] <!-- dvs-task: Projects/A.md:4 -->'
+            )
+        })
+
+        it('should leave the synced copies out of the task queries', async () => {
+            const tryQueryMarkdownMock = mock(() => Promise.resolve('- [ ] Plan'))
+
+            const result = await serializeQuery({
+                query: 'task from #project\nLIMIT 10',
+                originFile: 'origin.md',
+                dataviewApi: { tryQueryMarkdown: tryQueryMarkdownMock } as unknown as DataviewApi,
+                app: createMockApp([]),
+                options: { limit: 5 }
+            })
+
+            expect(tryQueryMarkdownMock).toHaveBeenCalledWith(
+                'task from #project\nWHERE !contains(text, "dvs-task:")\nLIMIT 10\nLIMIT 5',
+                'origin.md'
+            )
+            expect(result.serializedContent).toBe('- Plan')
+        })
+    })
+
+    describe('calendar queries', () => {
+        const createCalendarApi = (
+            values: { date: { year: number; month: number; day: number }; path: string }[]
+        ): DataviewApi =>
+            ({
+                query: mock(() =>
+                    Promise.resolve({
+                        successful: true,
+                        value: {
+                            type: 'calendar',
+                            values: values.map(({ date, path }) => ({
+                                date,
+                                link: {
+                                    markdown: () =>
+                                        `[[${path}|${path.replace(/^.*\//, '').replace(/\.md$/, '')}]]`
+                                }
+                            }))
+                        }
+                    })
+                )
+            }) as unknown as DataviewApi
+
+        it('should render the result as month grids with simplified links', async () => {
+            const result = await serializeQuery({
+                query: 'calendar file.day from "Daily"',
+                originFile: 'origin.md',
+                dataviewApi: createCalendarApi([
+                    { date: { year: 2026, month: 2, day: 3 }, path: 'Daily/2026-02-03.md' }
+                ]),
+                app: createMockApp([{ name: '2026-02-03.md' }])
+            })
+
+            expect(result.success).toBe(true)
+            expect(result.serializedContent).toStartWith('**February 2026**\n\n| Mon |')
+            expect(result.serializedContent).toContain('| 2 | 3<br>[[2026-02-03]] | 4 |')
+        })
+
+        it('should report the errors of the query', async () => {
+            const mockApi = {
+                query: mock(() =>
+                    Promise.resolve({ successful: false, error: 'Unrecognized field' })
+                )
+            } as unknown as DataviewApi
+
+            const result = await serializeQuery({
+                query: 'calendar nope',
+                originFile: 'origin.md',
+                dataviewApi: mockApi,
+                app: createMockApp([])
+            })
+
+            expect(result.success).toBe(false)
+            expect(result.error?.message).toBe('Unrecognized field')
+        })
+    })
+
     describe('useMarkdownLinks (obsidian setting)', () => {
         const createMarkdownLinksApp = (files: Partial<TFile>[]): App =>
             ({
@@ -4,11 +4,28 @@
  */
 import type { DataviewApi } from 'obsidian-dataview/lib/api/plugin-api'
 import { log } from '../../utils/log'
-import { App, Notice, TFile } from 'obsidian'
+import { App, TFile } from 'obsidian'
 import type { QuerySerializationResult } from '../types/query-result.intf'
-import type { LinkFormat } from '../types/plugin-settings.intf'
+import type { LinkFormat, RowTemplatePreset } from '../types/plugin-settings.intf'
 import { isTaskQuery } from './is-task-query.fn'
+import { isCalendarQuery } from './is-calendar-query.fn'
+import { isTableQuery } from './is-table-query.fn'
+import { buildCalendarGrid } from './calendar-grid.fn'
+import { buildDataBlock, buildResultData, type ResultData } from './result-data.fn'
+import { reshapeResult } from './result-shape.fn'
+import {
+    buildRowContexts,
+    renderRowTemplate,
+    resolveRowTemplate,
+    type TemplateQueryResult
+} from './row-template.fn'
+import {
+    excludeSyncedTaskCopies,
+    renderSyncedTasks,
+    type TaskResultGrouping
+} from './synced-tasks.fn'
 import { applyIndentation } from './blockquote.fn'
+import type { QueryOptions } from './parse-query-options.fn'
 
 /**
  * Structural view of the undocumented `Vault.config` object. Obsidian does not
@@ -22,6 +39,16 @@ interface VaultWithConfig {
     }
 }
 
+/**
+ * Structural view of the entries of a CALENDAR query result. Dataview's typings
+ * reference modules that do not resolve here (its data model, luxon), so we
+ * declare only the fields we read.
+ */
+interface CalendarResultEntry {
+    date: { year: number; month: number; day: number }
+    link: { markdown(): string }
+}
+
 /**
  * Pre-compiled regex for wiki links in table cells.
  * Dataview escapes pipes as \| within wiki links in tables.
@@ -102,6 +129,18 @@ interface SerializeQueryParams {
      * - 'absolute': Always use full path for consistency across devices
      */
     linkFormat?: LinkFormat
+    /**
+     * The per-query options found in the marker.
+     * `linkFormat` overrides the link format above, `limit` caps the number of results,
+     * `shape` renders LIST and TABLE results in another shape, `syncTasks` keeps the
+     * checkboxes of TASK results, `template` or `preset` renders each row and `format`
+     * outputs the data of the result instead of its markdown.
+     */
+    options?: QueryOptions
+    /**
+     * The row templates that queries can name with the `preset` option
+     */
+    rowTemplatePresets?: RowTemplatePreset[]
 }
 
 export const serializeQuery = async (
@@ -113,7 +152,7 @@ export const serializeQuery = async (
     // When 'obsidian', read from Obsidian's vault configuration
     let effectiveLinkFormat: 'shortest' | 'absolute' = 'shortest'
     let useMarkdownLinks = false
-    const configuredFormat = params.linkFormat ?? 'shortest'
+    const configuredFormat = params.options?.linkFormat ?? params.linkFormat ?? 'shortest'
 
     if (configuredFormat === 'obsidian') {
         // Read Obsidian's "New link format" setting from vault config.
@@ -176,17 +215,100 @@ export const serializeQuery = async (
 
     let serializedQuery = ''
     try {
-        serializedQuery = await params.dataviewApi.tryQueryMarkdown(params.query, params.originFile)
+        // Synced copies of tasks are left out of TASK queries, as they would feed them again
+        const sourceQuery = isTaskQuery(params.query)
+            ? excludeSyncedTaskCopies(params.query)
+            : params.query
+        // Dataview applies successive LIMIT clauses one after the other, so the option
+        // can only further reduce a limit already present in the query
+        const query =
+            params.options?.limit !== undefined
+                ? `${sourceQuery}\nLIMIT ${params.options.limit}`
+                : sourceQuery
+        const isCalendar = isCalendarQuery(params.query)
+        const syncTasks = isTaskQuery(params.query) && params.options?.syncTasks === true
+        const rowTemplate = resolveRowTemplate(params.options, params.rowTemplatePresets ?? [])
+        const format = params.options?.format
+        if (format === 'frontmatter' && !params.options?.property) {
+            throw new Error('The frontmatter format requires the property option')
+        }
+        if (format !== undefined) {
+            // The data is read from the raw result. Frontmatter data goes through JSON, so
+            // that its links are simplified like the others.
+            const queryResult = await params.dataviewApi.query(query, params.originFile)
+            if (!queryResult.successful) {
+                throw new Error(queryResult.error)
+            }
+            const data = buildResultData(
+                queryResult.value as TemplateQueryResult,
+                params.dataviewApi
+            )
+            serializedQuery =
+                format === 'frontmatter' ? JSON.stringify(data) : buildDataBlock(data, format)
+        } else if (rowTemplate !== undefined) {
+            // Templates read the values of each row, not their markdown rendering
+            const queryResult = await params.dataviewApi.query(query, params.originFile)
+            if (!queryResult.successful) {
+                throw new Error(queryResult.error)
+            }
+            serializedQuery = buildRowContexts(queryResult.value as TemplateQueryResult, (path) =>
+                params.dataviewApi.page(path, params.originFile)
+            )
+                .map((context) => renderRowTemplate(rowTemplate, context, params.dataviewApi))
+                .join('\n')
+        } else if (syncTasks) {
+            // The location of each task is only found in the raw result
+            const queryResult = await params.dataviewApi.query(query, params.originFile)
+            if (!queryResult.successful) {
+                throw new Error(queryResult.error)
+            }
+            serializedQuery =
+                queryResult.value.type === 'task'
+                    ? renderSyncedTasks(queryResult.value.values as TaskResultGrouping)
+                    : ''
+        } else if (isCalendar) {
+            // Dataview cannot render calendars to markdown, so the grid is built from the
+            // raw result. Its links are then simplified like those of a table.
+            const queryResult = await params.dataviewApi.query(query, params.originFile)
+            if (!queryResult.successful) {
+                throw new Error(queryResult.error)
+            }
+            serializedQuery =
+                queryResult.value.type === 'calendar'
+                    ? buildCalendarGrid(
+                          (queryResult.value.values as CalendarResultEntry[]).map(
+                              ({ date, link }) => ({
+                                  year: date.year,
+                                  month: date.month,
+                                  day: date.day,
+                                  link: link.markdown()
+                              })
+                          )
+                      )
+                    : ''
+        } else {
+            serializedQuery = await params.dataviewApi.tryQueryMarkdown(query, params.originFile)
+        }
         // Reference: https://github.com/dsebastien/obsidian-dataview-serializer/issues/3
 
         // For TASK queries, strip checkbox markers to convert tasks to regular list items.
         // This prevents feedback loops where serialized tasks would be picked up by subsequent queries.
         // Reference: https://github.com/dsebastien/obsidian-dataview-serializer/issues/19
-        if (isTaskQuery(params.query)) {
+        if (
+            isTaskQuery(params.query) &&
+            !syncTasks &&
+            rowTemplate === undefined &&
+            format === undefined
+        ) {
             serializedQuery = stripTaskCheckboxes(serializedQuery)
         }
 
-        if (params.query.toLocaleLowerCase().contains('table')) {
+        // Templated rows and data are never table cells, whatever the query
+        if (
+            rowTemplate === undefined &&
+            format === undefined &&
+            (isCalendar || params.query.toLocaleLowerCase().contains('table'))
+        ) {
             serializedQuery = serializedQuery.replaceAll('\\\\', '\\').replaceAll('\n<', '<')
 
             // Reset lastIndex for reuse of pre-compiled regex
@@ -291,10 +413,24 @@ export const serializeQuery = async (
                 }
             }
         }
+
+        // Reshaped last, so that the links are already in their final format
+        if (
+            params.options?.shape &&
+            rowTemplate === undefined &&
+            format === undefined &&
+            !isCalendar &&
+            !isTaskQuery(params.query)
+        ) {
+            serializedQuery = reshapeResult(
+                serializedQuery,
+                params.options.shape,
+                isTableQuery(params.query)
+            )
+        }
     } catch (err: unknown) {
         const errorMessage = err instanceof Error ? err.message : String(err)
         log(`Failed to serialize query in file: ${params.originFile}`, 'warn', err)
-        new Notice(`Dataview Serializer: Invalid query found in ${params.originFile}`)
         return {
             success: false,
             serializedContent: '',
@@ -305,6 +441,15 @@ export const serializeQuery = async (
         }
     }
 
+    if (params.options?.format === 'frontmatter') {
+        // The plugin writes the data into the frontmatter of the note
+        return {
+            success: true,
+            serializedContent: '',
+            data: JSON.parse(serializedQuery) as ResultData[]
+        }
+    }
+
     // Apply indentation if provided.
     // Inside a blockquote/callout this also keeps otherwise-empty lines quoted.
     serializedQuery = applyIndentation(serializedQuery, params.indentation ?? '')
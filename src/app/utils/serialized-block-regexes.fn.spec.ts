@@ -9,8 +9,10 @@ import {
     buildAlreadySerializedRegex,
     buildBlockQueryReplacementRegex,
     buildDataviewJSReplacementRegex,
+    findSerializedBlockContent,
     matchExistingDataviewJSBlock,
-    matchExistingSerializedBlock
+    matchExistingSerializedBlock,
+    replaceSerializedBlockContent
 } from './serialized-block-regexes.fn'
 
 /**
@@ -112,6 +114,87 @@ describe('serialized block regexes', () => {
             const text = `${QUERY_FLAG_OPEN}${query}${QUERY_FLAG_CLOSE}\n`
             expect(matchExistingSerializedBlock(text, params)).toBeNull()
         })
+
+        it('should match the result of a query written in a code block', () => {
+            const definition = ['```dataview-serialize', 'LIST', 'FROM #project', '```'].join('\n')
+            const fencedParams = {
+                ...params,
+                flagOpen: '```dataview-serialize',
+                flagClose: '```',
+                originalQueryDefinition: definition
+            }
+            const text = [
+                definition,
+                `${SERIALIZED_QUERY_START}${query}${QUERY_FLAG_CLOSE}`,
+                '- [[A]]',
+                SERIALIZED_QUERY_END,
+                ''
+            ].join('\n')
+
+            expect(matchExistingSerializedBlock(text, fencedParams)?.content).toBe('- [[A]]\n')
+            expect(text.match(buildAlreadySerializedRegex(fencedParams))).not.toBeNull()
+            expect(`${definition}\n`.match(buildAlreadySerializedRegex(fencedParams))).toBeNull()
+        })
+    })
+
+    describe('findSerializedBlockContent', () => {
+        it('should return the content between the result markers', () => {
+            expect(findSerializedBlockContent(buildBlock('> '), quotedParams)).toBe('> - [[A]]\n')
+        })
+
+        it('should find the result of a multi-line query by its definition', () => {
+            const definition = `${QUERY_FLAG_OPEN}LIST\nFROM #project${QUERY_FLAG_CLOSE}`
+            const text = [
+                definition,
+                `${SERIALIZED_QUERY_START}${query}${QUERY_FLAG_CLOSE}`,
+                '- [[A]]',
+                SERIALIZED_QUERY_END
+            ].join('\n')
+
+            expect(
+                findSerializedBlockContent(text, { ...params, originalQueryDefinition: definition })
+            ).toBe('- [[A]]\n')
+        })
+
+        it('should return null when there is no block', () => {
+            const text = `${QUERY_FLAG_OPEN}${query}${QUERY_FLAG_CLOSE}\n`
+            expect(findSerializedBlockContent(text, params)).toBeNull()
+        })
+    })
+
+    describe('replaceSerializedBlockContent', () => {
+        it('should only replace the content between the result markers', () => {
+            const text = `Before\n${buildBlock('')}After`
+
+            const result = replaceSerializedBlockContent(text, params, '- [[B]]\n- [[C]]\n')
+
+            expect(result).toBe(
+                [
+                    'Before',
+                    `${QUERY_FLAG_OPEN}${query}${QUERY_FLAG_CLOSE}`,
+                    `${SERIALIZED_QUERY_START}${query}${QUERY_FLAG_CLOSE}`,
+                    '- [[B]]',
+                    '- [[C]]',
+                    SERIALIZED_QUERY_END,
+                    'After'
+                ].join('\n')
+            )
+        })
+
+        it('should keep the blockquote prefix of the markers', () => {
+            const result = replaceSerializedBlockContent(
+                buildBlock('> '),
+                quotedParams,
+                '> - [[B]]\n'
+            )
+
+            expect(result).toBe(buildBlock('> ').replace('[[A]]', '[[B]]'))
+        })
+
+        it('should return null when there is no block', () => {
+            const text = `${QUERY_FLAG_OPEN}${query}${QUERY_FLAG_CLOSE}\n`
+            expect(replaceSerializedBlockContent(text, params, '- [[B]]\n')).toBeNull()
+        })
     })
 
     describe('buildBlockQueryReplacementRegex', () => {
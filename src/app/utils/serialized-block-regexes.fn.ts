@@ -44,8 +44,22 @@ export interface BlockQueryRegexParams {
     flagClose: string
     /** The query's indentation (used to allow a blockquote prefix) */
     indentation: string
+    /**
+     * For multi-line queries and code blocks, the original text of the definition
+     * (from the opening flag to the closing flag). Undefined for single-line queries.
+     */
+    originalQueryDefinition?: string | undefined
 }
 
+/**
+ * Build the pattern matching the definition of a query, up to its closing flag.
+ * Multi-line queries and code blocks are matched by their original definition.
+ */
+const buildDefinitionPattern = (params: BlockQueryRegexParams): string =>
+    params.originalQueryDefinition
+        ? escapeRegExp(params.originalQueryDefinition)
+        : `${escapeRegExp(params.flagOpen)}${escapeRegExp(params.query)}\\s*${escapeRegExp(params.flagClose)}`
+
 /**
  * Match a query definition immediately followed by a result start marker.
  * Used to decide whether a query has already been serialized ('once' modes).
@@ -59,7 +73,7 @@ export interface BlockQueryRegexParams {
 export const buildAlreadySerializedRegex = (params: BlockQueryRegexParams): RegExp => {
     const prefix = buildBlockquotePrefixPattern(params.indentation)
     return new RegExp(
-        `${escapeRegExp(params.flagOpen)}${escapeRegExp(params.query)}\\s*${escapeRegExp(params.flagClose)}(?:\\n|$)${prefix}${ANY_SERIALIZED_QUERY_START}[^\\n]*${escapeRegExp(QUERY_FLAG_CLOSE)}`,
+        `${buildDefinitionPattern(params)}(?:\\n|$)${prefix}${ANY_SERIALIZED_QUERY_START}[^\\n]*${escapeRegExp(QUERY_FLAG_CLOSE)}`,
         'm'
     )
 }
@@ -90,7 +104,7 @@ export const matchExistingSerializedBlock = (
 ): ExistingSerializedBlock | null => {
     const prefix = buildBlockquotePrefixPattern(params.indentation)
     const regex = new RegExp(
-        `${escapeRegExp(params.flagOpen)}${escapeRegExp(params.query)}\\s*${escapeRegExp(params.flagClose)}(?:\\n|$)(${prefix})${ANY_SERIALIZED_QUERY_START}[^\\n]*${escapeRegExp(QUERY_FLAG_CLOSE)}(?:\\n|$)([\\s\\S]*?)(${prefix})${ANY_SERIALIZED_QUERY_END}`,
+        `${buildDefinitionPattern(params)}(?:\\n|$)(${prefix})${ANY_SERIALIZED_QUERY_START}[^\\n]*${escapeRegExp(QUERY_FLAG_CLOSE)}(?:\\n|$)([\\s\\S]*?)(${prefix})${ANY_SERIALIZED_QUERY_END}`,
         'm'
     )
 
@@ -106,14 +120,6 @@ export const matchExistingSerializedBlock = (
     }
 }
 
-export interface BlockQueryReplacementRegexParams extends BlockQueryRegexParams {
-    /**
-     * For multi-line queries, the original text of the definition (from the
-     * opening flag to the closing flag). Undefined for single-line queries.
-     */
-    originalQueryDefinition?: string | undefined
-}
-
 /**
  * Match the query definition plus any result block that follows it, so both can
  * be replaced in one go. The result block is optional (first serialization).
@@ -121,16 +127,14 @@ export interface BlockQueryReplacementRegexParams extends BlockQueryRegexParams
  * @param params The query context
  * @returns The regex
  */
-export const buildBlockQueryReplacementRegex = (
-    params: BlockQueryReplacementRegexParams
-): RegExp => {
+export const buildBlockQueryReplacementRegex = (params: BlockQueryRegexParams): RegExp => {
     const prefix = buildBlockquotePrefixPattern(params.indentation)
     // Always use QUERY_FLAG_CLOSE for result markers (plugin-generated, standard format)
     const serializedClose = escapeRegExp(QUERY_FLAG_CLOSE)
     const existingBlock = `(?:${prefix}${ANY_SERIALIZED_QUERY_START}[^\\n]*${serializedClose}(?:\\n|$)[\\s\\S]*?${prefix}${ANY_SERIALIZED_QUERY_END}(?:\\n|$))?`
 
     if (params.originalQueryDefinition) {
-        // Multi-line query: match the original multi-line definition verbatim.
+        // Multi-line query or code block: match the original definition verbatim.
         // Note: it already includes the closing flag.
         return new RegExp(
             `(${escapeRegExp(params.originalQueryDefinition)}(?:\\n|$))${existingBlock}`,
@@ -149,6 +153,57 @@ export const buildBlockQueryReplacementRegex = (
     )
 }
 
+/**
+ * Match the result block of a query, capturing the definition and start marker (1),
+ * the content (2) and the end marker (3).
+ * Multi-line queries and code blocks are matched by their original definition.
+ */
+const buildSerializedBlockContentRegex = (params: BlockQueryRegexParams): RegExp => {
+    const prefix = buildBlockquotePrefixPattern(params.indentation)
+    return new RegExp(
+        `(${buildDefinitionPattern(params)}(?:\\n|$)${prefix}${ANY_SERIALIZED_QUERY_START}[^\\n]*${escapeRegExp(QUERY_FLAG_CLOSE)}(?:\\n|$))([\\s\\S]*?)(${prefix}${ANY_SERIALIZED_QUERY_END})`,
+        'm'
+    )
+}
+
+/**
+ * Find the content of the result block of a query, multi-line queries included
+ *
+ * @param text The document text
+ * @param params The query context
+ * @returns The text between the result markers, or null when the query has no result block
+ */
+export const findSerializedBlockContent = (
+    text: string,
+    params: BlockQueryRegexParams
+): string | null => buildSerializedBlockContentRegex(params).exec(text)?.[2] ?? null
+
+/**
+ * Replace the content of the result block of a query, keeping its definition and
+ * its result markers untouched. Used to restore a past result.
+ *
+ * @param text The document text
+ * @param params The query context
+ * @param content The new content, exactly as it must sit between the result markers
+ * @returns The updated text, or null when the query has no result block
+ */
+export const replaceSerializedBlockContent = (
+    text: string,
+    params: BlockQueryRegexParams,
+    content: string
+): string | null => {
+    const regex = buildSerializedBlockContentRegex(params)
+
+    if (!regex.test(text)) {
+        return null
+    }
+
+    return text.replace(
+        regex,
+        (_match, head: string, _content: string, tail: string) => `${head}${content}${tail}`
+    )
+}
+
 export interface DataviewJSRegexParams {
     /** The original text of the DataviewJS query definition */
     originalQueryDefinition: string
@@ -156,6 +156,26 @@ describe('shouldSkipQuery', () => {
                 expect(result).toBe(false)
             })
         })
+
+        describe('scheduled update mode', () => {
+            it('should NOT skip scheduled queries (not serialized)', () => {
+                const result = shouldSkipQuery({
+                    updateMode: 'scheduled',
+                    isManualTrigger: false,
+                    isAlreadySerialized: false
+                })
+                expect(result).toBe(false)
+            })
+
+            it('should NOT skip scheduled queries (already serialized)', () => {
+                const result = shouldSkipQuery({
+                    updateMode: 'scheduled',
+                    isManualTrigger: false,
+                    isAlreadySerialized: true
+                })
+                expect(result).toBe(false)
+            })
+        })
     })
 
     describe('edge cases', () => {
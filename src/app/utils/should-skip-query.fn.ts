@@ -35,6 +35,6 @@ export function shouldSkipQuery(params: ShouldSkipQueryParams): boolean {
     // 'once-and-eject' queries are never skipped - if we see the flag, it hasn't been ejected yet
     // After ejection, the flag will be removed, so the query won't be detected at all
 
-    // 'auto' queries are never skipped
+    // 'auto' and 'scheduled' queries are never skipped
     return false
 }
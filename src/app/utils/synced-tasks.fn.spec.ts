@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'bun:test'
+import {
+    excludeSyncedTaskCopies,
+    findSyncedTasks,
+    renderSyncedTasks,
+    updateTaskStatus,
+    type TaskResultItem
+} from './synced-tasks.fn'
+
+const item = (
+    line: number,
+    text: string,
+    status?: string,
+    children: TaskResultItem[] = []
+): TaskResultItem => ({
+    task: status !== undefined,
+    status,
+    text,
+    path: 'Projects/A.md',
+    line,
+    children
+})
+
+describe('renderSyncedTasks', () => {
+    it('should keep the checkboxes and tag each task with its location', () => {
+        expect(
+            renderSyncedTasks([
+                item(3, 'Write the plan', ' ', [item(4, 'Draft', 'x'), item(5, 'A note')]),
+                item(9, 'Ship it ^ship', 'x')
+            ])
+        ).toBe(
+            [
+                '- [ ] Write the plan <!-- dvs-task: Projects/A.md:3 -->',
+                '    - [x] Draft <!-- dvs-task: Projects/A.md:4 -->',
+                '    - A note',
+                '- [x] Ship it <!-- dvs-task: Projects/A.md:9 -->'
+            ].join('\n')
+        )
+    })
+
+    it('should render groups as list items holding their tasks', () => {
+        expect(renderSyncedTasks([{ key: 'Projects/A.md', rows: [item(3, 'Plan', ' ')] }])).toBe(
+            '- Projects/A.md\n    - [ ] Plan <!-- dvs-task: Projects/A.md:3 -->'
+        )
+    })
+})
+
+describe('excludeSyncedTaskCopies', () => {
+    it('should filter the tasks before the commands of the query', () => {
+        expect(excludeSyncedTaskCopies('TASK FROM #project WHERE !completed GROUP BY file')).toBe(
+            'TASK FROM #project\nWHERE !contains(text, "dvs-task:") WHERE !completed GROUP BY file'
+        )
+        expect(excludeSyncedTaskCopies('task\nlimit 5')).toBe(
+            'task\nWHERE !contains(text, "dvs-task:")\nlimit 5'
+        )
+    })
+
+    it('should not take the words of strings, links and comments for commands', () => {
+        const query = 'TASK FROM "Sort where" OR [[Group by]]\n// limit'
+
+        expect(excludeSyncedTaskCopies(query)).toBe(`${query}\nWHERE !contains(text, "dvs-task:")`)
+    })
+})
+
+describe('findSyncedTasks', () => {
+    it('should find the synced tasks, in callouts too', () => {
+        const text = [
+            '- [ ] Plan <!-- dvs-task: Projects/A.md:3 -->',
+            '> - [x] Draft: v2 <!-- dvs-task: Notes/B: old.md:12 -->',
+            '- [ ] Not synced'
+        ].join('\n')
+
+        expect(findSyncedTasks(text)).toEqual([
+            { status: ' ', text: 'Plan', sourcePath: 'Projects/A.md', line: 3 },
+            { status: 'x', text: 'Draft: v2', sourcePath: 'Notes/B: old.md', line: 12 }
+        ])
+    })
+})
+
+describe('updateTaskStatus', () => {
+    const source = '# A\n\n- [ ] Plan\n    - [ ] Ship it ^ship\n'
+
+    it('should set the status of the original task', () => {
+        expect(
+            updateTaskStatus(source, { sourcePath: 'A.md', line: 3, status: 'x', text: 'Ship it' })
+        ).toBe('# A\n\n- [ ] Plan\n    - [x] Ship it ^ship\n')
+    })
+
+    it('should refuse a line that no longer holds the task', () => {
+        expect(
+            updateTaskStatus(source, { sourcePath: 'A.md', line: 2, status: 'x', text: 'Ship it' })
+        ).toBeNull()
+        expect(
+            updateTaskStatus(source, { sourcePath: 'A.md', line: 0, status: 'x', text: '# A' })
+        ).toBeNull()
+    })
+})
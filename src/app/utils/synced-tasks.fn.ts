@@ -0,0 +1,167 @@
+import { escapeRegExp } from './escape-reg-exp.fn'
+
+/**
+ * Opening of the tag written at the end of a synced task, naming the task it copies
+ */
+export const TASK_SOURCE_TAG_OPEN = '<!-- dvs-task: '
+const TASK_SOURCE_TAG_CLOSE = ' -->'
+
+/**
+ * Structural view of the list items of a TASK query result. Dataview's typings
+ * reference modules that do not resolve here, so we declare only the fields we read.
+ */
+export interface TaskResultItem {
+    task: boolean
+    /** The text between the brackets; a space when unchecked */
+    status?: string
+    text: string
+    path: string
+    /** The line of the item in its note (0-based) */
+    line: number
+    children: TaskResultItem[]
+}
+
+/**
+ * The items of a TASK query result, or their groups (`GROUP BY`)
+ */
+export type TaskResultGrouping = TaskResultItem[] | { key: unknown; rows: TaskResultGrouping }[]
+
+/**
+ * A task of a note, copied by a TASK query with the `syncTasks` option
+ */
+export interface SyncedTask {
+    /** The note holding the original task */
+    sourcePath: string
+    /** The line of the original task (0-based) */
+    line: number
+    /** The text between the brackets of the copy */
+    status: string
+    /** The first line of the text of the task, without its tag */
+    text: string
+}
+
+const INDENT = '    '
+
+/**
+ * Matches a synced task: its checkbox, text and source tag
+ */
+const SYNCED_TASK_REGEX = new RegExp(
+    `^[ \\t>]*[-*+] \\[(.)\\] (.*?) ?${escapeRegExp(TASK_SOURCE_TAG_OPEN)}(.+):(\\d+)${escapeRegExp(TASK_SOURCE_TAG_CLOSE)}[ \\t]*$`,
+    'gm'
+)
+
+/**
+ * Matches a task line: its list marker and opening bracket, status and text
+ */
+const TASK_LINE_REGEX = /^([ \t>]*(?:[-*+]|\d+[.)])[ \t]+\[)(.)(\][ \t]?)(.*)$/
+
+/**
+ * Remove the block id ending a line. Copies must not repeat the block ids of their tasks.
+ */
+const withoutBlockId = (line: string): string => line.replace(/\s+\^[\w-]+\s*$/, '')
+
+export const buildTaskSourceTag = (path: string, line: number): string =>
+    `${TASK_SOURCE_TAG_OPEN}${path}:${line}${TASK_SOURCE_TAG_CLOSE}`
+
+/**
+ * Clause leaving the synced copies out of a TASK query. Dataview indexes the copies like
+ * any other task; without it, serialized tasks would feed the queries again.
+ */
+export const SYNCED_TASK_COPIES_FILTER = 'WHERE !contains(text, "dvs-task:")'
+
+/**
+ * Matches what cannot hold a command of a query: strings, links and comments
+ */
+const QUERY_LITERAL_REGEX = /"(?:[^"\\\n]|\\.)*"|\[\[[^\]\n]*\]\]|\/\/[^\n]*/g
+
+/**
+ * Matches the first command of a query, after its type and data source
+ */
+const QUERY_COMMAND_REGEX = /\s(?:where|sort|group\s+by|flatten|limit)(?=\s|$)/i
+
+const isGroup = (
+    value: TaskResultItem | { key: unknown; rows: TaskResultGrouping }
+): value is { key: unknown; rows: TaskResultGrouping } => 'rows' in value
+
+const renderItem = (item: TaskResultItem, indent: string): string[] => {
+    const [firstLine = '', ...otherLines] = item.text.split('\n')
+    const text = withoutBlockId(firstLine)
+    const lines = [
+        item.task
+            ? `${indent}- [${item.status ?? ' '}] ${text} ${buildTaskSourceTag(item.path, item.line)}`
+            : `${indent}- ${text}`,
+        ...otherLines.map((line) => `${indent}  ${line}`)
+    ]
+    for (const child of item.children) {
+        lines.push(...renderItem(child, indent + INDENT))
+    }
+    return lines
+}
+
+const renderGrouping = (grouping: TaskResultGrouping, indent: string): string[] =>
+    grouping.flatMap((value) => {
+        if (isGroup(value)) {
+            return [
+                `${indent}- ${String(value.key)}`,
+                ...renderGrouping(value.rows, indent + INDENT)
+            ]
+        }
+        return renderItem(value, indent)
+    })
+
+/**
+ * Render the result of a TASK query as a task list keeping its checkboxes. Each task
+ * is tagged with its location, so that ticking it can be written back to it. Groups
+ * become list items holding their tasks.
+ *
+ * @param grouping The items of the result, or their groups
+ * @returns The task list
+ */
+export const renderSyncedTasks = (grouping: TaskResultGrouping): string =>
+    renderGrouping(grouping, '').join('\n')
+
+/**
+ * Leave the synced copies out of a TASK query. The filter comes before the commands of
+ * the query, so that they apply to the remaining tasks (e.g. `LIMIT`, `GROUP BY`).
+ *
+ * @param query The TASK query
+ * @returns The query, filtered
+ */
+export const excludeSyncedTaskCopies = (query: string): string => {
+    // Strings, links and comments are blanked out, so that their words are not taken
+    // for commands
+    const blanked = query.replace(QUERY_LITERAL_REGEX, (literal) => '_'.repeat(literal.length))
+    const commandIndex = QUERY_COMMAND_REGEX.exec(blanked)?.index ?? query.length
+    return `${query.slice(0, commandIndex)}\n${SYNCED_TASK_COPIES_FILTER}${query.slice(commandIndex)}`
+}
+
+/**
+ * Find the synced tasks of a note
+ */
+export const findSyncedTasks = (text: string): SyncedTask[] =>
+    [...text.matchAll(SYNCED_TASK_REGEX)].map((match) => ({
+        status: match[1]!,
+        text: match[2]!,
+        sourcePath: match[3]!,
+        line: Number(match[4])
+    }))
+
+/**
+ * Set the status of the original task of a synced copy
+ *
+ * @param text The text of the note holding the original task
+ * @param task The synced copy
+ * @returns The updated text, or null when the line no longer holds the task
+ */
+export const updateTaskStatus = (text: string, task: SyncedTask): string | null => {
+    const lines = text.split('\n')
+    const taskMatch = TASK_LINE_REGEX.exec(lines[task.line] ?? '')
+
+    // The note changed since the task was copied
+    if (!taskMatch || withoutBlockId(taskMatch[4]!).trim() !== task.text.trim()) {
+        return null
+    }
+
+    lines[task.line] = `${taskMatch[1]}${task.status}${taskMatch[3]}${taskMatch[4]}`
+    return lines.join('\n')
+}
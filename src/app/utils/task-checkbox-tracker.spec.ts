@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'bun:test'
+import { TaskCheckboxTracker } from './task-checkbox-tracker'
+import type { SyncedTask } from './synced-tasks.fn'
+
+const task = (line: number, status: string): SyncedTask => ({
+    sourcePath: 'Projects/A.md',
+    line,
+    status,
+    text: `Task ${line}`
+})
+
+describe('TaskCheckboxTracker', () => {
+    it('should return the tasks whose status changed since they were recorded', () => {
+        const tracker = new TaskCheckboxTracker()
+        tracker.record('Dashboard.md', [task(3, ' '), task(5, ' ')])
+
+        expect(tracker.update('Dashboard.md', [task(3, 'x'), task(5, ' ')])).toEqual([task(3, 'x')])
+        expect(tracker.update('Dashboard.md', [task(3, 'x'), task(5, ' ')])).toEqual([])
+    })
+
+    it('should not report the tasks of a note seen for the first time', () => {
+        const tracker = new TaskCheckboxTracker()
+
+        expect(tracker.update('Dashboard.md', [task(3, 'x')])).toEqual([])
+        expect(tracker.has('Dashboard.md')).toBe(true)
+    })
+
+    it('should not report the tasks added since the last record', () => {
+        const tracker = new TaskCheckboxTracker()
+        tracker.record('Dashboard.md', [task(3, ' ')])
+
+        expect(tracker.update('Dashboard.md', [task(3, ' '), task(8, 'x')])).toEqual([])
+    })
+
+    it('should follow renamed notes and forget deleted ones', () => {
+        const tracker = new TaskCheckboxTracker()
+        tracker.record('Dashboard.md', [task(3, ' ')])
+
+        tracker.rename('Dashboard.md', 'Home.md')
+        expect(tracker.has('Dashboard.md')).toBe(false)
+        expect(tracker.update('Home.md', [task(3, 'x')])).toEqual([task(3, 'x')])
+
+        tracker.delete('Home.md')
+        expect(tracker.has('Home.md')).toBe(false)
+    })
+})
@@ -0,0 +1,57 @@
+import type { SyncedTask } from './synced-tasks.fn'
+
+const buildTaskKey = (task: SyncedTask): string => `${task.sourcePath}:${task.line}`
+
+/**
+ * Last known status of the synced tasks of each note, to tell the checkboxes ticked
+ * by the user apart from those written by the plugin.
+ *
+ * Only kept in memory: after a restart, the statuses found in the notes are the
+ * starting point.
+ */
+export class TaskCheckboxTracker {
+    private readonly statuses = new Map<string, Map<string, string>>()
+
+    has(path: string): boolean {
+        return this.statuses.has(path)
+    }
+
+    /**
+     * Record the statuses of the synced tasks of a note, as written by the plugin
+     */
+    record(path: string, tasks: SyncedTask[]): void {
+        this.statuses.set(path, new Map(tasks.map((task) => [buildTaskKey(task), task.status])))
+    }
+
+    /**
+     * Record the statuses of the synced tasks of a note, as edited by the user
+     *
+     * @returns The tasks whose status changed since they were last recorded. Tasks that
+     * were not recorded yet have not changed.
+     */
+    update(path: string, tasks: SyncedTask[]): SyncedTask[] {
+        const previousStatuses = this.statuses.get(path)
+        this.record(path, tasks)
+
+        if (!previousStatuses) {
+            return []
+        }
+
+        return tasks.filter((task) => {
+            const previousStatus = previousStatuses.get(buildTaskKey(task))
+            return previousStatus !== undefined && previousStatus !== task.status
+        })
+    }
+
+    delete(path: string): void {
+        this.statuses.delete(path)
+    }
+
+    rename(oldPath: string, newPath: string): void {
+        const statuses = this.statuses.get(oldPath)
+        if (statuses) {
+            this.statuses.delete(oldPath)
+            this.statuses.set(newPath, statuses)
+        }
+    }
+}
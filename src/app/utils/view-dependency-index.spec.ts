@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'bun:test'
+import { ViewDependencyIndex } from './view-dependency-index'
+
+describe('ViewDependencyIndex', () => {
+    it('should find the notes whose queries loaded a view script', () => {
+        const index = new ViewDependencyIndex()
+        index.set('Dashboard.md', 'await dv.view("views/tasks")', ['views/tasks.js'])
+        index.set('Home.md', 'await dv.view("views/tasks")', ['views/tasks.js'])
+        index.set('Home.md', 'await dv.view("views/cards")', ['views/cards/view.js'])
+
+        expect(index.findCallers('views/tasks.js')).toEqual(['Dashboard.md', 'Home.md'])
+        expect(index.findCallers('views/cards/view.js')).toEqual(['Home.md'])
+        expect(index.findCallers('views/other.js')).toEqual([])
+    })
+
+    it('should forget the queries that stopped loading view scripts or were removed', () => {
+        const index = new ViewDependencyIndex()
+        index.set('Home.md', 'a', ['views/a.js'])
+        index.set('Home.md', 'b', ['views/b.js'])
+
+        index.set('Home.md', 'a', [])
+        expect(index.findCallers('views/a.js')).toEqual([])
+
+        index.retain('Home.md', ['c'])
+        expect(index.findCallers('views/b.js')).toEqual([])
+    })
+
+    it('should follow renamed notes and forget deleted ones', () => {
+        const index = new ViewDependencyIndex()
+        index.set('Dashboard.md', 'a', ['views/a.js'])
+
+        index.rename('Dashboard.md', 'Home.md')
+        expect(index.findCallers('views/a.js')).toEqual(['Home.md'])
+
+        index.delete('Home.md')
+        expect(index.findCallers('views/a.js')).toEqual([])
+    })
+})
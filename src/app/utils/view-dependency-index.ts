@@ -0,0 +1,77 @@
+/**
+ * In-memory index of the view scripts loaded by the DataviewJS queries of each note
+ * through `dv.view()`, so that editing a view script re-serializes its callers.
+ *
+ * View scripts are only known once a query ran: after a restart, the callers of a
+ * view script are found again as their queries are serialized.
+ */
+export class ViewDependencyIndex {
+    /** Note path → DataviewJS code → paths of the view scripts it loaded */
+    private readonly entries = new Map<string, Map<string, string[]>>()
+
+    /**
+     * Record the view scripts loaded by a DataviewJS query of a note.
+     * A query loading none is removed from the index.
+     */
+    set(path: string, jsCode: string, viewPaths: string[]): void {
+        const queries = this.entries.get(path) ?? new Map<string, string[]>()
+        if (viewPaths.length === 0) {
+            queries.delete(jsCode)
+        } else {
+            queries.set(jsCode, viewPaths)
+        }
+
+        if (queries.size === 0) {
+            this.entries.delete(path)
+        } else {
+            this.entries.set(path, queries)
+        }
+    }
+
+    /**
+     * Forget the queries of a note that are not part of it anymore
+     *
+     * @param path The path of the note
+     * @param jsCodes The code of the DataviewJS queries the note still holds
+     */
+    retain(path: string, jsCodes: string[]): void {
+        const queries = this.entries.get(path)
+        if (!queries) {
+            return
+        }
+
+        for (const jsCode of queries.keys()) {
+            if (!jsCodes.includes(jsCode)) {
+                queries.delete(jsCode)
+            }
+        }
+        if (queries.size === 0) {
+            this.entries.delete(path)
+        }
+    }
+
+    /**
+     * Find the notes holding at least one query that loaded the given view script
+     */
+    findCallers(viewPath: string): string[] {
+        const callers: string[] = []
+        for (const [path, queries] of this.entries) {
+            if ([...queries.values()].some((viewPaths) => viewPaths.includes(viewPath))) {
+                callers.push(path)
+            }
+        }
+        return callers
+    }
+
+    delete(path: string): void {
+        this.entries.delete(path)
+    }
+
+    rename(oldPath: string, newPath: string): void {
+        const queries = this.entries.get(oldPath)
+        if (queries) {
+            this.entries.delete(oldPath)
+            this.entries.set(newPath, queries)
+        }
+    }
+}